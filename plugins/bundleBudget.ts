@@ -0,0 +1,91 @@
+import { gzipSync } from 'node:zlib'
+import type { Plugin } from 'vite'
+import type { OutputBundle, OutputChunk } from 'rollup'
+
+// Gzipped size limits in kB. `entry` covers what every page downloads (the
+// shell + Dashboard); `route` is the extra code a single app route adds on top.
+export interface BundleBudgetOptions {
+  entry: number
+  route: number
+  overrides?: Record<string, number> // Per app, keyed by its folder in src/apps
+}
+
+interface RouteReport {
+  name: string
+  kb: number
+  budget: number
+}
+
+const APP_ENTRY = /\/src\/apps\/([^/]+)\/\1\.tsx$/
+
+function gzipKb(chunk: OutputChunk) {
+  return gzipSync(chunk.code).length / 1024
+}
+
+// Chunks statically reachable from `start`, including itself.
+function closure(start: OutputChunk, bundle: OutputBundle) {
+  const seen = new Set<OutputChunk>()
+  const visit = (chunk: OutputChunk) => {
+    if (seen.has(chunk)) return
+    seen.add(chunk)
+    for (const file of chunk.imports) {
+      const dep = bundle[file]
+      if (dep?.type === 'chunk') visit(dep)
+    }
+  }
+  visit(start)
+  return seen
+}
+
+/**
+ * Prints the gzipped weight of the shell and of every lazily loaded app route
+ * after `vite build`, and fails the build when one of them goes over its budget.
+ */
+export function bundleBudget(options: BundleBudgetOptions): Plugin {
+  let reports: RouteReport[] = []
+
+  return {
+    name: 'bundle-budget',
+    apply: 'build',
+
+    generateBundle(_, bundle) {
+      const chunks = Object.values(bundle).filter((c): c is OutputChunk => c.type === 'chunk')
+      const entry = chunks.find(c => c.isEntry)
+      if (!entry) return
+
+      const shell = closure(entry, bundle)
+      const sum = (set: Iterable<OutputChunk>) => [...set].reduce((kb, c) => kb + gzipKb(c), 0)
+
+      reports = [{ name: '/ (shell)', kb: sum(shell), budget: options.entry }]
+
+      for (const chunk of chunks) {
+        // An app chunk that also exports modules to its own lazy children has no
+        // facade module, so look for the app entry among the modules it holds
+        const entryId = chunk.facadeModuleId ?? chunk.moduleIds.find(id => APP_ENTRY.test(id))
+        const match = chunk.isDynamicEntry && entryId?.match(APP_ENTRY)
+        if (!match || reports.some(r => r.name === match[1])) continue
+        const own = [...closure(chunk, bundle)].filter(c => !shell.has(c))
+        reports.push({
+          name: match[1],
+          kb: sum(own),
+          budget: options.overrides?.[match[1]] ?? options.route,
+        })
+      }
+    },
+
+    closeBundle() {
+      if (reports.length === 0) return
+      const width = Math.max(...reports.map(r => r.name.length))
+      console.log('\nPresupuesto por ruta (kB gzip, sin contar el shell en las apps):')
+      for (const r of reports) {
+        const status = r.kb > r.budget ? 'EXCEDE' : 'ok'
+        console.log(`  ${r.name.padEnd(width)}  ${r.kb.toFixed(1).padStart(7)} / ${String(r.budget).padStart(4)}  ${status}`)
+      }
+      // After the table, so the failing route can be compared with the rest
+      const over = reports.filter(r => r.kb > r.budget)
+      if (over.length > 0) {
+        this.error(over.map(r => `${r.name} pesa ${r.kb.toFixed(1)} kB gzip (presupuesto ${r.budget} kB)`).join('; '))
+      }
+    },
+  }
+}
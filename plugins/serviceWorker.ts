@@ -0,0 +1,96 @@
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+import type { Plugin } from 'vite'
+
+// Files that never go into the precache. KaTeX ships every font as woff2, woff
+// and ttf; any browser with service workers uses the woff2 one.
+const SKIP = [/\.(woff|ttf|map)$/, /^_redirects$/]
+
+function publicFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true, recursive: true })
+    .filter(entry => entry.isFile())
+    .map(entry => relative(dir, join(entry.parentPath, entry.name)).split(sep).join('/'))
+}
+
+// Plain JS: it runs as-is in the worker, outside the app bundle.
+function workerSource(cacheName: string, urls: string[]) {
+  return `// Generado por plugins/serviceWorker.ts en cada build
+const CACHE = ${JSON.stringify(cacheName)}
+const PRECACHE = ${JSON.stringify(urls, null, 2)}
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('mcon-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// The update banner asks the new version to take over
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting()
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  // Every route is the same SPA shell, served from the precache so it always
+  // matches the chunks cached next to it
+  const lookup = request.mode === 'navigate' ? '/index.html' : request
+  event.respondWith(
+    caches.open(CACHE)
+      .then(cache => cache.match(lookup))
+      .then(cached => cached || fetch(request))
+  )
+})
+`
+}
+
+/**
+ * Emits `sw.js` after `vite build`: it precaches the shell, every lazily loaded
+ * app chunk, the KaTeX fonts and the files in `public/` so the hub works offline.
+ * The cache name is a hash of all those files, so each deploy that changes
+ * something installs a new worker and the app can offer to update.
+ */
+export function serviceWorker(): Plugin {
+  let publicDir = ''
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const files: string[] = []
+
+      for (const item of Object.values(bundle)) {
+        if (SKIP.some(re => re.test(item.fileName))) continue
+        files.push(item.fileName)
+        hash.update(item.fileName).update(item.type === 'chunk' ? item.code : item.source)
+      }
+      for (const file of publicDir ? publicFiles(publicDir) : []) {
+        if (SKIP.some(re => re.test(file))) continue
+        files.push(file)
+        hash.update(file).update(readFileSync(join(publicDir, file)))
+      }
+
+      const urls = files.sort().map(file => `/${file}`)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: workerSource(`mcon-${hash.digest('hex').slice(0, 12)}`, urls),
+      })
+    },
+  }
+}
@@ -0,0 +1,109 @@
+// Verifies the i18n catalogs (npm run i18n:check):
+//  - every key of locales/es.json exists in locales/en.json and vice versa
+//  - both languages use the same {placeholders}
+//  - every literal key passed to t/tr/rich in the sources exists in the
+//    catalog of its module (the app's own catalog, then the hub one)
+// Keys built with template literals (`apps.${id}.title`) cannot be checked here.
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+
+const ROOT = new URL('..', import.meta.url).pathname
+const SRC = join(ROOT, 'src')
+const HUB_DIR = join(SRC, 'i18n')
+const APPS_DIR = join(SRC, 'apps')
+
+const problems = []
+
+function walk(dir, accept) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) return walk(path, accept)
+    return accept(path) ? [path] : []
+  })
+}
+
+function readCatalog(dir, locale) {
+  return JSON.parse(readFileSync(join(dir, 'locales', `${locale}.json`), 'utf8'))
+}
+
+// { a: { b: 'x' } } -> Map { 'a.b' => 'x' }
+function flatten(catalog, prefix = '', out = new Map()) {
+  for (const [key, value] of Object.entries(catalog)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (typeof value === 'string') out.set(path, value)
+    else flatten(value, path, out)
+  }
+  return out
+}
+
+function placeholders(text) {
+  return [...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort().join(',')
+}
+
+// Same rules as `lookup` in src/i18n/translate.ts; plural nodes count as leaves
+function resolves(catalog, key) {
+  let node = catalog
+  for (const part of key.split('.')) {
+    if (node === undefined || typeof node === 'string') return false
+    node = node[part]
+  }
+  return typeof node === 'string' || (node !== undefined && typeof node.other === 'string')
+}
+
+function compareLocales(dir) {
+  const name = relative(ROOT, join(dir, 'locales'))
+  const es = flatten(readCatalog(dir, 'es'))
+  const en = flatten(readCatalog(dir, 'en'))
+  for (const [key, text] of es) {
+    if (!en.has(key)) problems.push(`${name}: "${key}" falta en en.json`)
+    else if (placeholders(text) !== placeholders(en.get(key))) {
+      problems.push(`${name}: "${key}" usa placeholders distintos en es/en`)
+    }
+  }
+  for (const key of en.keys()) {
+    if (!es.has(key)) problems.push(`${name}: "${key}" sobra en en.json (no existe en es.json)`)
+  }
+}
+
+const KEY_PATTERNS = [
+  /\b(?:t|tr|rich)\(\s*(['"])([\w.-]+)\1/g,
+  /\b(?:t|tr|rich)\(\s*`([^`$]+)`/g,
+]
+
+function checkSources(files, catalogs) {
+  for (const file of files) {
+    const source = readFileSync(file, 'utf8')
+    for (const pattern of KEY_PATTERNS) {
+      for (const match of source.matchAll(pattern)) {
+        const key = match[match.length - 1]
+        if (!catalogs.some(catalog => resolves(catalog, key))) {
+          const line = source.slice(0, match.index).split('\n').length
+          problems.push(`${relative(ROOT, file)}:${line}: clave "${key}" no existe en el catálogo`)
+        }
+      }
+    }
+  }
+}
+
+const isSource = path => /\.tsx?$/.test(path)
+const hub = readCatalog(HUB_DIR, 'es')
+const catalogDirs = walk(SRC, path => path.endsWith(`${sep}locales${sep}es.json`))
+  .map(path => join(path, '..', '..'))
+
+for (const dir of catalogDirs) compareLocales(dir)
+
+// Apps resolve against their own catalog first, like useI18n(MESSAGES)
+for (const entry of readdirSync(APPS_DIR, { withFileTypes: true })) {
+  if (!entry.isDirectory()) continue
+  const dir = join(APPS_DIR, entry.name)
+  const own = catalogDirs.includes(dir) ? [readCatalog(dir, 'es')] : []
+  checkSources(walk(dir, isSource), [...own, hub])
+}
+checkSources(walk(SRC, path => isSource(path) && !path.startsWith(APPS_DIR + sep)), [hub])
+
+if (problems.length > 0) {
+  console.error(problems.join('\n'))
+  console.error(`\ni18n: ${problems.length} problema(s)`)
+  process.exit(1)
+}
+console.log(`i18n: ${catalogDirs.length} catálogos en orden`)
@@ -1,39 +1,38 @@
+import { Suspense } from "react";
 import { Routes, Route } from "react-router-dom";
 import { Layout } from "./components/Layout";
 import { Dashboard } from "./pages/Dashboard";
 import { CategoryPage } from "./pages/CategoryPage";
-import VelocityField from "./apps/VelocityField/VelocityField";
-import Deformations from "./apps/Deformations/Deformations";
-import DiscreteContinuous from "./apps/DiscreteContinuous/DiscreteContinuous";
-import MeanFreePath from "./apps/MeanFreePath/MeanFreePath";
-import EulerLagrange from "./apps/EulerLagrange/EulerLagrange";
-import Meniscus from "./apps/Meniscus/Meniscus";
-import HydrostaticPressure from "./apps/HydrostaticPressure/HydrostaticPressure";
-import ParallelAtmospheres from "./apps/ParallelAtmospheres/ParallelAtmospheres";
-import StressTensor from "./apps/StressTensor/StressTensor";
-import EulerFlowTable from "./apps/EulerFlowTable/EulerFlowTable";
-import StreamFunctionExplainer from "./apps/StreamFunctionExplainer/StreamFunctionExplainer";
+import { LessonsPage } from "./pages/LessonsPage";
+import { EmbedPage } from "./pages/EmbedPage";
+import { RouteFallback } from "./components/RouteFallback";
+import { apps } from "./data/apps";
 
-function App() {
+function Hub() {
   return (
     <Layout>
-      <Routes>
-        <Route path="/" element={<Dashboard />} />
-        <Route path="/category/:categoryId" element={<CategoryPage />} />
-        <Route path="/apps/velocity-field" element={<VelocityField />} />
-        <Route path="/apps/calc-deformaciones" element={<Deformations />} />
-        <Route path="/apps/discreto-continuo" element={<DiscreteContinuous />} />
-        <Route path="/apps/camino-libre-medio" element={<MeanFreePath />} />
-        <Route path="/apps/euler-lagrange" element={<EulerLagrange />} />
-        <Route path="/apps/tablero-flujo-ideal-euler" element={<EulerFlowTable />} />
-        <Route path="/apps/funcion-corriente" element={<StreamFunctionExplainer />} />
-        <Route path="/apps/meniscus" element={<Meniscus />} />
-        <Route path="/apps/hydrostatic-pressure" element={<HydrostaticPressure />} />
-        <Route path="/apps/parallel-atmospheres" element={<ParallelAtmospheres />} />
-        <Route path="/apps/stress-tensor" element={<StressTensor />} />
-      </Routes>
+      <Suspense fallback={<RouteFallback />}>
+        <Routes>
+          <Route path="/" element={<Dashboard />} />
+          <Route path="/category/:categoryId" element={<CategoryPage />} />
+          <Route path="/lessons" element={<LessonsPage />} />
+          {apps.map((app) => (
+            <Route key={app.id} path={app.url} element={<app.component />} />
+          ))}
+        </Routes>
+      </Suspense>
     </Layout>
   );
 }
 
+function App() {
+  return (
+    <Routes>
+      {/* Bare simulations for iframes (LMS, slides), outside the hub layout */}
+      <Route path="/embed/:appId" element={<EmbedPage />} />
+      <Route path="*" element={<Hub />} />
+    </Routes>
+  );
+}
+
 export default App;
@@ -0,0 +1,108 @@
+import { AlertTriangle, Check, ChevronDown, Play } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { MathRender } from '../../lib/MathRender';
+import { STRAIN_COMPONENTS, STRAIN_EXAMPLES } from './strainExamples';
+import type { StrainExample, StrainField } from './strainExamples';
+import type { StrainAnalysis } from './compatibility';
+
+interface CompatibilityPanelProps {
+    field: StrainField;
+    onFieldChange: (field: Partial<StrainField>) => void;
+    analysis: StrainAnalysis | null;
+    loading: boolean;
+    onCheck: () => void;
+}
+
+// Entrada de ε(x, y, z), ecuaciones de Saint-Venant y desplazamiento reconstruido
+export default function CompatibilityPanel({ field, onFieldChange, analysis, loading, onCheck }: CompatibilityPanelProps) {
+    const { t, formatNumber } = useI18n(MESSAGES);
+
+    return (
+        <div className="space-y-2">
+            <div className="relative">
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onFieldChange(STRAIN_EXAMPLES[e.target.value as StrainExample])}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300"
+                >
+                    <option value="">{t('strain.example')}</option>
+                    {Object.keys(STRAIN_EXAMPLES).map((key) => (
+                        <option key={key} value={key}>{t(`strain.examples.${key}`)}</option>
+                    ))}
+                </select>
+                <ChevronDown size={16} className="absolute right-3 top-3 text-slate-500 pointer-events-none"/>
+            </div>
+
+            <div className="grid grid-cols-3 gap-1">
+                {STRAIN_COMPONENTS.map((key) => (
+                    <label key={key} className="flex flex-col gap-0.5">
+                        <span className="text-[10px] font-bold text-slate-400 font-mono">ε{key}</span>
+                        <input
+                            value={field[key]}
+                            onChange={(e) => onFieldChange({ [key]: e.target.value })}
+                            className="w-full bg-slate-950 border border-slate-700 rounded-lg p-1.5 font-mono text-xs focus:border-blue-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors text-slate-200"
+                            placeholder="0"
+                        />
+                    </label>
+                ))}
+            </div>
+            <p className="text-[10px] text-slate-500">{t('strain.hint')}</p>
+
+            <button
+                onClick={onCheck}
+                disabled={loading}
+                className="w-full py-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white font-bold rounded-lg shadow-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
+            >
+                {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"/> : <Play size={18} fill="currentColor"/>}
+                {loading ? t('calculating') : t('strain.check')}
+            </button>
+
+            {analysis && (
+                <div className="space-y-1">
+                    {analysis.equations.map((eq, i) => (
+                        <div key={i} className={`rounded border px-2 py-1 text-[10px] ${eq.satisfied ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-200' : 'border-rose-500/30 bg-rose-500/10 text-rose-200'}`}>
+                            <div className="flex items-center gap-1 font-medium">
+                                {eq.satisfied ? <Check size={12} /> : <AlertTriangle size={12} />}
+                                {t(eq.satisfied ? 'strain.satisfied' : 'strain.violated', { n: i + 1 })}
+                            </div>
+                            <div className="overflow-x-auto text-slate-200">
+                                <MathRender math={eq.equationTex} />
+                            </div>
+                            {!eq.satisfied && (
+                                <>
+                                    <div className="overflow-x-auto text-slate-200">
+                                        <MathRender math={`r_${i + 1} = ${eq.residualTex}`} />
+                                    </div>
+                                    <div className="font-mono">
+                                        {t('strain.worst', {
+                                            value: formatNumber(eq.worst.value, 3),
+                                            point: eq.worst.point.map(c => formatNumber(c, 2)).join('; '),
+                                        })}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    ))}
+
+                    {!analysis.compatible && (
+                        <div className="p-2 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-xs">{t('strain.incompatible')}</div>
+                    )}
+                    {!analysis.polynomial && (
+                        <div className="p-2 bg-amber-500/10 border border-amber-500/40 rounded-lg text-amber-300 text-xs">{t('strain.notPolynomial')}</div>
+                    )}
+                    {analysis.displacement && (
+                        <div className="p-2 bg-emerald-500/10 border border-emerald-500/30 rounded-lg text-xs text-slate-300 space-y-1">
+                            <p className="text-emerald-300">{t('strain.reconstructed')}</p>
+                            {(['u', 'v', 'w'] as const).map((name, i) => (
+                                <div key={name} className="overflow-x-auto">
+                                    <MathRender math={`${name} = ${analysis.displacement!.tex[i]}`} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
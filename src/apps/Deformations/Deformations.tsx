@@ -1,28 +1,225 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback, lazy, Suspense } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import * as math from 'mathjs';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
-import { Activity, HelpCircle, ChevronDown, Check, AlertTriangle, Play, Settings, X } from 'lucide-react';
+import { Activity, HelpCircle, ChevronDown, Check, AlertTriangle, Pause, Play, Settings, Square, Upload, X } from 'lucide-react';
 import { useIsPortrait } from '../../hooks/useIsPortrait';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useAppControls } from '../../hooks/useAppControls';
+import { booleanParam, enumParam, listParam, numberParam, seedParam, stringParam } from '../../lib/urlParams';
+import { PRESETS, PRESET_BODIES } from './presets';
+import type { PresetKey } from './presets';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { captureWebGL } from '../../lib/export';
+import { TIME_MAX, gradientAt, smallStrain, symbolicKinematics } from './kinematics';
+import type { LoadState, SymbolicKinematics } from './kinematics';
+import LoadingPlot from './LoadingPlot';
+import type { LoadVariable } from './LoadingPlot';
+import { STRAIN_EXAMPLES } from './strainExamples';
+import type { StrainField } from './strainExamples';
+import type { StrainAnalysis } from './compatibility';
+import { STRAIN_SCALARS, principalStrains, strainScalar } from './strainField';
+import type { StrainScalar } from './strainField';
+import { getViridisColor } from '../../lib/colormap';
+import { MOTION_STAGES, rigidMotion, stagedPosition } from './decomposition';
+import { BODY_KINDS, DEFAULT_DENSITY, MAX_DENSITY, flatFaces, importedBody, pointOnFace, referenceBody } from './bodies';
+import type { BodyKind, ReferenceBody } from './bodies';
+import { FACE_AXES, GAUGE_ANGLES, ROSETTE_FACES, ROSETTE_TYPES } from './rosette';
+import type { RosetteFace, RosetteType } from './rosette';
+
+// La práctica de la roseta, el problema inverso y las deformaciones finitas se cargan al abrirlos
+const RosettePanel = lazy(() => import('./RosettePanel'));
+const CompatibilityPanel = lazy(() => import('./CompatibilityPanel'));
+const FiniteStrainPanel = lazy(() => import('./FiniteStrainPanel'));
 
 // --- Constants & Types ---
-const PRESETS = {
-    expansion: { u: "0.2*x", v: "0.2*y", w: "0.2*z", name: "Expansión Uniforme" },
-    shear: { u: "0.3*y", v: "0.3*x", w: "0", name: "Cizalladura Pura (XY)" },
-    torsion: { u: "-0.2*y*z", v: "0.2*x*z", w: "0", name: "Torsión (alrededor de Z)" },
-    translation: { u: "0.5", v: "0.2", w: "0", name: "Traslación (Movimiento Rígido)" },
-    rotation: { u: "-0.2*y", v: "0.2*x", w: "0", name: "Rotación (Movimiento Rígido sobre Z)" }
+type Point = [number, number, number];
+type Displacement = { u: string; v: string; w: string };
+
+// Red de esferas, aristas y superficie del cuerpo: sin deformar (cian) y deformados (violeta)
+const createBodyGroups = (reference: ReferenceBody) => {
+    const originalGroup = new THREE.Group();
+    const deformedGroup = new THREE.Group();
+
+    const sphereGeom = new THREE.SphereGeometry(reference.sphereRadius, 16, 16);
+    
+    const matOriginal = new THREE.MeshStandardMaterial({
+        color: 0x22d3ee, // cyan-400
+        transparent: true,
+        opacity: 0.5,
+        metalness: 0.2,
+        roughness: 0.4,
+        emissive: 0x06b6d4, // cyan-500
+        emissiveIntensity: 0.3
+    });
+    const matDeformedSpheres = new THREE.MeshStandardMaterial({
+        color: 0xc084fc, // purple-400
+        metalness: 0.3, 
+        roughness: 0.3,
+        emissive: 0xa855f7, // purple-500
+        emissiveIntensity: 0.4
+    });
+    const matDeformedSurface = new THREE.MeshStandardMaterial({
+        color: 0xc084fc, // purple-400
+        metalness: 0.3,
+        roughness: 0.3,
+        transparent: true,
+        opacity: 0.3, 
+        side: THREE.DoubleSide,
+        emissive: 0x7c3aed, // violet-600
+        emissiveIntensity: 0.3
+    });
+
+    // 1. Spheres
+    reference.lattice.forEach(([x, y, z]) => {
+        const posVec = new THREE.Vector3(x, y, z);
+
+        // Original Sphere
+        const sphereOrig = new THREE.Mesh(sphereGeom, matOriginal);
+        sphereOrig.position.copy(posVec);
+        originalGroup.add(sphereOrig);
+
+        // Deformed Sphere placeholder
+        const sphereDeformed = new THREE.Mesh(sphereGeom, matDeformedSpheres);
+        sphereDeformed.position.copy(posVec);
+        sphereDeformed.userData.originalPosition = posVec.clone();
+        deformedGroup.add(sphereDeformed);
+    });
+
+    // 2. Original Wireframe (y la superficie en tenue si es curva, porque apenas tiene aristas)
+    const edgesGeom = new THREE.EdgesGeometry(reference.surface, 30);
+    const lineMat = new THREE.LineBasicMaterial({ color: 0x22d3ee, opacity: 0.5, transparent: true }); // cyan-400
+    originalGroup.add(new THREE.LineSegments(edgesGeom, lineMat));
+    if (reference.smooth) {
+        const ghostMat = new THREE.MeshBasicMaterial({ color: 0x22d3ee, transparent: true, opacity: 0.08, depthWrite: false });
+        originalGroup.add(new THREE.Mesh(reference.surface.clone(), ghostMat));
+    }
+
+    // 3. Deformed Surface (Mesh)
+    const deformedGeom = reference.surface.clone();
+    deformedGeom.userData.originalPositions = deformedGeom.attributes.position.clone();
+    const deformedSurfaceMesh = new THREE.Mesh(deformedGeom, matDeformedSurface);
+    deformedGroup.add(deformedSurfaceMesh);
+
+    return { originalGroup, deformedGroup, deformedSurfaceMesh };
+};
+
+const disposeGroup = (group: THREE.Group) => {
+    const resources = new Set<{ dispose: () => void }>();
+    group.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+            resources.add(child.geometry);
+            resources.add(child.material as THREE.Material);
+        }
+    });
+    resources.forEach(resource => resource.dispose());
+};
+
+// Posición deformada x = X + u(X); null si u, v o w no son reales en X
+const displace = (codes: (math.EvalFunction | null)[], [x, y, z]: Point, load: LoadState): Point | null => {
+    const d = codes.map(code => code?.evaluate({ x, y, z, ...load }));
+    return d.every(value => typeof value === 'number' && Number.isFinite(value)) ? [x + d[0], y + d[1], z + d[2]] : null;
 };
 
-const GRID_CONFIG = {
-    divisions: 7,
-    size: 2,
-    sphereRadius: 0.05
+// u(X) con los valores no reales reemplazados por 0; lanza si la expresión no se puede evaluar
+const displacementOf = (codes: math.EvalFunction[], [x, y, z]: Point, load: LoadState): Point => codes.map(code => {
+    const value = code.evaluate({ x, y, z, ...load });
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}) as Point;
+
+// Lleva las esferas y los vértices de la superficie a la posición `deformed(X)` de su punto de referencia
+const applyDeformation = (deformedGroup: THREE.Group, surface: THREE.Mesh | null, deformed: (X: Point) => Point) => {
+    let errorOccurred = false;
+
+    deformedGroup.children.forEach(child => {
+        if (child instanceof THREE.Mesh && child.geometry instanceof THREE.SphereGeometry) {
+            const origPos = child.userData.originalPosition as THREE.Vector3;
+            try {
+                const position = deformed([origPos.x, origPos.y, origPos.z]);
+                if (position.every(Number.isFinite)) {
+                    child.position.set(...position);
+                    child.visible = true;
+                } else {
+                    child.visible = false;
+                }
+            } catch (err) {
+                child.visible = false;
+                if (!errorOccurred) {
+                    console.warn("Viz Eval Error", err);
+                    // Only show one error to avoid spam
+                    errorOccurred = true;
+                }
+            }
+        }
+    });
+
+    if (surface) {
+        const positions = surface.geometry.attributes.position;
+        const originalPositions = surface.geometry.userData.originalPositions as THREE.BufferAttribute;
+        for (let i = 0; i < positions.count; i++) {
+            try {
+                positions.setXYZ(i, ...deformed([originalPositions.getX(i), originalPositions.getY(i), originalPositions.getZ(i)]));
+            } catch {
+                // Ignore
+            }
+        }
+        positions.needsUpdate = true;
+        surface.geometry.computeVertexNormals();
+    }
 };
 
-type PresetKey = keyof typeof PRESETS;
+const ROSETTE_LENGTH = 0.3;
+const NO_FACES: readonly RosetteFace[] = [];
+const GLYPH_LENGTH = 0.2;
+// Duración de cada etapa de la descomposición del movimiento
+const STAGE_MS = 1800;
+// El tiempo corre a 1 unidad por segundo y da la vuelta en TIME_MAX; λ sube de 0 a 1 en LOAD_RAMP_MS
+const LOAD_RAMP_MS = 3000;
+const TENSION_COLOR = new THREE.Color(0xef4444); // red-500
+const COMPRESSION_COLOR = new THREE.Color(0x3b82f6); // blue-500
+
+// Estado compartible por URL (?u=...&v=...&w=...)
+const URL_PARAMS = {
+    preset: enumParam<PresetKey | "">("", ["", ...Object.keys(PRESETS) as PresetKey[]]),
+    u: stringParam("0.1*x + 0.05*y", { maxLength: 200 }),
+    v: stringParam("0.05*x", { maxLength: 200 }),
+    w: stringParam("0", { maxLength: 200 }),
+    // Problema inverso: se introduce ε y se reconstruye u
+    mode: enumParam<'displacement' | 'strain'>('displacement', ['displacement', 'strain']),
+    exx: stringParam(STRAIN_EXAMPLES.bending.xx, { maxLength: 200 }),
+    eyy: stringParam(STRAIN_EXAMPLES.bending.yy, { maxLength: 200 }),
+    ezz: stringParam(STRAIN_EXAMPLES.bending.zz, { maxLength: 200 }),
+    exy: stringParam(STRAIN_EXAMPLES.bending.xy, { maxLength: 200 }),
+    exz: stringParam(STRAIN_EXAMPLES.bending.xz, { maxLength: 200 }),
+    eyz: stringParam(STRAIN_EXAMPLES.bending.yz, { maxLength: 200 }),
+    // Parámetros t y λ de las expresiones, qué se anima y qué se representa en el sondeo
+    time: numberParam(0, { min: 0, max: TIME_MAX }),
+    lambda: numberParam(1, { min: 0, max: 1 }),
+    anim: enumParam<LoadVariable>('t', ['t', 'lambda']),
+    plot: listParam<StrainScalar>(['e11', 'e12'], {
+        parse: (raw) => (STRAIN_SCALARS as readonly string[]).includes(raw) ? raw as StrainScalar : undefined,
+        serialize: (value) => value,
+    }, { maxItems: STRAIN_SCALARS.length }),
+    finite: booleanParam(false),
+    px: numberParam(1, { min: -1, max: 1 }),
+    py: numberParam(1, { min: -1, max: 1 }),
+    pz: numberParam(0, { min: -1, max: 1 }),
+    color: enumParam<StrainScalar | 'none'>('none', ['none', ...STRAIN_SCALARS]),
+    glyphs: booleanParam(false),
+    // Cuerpo de referencia; las mallas importadas no viajan en la URL
+    body: enumParam<BodyKind>('cube', BODY_KINDS),
+    density: numberParam(DEFAULT_DENSITY, { min: 3, max: MAX_DENSITY, integer: true }),
+    // Roseta extensométrica en el punto de sondeo; `noise` en % de la mayor lectura
+    rosette: booleanParam(false),
+    gauge: enumParam<RosetteType>('rectangular', ROSETTE_TYPES),
+    face: enumParam<RosetteFace>('z', ROSETTE_FACES),
+    noise: numberParam(0, { min: 0, max: 20 }),
+    seed: seedParam(),
+};
 
 interface TensorState {
     e11: string; e12: string; e13: string;
@@ -38,15 +235,55 @@ const INITIAL_TENSOR: TensorState = {
 
 const Deformations = () => {
     // --- State ---
-    const [u, setU] = useState("0.1*x + 0.05*y");
-    const [v, setV] = useState("0.05*x");
-    const [w, setW] = useState("0");
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { u, v, w, preset: selectedPreset, finite, px, py, pz, color, glyphs } = params;
+    const probe = useMemo<Point>(() => [px, py, pz], [px, py, pz]);
+    const { mode, exx, eyy, ezz, exy, exz, eyz, time, lambda, anim, plot, body, density } = params;
+    const { rosette, gauge, face, noise, seed } = params;
+    const strainField: StrainField = { xx: exx, yy: eyy, zz: ezz, xy: exy, xz: exz, yz: eyz };
+    const setStrainField = (field: Partial<StrainField>) => setParams({
+        exx: field.xx ?? exx, eyy: field.yy ?? eyy, ezz: field.zz ?? ezz,
+        exy: field.xy ?? exy, exz: field.xz ?? exz, eyz: field.yz ?? eyz,
+    });
+    // u, v, w que el visor ya conoce: las calculadas y las que se están escribiendo (se aplican con el botón)
+    const appliedRef = useRef<Displacement>({ u, v, w });
+    const typeField = (patch: Partial<Displacement>) => {
+        appliedRef.current = { u, v, w, ...patch };
+        setParams(patch);
+    };
+    const setU = (value: string) => typeField({ u: value });
+    const setV = (value: string) => typeField({ v: value });
+    const setW = (value: string) => typeField({ w: value });
+    const { t, formatNumber } = useI18n(MESSAGES);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [tensor, setTensor] = useState<TensorState>(INITIAL_TENSOR);
-    const [selectedPreset, setSelectedPreset] = useState<string>("");
+    const [kinematics, setKinematics] = useState<SymbolicKinematics | null>(null);
     const [showHelp, setShowHelp] = useState(false);
     const [configOpen, setConfigOpen] = useState(false);
+    const [probeOpen, setProbeOpen] = useState(false);
+    const [strainAnalysis, setStrainAnalysis] = useState<StrainAnalysis | null>(null);
+    // Etapa de la descomposición traslación → giro → deformación; null muestra el movimiento completo
+    const [decomposition, setDecomposition] = useState<{ stage: number; playing: boolean } | null>(null);
+    // Durante la animación t y λ viven aquí y no en la URL, que se actualiza al parar
+    const [loadRun, setLoadRun] = useState<{ from: LoadState } | null>(null);
+    const [liveLoad, setLiveLoad] = useState<LoadState | null>(null);
+    const committedLoad = useMemo<LoadState>(() => ({ t: time, lambda }), [time, lambda]);
+    const load = liveLoad ?? committedLoad;
+    const loadPlaying = loadRun !== null;
+    const usesLoad = [u, v, w].some(expr => /\b(t|lambda)\b/.test(expr));
+    const [imported, setImported] = useState<{ name: string; geometry: THREE.BufferGeometry } | null>(null);
+    const [importing, setImporting] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const reference = useMemo<ReferenceBody>(
+        () => (imported ? importedBody(imported.geometry) : referenceBody(body, density)),
+        [imported, body, density],
+    );
+    // Al reemplazar o quitar la malla importada se liberan sus buffers
+    useEffect(() => {
+        if (!imported) return;
+        return () => imported.geometry.dispose();
+    }, [imported]);
     const isPortrait = useIsPortrait();
 
     // --- Refs ---
@@ -76,7 +313,9 @@ const Deformations = () => {
         renderStaticMath();
         
         // Initial Calculation
-        handleCalculate();
+        handleCalculate().then(() => {
+            if (params.mode === 'strain') handleCheckStrain();
+        });
 
         return () => {
             if (frameIdRef.current) cancelAnimationFrame(frameIdRef.current);
@@ -90,6 +329,317 @@ const Deformations = () => {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    // u, v, w cambiados desde fuera de las casillas (preset, paleta, lección, embed): se recalcula
+    useEffect(() => {
+        const applied = appliedRef.current;
+        if (applied.u === u && applied.v === v && applied.w === w) return;
+        handleCalculate({ u, v, w });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [u, v, w]);
+
+    // Cuerpo de referencia: se rehace la escena al cambiarlo y el efecto de la descomposición,
+    // que depende de `reference`, vuelve a aplicar u sobre él
+    useEffect(() => {
+        const scene = sceneRef.current;
+        if (!scene) return;
+        const { originalGroup, deformedGroup, deformedSurfaceMesh } = createBodyGroups(reference);
+        scene.add(originalGroup);
+        scene.add(deformedGroup);
+        originalGroupRef.current = originalGroup;
+        deformedGroupRef.current = deformedGroup;
+        deformedSurfaceMeshRef.current = deformedSurfaceMesh;
+        return () => {
+            scene.remove(originalGroup);
+            scene.remove(deformedGroup);
+            disposeGroup(originalGroup);
+            disposeGroup(deformedGroup);
+        };
+    }, [reference]);
+
+    // --- Strain field ---
+    // Escalar elegido en cada vértice de la superficie, evaluado en la configuración de referencia.
+    // Colores y glifos siguen a t y λ de la URL: recalcularlos en cada fotograma no compensa.
+    const fieldColoring = useMemo(() => {
+        if (color === 'none' || !kinematics) return null;
+        try {
+            const values = reference.surfacePoints.map(point => strainScalar(smallStrain(gradientAt(kinematics, point, committedLoad)), color));
+            return { values, min: Math.min(...values), max: Math.max(...values) };
+        } catch {
+            return null;
+        }
+    }, [color, kinematics, committedLoad, reference]);
+
+    // Tensor local en el punto de sondeo (compartido con el panel de deformación finita)
+    const probeStrain = useMemo(() => {
+        if (!kinematics) return null;
+        try {
+            const epsilon = smallStrain(gradientAt(kinematics, probe, load));
+            return { epsilon, principal: principalStrains(epsilon).values };
+        } catch {
+            return null;
+        }
+    }, [kinematics, probe, load]);
+
+    // La roseta va pegada a una cara plana del cuerpo: el punto de sondeo se proyecta sobre ella.
+    // Esfera y mallas importadas no tienen caras planas.
+    const rosetteFaces = imported ? NO_FACES : flatFaces(body);
+    const rosetteFace = rosetteFaces.includes(face) ? face : rosetteFaces[0] ?? null;
+    const rosettePoint = useMemo(
+        () => (rosetteFace ? pointOnFace(body, rosetteFace, probe) : null),
+        [body, rosetteFace, probe],
+    );
+    const rosetteStrain = useMemo(() => {
+        if (!kinematics || !rosettePoint) return null;
+        try {
+            return smallStrain(gradientAt(kinematics, rosettePoint, load));
+        } catch {
+            return null;
+        }
+    }, [kinematics, rosettePoint, load]);
+
+    const motion = useMemo(() => {
+        if (!kinematics) return null;
+        try {
+            return rigidMotion(kinematics, load);
+        } catch {
+            return null;
+        }
+    }, [kinematics, load]);
+
+    // Cada etapa se anima de `stage` a `stage + 1` y encadena la siguiente; parada, muestra el
+    // acumulado hasta la etapa elegida
+    useEffect(() => {
+        const group = deformedGroupRef.current;
+        if (!group || !kinematics || !motion) return;
+        const show = (progress: number) => applyDeformation(group, deformedSurfaceMeshRef.current, X =>
+            stagedPosition(X, displacementOf(kinematics.displacement, X, load), motion, progress));
+        if (!decomposition) {
+            show(MOTION_STAGES.length);
+            return;
+        }
+        const { stage, playing } = decomposition;
+        if (!playing) {
+            show(stage + 1);
+            return;
+        }
+        let frame = 0;
+        const start = performance.now();
+        const tick = (now: number) => {
+            const fraction = Math.min(1, (now - start) / STAGE_MS);
+            show(stage + fraction);
+            if (fraction < 1) {
+                frame = requestAnimationFrame(tick);
+            } else {
+                setDecomposition(stage + 1 < MOTION_STAGES.length ? { stage: stage + 1, playing: true } : null);
+            }
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [decomposition, kinematics, motion, load, reference]);
+
+    // Animación de t (en bucle) o de λ (rampa hasta 1); al parar, el valor alcanzado pasa a la URL
+    const commitLoad = useCallback((value: LoadState) => {
+        setLoadRun(null);
+        setLiveLoad(null);
+        setParams({ time: Math.round(value.t * 100) / 100, lambda: Math.round(value.lambda * 100) / 100 });
+    }, [setParams]);
+    const stopLoad = () => commitLoad(load);
+    const playLoad = () => {
+        setDecomposition(null);
+        setLoadRun({ from: anim === 'lambda' && lambda >= 1 ? { t: time, lambda: 0 } : committedLoad });
+    };
+
+    useEffect(() => {
+        if (!loadRun) return;
+        let current = loadRun.from;
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const dt = now - last;
+            last = now;
+            current = anim === 't'
+                ? { ...current, t: (current.t + dt / 1000) % TIME_MAX }
+                : { ...current, lambda: Math.min(1, current.lambda + dt / LOAD_RAMP_MS) };
+            // La rampa de carga termina sola al llegar a λ = 1
+            if (anim === 'lambda' && current.lambda >= 1) {
+                commitLoad(current);
+                return;
+            }
+            setLiveLoad(current);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [loadRun, anim, commitLoad]);
+
+    useEffect(() => {
+        const mesh = deformedSurfaceMeshRef.current;
+        if (!mesh) return;
+        const material = mesh.material as THREE.MeshStandardMaterial;
+        if (fieldColoring) {
+            const { values, min, max } = fieldColoring;
+            const span = max - min;
+            const colors = new Float32Array(values.length * 3);
+            values.forEach((value, i) => {
+                // Campo uniforme: color central de la escala
+                const [r, g, b] = getViridisColor(span > 1e-12 ? (value - min) / span : 0.5);
+                colors.set([r / 255, g / 255, b / 255], i * 3);
+            });
+            mesh.geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+            material.vertexColors = true;
+            material.color.set(0xffffff);
+            material.opacity = 0.85;
+            material.emissiveIntensity = 0;
+        } else {
+            mesh.geometry.deleteAttribute('color');
+            material.vertexColors = false;
+            material.color.set(0xc084fc);
+            material.opacity = 0.3;
+            material.emissiveIntensity = 0.3;
+        }
+        material.needsUpdate = true;
+    }, [fieldColoring, reference]);
+
+    // Glifos: segmentos a lo largo de las direcciones principales, centrados en la posición deformada.
+    // u, v, w compiladas se renuevan junto con kinematics en cada cálculo.
+    useEffect(() => {
+        const scene = sceneRef.current;
+        if (!glyphs || !kinematics || !scene) return;
+        const codes = [compiledURef.current, compiledVRef.current, compiledWRef.current];
+        const samples: { center: Point; principal: ReturnType<typeof principalStrains> }[] = [];
+        for (const point of reference.glyphPoints) {
+            try {
+                const center = displace(codes, point, committedLoad);
+                if (center) samples.push({ center, principal: principalStrains(smallStrain(gradientAt(kinematics, point, committedLoad))) });
+            } catch {
+                // Punto fuera del dominio de u: sin glifo
+            }
+        }
+        const largest = Math.max(0, ...samples.flatMap(s => s.principal.values.map(Math.abs)));
+        if (largest < 1e-12) return;
+
+        const positions: number[] = [];
+        const colors: number[] = [];
+        samples.forEach(({ center, principal }) => principal.values.forEach((value, k) => {
+            const half = (GLYPH_LENGTH * Math.abs(value)) / largest;
+            const dir = principal.directions[k];
+            const tint = value >= 0 ? TENSION_COLOR : COMPRESSION_COLOR;
+            positions.push(...center.map((c, i) => c - half * dir[i]), ...center.map((c, i) => c + half * dir[i]));
+            colors.push(tint.r, tint.g, tint.b, tint.r, tint.g, tint.b);
+        }));
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+        const material = new THREE.LineBasicMaterial({ vertexColors: true });
+        const lines = new THREE.LineSegments(geometry, material);
+        scene.add(lines);
+        return () => {
+            scene.remove(lines);
+            geometry.dispose();
+            material.dispose();
+        };
+    }, [glyphs, kinematics, committedLoad, reference]);
+
+    // Clic (sin arrastre) sobre la superficie deformada: se recupera el punto de referencia
+    // interpolando las posiciones originales con las coordenadas baricéntricas del triángulo
+    useEffect(() => {
+        const renderer = rendererRef.current;
+        if (!renderer) return;
+        const element = renderer.domElement;
+        const raycaster = new THREE.Raycaster();
+        let downX = 0, downY = 0;
+        const onPointerDown = (event: PointerEvent) => {
+            downX = event.clientX;
+            downY = event.clientY;
+        };
+        const onPointerUp = (event: PointerEvent) => {
+            const mesh = deformedSurfaceMeshRef.current;
+            const camera = cameraRef.current;
+            if (!mesh || !camera || Math.hypot(event.clientX - downX, event.clientY - downY) > 4) return;
+            const box = element.getBoundingClientRect();
+            const pointer = new THREE.Vector2(
+                ((event.clientX - box.left) / box.width) * 2 - 1,
+                -((event.clientY - box.top) / box.height) * 2 + 1,
+            );
+            raycaster.setFromCamera(pointer, camera);
+            const hit = raycaster.intersectObject(mesh)[0];
+            if (!hit?.face) return;
+            const { a, b, c } = hit.face;
+            const deformed = mesh.geometry.attributes.position;
+            const original = mesh.geometry.userData.originalPositions as THREE.BufferAttribute;
+            const corner = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, i: number) => new THREE.Vector3().fromBufferAttribute(attribute, i);
+            const weights = THREE.Triangle.getBarycoord(hit.point, corner(deformed, a), corner(deformed, b), corner(deformed, c), new THREE.Vector3());
+            if (!weights) return;
+            const point = corner(original, a).multiplyScalar(weights.x)
+                .add(corner(original, b).multiplyScalar(weights.y))
+                .add(corner(original, c).multiplyScalar(weights.z));
+            const clamp = (value: number) => Math.round(Math.max(-1, Math.min(1, value)) * 100) / 100;
+            setParams({ px: clamp(point.x), py: clamp(point.y), pz: clamp(point.z) });
+            setProbeOpen(true);
+        };
+        element.addEventListener('pointerdown', onPointerDown);
+        element.addEventListener('pointerup', onPointerUp);
+        return () => {
+            element.removeEventListener('pointerdown', onPointerDown);
+            element.removeEventListener('pointerup', onPointerUp);
+        };
+    }, [setParams]);
+
+    // Marcador del punto de sondeo sobre el cuerpo deformado
+    useEffect(() => {
+        const scene = sceneRef.current;
+        if (!probeOpen || !kinematics || !scene) return;
+        let position: Point | null = null;
+        try {
+            position = displace([compiledURef.current, compiledVRef.current, compiledWRef.current], probe, load);
+        } catch {
+            // Sin marcador si u no se puede evaluar en el punto
+        }
+        if (!position) return;
+        const marker = new THREE.Mesh(
+            new THREE.SphereGeometry(0.08, 16, 16),
+            new THREE.MeshBasicMaterial({ color: 0xfbbf24 }), // amber-400
+        );
+        marker.position.set(...position);
+        scene.add(marker);
+        return () => {
+            scene.remove(marker);
+            marker.geometry.dispose();
+            (marker.material as THREE.Material).dispose();
+        };
+    }, [probeOpen, probe, kinematics, load]);
+
+    // Roseta sobre el cuerpo deformado: una línea por galga en el plano de la cara elegida
+    useEffect(() => {
+        const scene = sceneRef.current;
+        if (!rosette || !kinematics || !scene || !rosettePoint || !rosetteFace) return;
+        let position: Point | null = null;
+        try {
+            position = displace([compiledURef.current, compiledVRef.current, compiledWRef.current], rosettePoint, load);
+        } catch {
+            // Sin roseta si u no se puede evaluar en el punto
+        }
+        if (!position) return;
+        const [a, b] = FACE_AXES[rosetteFace];
+        const positions: number[] = [];
+        GAUGE_ANGLES[gauge].forEach(angle => {
+            const dir = [0, 0, 0];
+            dir[a] = Math.cos((angle * Math.PI) / 180);
+            dir[b] = Math.sin((angle * Math.PI) / 180);
+            positions.push(...position, ...position.map((c, i) => c + ROSETTE_LENGTH * dir[i]));
+        });
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        const material = new THREE.LineBasicMaterial({ color: 0xfbbf24, depthTest: false }); // amber-400
+        const lines = new THREE.LineSegments(geometry, material);
+        scene.add(lines);
+        return () => {
+            scene.remove(lines);
+            geometry.dispose();
+            material.dispose();
+        };
+    }, [rosette, gauge, rosetteFace, rosettePoint, kinematics, load]);
+
     // --- Math & Tensor Logic ---
     const getSafeDerivative = (expr: string, variable: string) => {
         try {
@@ -114,7 +664,7 @@ const Deformations = () => {
         }
     };
 
-    const calculateTensor = () => {
+    const calculateTensor = ({ u, v, w }: Displacement) => {
         try {
             const dudx = getSafeDerivative(u, 'x'); const dudy = getSafeDerivative(u, 'y'); const dudz = getSafeDerivative(u, 'z');
             const dvdx = getSafeDerivative(v, 'x'); const dvdy = getSafeDerivative(v, 'y'); const dvdz = getSafeDerivative(v, 'z');
@@ -135,13 +685,14 @@ const Deformations = () => {
                 e21: e12.toTex(), e22: e22.toTex(), e23: e23.toTex(), // Symmetric
                 e31: e13.toTex(), e32: e23.toTex(), e33: e33.toTex()
             });
+            setKinematics(symbolicKinematics(u, v, w));
         } catch (err) {
             console.error("Tensor calculation error", err);
-            setError("Error calculando el tensor.");
+            setError(t('errors.tensor'));
         }
     };
 
-    const compileFunctions = () => {
+    const compileFunctions = ({ u, v, w }: Displacement) => {
         try {
             const uStr = u.trim() === "" ? "0" : u;
             const vStr = v.trim() === "" ? "0" : v;
@@ -152,40 +703,85 @@ const Deformations = () => {
             compiledWRef.current = math.compile(wStr);
             return true;
         } catch (err: any) {
-            setError(`Error de sintaxis: ${err.message}`);
+            setError(t('errors.syntax', { message: err.message }));
             return false;
         }
     };
 
-    const handleCalculate = async () => {
+    const handleCalculate = async (fields: Displacement = { u, v, w }) => {
+        appliedRef.current = fields;
         setLoading(true);
         setError(null);
         
         // Small delay to allow UI to update (loader)
         await new Promise(resolve => setTimeout(resolve, 50));
 
-        calculateTensor();
-        if (compileFunctions()) {
+        calculateTensor(fields);
+        if (compileFunctions(fields)) {
             updateVisualization();
         }
         
         setLoading(false);
     };
 
+    // Compatibilidad de ε; si es compatible, el desplazamiento reconstruido pasa a ser u, v, w
+    const handleCheckStrain = async () => {
+        setLoading(true);
+        setError(null);
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        let analysis: StrainAnalysis | null = null;
+        try {
+            const { analyzeStrainField } = await import('./compatibility');
+            analysis = analyzeStrainField(strainField);
+        } catch (err) {
+            setError(t('errors.syntax', { message: err instanceof Error ? err.message : String(err) }));
+        }
+        setStrainAnalysis(analysis);
+        setLoading(false);
+        if (analysis?.displacement) {
+            const { u, v, w } = analysis.displacement;
+            setParams({ u, v, w, preset: "" });
+            await handleCalculate({ u, v, w });
+        }
+    };
+
     const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const key = e.target.value as PresetKey | "";
-        setSelectedPreset(key);
+        setParams({ preset: key });
         if (key && PRESETS[key]) {
-            setU(PRESETS[key].u);
-            setV(PRESETS[key].v);
-            setW(PRESETS[key].w);
-            // Trigger calculation in effect or verify if user needs to click?
-            // Usually better to auto-trigger or let user click. Let's auto-trigger via effect if desire
-            // But since handleCalculate is async and depends on state, we might need a useEffect monitoring [u,v,w] 
-            // OR just let the user click "Calculate". The original app auto-submit on change.
-            // Let's defer calculation to user or a specific effect if we want auto-update.
-            // We'll leave it manual for now to avoid race conditions, or add a short timeout.
+            setParams({ u: PRESETS[key].u, v: PRESETS[key].v, w: PRESETS[key].w });
+            const presetBody = PRESET_BODIES[key];
+            if (presetBody) {
+                setImported(null);
+                setParams({ body: presetBody });
+            }
+        }
+    };
+
+    const handleBodyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (e.target.value === 'imported') return;
+        setImported(null);
+        setImportError(null);
+        setParams({ body: e.target.value as BodyKind });
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        setImporting(true);
+        setImportError(null);
+        try {
+            const { importMesh } = await import('./meshImport');
+            const result = await importMesh(file);
+            if ('error' in result) {
+                setImportError(t(`body.importErrors.${result.error}`));
+            } else {
+                setImported({ name: file.name, geometry: result.geometry });
+            }
+        } catch {
+            setImportError(t('body.importErrors.format'));
         }
+        setImporting(false);
     };
 
     // --- Visualization Logic ---
@@ -232,9 +828,6 @@ const Deformations = () => {
         dirLight2.position.set(-5, -3, -5);
         scene.add(dirLight2);
 
-        // Grid & Objects
-        createGrids(scene);
-
         // Helper
         const axesHelper = new THREE.AxesHelper(1.5);
         scene.add(axesHelper);
@@ -251,164 +844,13 @@ const Deformations = () => {
         animate();
     };
 
-    const createGrids = (scene: THREE.Scene) => {
-        const originalGroup = new THREE.Group();
-        const deformedGroup = new THREE.Group();
-        
-        originalGroupRef.current = originalGroup;
-        deformedGroupRef.current = deformedGroup;
-
-        const { divisions, size, sphereRadius } = GRID_CONFIG;
-        const step = size / (divisions - 1);
-        const offset = size / 2;
-        const subdivisions = divisions - 1;
-
-        const sphereGeom = new THREE.SphereGeometry(sphereRadius, 16, 16);
-        
-        const matOriginal = new THREE.MeshStandardMaterial({
-            color: 0x22d3ee, // cyan-400
-            transparent: true,
-            opacity: 0.5,
-            metalness: 0.2,
-            roughness: 0.4,
-            emissive: 0x06b6d4, // cyan-500
-            emissiveIntensity: 0.3
-        });
-        const matDeformedSpheres = new THREE.MeshStandardMaterial({
-            color: 0xc084fc, // purple-400
-            metalness: 0.3, 
-            roughness: 0.3,
-            emissive: 0xa855f7, // purple-500
-            emissiveIntensity: 0.4
-        });
-        const matDeformedSurface = new THREE.MeshStandardMaterial({
-            color: 0xc084fc, // purple-400
-            metalness: 0.3,
-            roughness: 0.3,
-            transparent: true,
-            opacity: 0.3, 
-            side: THREE.DoubleSide,
-            emissive: 0x7c3aed, // violet-600
-            emissiveIntensity: 0.3
-        });
-
-        // 1. Spheres
-        for (let i = 0; i < divisions; i++) {
-            for (let j = 0; j < divisions; j++) {
-                for (let k = 0; k < divisions; k++) {
-                    const x = i * step - offset;
-                    const y = j * step - offset;
-                    const z = k * step - offset;
-                    const posVec = new THREE.Vector3(x, y, z);
-                    
-                    // Original Sphere
-                    const sphereOrig = new THREE.Mesh(sphereGeom, matOriginal);
-                    sphereOrig.position.copy(posVec);
-                    originalGroup.add(sphereOrig);
-                    
-                    // Deformed Sphere placeholder
-                    const sphereDeformed = new THREE.Mesh(sphereGeom, matDeformedSpheres);
-                    sphereDeformed.position.copy(posVec);
-                    sphereDeformed.userData.originalPosition = posVec.clone();
-                    deformedGroup.add(sphereDeformed);
-                }
-            }
-        }
-
-        // 2. Original Wireframe
-        const boxGeom = new THREE.BoxGeometry(size, size, size);
-        const edgesGeom = new THREE.EdgesGeometry(boxGeom);
-        const lineMat = new THREE.LineBasicMaterial({ color: 0x22d3ee, opacity: 0.5, transparent: true }); // cyan-400
-        const wireframe = new THREE.LineSegments(edgesGeom, lineMat);
-        originalGroup.add(wireframe);
-
-        // 3. Deformed Surface (Mesh)
-        const deformedBoxGeom = new THREE.BoxGeometry(size, size, size, subdivisions, subdivisions, subdivisions);
-        deformedBoxGeom.userData.originalPositions = deformedBoxGeom.attributes.position.clone();
-        
-        const deformedSurfaceMesh = new THREE.Mesh(deformedBoxGeom, matDeformedSurface);
-        deformedSurfaceMeshRef.current = deformedSurfaceMesh;
-        deformedGroup.add(deformedSurfaceMesh);
-
-        scene.add(originalGroup);
-        scene.add(deformedGroup);
-    };
-
     const updateVisualization = () => {
         if (!compiledURef.current || !compiledVRef.current || !compiledWRef.current || !deformedGroupRef.current) return;
-
-        const deformedGroup = deformedGroupRef.current;
-        const deformedSurfaceMesh = deformedSurfaceMeshRef.current;
-        
-        let errorOccurred = false;
-
-        // Update Spheres
-        deformedGroup.children.forEach(child => {
-            if (child instanceof THREE.Mesh && child.geometry instanceof THREE.SphereGeometry) {
-                const sphere = child;
-                const origPos = sphere.userData.originalPosition;
-                const scope = { x: origPos.x, y: origPos.y, z: origPos.z };
-                
-                try {
-                    let dx = compiledURef.current!.evaluate(scope);
-                    let dy = compiledVRef.current!.evaluate(scope);
-                    let dz = compiledWRef.current!.evaluate(scope);
-                    
-                    // Sanity checks
-                    if (typeof dx !== 'number' || isNaN(dx) || !isFinite(dx)) dx = 0;
-                    if (typeof dy !== 'number' || isNaN(dy) || !isFinite(dy)) dy = 0;
-                    if (typeof dz !== 'number' || isNaN(dz) || !isFinite(dz)) dz = 0;
-
-                    const newX = origPos.x + dx;
-                    const newY = origPos.y + dy;
-                    const newZ = origPos.z + dz;
-
-                    if (isFinite(newX) && isFinite(newY) && isFinite(newZ)) {
-                        sphere.position.set(newX, newY, newZ);
-                        sphere.visible = true;
-                    } else {
-                        sphere.visible = false;
-                    }
-                } catch (err: any) {
-                    sphere.visible = false;
-                    if (!errorOccurred) {
-                        console.warn("Viz Eval Error", err);
-                        // Only show one error to avoid spam
-                        errorOccurred = true; 
-                    }
-                }
-            }
+        const codes = [compiledURef.current, compiledVRef.current, compiledWRef.current];
+        applyDeformation(deformedGroupRef.current, deformedSurfaceMeshRef.current, X => {
+            const d = displacementOf(codes, X, load);
+            return [X[0] + d[0], X[1] + d[1], X[2] + d[2]];
         });
-
-        // Update Surface Mesh
-        if (deformedSurfaceMesh) {
-            const positions = deformedSurfaceMesh.geometry.attributes.position;
-            const originalPositions = deformedSurfaceMesh.geometry.userData.originalPositions; // Note: Use typed array or clone?
-            // userData.originalPositions is a BufferAttribute in our logic above
-            
-            for (let i = 0; i < positions.count; i++) {
-                const origX = originalPositions.getX(i);
-                const origY = originalPositions.getY(i);
-                const origZ = originalPositions.getZ(i);
-                const scope = { x: origX, y: origY, z: origZ };
-                
-                try {
-                    let dx = compiledURef.current!.evaluate(scope);
-                    let dy = compiledVRef.current!.evaluate(scope);
-                    let dz = compiledWRef.current!.evaluate(scope);
-
-                    if (typeof dx !== 'number' || isNaN(dx) || !isFinite(dx)) dx = 0;
-                    if (typeof dy !== 'number' || isNaN(dy) || !isFinite(dy)) dy = 0;
-                    if (typeof dz !== 'number' || isNaN(dz) || !isFinite(dz)) dz = 0;
-
-                    positions.setXYZ(i, origX + dx, origY + dy, origZ + dz);
-                } catch (e) {
-                    // Ignore
-                }
-            }
-            positions.needsUpdate = true;
-            deformedSurfaceMesh.geometry.computeVertexNormals();
-        }
     };
 
     const onWindowResize = () => {
@@ -438,13 +880,37 @@ const Deformations = () => {
         return <div ref={ref} className="text-center overflow-x-auto min-h-[1.5em]" />;
     };
 
+    useAppControls({
+        playing: loadPlaying,
+        setPlaying: (playing) => (playing ? playLoad() : stopLoad()),
+        measure: () => ({
+            t: load.t,
+            lambda: load.lambda,
+            ...(probeStrain && {
+                exx: probeStrain.epsilon[0][0], eyy: probeStrain.epsilon[1][1], ezz: probeStrain.epsilon[2][2],
+                exy: probeStrain.epsilon[0][1], exz: probeStrain.epsilon[0][2], eyz: probeStrain.epsilon[1][2],
+            }),
+        }),
+    });
+
+    // Original and deformed position of every lattice point
+    const latticeTable = () => {
+        const rows: number[][] = [];
+        deformedGroupRef.current?.children.forEach(child => {
+            const original = child.userData.originalPosition as THREE.Vector3 | undefined;
+            if (!original) return;
+            rows.push([original.x, original.y, original.z, child.position.x, child.position.y, child.position.z]);
+        });
+        return { columns: ['x', 'y', 'z', 'x_def', 'y_def', 'z_def'], rows };
+    };
+
     return (
         <div className="w-full flex-1 flex flex-col min-h-0 text-slate-200 font-sans relative">
             {/* Portrait: Floating config toggle */}
             {isPortrait && (
                 <button
                     onClick={() => setConfigOpen(!configOpen)}
-                    aria-label={configOpen ? 'Cerrar panel de configuración' : 'Abrir panel de configuración'}
+                    aria-label={configOpen ? t('common.closeSettings') : t('common.openSettings')}
                     className="fixed right-4 z-50 p-3 bg-blue-600 hover:bg-blue-500 text-white rounded-full shadow-lg shadow-blue-900/40 transition-all"
                     style={{ bottom: 'max(1rem, env(safe-area-inset-bottom))' }}
                 >
@@ -471,79 +937,109 @@ const Deformations = () => {
                 }`}>
                     <div className="border-b border-slate-800 pb-2 shrink-0">
                         <h1 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent flex items-center gap-2">
-                           <Activity className="text-blue-400" size={20}/> Calculadora de Deformación
+                           <Activity className="text-blue-400" size={20}/> {t('title')}
                         </h1>
                     </div>
 
                     {/* Formula Display */}
                     <div ref={formulaRef} className="bg-slate-800/50 p-2 rounded-lg flex justify-center text-sm text-slate-300"></div>
 
-                    {/* Presets */}
-                    <div>
-                        <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-1">
-                            <Check size={14} /> Cargar Ejemplo
-                        </label>
-                        <div className="relative">
-                            <select 
-                                value={selectedPreset}
-                                onChange={handlePresetChange}
-                                className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300"
+                    {/* Mode: u → ε or ε → u */}
+                    <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800/50 rounded-lg">
+                        {(['displacement', 'strain'] as const).map((key) => (
+                            <button
+                                key={key}
+                                onClick={() => setParams({ mode: key })}
+                                className={`py-1.5 text-xs font-medium rounded-md transition-colors ${mode === key ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
                             >
-                                <option value="">-- Personalizado --</option>
-                                {Object.entries(PRESETS).map(([key, val]) => (
-                                    <option key={key} value={key}>{val.name}</option>
-                                ))}
-                            </select>
-                            <ChevronDown size={16} className="absolute right-3 top-4 text-slate-500 pointer-events-none"/>
-                        </div>
+                                {t(`strain.modes.${key}`)}
+                            </button>
+                        ))}
                     </div>
 
+                    {/* Presets */}
+                    {mode === 'displacement' && (
+                        <div>
+                            <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-1">
+                                <Check size={14} /> {t('loadExample')}
+                            </label>
+                            <div className="relative">
+                                <select 
+                                    value={selectedPreset}
+                                    onChange={handlePresetChange}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300"
+                                >
+                                    <option value="">{t('custom')}</option>
+                                    {Object.keys(PRESETS).map((key) => (
+                                        <option key={key} value={key}>{t(`presets.${key}`)}</option>
+                                    ))}
+                                </select>
+                                <ChevronDown size={16} className="absolute right-3 top-4 text-slate-500 pointer-events-none"/>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Syntax Help */}
                     <div>
                         <button 
                             onClick={() => setShowHelp(!showHelp)}
                             className="w-full flex items-center justify-between p-3 bg-slate-800/50 hover:bg-slate-800 rounded-lg transition-colors text-sm font-medium text-slate-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70"
                         >
-                            <span className="flex items-center gap-2"><HelpCircle size={16}/> Ayuda de Sintaxis</span>
+                            <span className="flex items-center gap-2"><HelpCircle size={16}/> {t('syntaxHelp')}</span>
                             <ChevronDown size={16} className={`transition-transform ${showHelp ? 'rotate-180' : ''}`}/>
                         </button>
                         {showHelp && (
                             <div className="mt-2 p-4 bg-slate-800/30 border border-slate-800 rounded-lg text-xs text-slate-400 space-y-2 animate-in fade-in slide-in-from-top-2">
-                                <p>Variables: <code className="text-yellow-400">x y z</code>. Operadores: <code className="text-yellow-400">+ - * / ^</code></p>
-                                <p>Funciones: <code className="text-cyan-400">sin cos tan sqrt exp log abs</code></p>
-                                <p>Constantes: <code className="text-rose-400">pi e</code></p>
-                                <p>Ejemplo: <code className="text-green-400">0.5 * sin(x) + y^2</code></p>
+                                <p>{t('help.variables')} <code className="text-yellow-400">x y z</code>. {t('help.operators')} <code className="text-yellow-400">+ - * / ^</code></p>
+                                <p>{t('help.functions')} <code className="text-cyan-400">sin cos tan sqrt exp log abs</code></p>
+                                <p>{t('help.constants')} <code className="text-rose-400">pi e</code></p>
+                                <p>{t('help.example')} <code className="text-green-400">0.5 * sin(x) + y^2</code></p>
+                                <p>{t('help.load')} <code className="text-violet-400">t lambda</code></p>
                             </div>
                         )}
                     </div>
 
-                    {/* Inputs */}
-                    <div className="space-y-2">
-                        {[
-                            { label: "u", val: u, set: setU, color: "text-rose-400" },
-                            { label: "v", val: v, set: setV, color: "text-blue-400" },
-                            { label: "w", val: w, set: setW, color: "text-emerald-400" },
-                        ].map(({label, val, set, color}) => (
-                           <div key={label} className="group">
-                               <label className={`block text-xs font-bold mb-0.5 ${color}`}>{label}(x,y,z) =</label>
-                               <input 
-                                 value={val}
-                                 onChange={(e) => set(e.target.value)}
-                                                                 className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 font-mono text-sm focus:border-blue-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors text-slate-200"
-                                 placeholder="0"
-                               />
-                           </div>
-                        ))}
-                    </div>
+                    {mode === 'displacement' ? (
+                        <>
+                            {/* Inputs */}
+                            <div className="space-y-2">
+                                {[
+                                    { label: "u", val: u, set: setU, color: "text-rose-400" },
+                                    { label: "v", val: v, set: setV, color: "text-blue-400" },
+                                    { label: "w", val: w, set: setW, color: "text-emerald-400" },
+                                ].map(({label, val, set, color}) => (
+                                   <div key={label} className="group">
+                                       <label className={`block text-xs font-bold mb-0.5 ${color}`}>{label}(x,y,z) =</label>
+                                       <input 
+                                         value={val}
+                                         onChange={(e) => set(e.target.value)}
+                                                                         className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 font-mono text-sm focus:border-blue-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors text-slate-200"
+                                         placeholder="0"
+                                       />
+                                   </div>
+                                ))}
+                            </div>
 
-                    <button 
-                        onClick={handleCalculate}
-                        disabled={loading}
-                        className="w-full py-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white font-bold rounded-lg shadow-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
-                    >
-                        {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"/> : <Play size={18} fill="currentColor"/>}
-                        {loading ? "Calculando..." : "Calcular y Visualizar"}
-                    </button>
+                            <button 
+                                onClick={() => handleCalculate()}
+                                disabled={loading}
+                                className="w-full py-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white font-bold rounded-lg shadow-lg flex items-center justify-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
+                            >
+                                {loading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"/> : <Play size={18} fill="currentColor"/>}
+                                {loading ? t('calculating') : t('calculate')}
+                            </button>
+                        </>
+                    ) : (
+                        <Suspense fallback={<div className="p-3 text-xs text-slate-500">{t('panelLoading')}</div>}>
+                            <CompatibilityPanel
+                                field={strainField}
+                                onFieldChange={setStrainField}
+                                analysis={strainAnalysis}
+                                loading={loading}
+                                onCheck={handleCheckStrain}
+                            />
+                        </Suspense>
+                    )}
 
                     {error && (
                         <div className="p-3 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-sm flex items-center gap-2">
@@ -551,9 +1047,66 @@ const Deformations = () => {
                         </div>
                     )}
 
+                    {/* Time and load factor */}
+                    {usesLoad && kinematics && (
+                        <div className="pt-2 border-t border-slate-800 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-bold text-slate-500 uppercase">{t('load.title')}</span>
+                                <div className="flex items-center gap-1">
+                                    {(['t', 'lambda'] as const).map((key) => (
+                                        <button
+                                            key={key}
+                                            onClick={() => setParams({ anim: key })}
+                                            disabled={loadPlaying}
+                                            className={`w-7 py-0.5 text-[10px] font-mono rounded border ${anim === key ? 'bg-blue-500/30 border-blue-400/60 text-blue-100' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                                        >
+                                            {key === 't' ? 't' : 'λ'}
+                                        </button>
+                                    ))}
+                                    <button
+                                        onClick={loadPlaying ? stopLoad : playLoad}
+                                        title={t(loadPlaying ? 'load.pause' : 'load.play')}
+                                        className="ml-1 p-1.5 rounded bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30"
+                                    >
+                                        {loadPlaying ? <Pause size={12}/> : <Play size={12}/>}
+                                    </button>
+                                </div>
+                            </div>
+                            {([
+                                { key: 't', label: 't', value: load.t, max: TIME_MAX, step: 0.05, set: (value: number) => setParams({ time: value }) },
+                                { key: 'lambda', label: 'λ', value: load.lambda, max: 1, step: 0.01, set: (value: number) => setParams({ lambda: value }) },
+                            ] as const).map(({ key, label, value, max, step, set }) => (
+                                <div key={key} className="flex items-center gap-3">
+                                    <span className="text-xs font-mono w-4 text-slate-400">{label}</span>
+                                    <input
+                                        type="range" min={0} max={max} step={step} value={value}
+                                        onChange={(e) => {
+                                            if (loadPlaying) stopLoad();
+                                            set(parseFloat(e.target.value));
+                                        }}
+                                        className="flex-1 accent-blue-500"
+                                    />
+                                    <span className="text-xs font-mono w-10 text-right">{formatNumber(value, 2)}</span>
+                                </div>
+                            ))}
+                            <LoadingPlot
+                                kinematics={kinematics}
+                                probe={probe}
+                                variable={anim}
+                                load={load}
+                                scalars={plot}
+                                onScalarsChange={(scalars) => setParams({ plot: scalars })}
+                                onScrub={(value) => {
+                                    if (loadPlaying) stopLoad();
+                                    setParams(anim === 't' ? { time: value } : { lambda: value });
+                                }}
+                            />
+                        </div>
+                    )}
+
                     {/* Tensor Output */}
                     <div className="pt-2 border-t border-slate-800">
-                        <h3 className="text-center font-bold text-slate-400 text-sm mb-2">Tensor de Deformación Resultante</h3>
+                        <h3 className="text-center font-bold text-slate-400 text-sm mb-2">{t('resultTitle')}</h3>
                         <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1.5 rounded-xl border border-slate-800">
                             {['e11', 'e12', 'e13', 'e21', 'e22', 'e23', 'e31', 'e32', 'e33'].map((key) => (
                                 <div key={key} className="bg-slate-900/50 rounded p-1 flex items-center justify-center border border-slate-800/50 min-h-[2rem] text-sm">
@@ -562,6 +1115,162 @@ const Deformations = () => {
                             ))}
                         </div>
                     </div>
+
+                    {/* Rigid rotation */}
+                    {kinematics && (
+                        <div className="pt-2 border-t border-slate-800 space-y-2">
+                            <h3 className="text-center font-bold text-slate-400 text-sm">{t('motion.omegaTitle')}</h3>
+                            <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1.5 rounded-xl border border-slate-800">
+                                {kinematics.omega.flat().map((tex, i) => (
+                                    <div key={i} className="bg-slate-900/50 rounded p-1 flex items-center justify-center border border-slate-800/50 min-h-[2rem] text-sm">
+                                        <MathTex tex={tex} />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="text-sm text-slate-300">
+                                <MathTex tex={`\\boldsymbol{\\theta} = \\tfrac{1}{2}\\nabla \\times \\mathbf{u} = \\left(${kinematics.rotation.join(',\\ ')}\\right)`} />
+                            </div>
+
+                            {motion && (
+                                <div className="space-y-2">
+                                    <p className="text-[10px] text-slate-500 font-mono">
+                                        {t('motion.center', {
+                                            translation: motion.translation.map(c => formatNumber(c, 3)).join('; '),
+                                            angle: formatNumber(motion.angleDeg, 2),
+                                        })}
+                                    </p>
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={() => {
+                                                if (loadPlaying) stopLoad();
+                                                setDecomposition(decomposition?.playing ? null : { stage: 0, playing: true });
+                                            }}
+                                            title={t(decomposition?.playing ? 'motion.stop' : 'motion.play')}
+                                            className="p-1.5 rounded bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30"
+                                        >
+                                            {decomposition?.playing ? <Square size={12}/> : <Play size={12}/>}
+                                        </button>
+                                        {MOTION_STAGES.map((key, i) => (
+                                            <button
+                                                key={key}
+                                                onClick={() => {
+                                                    if (loadPlaying) stopLoad();
+                                                    setDecomposition(decomposition?.stage === i && !decomposition.playing ? null : { stage: i, playing: false });
+                                                }}
+                                                className={`flex-1 py-1 text-[10px] rounded border transition-colors ${decomposition?.stage === i ? 'bg-blue-500/30 border-blue-400/60 text-blue-100' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                            >
+                                                {i + 1}. {t(`motion.stages.${key}`)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-slate-500">{t('motion.hint')}</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Reference body */}
+                    <div className="pt-2 border-t border-slate-800 space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase block">{t('body.title')}</label>
+                        <div className="flex gap-2">
+                            <div className="relative flex-1">
+                                <select
+                                    value={imported ? 'imported' : body}
+                                    onChange={handleBodyChange}
+                                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300"
+                                >
+                                    {BODY_KINDS.map((key) => (
+                                        <option key={key} value={key}>{t(`body.kinds.${key}`)}</option>
+                                    ))}
+                                    {imported && <option value="imported">{t('body.imported', { name: imported.name })}</option>}
+                                </select>
+                                <ChevronDown size={16} className="absolute right-3 top-3 text-slate-500 pointer-events-none"/>
+                            </div>
+                            <label className={`flex items-center gap-1 px-2 rounded-lg border border-slate-700 bg-slate-800 text-xs text-slate-300 hover:bg-slate-700 cursor-pointer focus-within:ring-2 focus-within:ring-blue-400/70 ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+                                {importing ? <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin"/> : <Upload size={14}/>}
+                                {t('body.import')}
+                                <input
+                                    type="file"
+                                    accept=".obj,.stl"
+                                    className="sr-only"
+                                    onChange={(e) => {
+                                        handleImport(e.target.files?.[0]);
+                                        e.target.value = "";
+                                    }}
+                                />
+                            </label>
+                        </div>
+                        {importError && <p className="text-[10px] text-rose-400">{importError}</p>}
+                        <div className="flex items-center gap-3">
+                            <span className="text-xs text-slate-400">{t('body.density')}</span>
+                            <input
+                                type="range" min={3} max={MAX_DENSITY} step={1} value={density}
+                                disabled={imported !== null}
+                                onChange={(e) => setParams({ density: parseInt(e.target.value, 10) })}
+                                className="flex-1 accent-blue-500 disabled:opacity-40"
+                            />
+                            <span className="text-xs font-mono w-6 text-right">{density}</span>
+                        </div>
+                    </div>
+
+                    {/* Strain field */}
+                    <div className="pt-2 border-t border-slate-800 space-y-2">
+                        <label className="text-xs font-bold text-slate-500 uppercase block">{t('field.color')}</label>
+                        <div className="relative">
+                            <select
+                                value={color}
+                                onChange={(e) => setParams({ color: e.target.value as StrainScalar | 'none' })}
+                                className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300"
+                            >
+                                <option value="none">{t('field.none')}</option>
+                                {STRAIN_SCALARS.map((key) => (
+                                    <option key={key} value={key}>{t(`field.scalars.${key}`)}</option>
+                                ))}
+                            </select>
+                            <ChevronDown size={16} className="absolute right-3 top-3 text-slate-500 pointer-events-none"/>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                            <input type="checkbox" checked={glyphs} onChange={(e) => setParams({ glyphs: e.target.checked })} className="accent-blue-500" />
+                            {t('field.glyphs')}
+                        </label>
+                        {glyphs && <p className="text-[10px] text-slate-500">{t('field.glyphsHint')}</p>}
+                        <p className="text-[10px] text-slate-500">{t('field.probeHint')}</p>
+                    </div>
+
+                    {/* Finite strain */}
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={finite} onChange={(e) => setParams({ finite: e.target.checked })} className="accent-blue-500" />
+                        {t('finite.toggle')}
+                    </label>
+                    {finite && kinematics && (
+                        <Suspense fallback={<div className="p-3 text-xs text-slate-500">{t('panelLoading')}</div>}>
+                            <FiniteStrainPanel kinematics={kinematics} probe={probe} load={load} onProbeChange={([x, y, z]) => setParams({ px: x, py: y, pz: z })} />
+                        </Suspense>
+                    )}
+
+                    {/* Strain-gauge rosette */}
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={rosette} onChange={(e) => setParams({ rosette: e.target.checked })} className="accent-blue-500" />
+                        {t('rosette.toggle')}
+                    </label>
+                    {rosette && !rosetteFace && (
+                        <p className="text-[10px] text-amber-300">{t('rosette.noFace')}</p>
+                    )}
+                    {rosette && rosetteFace && rosettePoint && rosetteStrain && (
+                        <Suspense fallback={<div className="p-3 text-xs text-slate-500">{t('rosette.loading')}</div>}>
+                            <RosettePanel
+                                key={`${gauge}-${rosetteFace}-${noise}-${seed}-${rosettePoint.join()}`}
+                                epsilon={rosetteStrain}
+                                point={rosettePoint}
+                                faces={rosetteFaces}
+                                type={gauge}
+                                face={rosetteFace}
+                                noise={noise}
+                                seed={seed}
+                                onChange={({ type, ...settings }) => setParams({ ...settings, ...(type && { gauge: type }) })}
+                            />
+                        </Suspense>
+                    )}
                 </div>
 
                 {/* Visualization Panel */}
@@ -572,14 +1281,71 @@ const Deformations = () => {
                         {/* Canvas Container - Dedicated for Three.js */}
                         <div ref={canvasRef} className="absolute inset-0 w-full h-full" />
                         
+                        <ExportToolbar
+                            fileName="deformaciones"
+                            png={() => captureWebGL(rendererRef.current!, sceneRef.current!, cameraRef.current!)}
+                            table={latticeTable}
+                            json={() => ({
+                                displacement: { u, v, w },
+                                ...(usesLoad && { load }),
+                                strainTensorTex: tensor,
+                                ...(kinematics && { finiteStrainTex: { F: kinematics.F, E: kinematics.E, J: kinematics.J }, rotationTex: { omega: kinematics.omega, theta: kinematics.rotation } }),
+                                ...(motion && { rigidMotion: { translation: motion.translation, rotation: motion.rotation } }),
+                                ...(fieldColoring && { strainField: { scalar: color, min: fieldColoring.min, max: fieldColoring.max } }),
+                                ...(probeStrain && { probe: { point: probe, smallStrain: probeStrain.epsilon, principal: probeStrain.principal } }),
+                                lattice: latticeTable(),
+                            })}
+                            className="absolute top-4 left-4 z-10"
+                        />
+
                         {/* Overlay Controls */}
                         <div className="absolute top-4 right-4 bg-slate-900/80 backdrop-blur px-3 py-2 rounded-lg border border-slate-700 text-xs text-slate-400 pointer-events-none">
-                            <div className="flex items-center gap-2 mb-1"><span className="w-2 h-2 rounded-full bg-cyan-400 opacity-60"/> Original</div>
-                            <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-purple-400"/> Deformado</div>
+                            <div className="flex items-center gap-2 mb-1"><span className="w-2 h-2 rounded-full bg-cyan-400 opacity-60"/> {t('legend.original')}</div>
+                            <div className="flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-purple-400"/> {t('legend.deformed')}</div>
                         </div>
+
+                        {/* Colorbar */}
+                        {fieldColoring && color !== 'none' && (
+                            <div className="absolute bottom-4 left-4 w-64 max-w-[60%] bg-slate-900/80 backdrop-blur px-3 py-2 rounded-lg border border-slate-700 text-xs text-slate-400 pointer-events-none">
+                                <div className="mb-1 text-slate-300">{t(`field.scalars.${color}`)}</div>
+                                <div className="h-3 rounded-full border border-white/5 shadow-inner" style={{ background: "linear-gradient(to right, #440154, #3b528b, #21918c, #5ec962, #fde725)" }} />
+                                <div className="flex justify-between mt-1 font-mono text-[10px]">
+                                    <span>{formatNumber(fieldColoring.min, 4)}</span>
+                                    <span>{formatNumber(fieldColoring.max, 4)}</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Local tensor at the clicked point */}
+                        {probeOpen && probeStrain && (
+                            <div className="absolute bottom-4 right-4 bg-slate-900/90 backdrop-blur p-3 rounded-lg border border-amber-500/40 text-xs text-slate-300 space-y-2 w-56">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-bold text-amber-300">{t('field.probe.title')}</span>
+                                    <button onClick={() => setProbeOpen(false)} aria-label={t('field.probe.close')} className="text-slate-500 hover:text-slate-300">
+                                        <X size={14}/>
+                                    </button>
+                                </div>
+                                <div className="font-mono text-[10px] text-slate-400">
+                                    X = ({probe.map(c => formatNumber(c, 2)).join('; ')})
+                                </div>
+                                <div className="grid grid-cols-3 gap-0.5 bg-slate-950 p-1 rounded border border-slate-800">
+                                    {probeStrain.epsilon.flat().map((value, i) => (
+                                        <span key={i} className="text-[10px] font-mono text-center">{formatNumber(Math.abs(value) < 5e-5 ? 0 : value, 4)}</span>
+                                    ))}
+                                </div>
+                                <div className="text-[10px] text-slate-400">
+                                    {t('field.probe.principal')}: <span className="font-mono text-slate-300">{probeStrain.principal.map(value => formatNumber(value, 4)).join('; ')}</span>
+                                </div>
+                                {color !== 'none' && (
+                                    <div className="text-[10px] text-slate-400">
+                                        {t(`field.scalars.${color}`)}: <span className="font-mono text-slate-300">{formatNumber(strainScalar(probeStrain.epsilon, color), 4)}</span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                     <div className="p-3 bg-slate-900 text-center text-xs text-slate-500">
-                        Usa el mouse para rotar, mover y hacer zoom.
+                        {t('orbitHint')}
                     </div>
                 </div>
             </div>
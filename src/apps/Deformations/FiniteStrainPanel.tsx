@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { MathRender } from '../../lib/MathRender';
+import { SMALL_GRADIENT, kinematicsAt } from './kinematics';
+import type { LoadState, Matrix3, PointKinematics, SymbolicKinematics } from './kinematics';
+
+type Point = [number, number, number];
+
+interface FiniteStrainPanelProps {
+    kinematics: SymbolicKinematics;
+    probe: Point;
+    load: LoadState;
+    onProbeChange: (probe: Point) => void;
+}
+
+const texMatrix = (rows: string[][]) => `\\begin{bmatrix} ${rows.map(row => row.join(' & ')).join(' \\\\ ')} \\end{bmatrix}`;
+
+const NumberMatrix = ({ label, values }: { label: string; values: Matrix3 | null }) => {
+    const { formatNumber } = useI18n(MESSAGES);
+    return (
+        <div className="flex flex-col gap-0.5">
+            <span className="text-[10px] text-slate-500 font-mono text-center">{label}</span>
+            <div className="grid grid-cols-3 gap-0.5 bg-slate-950 p-1 rounded border border-slate-800">
+                {(values ?? [[NaN, NaN, NaN], [NaN, NaN, NaN], [NaN, NaN, NaN]]).flat().map((value, i) => (
+                    <span key={i} className="text-[10px] font-mono text-center text-slate-300">
+                        {Number.isFinite(value) ? formatNumber(Math.abs(value) < 5e-4 ? 0 : value, 3) : '—'}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Comparación de la teoría linealizada con la de deformación finita en un punto del cuerpo
+export default function FiniteStrainPanel({ kinematics, probe, load, onProbeChange }: FiniteStrainPanelProps) {
+    const { t, formatNumber } = useI18n(MESSAGES);
+
+    const result = useMemo((): { point: PointKinematics } | { error: string } => {
+        try {
+            return { point: kinematicsAt(kinematics, probe, load) };
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [kinematics, probe, load]);
+
+    return (
+        <div className="flex flex-col gap-2 pt-2 border-t border-slate-800">
+            <div className="grid grid-cols-1 gap-1 text-xs text-slate-300 overflow-x-auto">
+                <MathRender math={`\\mathbf{F} = \\mathbf{I} + \\nabla\\mathbf{u} = ${texMatrix(kinematics.F)}`} />
+                <MathRender math={`\\mathbf{E} = \\tfrac{1}{2}(\\mathbf{F}^T\\mathbf{F} - \\mathbf{I}) = ${texMatrix(kinematics.E)}`} />
+                <MathRender math={`J = \\det\\mathbf{F} = ${kinematics.J}`} />
+            </div>
+
+            <div className="flex flex-col gap-1">
+                <span className="text-xs font-bold text-slate-500 uppercase">{t('finite.probe')}</span>
+                {(['x', 'y', 'z'] as const).map((axis, i) => (
+                    <div key={axis} className="flex items-center gap-3">
+                        <span className="text-xs font-mono w-4 text-slate-400">{axis}</span>
+                        <input type="range" min={-1} max={1} step={0.05} value={probe[i]} onChange={(e) => onProbeChange(probe.map((c, j) => (j === i ? parseFloat(e.target.value) : c)) as Point)} className="flex-1 accent-blue-500" />
+                        <span className="text-xs font-mono w-10 text-right">{formatNumber(probe[i], 2)}</span>
+                    </div>
+                ))}
+            </div>
+
+            {'error' in result ? (
+                <div className="p-2 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-xs">{result.error}</div>
+            ) : (
+                <>
+                    {result.point.gradientNorm > SMALL_GRADIENT && (
+                        <div className="p-2 bg-amber-500/10 border border-amber-500/40 rounded-lg text-amber-300 text-xs flex items-start gap-2">
+                            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                            <span>{t('finite.abuse', {
+                                gradient: formatNumber(result.point.gradientNorm, 2),
+                                limit: formatNumber(SMALL_GRADIENT, 2),
+                                gap: formatNumber(result.point.strainGap, 3),
+                                angle: formatNumber(result.point.rotationDeg ?? 0, 1),
+                            })}</span>
+                        </div>
+                    )}
+                    {result.point.J <= 0 && (
+                        <div className="p-2 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-xs">{t('finite.inverted')}</div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                        <NumberMatrix label={t('finite.small')} values={result.point.smallStrain} />
+                        <NumberMatrix label={t('finite.green')} values={result.point.E} />
+                        <NumberMatrix label={t('finite.almansi')} values={result.point.almansi} />
+                        <NumberMatrix label="F" values={result.point.F} />
+                        <NumberMatrix label="R" values={result.point.R} />
+                        <NumberMatrix label="U" values={result.point.U} />
+                    </div>
+                    <div className="flex justify-around text-xs font-mono text-slate-300">
+                        <span>J = {formatNumber(result.point.J, 4)}</span>
+                        {result.point.rotationDeg !== null && <span>θ(R) = {formatNumber(result.point.rotationDeg, 1)}°</span>}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { useMemo, useRef } from 'react';
+import type { PointerEvent } from 'react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { TIME_MAX, gradientAt, smallStrain } from './kinematics';
+import type { LoadState, SymbolicKinematics } from './kinematics';
+import { STRAIN_SCALARS, strainScalar } from './strainField';
+import type { StrainScalar } from './strainField';
+
+export type LoadVariable = keyof LoadState;
+
+const SAMPLES = 121;
+const COLORS = ['#a855f7', '#ef4444', '#0ea5e9', '#22c55e', '#eab308', '#f97316', '#ec4899', '#14b8a6', '#f8fafc'];
+const W = 300, H = 140, PAD = 6;
+
+interface LoadingPlotProps {
+    kinematics: SymbolicKinematics;
+    probe: [number, number, number];
+    variable: LoadVariable;
+    load: LoadState;
+    scalars: StrainScalar[];
+    onScalarsChange: (scalars: StrainScalar[]) => void;
+    onScrub: (value: number) => void;
+}
+
+// Escalares de ε en el punto de sondeo frente a t o λ, con el otro parámetro fijo
+export default function LoadingPlot({ kinematics, probe, variable, load, scalars, onScalarsChange, onScrub }: LoadingPlotProps) {
+    const { t, formatNumber } = useI18n(MESSAGES);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const max = variable === 't' ? TIME_MAX : 1;
+    // Solo el parámetro que no se barre entra en la curva; el cursor va aparte
+    const fixed = variable === 't' ? load.lambda : load.t;
+
+    const samples = useMemo(() => {
+        try {
+            return Array.from({ length: SAMPLES }, (_, i) => {
+                const value = (i / (SAMPLES - 1)) * max;
+                const epsilon = smallStrain(gradientAt(kinematics, probe, variable === 't' ? { t: value, lambda: fixed } : { t: fixed, lambda: value }));
+                return { value, strains: scalars.map(scalar => strainScalar(epsilon, scalar)) };
+            });
+        } catch {
+            return null;
+        }
+    }, [kinematics, probe, variable, fixed, max, scalars]);
+
+    const current = load[variable];
+    const px = (value: number) => PAD + (value / max) * (W - 2 * PAD);
+    const values = samples?.flatMap(s => s.strains) ?? [];
+    const top = Math.max(...values, 0), bottom = Math.min(...values, 0);
+    const span = top - bottom || 1;
+    const py = (value: number) => PAD + ((top - value) / span) * (H - 2 * PAD);
+
+    const scrub = (event: PointerEvent<SVGSVGElement>) => {
+        const box = event.currentTarget.getBoundingClientRect();
+        const fraction = (((event.clientX - box.left) / box.width) * W - PAD) / (W - 2 * PAD);
+        onScrub(Math.round(Math.max(0, Math.min(1, fraction)) * max * 100) / 100);
+    };
+
+    const toggle = (scalar: StrainScalar) => onScalarsChange(
+        scalars.includes(scalar) ? scalars.filter(s => s !== scalar) : STRAIN_SCALARS.filter(s => s === scalar || scalars.includes(s))
+    );
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-slate-400 font-medium">{t('load.plotTitle', { variable: variable === 't' ? 't' : 'λ' })}</span>
+                {samples && (
+                    <ExportToolbar
+                        fileName={`deformacion-${variable}`}
+                        svg={() => svgRef.current}
+                        table={() => ({ columns: [variable, ...scalars], rows: samples.map(s => [s.value, ...s.strains]) })}
+                    />
+                )}
+            </div>
+            <div className="flex flex-wrap gap-1">
+                {STRAIN_SCALARS.map((scalar, i) => (
+                    <button
+                        key={scalar}
+                        onClick={() => toggle(scalar)}
+                        className={`px-1.5 py-0.5 text-[10px] rounded border font-mono ${scalars.includes(scalar) ? 'bg-slate-800 border-slate-600 text-slate-100' : 'border-slate-800 text-slate-500'}`}
+                        style={scalars.includes(scalar) ? { color: COLORS[i] } : undefined}
+                    >
+                        {t(`load.short.${scalar}`)}
+                    </button>
+                ))}
+            </div>
+            {samples ? (
+                <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full bg-slate-950/80 rounded border border-slate-800 cursor-crosshair touch-none" onPointerDown={scrub}>
+                    <line x1={PAD} x2={W - PAD} y1={py(0)} y2={py(0)} stroke="#475569" strokeWidth={0.5} strokeDasharray="3 3" />
+                    {scalars.map((scalar, k) => (
+                        <polyline key={scalar} fill="none" stroke={COLORS[STRAIN_SCALARS.indexOf(scalar)]} strokeWidth={1.5} points={samples.map(s => `${px(s.value)},${py(s.strains[k])}`).join(' ')} />
+                    ))}
+                    <line x1={px(current)} x2={px(current)} y1={PAD} y2={H - PAD} stroke="#f59e0b" strokeWidth={1} />
+                    <text x={W - PAD} y={H - PAD - 2} textAnchor="end" fontSize={9} fill="#94a3b8">
+                        {variable === 't' ? 't' : 'λ'} = {formatNumber(current, 2)}
+                    </text>
+                    <text x={PAD + 2} y={PAD + 8} fontSize={9} fill="#94a3b8">{formatNumber(top, 4)}</text>
+                    <text x={PAD + 2} y={H - PAD - 2} fontSize={9} fill="#94a3b8">{formatNumber(bottom, 4)}</text>
+                </svg>
+            ) : (
+                <div className="p-2 bg-rose-500/10 border border-rose-500/50 rounded-lg text-rose-400 text-xs">{t('load.plotError')}</div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,192 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Check, ChevronDown } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { SeedControl } from '../../components/SeedControl';
+import { GAUGE_ANGLES, FACE_AXES, ROSETTE_TYPES, planePrincipal, planeStrain, readGauges, solveRosette } from './rosette';
+import type { PlanePrincipal, PlaneStrain, RosetteFace, RosetteType } from './rosette';
+
+export interface RosetteSettings {
+    type: RosetteType;
+    face: RosetteFace;
+    noise: number;
+    seed: number;
+}
+
+interface RosettePanelProps extends RosetteSettings {
+    epsilon: number[][];
+    point: [number, number, number]; // Punto de sondeo proyectado sobre la cara
+    faces: readonly RosetteFace[]; // Caras planas del cuerpo
+    onChange: (settings: Partial<RosetteSettings>) => void;
+}
+
+const ANSWER_KEYS = ['aa', 'bb', 'gamma', 'e1', 'e2'] as const;
+type AnswerKey = (typeof ANSWER_KEYS)[number];
+const AXIS_NAMES = ['x', 'y', 'z'];
+// Acierto: a menos del 2 % de la mayor deformación principal de lo que dan las lecturas
+const TOLERANCE = 0.02;
+const W = 300, H = 170, PAD = 14;
+
+const SELECT_CLASS = 'w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm appearance-none focus:outline-none focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors cursor-pointer text-slate-300';
+
+// Círculo de Mohr de deformación (ε, γ/2): el verdadero y el de la respuesta
+const MohrStrain = ({ truth, answer }: { truth: PlaneStrain & PlanePrincipal; answer: (PlaneStrain & PlanePrincipal) | null }) => {
+    const { t } = useI18n(MESSAGES);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const circles = answer ? [truth, answer] : [truth];
+    const left = Math.min(...circles.map(c => c.center - c.radius), 0);
+    const right = Math.max(...circles.map(c => c.center + c.radius), 0);
+    const half = Math.max(...circles.map(c => c.radius), 1e-12);
+    const scale = Math.min((W - 2 * PAD) / (right - left || 1), (H - 2 * PAD) / (2 * half));
+    const x0 = W / 2 - ((left + right) / 2) * scale, y0 = H / 2;
+    const px = (e: number) => x0 + e * scale;
+    const py = (g: number) => y0 - g * scale;
+
+    const circle = (c: PlaneStrain & PlanePrincipal, stroke: string, dashed: boolean) => (
+        <g stroke={stroke} fill="none" strokeWidth={1.5} strokeDasharray={dashed ? '4 3' : undefined}>
+            <circle cx={px(c.center)} cy={py(0)} r={c.radius * scale} />
+            <line x1={px(c.aa)} y1={py(c.gamma / 2)} x2={px(c.bb)} y2={py(-c.gamma / 2)} strokeWidth={1} />
+            <circle cx={px(c.aa)} cy={py(c.gamma / 2)} r={2.5} fill={stroke} />
+            <circle cx={px(c.e1)} cy={py(0)} r={2.5} fill={stroke} />
+            <circle cx={px(c.e2)} cy={py(0)} r={2.5} fill={stroke} />
+        </g>
+    );
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-slate-400 font-medium">{t('rosette.mohr')}</span>
+                <ExportToolbar fileName="mohr-deformacion" svg={() => svgRef.current} />
+            </div>
+            <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full bg-slate-950/80 rounded border border-slate-800">
+                <line x1={PAD / 2} x2={W - PAD / 2} y1={py(0)} y2={py(0)} stroke="#475569" strokeWidth={0.5} />
+                <line x1={px(0)} x2={px(0)} y1={PAD / 2} y2={H - PAD / 2} stroke="#475569" strokeWidth={0.5} />
+                <text x={W - PAD / 2} y={py(0) - 3} textAnchor="end" fontSize={9} fill="#94a3b8">ε</text>
+                <text x={px(0) + 3} y={PAD} fontSize={9} fill="#94a3b8">γ/2</text>
+                {circle(truth, '#a855f7', false)}
+                {answer && circle(answer, '#f59e0b', true)}
+            </svg>
+            <div className="flex gap-3 text-[10px] text-slate-400">
+                <span className="flex items-center gap-1"><span className="w-3 border-t-2 border-purple-500" /> {t('rosette.truth')}</span>
+                {answer && <span className="flex items-center gap-1"><span className="w-3 border-t-2 border-dashed border-amber-500" /> {t('rosette.answer')}</span>}
+            </div>
+        </div>
+    );
+};
+
+// Práctica de laboratorio: lecturas de las galgas, respuesta del estudiante y comparación
+export default function RosettePanel({ epsilon, point, faces, type, face, noise, seed, onChange }: RosettePanelProps) {
+    const { t, formatNumber } = useI18n(MESSAGES);
+    const [answer, setAnswer] = useState<Record<AnswerKey, string>>({ aa: '', bb: '', gamma: '', e1: '', e2: '' });
+    const [checked, setChecked] = useState(false);
+
+    const [a, b] = FACE_AXES[face].map(i => AXIS_NAMES[i]);
+    const truth = useMemo(() => {
+        const plane = planeStrain(epsilon, face);
+        return { ...plane, ...planePrincipal(plane) };
+    }, [epsilon, face]);
+    const readings = useMemo(() => readGauges(truth, type, noise, seed), [truth, type, noise, seed]);
+    // Lo que se obtiene de las lecturas: con ruido, no coincide del todo con el valor verdadero
+    const expected = useMemo(() => {
+        const plane = solveRosette(type, readings);
+        return { ...plane, ...planePrincipal(plane) };
+    }, [type, readings]);
+
+    const values = ANSWER_KEYS.map(key => (answer[key].trim() === '' ? NaN : Number(answer[key])));
+    const student = values.slice(0, 3).every(Number.isFinite)
+        ? (() => {
+            const plane = { aa: values[0], bb: values[1], gamma: values[2] };
+            return { ...plane, ...planePrincipal(plane) };
+        })()
+        : null;
+    const tolerance = TOLERANCE * Math.max(Math.abs(expected.e1), Math.abs(expected.e2), 1e-9);
+    const labels: Record<AnswerKey, string> = { aa: `ε${a}${a}`, bb: `ε${b}${b}`, gamma: `γ${a}${b}`, e1: 'ε1', e2: 'ε2' };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+                {([
+                    { value: type, options: ROSETTE_TYPES, label: (key: string) => t(`rosette.types.${key}`), set: (value: string) => onChange({ type: value as RosetteType }) },
+                    { value: face, options: faces, label: (key: string) => t(`rosette.faces.${key}`), set: (value: string) => onChange({ face: value as RosetteFace }) },
+                ]).map(({ value, options, label, set }, i) => (
+                    <div key={i} className="relative">
+                        <select value={value} onChange={(e) => set(e.target.value)} className={SELECT_CLASS}>
+                            {options.map((key) => <option key={key} value={key}>{label(key)}</option>)}
+                        </select>
+                        <ChevronDown size={16} className="absolute right-3 top-3 text-slate-500 pointer-events-none"/>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-slate-400">{t('rosette.noise')}</span>
+                <input
+                    type="range" min={0} max={20} step={0.5} value={noise}
+                    onChange={(e) => onChange({ noise: parseFloat(e.target.value) })}
+                    className="flex-1 accent-blue-500"
+                />
+                <span className="text-xs font-mono w-10 text-right">{formatNumber(noise, 1)} %</span>
+            </div>
+            {noise > 0 && <SeedControl seed={seed} onChange={(value) => onChange({ seed: value })} />}
+
+            <div className="rounded border border-slate-800 bg-slate-950/60 p-2 text-xs space-y-0.5">
+                <p className="text-slate-400">{t('rosette.position', { point: point.map(c => formatNumber(c, 2)).join('; ') })}</p>
+                <p className="text-slate-400">{t('rosette.readings', { a })}</p>
+                {readings.map((reading, i) => (
+                    <div key={i} className="flex justify-between font-mono">
+                        <span className="text-slate-400">{t('rosette.gauge', { n: String.fromCharCode(97 + i), angle: GAUGE_ANGLES[type][i] })}</span>
+                        <span className="text-slate-200">{formatNumber(reading, 6)}</span>
+                    </div>
+                ))}
+            </div>
+
+            <p className="text-[10px] text-slate-500">{t('rosette.task')}</p>
+            <div className="grid grid-cols-5 gap-1">
+                {ANSWER_KEYS.map((key) => {
+                    const ok = Math.abs(values[ANSWER_KEYS.indexOf(key)] - expected[key]) <= tolerance;
+                    return (
+                        <label key={key} className="flex flex-col gap-0.5">
+                            <span className="text-[10px] font-bold text-slate-400 font-mono flex items-center gap-0.5">
+                                {labels[key]}
+                                {checked && (ok ? <Check size={10} className="text-emerald-400" /> : <AlertTriangle size={10} className="text-rose-400" />)}
+                            </span>
+                            <input
+                                value={answer[key]}
+                                onChange={(e) => {
+                                    setAnswer({ ...answer, [key]: e.target.value });
+                                    setChecked(false);
+                                }}
+                                inputMode="decimal"
+                                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-1.5 font-mono text-xs focus:border-blue-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70 transition-colors text-slate-200"
+                            />
+                        </label>
+                    );
+                })}
+            </div>
+            <button
+                onClick={() => setChecked(true)}
+                className="w-full py-1.5 text-xs font-medium rounded-lg bg-blue-500/20 text-blue-300 border border-blue-500/30 hover:bg-blue-500/30"
+            >
+                {t('rosette.check')}
+            </button>
+
+            {checked && (
+                <>
+                    <div className="rounded border border-slate-800 bg-slate-950/60 p-2 text-[10px] font-mono space-y-0.5">
+                        {[
+                            { label: t('rosette.fromReadings'), value: expected },
+                            { label: t('rosette.truth'), value: truth },
+                        ].map(({ label, value }) => (
+                            <div key={label} className="flex flex-wrap gap-x-2">
+                                <span className="text-slate-400 font-sans">{label}:</span>
+                                {ANSWER_KEYS.map(key => <span key={key} className="text-slate-300">{labels[key]} = {formatNumber(value[key], 5)}</span>)}
+                                <span className="text-slate-300">θp = {formatNumber(value.angleDeg, 1)}°</span>
+                            </div>
+                        ))}
+                    </div>
+                    <MohrStrain truth={truth} answer={student} />
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { ROSETTE_FACES, faceNormal } from './rosette';
+import type { RosetteFace } from './rosette';
+
+// Cuerpos de referencia sobre los que se aplica u(x, y, z). Todos caben en el cubo
+// −1 ≤ x, y, z ≤ 1, el mismo dominio del punto de sondeo. Los nombres están en
+// locales/ (`body.kinds.<clave>`).
+
+type Point = [number, number, number];
+
+export const BODY_KINDS = ['cube', 'cylinder', 'sphere', 'beam', 'plate'] as const;
+export type BodyKind = (typeof BODY_KINDS)[number];
+
+// Puntos de la red por eje en la dimensión mayor, redondeados a impar (7 reproduce la red original del cubo)
+export const DEFAULT_DENSITY = 7;
+export const MAX_DENSITY = 12;
+
+export interface ReferenceBody {
+    surface: THREE.BufferGeometry; // Superficie sin deformar; el visor trabaja sobre una copia
+    surfacePoints: Point[]; // Sus vértices, en el mismo orden
+    lattice: Point[]; // Puntos interiores de la red de esferas
+    glyphPoints: Point[]; // Muestras de las direcciones principales
+    sphereRadius: number;
+    smooth: boolean; // Curvo o importado: se dibuja también la superficie original
+}
+
+interface Shape {
+    half: Point; // Semiejes de la caja que lo contiene
+    surface: () => THREE.BufferGeometry;
+    contains: (p: Point) => boolean;
+    smooth: boolean;
+    flatFaces: readonly RosetteFace[]; // Caras planas, donde cabe una roseta
+}
+
+const EPS = 1e-9;
+
+const SHAPES: Record<BodyKind, Shape> = {
+    cube: { half: [1, 1, 1], surface: () => new THREE.BoxGeometry(2, 2, 2, 6, 6, 6), contains: () => true, smooth: false, flatFaces: ROSETTE_FACES },
+    // Eje a lo largo de z, como el giro del preset de torsión
+    cylinder: {
+        half: [0.5, 0.5, 1],
+        surface: () => new THREE.CylinderGeometry(0.5, 0.5, 2, 32, 12).rotateX(Math.PI / 2),
+        contains: ([x, y]) => x * x + y * y <= 0.25 + EPS,
+        smooth: true,
+        flatFaces: ['z', '-z'], // Solo las tapas
+    },
+    sphere: { half: [1, 1, 1], surface: () => new THREE.SphereGeometry(1, 32, 16), contains: ([x, y, z]) => x * x + y * y + z * z <= 1 + EPS, smooth: true, flatFaces: [] },
+    // Viga esbelta según x, para la flexión
+    beam: { half: [1, 0.125, 0.125], surface: () => new THREE.BoxGeometry(2, 0.25, 0.25, 24, 2, 2), contains: () => true, smooth: false, flatFaces: ROSETTE_FACES },
+    plate: { half: [1, 1, 0.05], surface: () => new THREE.BoxGeometry(2, 2, 0.1, 12, 12, 1), contains: () => true, smooth: false, flatFaces: ROSETTE_FACES },
+};
+
+const positionsOf = (geometry: THREE.BufferGeometry): Point[] => {
+    const positions = geometry.attributes.position;
+    return Array.from({ length: positions.count }, (_, i): Point => [positions.getX(i), positions.getY(i), positions.getZ(i)]);
+};
+
+// Producto cartesiano de tres listas de coordenadas
+const grid = (axes: number[][]): Point[] => axes[0].flatMap(x => axes[1].flatMap(y => axes[2].map((z): Point => [x, y, z])));
+
+export function referenceBody(kind: BodyKind, density: number): ReferenceBody {
+    const { half, surface, contains, smooth } = SHAPES[kind];
+    const step = 2 / (density - 1);
+    // Red: nodos equiespaciados de extremo a extremo, en número impar para que el eje central
+    // siempre tenga nodos; uno solo si el eje es muy fino
+    const latticeAxes = half.map(h => {
+        const count = 2 * Math.round(h / step) + 1;
+        return count === 1 ? [0] : Array.from({ length: count }, (_, i) => -h + (2 * h * i) / (count - 1));
+    });
+    // Glifos: centros de hasta 4 celdas por eje
+    const glyphAxes = half.map(h => {
+        const count = Math.max(1, Math.min(4, Math.round((2 * h) / 0.5)));
+        return Array.from({ length: count }, (_, i) => -h + (h * (2 * i + 1)) / count);
+    });
+    const geometry = surface();
+    return {
+        surface: geometry,
+        surfacePoints: positionsOf(geometry),
+        lattice: grid(latticeAxes).filter(contains),
+        glyphPoints: grid(glyphAxes).filter(contains),
+        sphereRadius: Math.min(0.05, step * 0.15),
+        smooth,
+    };
+}
+
+// Malla importada (ya normalizada): sin red interior; los glifos van sobre sus vértices
+export function importedBody(geometry: THREE.BufferGeometry): ReferenceBody {
+    const surfacePoints = positionsOf(geometry);
+    const stride = Math.max(1, Math.floor(surfacePoints.length / 64));
+    return {
+        surface: geometry,
+        surfacePoints,
+        lattice: [],
+        glyphPoints: surfacePoints.filter((_, i) => i % stride === 0).slice(0, 64),
+        sphereRadius: 0.05,
+        smooth: true,
+    };
+}
+
+export const flatFaces = (kind: BodyKind): readonly RosetteFace[] => SHAPES[kind].flatFaces;
+
+// Proyecta un punto sobre la cara plana `face`: la coordenada normal pasa al borde del
+// cuerpo en ese sentido y las otras se recortan a la cara (al disco en las tapas del cilindro)
+export function pointOnFace(kind: BodyKind, face: RosetteFace, [x, y, z]: Point): Point {
+    const { half } = SHAPES[kind];
+    const { axis, sign } = faceNormal(face);
+    const point = [x, y, z].map((c, i) => (i === axis ? sign * half[i] : Math.max(-half[i], Math.min(half[i], c)))) as Point;
+    if (kind === 'cylinder') {
+        const r = Math.hypot(point[0], point[1]);
+        if (r > half[0]) {
+            point[0] *= half[0] / r;
+            point[1] *= half[0] / r;
+        }
+    }
+    return point;
+}
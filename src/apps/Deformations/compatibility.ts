@@ -0,0 +1,162 @@
+import * as math from 'mathjs';
+import type { StrainField } from './strainExamples';
+
+// Problema inverso: dado ε(x, y, z), comprobar las ecuaciones de compatibilidad de
+// Saint-Venant y, si se cumplen, reconstruir u con la integral de Cesàro.
+
+const AXES = ['x', 'y', 'z'] as const;
+const INDICES = [0, 1, 2];
+const GRID = [-1, -2 / 3, -1 / 3, 0, 1 / 3, 2 / 3, 1];
+const MAX_DEGREE = 12;
+// Las deformaciones son adimensionales y pequeñas: basta una tolerancia absoluta
+const TOLERANCE = 1e-9;
+
+export interface CompatibilityEquation {
+    equationTex: string; // Enunciado
+    residualTex: string; // Lado izquierdo − derecho, simplificado
+    satisfied: boolean;
+    worst: { point: [number, number, number]; value: number }; // Mayor |residuo| en el cubo
+}
+
+export interface StrainAnalysis {
+    equations: CompatibilityEquation[];
+    compatible: boolean;
+    // u, v, w salvo movimiento rígido (u = 0 y ω = 0 en el origen); null si ε es incompatible.
+    // `polynomial` es false si ε no es polinómico y la integral no se pudo hacer en forma cerrada.
+    displacement: { u: string; v: string; w: string; tex: string[] } | null;
+    polynomial: boolean;
+}
+
+const parse = (expr: string) => math.parse(expr.trim() === '' ? '0' : expr);
+const isZero = (node: math.MathNode) => node.toString() === '0';
+
+// ε como matriz simétrica de nodos
+const tensor = (field: StrainField): math.MathNode[][] => [
+    [field.xx, field.xy, field.xz],
+    [field.xy, field.yy, field.yz],
+    [field.xz, field.yz, field.zz],
+].map(row => row.map(parse));
+
+const d = (node: math.MathNode, ...axes: string[]) => axes.reduce((n, axis) => math.derivative(n, axis), node);
+const wrap = (node: math.MathNode) => `(${node.toString()})`;
+
+// Las seis ecuaciones: tres con una sola derivada cruzada y tres "mixtas"
+function compatibilityResiduals(e: math.MathNode[][]): { tex: string; residual: string }[] {
+    const plane = (i: number, j: number) => ({
+        tex: `\\frac{\\partial^2 \\varepsilon_{${AXES[i]}${AXES[i]}}}{\\partial ${AXES[j]}^2} + \\frac{\\partial^2 \\varepsilon_{${AXES[j]}${AXES[j]}}}{\\partial ${AXES[i]}^2} = 2\\frac{\\partial^2 \\varepsilon_{${AXES[i]}${AXES[j]}}}{\\partial ${AXES[i]}\\,\\partial ${AXES[j]}}`,
+        residual: `${wrap(d(e[i][i], AXES[j], AXES[j]))} + ${wrap(d(e[j][j], AXES[i], AXES[i]))} - 2 * ${wrap(d(e[i][j], AXES[i], AXES[j]))}`,
+    });
+    // ∂²εii/∂xj∂xk = ∂/∂xi(−∂εjk/∂xi + ∂εik/∂xj + ∂εij/∂xk), con (i, j, k) permutación de (x, y, z)
+    const mixed = (i: number, j: number, k: number) => ({
+        tex: `\\frac{\\partial^2 \\varepsilon_{${AXES[i]}${AXES[i]}}}{\\partial ${AXES[j]}\\,\\partial ${AXES[k]}} = \\frac{\\partial}{\\partial ${AXES[i]}}\\left(-\\frac{\\partial \\varepsilon_{${AXES[j]}${AXES[k]}}}{\\partial ${AXES[i]}} + \\frac{\\partial \\varepsilon_{${AXES[i]}${AXES[k]}}}{\\partial ${AXES[j]}} + \\frac{\\partial \\varepsilon_{${AXES[i]}${AXES[j]}}}{\\partial ${AXES[k]}}\\right)`,
+        residual: `${wrap(d(e[i][i], AXES[j], AXES[k]))} - (-${wrap(d(e[j][k], AXES[i], AXES[i]))} + ${wrap(d(e[i][k], AXES[j], AXES[i]))} + ${wrap(d(e[i][j], AXES[k], AXES[i]))})`,
+    });
+    return [plane(0, 1), plane(1, 2), plane(2, 0), mixed(0, 1, 2), mixed(1, 2, 0), mixed(2, 0, 1)];
+}
+
+// Parámetro del camino; no puede chocar con t ni con lambda, que el usuario sí puede escribir
+const PATH = '_s';
+
+// Sustituye x, y, z por s·x, s·y, s·z (punto ξ = s·X del camino recto desde el origen)
+const alongPath = (node: math.MathNode) => node.transform(n =>
+    n instanceof math.SymbolNode && (AXES as readonly string[]).includes(n.name) ? math.parse(`(${PATH} * ${n.name})`) : n
+);
+
+/**
+ * ∫₀¹ f(s) ds para f polinómica en s: f = Σ cₙ sⁿ con cₙ = f⁽ⁿ⁾(0)/n!, así que la integral
+ * vale Σ cₙ/(n + 1). Devuelve null si f no es un polinomio de grado ≤ MAX_DEGREE.
+ */
+function integrateUnitInterval(f: math.MathNode): math.MathNode | null {
+    const terms: string[] = [];
+    let derivative = math.simplify(f);
+    let factorial = 1;
+    for (let n = 0; n <= MAX_DEGREE; n++) {
+        if (isZero(derivative)) return math.simplify(terms.length ? terms.join(' + ') : '0');
+        const atZero = math.simplify(derivative.transform(node => (node instanceof math.SymbolNode && node.name === PATH ? new math.ConstantNode(0) : node)));
+        if (!isZero(atZero)) terms.push(`${wrap(atZero)} / ${factorial * (n + 1)}`);
+        derivative = math.simplify(math.derivative(derivative, PATH));
+        factorial *= n + 1;
+    }
+    return null;
+}
+
+/**
+ * Desarrolla un polinomio en x, y, z como suma de monomios con coeficientes decimales,
+ * cᵃᵇᶜ = ∂ᵃ⁺ᵇ⁺ᶜf/∂xᵃ∂yᵇ∂zᶜ(0) / (a! b! c!), para que u quede corta y legible en la URL.
+ */
+function expandPolynomial(f: math.MathNode): string {
+    const terms: string[] = [];
+    const visit = (node: math.MathNode, axis: number, powers: number[], factorial: number) => {
+        let current = node, power = 0, fact = factorial;
+        while (!isZero(current) && power <= MAX_DEGREE) {
+            const exponents = [...powers, power];
+            if (axis < AXES.length - 1) {
+                visit(current, axis + 1, exponents, fact);
+            } else {
+                const coefficient = Number(((current.compile().evaluate({ x: 0, y: 0, z: 0 }) as number) / fact).toPrecision(12));
+                if (coefficient !== 0) {
+                    const monomial = exponents.flatMap((n, i) => (n === 0 ? [] : [n === 1 ? AXES[i] : `${AXES[i]}^${n}`])).join('*');
+                    terms.push(!monomial ? String(coefficient)
+                        : coefficient === 1 ? monomial
+                        : coefficient === -1 ? `-${monomial}`
+                        : `${coefficient}*${monomial}`);
+                }
+            }
+            current = math.simplify(math.derivative(current, AXES[axis]));
+            power += 1;
+            fact *= power;
+        }
+    };
+    visit(math.simplify(f), 0, [], 1);
+    return terms.length === 0 ? '0' : terms.join(' + ').replace(/\+ -/g, '- ');
+}
+
+/**
+ * Cesàro con X⁰ = 0, u(0) = 0 y ω(0) = 0:
+ * ui(X) = ∫₀¹ [εik(ξ) + (Xj − ξj)(∂εik/∂ξj − ∂εjk/∂ξi)(ξ)] Xk ds, ξ = s·X.
+ */
+function reconstructDisplacement(e: math.MathNode[][]): string[] | null {
+    const result: string[] = [];
+    for (const i of INDICES) {
+        const integrand = INDICES.map(k => {
+            const gradientTerms = INDICES.map(j =>
+                `(1 - ${PATH}) * ${AXES[j]} * (${wrap(alongPath(d(e[i][k], AXES[j])))} - ${wrap(alongPath(d(e[j][k], AXES[i])))})`
+            ).join(' + ');
+            return `(${wrap(alongPath(e[i][k]))} + ${gradientTerms}) * ${AXES[k]}`;
+        }).join(' + ');
+        const integral = integrateUnitInterval(math.parse(integrand));
+        if (!integral) return null;
+        result.push(expandPolynomial(integral));
+    }
+    return result;
+}
+
+/**
+ * Comprueba la compatibilidad y, si ε es compatible, reconstruye el desplazamiento.
+ * Como en el equilibrio del tensor de esfuerzos, `simplify` no siempre llega a 0, así que
+ * cada ecuación se da por cumplida si el residuo se anula en la malla del cubo.
+ * Lanza con los errores de sintaxis.
+ */
+export function analyzeStrainField(field: StrainField): StrainAnalysis {
+    const e = tensor(field);
+    const equations = compatibilityResiduals(e).map(({ tex, residual }) => {
+        const node = math.simplify(residual);
+        const code = node.compile();
+        let worst = { point: [0, 0, 0] as [number, number, number], value: 0 };
+        for (const x of GRID) for (const y of GRID) for (const z of GRID) {
+            const value = code.evaluate({ x, y, z });
+            if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`valor no real en (${x}, ${y}, ${z})`);
+            if (Math.abs(value) > Math.abs(worst.value)) worst = { point: [x, y, z], value };
+        }
+        return { equationTex: tex, residualTex: node.toTex(), satisfied: Math.abs(worst.value) <= TOLERANCE, worst };
+    });
+
+    const compatible = equations.every(eq => eq.satisfied);
+    const fields = compatible ? reconstructDisplacement(e) : null;
+    return {
+        equations,
+        compatible,
+        displacement: fields && { u: fields[0], v: fields[1], w: fields[2], tex: fields.map(f => math.parse(f).toTex()) },
+        polynomial: !compatible || fields !== null,
+    };
+}
@@ -0,0 +1,59 @@
+import { STATIC_LOAD, gradientAt } from './kinematics';
+import type { LoadState, Matrix3, SymbolicKinematics } from './kinematics';
+
+// Descomposición del movimiento respecto al centro del cubo (X = 0):
+// x = X + u(X) = u₀ + R(θ)·X + [X + u(X) − u₀ − R(θ)·X]
+// traslación rígida, giro rígido de vector θ = ½∇×u y el resto, que es deformación pura.
+
+type Point = [number, number, number];
+
+export const MOTION_STAGES = ['translation', 'rotation', 'strain'] as const;
+export type MotionStage = (typeof MOTION_STAGES)[number];
+
+export interface RigidMotion {
+    translation: Point; // u₀
+    rotation: Point; // θ (rad)
+    angleDeg: number; // |θ|
+}
+
+const CENTER: Point = [0, 0, 0];
+
+export function rigidMotion(symbolic: SymbolicKinematics, load: LoadState = STATIC_LOAD): RigidMotion {
+    const translation = symbolic.displacement.map(code => {
+        const value = code.evaluate({ x: 0, y: 0, z: 0, ...load });
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error('u no es real en el centro del cubo');
+        return value;
+    }) as Point;
+    const g = gradientAt(symbolic, CENTER, load);
+    const rotation: Point = [0.5 * (g[2][1] - g[1][2]), 0.5 * (g[0][2] - g[2][0]), 0.5 * (g[1][0] - g[0][1])];
+    return { translation, rotation, angleDeg: (Math.hypot(...rotation) * 180) / Math.PI };
+}
+
+// Giro finito de vector θ (Rodrigues), para que la etapa de rotación sea rígida de verdad
+function rodrigues([a, b, c]: Point): Matrix3 {
+    const angle = Math.hypot(a, b, c);
+    if (angle < 1e-12) return [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    const [x, y, z] = [a / angle, b / angle, c / angle];
+    const cos = Math.cos(angle), sin = Math.sin(angle), k = 1 - cos;
+    return [
+        [cos + x * x * k, x * y * k - z * sin, x * z * k + y * sin],
+        [y * x * k + z * sin, cos + y * y * k, y * z * k - x * sin],
+        [z * x * k - y * sin, z * y * k + x * sin, cos + z * z * k],
+    ];
+}
+
+const apply = (R: Matrix3, X: Point): Point => R.map(row => row[0] * X[0] + row[1] * X[1] + row[2] * X[2]) as Point;
+
+/**
+ * Posición de X cuando la animación va por `progress` ∈ [0, 3]: cada unidad completa una etapa
+ * (traslación, giro, deformación). En 3 coincide con X + u(X).
+ */
+export function stagedPosition(X: Point, u: Point, motion: RigidMotion, progress: number): Point {
+    const [s1, s2, s3] = [0, 1, 2].map(k => Math.max(0, Math.min(1, progress - k)));
+    const partial = apply(rodrigues(motion.rotation.map(c => c * s2) as Point), X);
+    const full = apply(rodrigues(motion.rotation), X);
+    return [0, 1, 2].map(i => {
+        const residual = X[i] + u[i] - motion.translation[i] - full[i];
+        return s1 * motion.translation[i] + partial[i] + s3 * residual;
+    }) as Point;
+}
@@ -0,0 +1,152 @@
+import * as math from 'mathjs';
+
+// Cinemática de deformación finita a partir del desplazamiento u(x, y, z):
+// F = I + ∇u, Green-Lagrange E, Euler-Almansi e y descomposición polar F = RU.
+// F, E y J = det F se derivan simbólicamente, igual que el giro infinitesimal ω y θ = ½∇×u;
+// lo demás se evalúa en un punto.
+
+export type Matrix3 = number[][];
+
+const AXES = ['x', 'y', 'z'] as const;
+const INDICES = [0, 1, 2];
+
+// Además de x, y, z, u puede depender del tiempo t y del factor de carga lambda (λ ∈ [0, 1])
+export interface LoadState {
+    t: number;
+    lambda: number;
+}
+
+// Sin animación: instante inicial con la carga completa, así un campo sin t ni λ no cambia
+export const STATIC_LOAD: LoadState = { t: 0, lambda: 1 };
+export const TIME_MAX = 10;
+
+// Por encima de este |∂ui/∂xj| la teoría linealizada deja de ser fiable
+export const SMALL_GRADIENT = 0.1;
+
+export interface SymbolicKinematics {
+    displacement: math.EvalFunction[]; // u, v, w compiladas
+    gradient: math.EvalFunction[][]; // ∂ui/∂xj compiladas
+    F: string[][]; // LaTeX
+    E: string[][];
+    J: string;
+    omega: string[][]; // ½(∇u − ∇uᵀ)
+    rotation: string[]; // θ = ½∇×u = (ω32, ω13, ω21)
+}
+
+export interface PointKinematics {
+    gradient: Matrix3;
+    smallStrain: Matrix3; // ε = ½(∇u + ∇uᵀ)
+    F: Matrix3;
+    E: Matrix3; // ½(FᵀF − I)
+    almansi: Matrix3; // ½(I − (FFᵀ)⁻¹)
+    R: Matrix3 | null; // Solo si J > 0
+    U: Matrix3 | null;
+    J: number;
+    rotationDeg: number | null; // Ángulo del giro R
+    gradientNorm: number; // max |∂ui/∂xj|
+    strainGap: number; // max |Eij − εij|
+}
+
+const parse = (expr: string) => math.parse(expr.trim() === '' ? '0' : expr);
+const identity = (): Matrix3 => INDICES.map(i => INDICES.map(j => (i === j ? 1 : 0)));
+const transpose = (A: Matrix3): Matrix3 => INDICES.map(i => INDICES.map(j => A[j][i]));
+const multiply = (A: Matrix3, B: Matrix3): Matrix3 =>
+    INDICES.map(i => INDICES.map(j => INDICES.reduce((sum, k) => sum + A[i][k] * B[k][j], 0)));
+const maxAbs = (A: Matrix3) => Math.max(...A.flat().map(Math.abs));
+
+function determinant(A: Matrix3): number {
+    return A[0][0] * (A[1][1] * A[2][2] - A[1][2] * A[2][1])
+        - A[0][1] * (A[1][0] * A[2][2] - A[1][2] * A[2][0])
+        + A[0][2] * (A[1][0] * A[2][1] - A[1][1] * A[2][0]);
+}
+
+// Inversa por la adjunta; quien llama garantiza det ≠ 0
+function inverse(A: Matrix3): Matrix3 {
+    const det = determinant(A);
+    const c = (i: number, j: number) => {
+        const [r0, r1] = INDICES.filter(k => k !== i);
+        const [c0, c1] = INDICES.filter(k => k !== j);
+        return ((i + j) % 2 === 0 ? 1 : -1) * (A[r0][c0] * A[r1][c1] - A[r0][c1] * A[r1][c0]);
+    };
+    return INDICES.map(i => INDICES.map(j => c(j, i) / det));
+}
+
+// Iteración de Newton R ← ½(R + R⁻ᵀ): converge a la parte ortogonal de F si det F > 0
+function polarRotation(F: Matrix3): Matrix3 {
+    let R = F;
+    for (let iter = 0; iter < 50; iter++) {
+        const inverseT = transpose(inverse(R));
+        const next = INDICES.map(i => INDICES.map(j => 0.5 * (R[i][j] + inverseT[i][j])));
+        const change = maxAbs(next.map((row, i) => row.map((v, j) => v - R[i][j])));
+        R = next;
+        if (change < 1e-12) break;
+    }
+    return R;
+}
+
+export function symbolicKinematics(u: string, v: string, w: string): SymbolicKinematics {
+    const fields = [u, v, w].map(parse);
+    const grad = fields.map(field => AXES.map(axis => math.simplify(math.derivative(field, axis))));
+    const g = (i: number, j: number) => `(${grad[i][j].toString()})`;
+    const F = INDICES.map(i => INDICES.map(j => (i === j ? math.simplify(`1 + ${g(i, j)}`) : grad[i][j])));
+    // Eij = ½(∂ui/∂xj + ∂uj/∂xi + Σk ∂uk/∂xi ∂uk/∂xj)
+    const E = INDICES.map(i => INDICES.map(j =>
+        math.simplify(`0.5 * (${g(i, j)} + ${g(j, i)} + ${INDICES.map(k => `${g(k, i)} * ${g(k, j)}`).join(' + ')})`)
+    ));
+    const f = (i: number, j: number) => `(${F[i][j].toString()})`;
+    const J = math.simplify(
+        `${f(0, 0)} * (${f(1, 1)} * ${f(2, 2)} - ${f(1, 2)} * ${f(2, 1)})`
+        + ` - ${f(0, 1)} * (${f(1, 0)} * ${f(2, 2)} - ${f(1, 2)} * ${f(2, 0)})`
+        + ` + ${f(0, 2)} * (${f(1, 0)} * ${f(2, 1)} - ${f(1, 1)} * ${f(2, 0)})`
+    );
+    const omega = INDICES.map(i => INDICES.map(j => (i === j ? math.parse('0') : math.simplify(`0.5 * (${g(i, j)} - ${g(j, i)})`))));
+    return {
+        displacement: fields.map(field => field.compile()),
+        gradient: grad.map(row => row.map(node => node.compile())),
+        F: F.map(row => row.map(node => node.toTex())),
+        E: E.map(row => row.map(node => node.toTex())),
+        J: J.toTex(),
+        omega: omega.map(row => row.map(node => node.toTex())),
+        rotation: [omega[2][1], omega[0][2], omega[1][0]].map(node => node.toTex()),
+    };
+}
+
+export function gradientAt(symbolic: SymbolicKinematics, [x, y, z]: [number, number, number], load: LoadState = STATIC_LOAD): Matrix3 {
+    return symbolic.gradient.map(row => row.map(code => {
+        const value = code.evaluate({ x, y, z, ...load });
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`∇u no es real en (${x}, ${y}, ${z})`);
+        return value;
+    }));
+}
+
+export const smallStrain = (gradient: Matrix3): Matrix3 =>
+    INDICES.map(i => INDICES.map(j => 0.5 * (gradient[i][j] + gradient[j][i])));
+
+export function kinematicsAt(symbolic: SymbolicKinematics, point: [number, number, number], load: LoadState = STATIC_LOAD): PointKinematics {
+    const gradient = gradientAt(symbolic, point, load);
+    const I = identity();
+    const F = INDICES.map(i => INDICES.map(j => I[i][j] + gradient[i][j]));
+    const epsilon = smallStrain(gradient);
+    const C = multiply(transpose(F), F);
+    const E = INDICES.map(i => INDICES.map(j => 0.5 * (C[i][j] - I[i][j])));
+    const J = determinant(F);
+
+    let almansi: Matrix3 = E.map(row => row.map(() => NaN));
+    let R: Matrix3 | null = null, U: Matrix3 | null = null, rotationDeg: number | null = null;
+    if (Math.abs(J) > 1e-12) {
+        const Binv = inverse(multiply(F, transpose(F)));
+        almansi = INDICES.map(i => INDICES.map(j => 0.5 * (I[i][j] - Binv[i][j])));
+    }
+    if (J > 1e-12) {
+        R = polarRotation(F);
+        U = multiply(transpose(R), F);
+        const cos = Math.max(-1, Math.min(1, (R[0][0] + R[1][1] + R[2][2] - 1) / 2));
+        rotationDeg = (Math.acos(cos) * 180) / Math.PI;
+    }
+
+    return {
+        gradient, smallStrain: epsilon, F, E, almansi, R, U, J, rotationDeg,
+        gradientNorm: maxAbs(gradient),
+        strainGap: maxAbs(E.map((row, i) => row.map((value, j) => value - epsilon[i][j]))),
+    };
+}
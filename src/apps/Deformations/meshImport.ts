@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+
+// Importación de mallas OBJ y STL. Los cargadores de three se piden al importar,
+// así no pesan en la carga inicial del visor.
+
+// Por encima de esto evaluar u en cada vértice deja de ser interactivo
+export const MAX_IMPORTED_VERTICES = 60000;
+
+// Los motivos de rechazo están en locales/ (`body.importErrors.<motivo>`)
+export type MeshImportResult = { geometry: THREE.BufferGeometry } | { error: 'format' | 'empty' | 'tooLarge' };
+
+// Reúne todas las mallas de un OBJ en una sola geometría no indexada, solo con posiciones
+function mergeObject(root: THREE.Object3D): THREE.BufferGeometry {
+    const chunks: Float32Array[] = [];
+    root.updateMatrixWorld(true);
+    root.traverse(child => {
+        if (!(child instanceof THREE.Mesh)) return;
+        // Copia para no tocar la del cargador; OBJLoader ya la da sin índices
+        const source = child.geometry as THREE.BufferGeometry;
+        const geometry = source.index ? source.toNonIndexed() : source.clone();
+        geometry.applyMatrix4(child.matrixWorld);
+        chunks.push(geometry.attributes.position.array as Float32Array);
+        geometry.dispose();
+    });
+    const merged = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    chunks.reduce((offset, chunk) => {
+        merged.set(chunk, offset);
+        return offset + chunk.length;
+    }, 0);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(merged, 3));
+    return geometry;
+}
+
+/**
+ * Lee un archivo .obj o .stl y lo lleva al cubo −1 ≤ x, y, z ≤ 1: centrado en el origen
+ * y con su mayor semieje igual a 1, para que u(x, y, z) actúe igual que sobre los demás cuerpos.
+ */
+export async function importMesh(file: File): Promise<MeshImportResult> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    let geometry: THREE.BufferGeometry;
+    if (extension === 'stl') {
+        const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js');
+        geometry = new STLLoader().parse(await file.arrayBuffer());
+        geometry.deleteAttribute('normal');
+    } else if (extension === 'obj') {
+        const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js');
+        geometry = mergeObject(new OBJLoader().parse(await file.text()));
+    } else {
+        return { error: 'format' };
+    }
+
+    const count = geometry.attributes.position?.count ?? 0;
+    if (count === 0) return { error: 'empty' };
+    if (count > MAX_IMPORTED_VERTICES) return { error: 'tooLarge' };
+
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    const halfExtent = Math.max(size.x, size.y, size.z) / 2;
+    if (!(halfExtent > 0)) return { error: 'empty' };
+    geometry.translate(-center.x, -center.y, -center.z);
+    geometry.scale(1 / halfExtent, 1 / halfExtent, 1 / halfExtent);
+    geometry.computeVertexNormals();
+    return { geometry };
+}
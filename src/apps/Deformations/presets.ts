@@ -0,0 +1,28 @@
+// Campos de desplazamiento predefinidos. Viven fuera del componente para que la
+// paleta de comandos pueda listarlos sin cargar three.js ni mathjs. Los nombres
+// están en locales/ (`presets.<clave>`).
+import type { BodyKind } from './bodies';
+
+export const PRESETS = {
+    expansion: { u: "0.2*x", v: "0.2*y", w: "0.2*z" },
+    shear: { u: "0.3*y", v: "0.3*x", w: "0" },
+    torsion: { u: "-0.2*y*z", v: "0.2*x*z", w: "0" },
+    translation: { u: "0.5", v: "0.2", w: "0" },
+    rotation: { u: "-0.2*y", v: "0.2*x", w: "0" },
+    // Giro rígido exacto de 0.5 rad: ε no se anula, E sí
+    finiteRotation: { u: "x*(cos(0.5) - 1) - y*sin(0.5)", v: "x*sin(0.5) + y*(cos(0.5) - 1)", w: "0" },
+    // Flexión pura alrededor de z: secciones planas que giran con la curvatura κ = 0.2
+    bending: { u: "-0.2*x*y", v: "0.1*x^2", w: "0" },
+    // Con t y λ: se animan desde el panel de carga
+    growingShear: { u: "0.4*lambda*y", v: "0", w: "0" },
+    oscillation: { u: "0", v: "0.2*cos(pi*x/2)*sin(2*t)", w: "0" }
+};
+
+export type PresetKey = keyof typeof PRESETS;
+
+// Cuerpo de referencia que se elige con el preset: la torsión y la flexión solo se
+// entienden sobre un eje o una viga
+export const PRESET_BODIES: Partial<Record<PresetKey, BodyKind>> = {
+    torsion: 'cylinder',
+    bending: 'beam',
+};
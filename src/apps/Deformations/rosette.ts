@@ -0,0 +1,87 @@
+import { createRandom } from '../../lib/random';
+
+// Roseta extensométrica virtual: tres galgas pegadas en una cara del cuerpo. Cada galga
+// lee la deformación normal en su dirección; con las tres lecturas se despejan las
+// componentes en el plano de la cara. Los nombres están en locales/ (`rosette.*`).
+
+export const ROSETTE_TYPES = ['rectangular', 'delta'] as const;
+export type RosetteType = (typeof ROSETTE_TYPES)[number];
+
+// Ángulo de cada galga (grados) desde el primer eje de la cara
+export const GAUGE_ANGLES: Record<RosetteType, [number, number, number]> = {
+    rectangular: [0, 45, 90],
+    delta: [0, 60, 120],
+};
+
+// Cara según su normal exterior; los ejes a, b del plano forman con ella un triedro
+// directo (a × b = normal), así que en las caras negativas van en el orden inverso
+export const ROSETTE_FACES = ['x', '-x', 'y', '-y', 'z', '-z'] as const;
+export type RosetteFace = (typeof ROSETTE_FACES)[number];
+export const FACE_AXES: Record<RosetteFace, [number, number]> = {
+    x: [1, 2], '-x': [2, 1],
+    y: [2, 0], '-y': [0, 2],
+    z: [0, 1], '-z': [1, 0],
+};
+
+// Eje de la normal (0, 1, 2) y su sentido
+export function faceNormal(face: RosetteFace): { axis: number; sign: 1 | -1 } {
+    return { axis: 'xyz'.indexOf(face[face.length - 1]), sign: face.startsWith('-') ? -1 : 1 };
+}
+
+// Deformación plana en los ejes de la cara; γ es la distorsión ingenieril (2ε_ab)
+export interface PlaneStrain {
+    aa: number;
+    bb: number;
+    gamma: number;
+}
+
+export interface PlanePrincipal {
+    e1: number;
+    e2: number;
+    angleDeg: number; // De a hacia ε1
+    center: number;
+    radius: number; // Radio del círculo de Mohr, γmax/2
+}
+
+export function planeStrain(epsilon: number[][], face: RosetteFace): PlaneStrain {
+    const [a, b] = FACE_AXES[face];
+    return { aa: epsilon[a][a], bb: epsilon[b][b], gamma: 2 * epsilon[a][b] };
+}
+
+// ε(θ) = ε_aa cos²θ + ε_bb sin²θ + γ sinθ cosθ
+export function gaugeStrain({ aa, bb, gamma }: PlaneStrain, angleDeg: number): number {
+    const theta = (angleDeg * Math.PI) / 180;
+    const c = Math.cos(theta), s = Math.sin(theta);
+    return aa * c * c + bb * s * s + gamma * s * c;
+}
+
+/**
+ * Lecturas de las tres galgas. El ruido es gaussiano (Box-Muller) con desviación
+ * `noisePercent` % de la mayor lectura exacta; la misma semilla da las mismas lecturas.
+ */
+export function readGauges(plane: PlaneStrain, type: RosetteType, noisePercent: number, seed: number): [number, number, number] {
+    const exact = GAUGE_ANGLES[type].map(angle => gaugeStrain(plane, angle));
+    const sigma = (noisePercent / 100) * Math.max(...exact.map(Math.abs));
+    const random = createRandom(seed);
+    const normal = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const [ea, eb, ec] = exact.map(value => value + sigma * normal());
+    return [ea, eb, ec];
+}
+
+// Inversión exacta de gaugeStrain para las dos rosetas de 0°
+export function solveRosette(type: RosetteType, [ea, eb, ec]: [number, number, number]): PlaneStrain {
+    if (type === 'rectangular') return { aa: ea, bb: ec, gamma: 2 * eb - ea - ec };
+    return { aa: ea, bb: (2 * (eb + ec) - ea) / 3, gamma: (2 * (eb - ec)) / Math.sqrt(3) };
+}
+
+export function planePrincipal({ aa, bb, gamma }: PlaneStrain): PlanePrincipal {
+    const center = (aa + bb) / 2;
+    const radius = Math.hypot((aa - bb) / 2, gamma / 2);
+    return {
+        e1: center + radius,
+        e2: center - radius,
+        angleDeg: (Math.atan2(gamma, aa - bb) * 90) / Math.PI,
+        center,
+        radius,
+    };
+}
@@ -0,0 +1,15 @@
+// Campo de deformación que escribe el estudiante y los ejemplos de los ejercicios.
+// Aparte de compatibility.ts, que carga solo al comprobar, porque la URL los necesita.
+
+export const STRAIN_COMPONENTS = ['xx', 'yy', 'zz', 'xy', 'xz', 'yz'] as const;
+export type StrainComponent = (typeof STRAIN_COMPONENTS)[number];
+export type StrainField = Record<StrainComponent, string>; // Componentes tensoriales (γ = 2ε)
+
+// Ejemplos para los ejercicios; los nombres están en locales/ (`strain.examples.<clave>`)
+export const STRAIN_EXAMPLES = {
+    // Flexión pura con efecto Poisson: compatible
+    bending: { xx: '-0.1*y', yy: '0.03*y', zz: '0.03*y', xy: '0', xz: '0', yz: '0' },
+    // Dilatación térmica con temperatura no lineal: incompatible, genera tensiones
+    thermal: { xx: '0.02*x^2', yy: '0.02*x^2', zz: '0.02*x^2', xy: '0', xz: '0', yz: '0' },
+} satisfies Record<string, StrainField>;
+export type StrainExample = keyof typeof STRAIN_EXAMPLES;
@@ -0,0 +1,44 @@
+import * as math from 'mathjs';
+import type { Matrix3 } from './kinematics';
+
+// Escalares del tensor de pequeñas deformaciones para colorear el cuerpo.
+// Los nombres están en locales/ (`field.scalars.<clave>`).
+export const STRAIN_SCALARS = ['volumetric', 'e11', 'e22', 'e33', 'e12', 'e13', 'e23', 'maxShear', 'equivalent'] as const;
+export type StrainScalar = (typeof STRAIN_SCALARS)[number];
+
+export interface PrincipalStrains {
+    values: [number, number, number]; // ε1 ≥ ε2 ≥ ε3
+    directions: [number, number, number][]; // Unitarias, en el mismo orden
+}
+
+export function principalStrains(epsilon: Matrix3): PrincipalStrains {
+    const { eigenvectors } = math.eigs(epsilon);
+    const sorted = [...eigenvectors].sort((a, b) => (b.value as number) - (a.value as number));
+    return {
+        values: sorted.map(e => e.value as number) as [number, number, number],
+        directions: sorted.map(e => e.vector as number[] as [number, number, number]),
+    };
+}
+
+export function strainScalar(epsilon: Matrix3, scalar: StrainScalar): number {
+    const trace = epsilon[0][0] + epsilon[1][1] + epsilon[2][2];
+    switch (scalar) {
+        case 'volumetric':
+            return trace;
+        case 'maxShear': {
+            // γmax = ε1 − ε3 (deformación angular ingenieril)
+            const { values } = principalStrains(epsilon);
+            return values[0] - values[2];
+        }
+        case 'equivalent': {
+            // εeq = √(2/3 e′:e′), con e′ la parte desviadora
+            const squared = epsilon.flat().reduce((sum, v, k) => {
+                const d = k % 4 === 0 ? v - trace / 3 : v;
+                return sum + d * d;
+            }, 0);
+            return Math.sqrt((2 / 3) * squared);
+        }
+        default:
+            return epsilon[Number(scalar[1]) - 1][Number(scalar[2]) - 1];
+    }
+}
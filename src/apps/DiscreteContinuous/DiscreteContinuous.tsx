@@ -1,6 +1,15 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { RefreshCw, Square, Eraser, Info, MousePointer2, Settings, X } from 'lucide-react';
 import { useIsPortrait } from '../../hooks/useIsPortrait';
+import { useUrlState } from '../../hooks/useUrlState';
+import { numberParam, seedParam } from '../../lib/urlParams';
+import { createRandom } from '../../lib/random';
+import type { Session } from '../../lib/session';
+import { useSessionRecorder } from '../../hooks/useSessionRecorder';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { SeedControl } from '../../components/SeedControl';
+import { SessionControls } from '../../components/SessionControls';
 
 // --- Types ---
 interface Particle {
@@ -19,6 +28,20 @@ interface Rect {
 
 type GameStatus = 'idle' | 'trying' | 'success';
 
+// Everything a run starts from; a replay restarts from the same values
+interface SimSetup {
+    count: number;
+    speed: number;
+    seed: number;
+    width: number;
+    height: number;
+}
+
+// Recorded inputs: the control volume drawn (or cleared) and every restart
+type SessionInput =
+    | { kind: 'volume'; volume: Rect | null }
+    | { kind: 'reset'; setup: SimSetup };
+
 // --- Constants ---
 const PARTICLE_RADIUS = 1.8;
 const MAX_PLOT_POINTS = 100;
@@ -29,15 +52,27 @@ const PLOT_OVERLAY_HEIGHT = 120;
 const PADDING = 10;
 const GRID_CELL_SIZE = 15;
 
+// Estado compartible por URL (?n=...&speed=...&error=...&seed=...)
+const URL_PARAMS = {
+    n: numberParam(300, { min: 50, max: 1500, integer: true }),
+    speed: numberParam(2.0, { min: 0.5, max: 10 }),
+    error: numberParam(0.05, { min: 0.01, max: 0.1 }),
+    seed: seedParam(),
+};
+
 const DiscreteContinuous = () => {
     // --- State (UI) ---
-    const [particleCount, setParticleCount] = useState(300);
-    const [speed, setSpeed] = useState(2.0);
-    const [targetError, setTargetError] = useState(0.05);
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, formatNumber } = useI18n(MESSAGES);
+    const { n: particleCount, speed, error: targetError, seed } = params;
+    const setParticleCount = (value: number) => setParams({ n: value });
+    const setSpeed = (value: number) => setParams({ speed: value });
+    const setTargetError = (value: number) => setParams({ error: value });
     const [gameStatus, setGameStatus] = useState<GameStatus>('idle');
-    const [feedback, setFeedback] = useState("Define un volumen para empezar...");
     const [configOpen, setConfigOpen] = useState(false);
     const isPortrait = useIsPortrait();
+    const session = useSessionRecorder<SessionInput, SimSetup>('discreto-continuo');
+    const { tick: sessionTick, record: recordInput, isReplaying } = session;
 
     // --- Refs (Simulation State) ---
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -56,17 +91,20 @@ const DiscreteContinuous = () => {
     const globalAvgRef = useRef(0);
 
     // --- Init Simulation ---
-    const initSimulation = useCallback(() => {
+    const resetSimulation = useCallback((setup: SimSetup) => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
+        canvas.width = setup.width;
+        canvas.height = setup.height;
+        const random = createRandom(setup.seed);
         const newParticles: Particle[] = [];
-        for (let i = 0; i < particleCount; i++) {
-            const angle = Math.random() * Math.PI * 2;
-            const pSpeed = speed * (0.5 + Math.random());
+        for (let i = 0; i < setup.count; i++) {
+            const angle = random() * Math.PI * 2;
+            const pSpeed = setup.speed * (0.5 + random());
             newParticles.push({
-                x: Math.random() * (canvas.width - 2 * PARTICLE_RADIUS) + PARTICLE_RADIUS,
-                y: Math.random() * (canvas.height - 2 * PARTICLE_RADIUS) + PARTICLE_RADIUS,
+                x: random() * (canvas.width - 2 * PARTICLE_RADIUS) + PARTICLE_RADIUS,
+                y: random() * (canvas.height - 2 * PARTICLE_RADIUS) + PARTICLE_RADIUS,
                 vx: Math.cos(angle) * pSpeed,
                 vy: Math.sin(angle) * pSpeed
             });
@@ -85,7 +123,46 @@ const DiscreteContinuous = () => {
             // Keep volume but reset data? Logic implies reset data usually
             instantHistoryRef.current = Array(MAX_PLOT_POINTS).fill(0);
         }
-    }, [particleCount, speed]); // Run when count/speed changes logic handled via effect/handlers
+    }, []);
+
+    const currentSetup = (): SimSetup | null => {
+        const canvas = canvasRef.current;
+        return canvas ? { count: particleCount, speed, seed, width: canvas.width, height: canvas.height } : null;
+    };
+
+    // Restart from the current parameters; recorded so a replay restarts at the same step
+    const initSimulation = useCallback(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || isReplaying()) return;
+        const setup = { count: particleCount, speed, seed, width: canvas.width, height: canvas.height };
+        resetSimulation(setup);
+        recordInput({ kind: 'reset', setup });
+    }, [particleCount, speed, seed, resetSimulation, isReplaying, recordInput]); // Run when count/speed changes logic handled via effect/handlers
+
+    const setVolume = (volume: Rect | null) => {
+        volumeRef.current = volume;
+        if (volume) instantHistoryRef.current = []; // Reset history for new volume?
+        recordInput({ kind: 'volume', volume });
+    };
+
+    const recordSession = () => {
+        const setup = currentSetup();
+        if (!setup) return;
+        resetSimulation(setup);
+        session.startRecording(seed, setup);
+        // The volume already drawn is part of the start
+        recordInput({ kind: 'volume', volume: volumeRef.current });
+    };
+
+    const replaySession = (recorded: Session<SessionInput, SimSetup>) => {
+        const { setup } = recorded;
+        setParams({ n: setup.count, speed: setup.speed, seed: setup.seed });
+        volumeRef.current = null;
+        isDrawingRef.current = false;
+        currentDragRef.current = null;
+        resetSimulation(setup);
+        session.startReplay(recorded);
+    };
 
     // --- Main Loop ---
     const animate = useCallback(() => {
@@ -100,7 +177,15 @@ const DiscreteContinuous = () => {
         ctx.fillStyle = '#111827'; // gray-900
         ctx.fillRect(0, 0, width, height);
 
-        // 2. Move & Draw Particles
+        // 2. Move & Draw Particles (a replay first applies the inputs due at this step)
+        for (const input of sessionTick()) {
+            if (input.kind === 'reset') {
+                resetSimulation(input.setup);
+            } else {
+                volumeRef.current = input.volume;
+                if (input.volume) instantHistoryRef.current = [];
+            }
+        }
         const vol = volumeRef.current;
         
         particlesRef.current.forEach(p => {
@@ -139,7 +224,7 @@ const DiscreteContinuous = () => {
         drawSelection(ctx);
 
         requestRef.current = requestAnimationFrame(animate);
-    }, [targetError]); // Dependency on targetError for status check if inside loop? 
+    }, [targetError, sessionTick, resetSimulation]); // Dependency on targetError for status check if inside loop? 
     // Actually status update usually needs targetError. 
     // BUT animating with state dependencies can be tricky if not careful.
     // 'targetError' is used in updateDataAndStatus. 
@@ -316,10 +401,11 @@ const DiscreteContinuous = () => {
     };
 
     const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
+        if (isReplaying()) return;
         const pos = getPos(e);
         dragStartRef.current = pos;
         isDrawingRef.current = true;
-        volumeRef.current = null;
+        setVolume(null);
         currentDragRef.current = null;
         setGameStatus('idle');
     };
@@ -339,8 +425,7 @@ const DiscreteContinuous = () => {
         if (!isDrawingRef.current) return;
         isDrawingRef.current = false;
         if (currentDragRef.current && currentDragRef.current.width > 5 && currentDragRef.current.height > 5) {
-            volumeRef.current = currentDragRef.current;
-            instantHistoryRef.current = []; // Reset history for new volume?
+            setVolume(currentDragRef.current);
         }
         currentDragRef.current = null;
     };
@@ -363,6 +448,8 @@ const DiscreteContinuous = () => {
 
     useEffect(() => {
         const handleResize = () => {
+            // A replay keeps the size it was recorded at; CSS scales the canvas
+            if (isReplaying()) return;
             if (canvasRef.current && canvasRef.current.parentElement) {
                 const p = canvasRef.current.parentElement;
                 canvasRef.current.width = p.clientWidth;
@@ -373,15 +460,11 @@ const DiscreteContinuous = () => {
         handleResize();
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
-    }, [initSimulation]);
+    }, [initSimulation, isReplaying]);
 
 
-    // Update feedback text based on status
-    useEffect(() => {
-        if (gameStatus === 'idle') setFeedback("Define un volumen (drag & drop) para empezar...");
-        else if (gameStatus === 'trying') setFeedback(`Intentando mantener error < ${(targetError*100).toFixed(0)}%...`);
-        else if (gameStatus === 'success') setFeedback(`¡Logrado! Error bajo control.`);
-    }, [gameStatus, targetError]);
+    // Feedback text based on status
+    const feedback = t(`challenge.status.${gameStatus}`, { error: formatNumber(targetError * 100, 0) });
 
     return (
         <div className="w-full flex-1 flex flex-col text-slate-200 font-sans items-center relative min-h-0">
@@ -389,7 +472,7 @@ const DiscreteContinuous = () => {
             {isPortrait && (
                 <button
                     onClick={() => setConfigOpen(!configOpen)}
-                    aria-label={configOpen ? 'Cerrar panel de configuración' : 'Abrir panel de configuración'}
+                    aria-label={configOpen ? t('common.closeSettings') : t('common.openSettings')}
                     className="fixed right-4 z-50 p-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-full shadow-lg shadow-cyan-900/40 transition-all"
                     style={{ bottom: 'max(1rem, env(safe-area-inset-bottom))' }}
                 >
@@ -403,7 +486,7 @@ const DiscreteContinuous = () => {
             )}
             
             <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-blue-500 bg-clip-text text-transparent mb-2 p-1">
-                Simulador Discreto-Continuo
+                {t('title')}
             </h1>
 
             <div className={`flex-1 min-h-0 w-full max-w-7xl px-1 md:px-2 ${
@@ -428,7 +511,7 @@ const DiscreteContinuous = () => {
                         {/* Overlay Hint */}
                         <div className="absolute top-4 left-4 pointer-events-none opacity-50 text-xs text-slate-400">
                            <MousePointer2 size={12} className="inline mr-1"/>
-                           Arrastra para definir Volumen de Control
+                           {t('hint')}
                         </div>
                     </div>
                 </div>
@@ -442,11 +525,11 @@ const DiscreteContinuous = () => {
                     
                     {/* Params */}
                     <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 shadow-lg space-y-3">
-                        <h3 className="font-bold text-sm text-slate-300 flex items-center gap-2"><Square size={16}/> Parámetros</h3>
+                        <h3 className="font-bold text-sm text-slate-300 flex items-center gap-2"><Square size={16}/> {t('params.title')}</h3>
                         
                         <div>
                             <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                <span>Partículas</span>
+                                <span>{t('params.particles')}</span>
                                 <span>{particleCount}</span>
                             </div>
                             <input type="range" min="50" max="1500" value={particleCount} onChange={e => setParticleCount(parseInt(e.target.value))} className="w-full accent-cyan-500"/>
@@ -454,36 +537,40 @@ const DiscreteContinuous = () => {
                         
                         <div>
                             <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                <span>Velocidad</span>
-                                <span>{speed.toFixed(1)}</span>
+                                <span>{t('params.speed')}</span>
+                                <span>{formatNumber(speed, 1)}</span>
                             </div>
                             <input type="range" min="0.5" max="10" step="0.1" value={speed} onChange={e => setSpeed(parseFloat(e.target.value))} className="w-full accent-cyan-500"/>
                         </div>
 
+                        <SeedControl seed={seed} onChange={value => setParams({ seed: value })} disabled={session.mode === 'replaying'} />
+
                         <div className="flex gap-2">
                             <button onClick={initSimulation} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm transition-colors text-slate-300 font-medium flex justify-center items-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70">
-                                <RefreshCw size={14}/> Reiniciar
+                                <RefreshCw size={14}/> {t('common.reset')}
                             </button>
-                            <button onClick={() => { volumeRef.current = null; setGameStatus('idle'); }} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm transition-colors text-slate-300 font-medium flex justify-center items-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70">
-                                <Eraser size={14}/> Limpiar
+                            <button onClick={() => { if (isReplaying()) return; setVolume(null); setGameStatus('idle'); }} className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm transition-colors text-slate-300 font-medium flex justify-center items-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70">
+                                <Eraser size={14}/> {t('params.clear')}
                             </button>
                         </div>
                     </div>
 
+                    <SessionControls session={session} onRecord={recordSession} onReplay={replaySession} />
+
                     {/* Game Mode */}
                     <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 shadow-lg space-y-3">
-                        <h3 className="font-bold text-sm text-slate-300 flex items-center gap-2"><Info size={16}/> Desafío de Estabilidad</h3>
+                        <h3 className="font-bold text-sm text-slate-300 flex items-center gap-2"><Info size={16}/> {t('challenge.title')}</h3>
                         
                         <div>
-                            <label className="text-xs text-slate-400 block mb-1">Margen de Error Permitido</label>
+                            <label className="text-xs text-slate-400 block mb-1">{t('challenge.margin')}</label>
                             <select 
                                 value={targetError} 
                                 onChange={e => setTargetError(parseFloat(e.target.value))}
                                 className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-sm text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
                             >
-                                <option value={0.1}>10% (Fácil)</option>
-                                <option value={0.05}>5% (Medio)</option>
-                                <option value={0.01}>1% (Difícil)</option>
+                                <option value={0.1}>{t('challenge.levels.easy')}</option>
+                                <option value={0.05}>{t('challenge.levels.medium')}</option>
+                                <option value={0.01}>{t('challenge.levels.hard')}</option>
                             </select>
                         </div>
 
@@ -498,9 +585,9 @@ const DiscreteContinuous = () => {
 
                     {/* Legend */}
                     <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-800/50 text-xs text-slate-400 space-y-1">
-                        <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-cyan-400"/> Densidad Instantánea (Volumen)</div>
-                        <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-yellow-400"/> Densidad Promedio Global</div>
-                        <div className="mt-2 text-[11px] text-slate-500 text-center italic">Gráfico visible en esquinas del simulador</div>
+                        <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-cyan-400"/> {t('legend.instant')}</div>
+                        <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-yellow-400"/> {t('legend.global')}</div>
+                        <div className="mt-2 text-[11px] text-slate-500 text-center italic">{t('legend.hint')}</div>
                     </div>
 
                 </div>
@@ -1,23 +1,34 @@
-import { useState } from "react";
-import { Gauge, Activity, Droplet, Layers } from "lucide-react";
+import type { ComponentType } from "react";
+import { Activity } from "lucide-react";
 import PitotTab from "./components/PitotTab";
 import VenturiTab from "./components/VenturiTab";
 import BucketTab from "./components/BucketTab";
 import EulerSandbox from "./components/EulerSandbox";
+import { useUrlState } from "../../hooks/useUrlState";
+import { enumParam } from "../../lib/urlParams";
+import { TABS } from "./tabs";
+import type { TabId } from "./tabs";
+import { useI18n } from "../../i18n/useI18n";
+import { MESSAGES } from "./messages";
 
-type TabId = "pitot" | "venturi" | "bucket" | "sandbox";
+const TAB_COMPONENTS: Record<TabId, ComponentType> = {
+    pitot: PitotTab,
+    venturi: VenturiTab,
+    bucket: BucketTab,
+    sandbox: EulerSandbox,
+};
 
-export default function EulerFlowTable() {
-    const [activeTab, setActiveTab] = useState<TabId>("pitot");
+// Cada pestaña guarda sus propios parámetros; aquí solo vive la pestaña activa.
+const URL_PARAMS = {
+    tab: enumParam<TabId>("pitot", TABS.map((t) => t.id)),
+};
 
-    const tabs = [
-        { id: "pitot", label: "Tubo de Pitot", icon: Gauge, component: PitotTab },
-        { id: "venturi", label: "Tubo de Venturi", icon: Activity, component: VenturiTab },
-        { id: "bucket", label: "Depósito (Torricelli)", icon: Droplet, component: BucketTab },
-        { id: "sandbox", label: "Sandbox (Tablero)", icon: Layers, component: EulerSandbox },
-    ];
+export default function EulerFlowTable() {
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t } = useI18n(MESSAGES);
+    const activeTab = params.tab;
 
-    const ActiveComponent = tabs.find((t) => t.id === activeTab)?.component || PitotTab;
+    const ActiveComponent = TAB_COMPONENTS[activeTab];
 
     return (
         <div className="flex h-[calc(100vh-4rem)] w-full flex-col bg-[#05070d] text-slate-200 overflow-hidden">
@@ -29,24 +40,25 @@ export default function EulerFlowTable() {
                     </div>
                     <div>
                         <h1 className="text-sm font-black tracking-tight text-white uppercase sm:text-base">
-                            Mesa de Flujo de Euler
+                            {t("header.title")}
                         </h1>
                         <p className="hidden text-[10px] uppercase tracking-widest text-slate-400 sm:block">
-                            Simulación de Fluidos Ideales y Reales
+                            {t("header.subtitle")}
                         </p>
                     </div>
                 </div>
 
                 {/* Selector de Pestañas */}
                 <nav className="flex items-center gap-1 bg-slate-900/60 p-1 rounded-xl border border-white/5">
-                    {tabs.map((tab) => {
+                    {TABS.map((tab) => {
                         const Icon = tab.icon;
                         const isActive = activeTab === tab.id;
+                        const label = t(`tabs.${tab.id}.label`);
                         return (
                             <button
                                 type="button"
                                 key={tab.id}
-                                onClick={() => setActiveTab(tab.id as TabId)}
+                                onClick={() => setParams({ tab: tab.id })}
                                 className={`flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-xs font-bold transition-all ${
                                     isActive
                                         ? "bg-cyan-500 text-slate-950 shadow-md shadow-cyan-950/20"
@@ -54,8 +66,8 @@ export default function EulerFlowTable() {
                                 }`}
                             >
                                 <Icon size={14} />
-                                <span className="hidden md:inline">{tab.label}</span>
-                                <span className="inline md:hidden">{tab.label.split(" ")[0]}</span>
+                                <span className="hidden md:inline">{label}</span>
+                                <span className="inline md:hidden">{label.split(" ")[0]}</span>
                             </button>
                         );
                     })}
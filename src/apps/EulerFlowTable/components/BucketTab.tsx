@@ -2,6 +2,14 @@ import { useEffect, useRef, useState } from "react";
 import { Play, Pause, RotateCcw, Info, Settings, PanelLeftClose, PanelLeftOpen, ThermometerSun, ChevronDown, ChevronUp } from "lucide-react";
 import { MathRender } from "../../../lib/MathRender";
 import { pressureToViridisCSS } from "../../../lib/colormap";
+import { useUrlState } from "../../../hooks/useUrlState";
+import { useAppControls } from "../../../hooks/useAppControls";
+import { createRandom } from "../../../lib/random";
+import type { Random } from "../../../lib/random";
+import { SeedControl } from "../../../components/SeedControl";
+import { booleanParam, enumParam, numberParam, seedParam } from "../../../lib/urlParams";
+import { useI18n } from "../../../i18n/useI18n";
+import { MESSAGES } from "../messages";
 
 interface Particle {
     x: number;
@@ -19,13 +27,39 @@ interface StreamlineParticle {
     t: number;
 }
 
+// Parámetros compartibles por URL (?tab=bucket&H=...&seed=...)
+const URL_PARAMS = {
+    H: numberParam(1.8, { min: 0.3, max: 3.0 }),
+    hOrifice: numberParam(1.2, { min: 0.2, max: 2.5 }),
+    dOrifice: numberParam(20, { min: 10, max: 35, integer: true }),
+    g: numberParam(9.81, { min: 1.6, max: 25.0 }),
+    orifice: enumParam<"sharp" | "short" | "rounded">("rounded", ["sharp", "short", "rounded"]),
+    dynamic: booleanParam(false),
+    seed: seedParam(),
+};
+
+function createTankParticles(random: Random): StreamlineParticle[] {
+    const temp: StreamlineParticle[] = [];
+    for (let i = 0; i < 40; i++) {
+        temp.push({
+            x: 100 + random() * 120,
+            y: 80 + random() * 200,
+            t: random()
+        });
+    }
+    return temp;
+}
+
 export default function BucketTab() {
-    const [H, setH] = useState<number>(1.8); 
-    const [hOrifice, setHOrifice] = useState<number>(1.2); 
-    const [dOrifice, setDOrifice] = useState<number>(20); 
-    const [g, setG] = useState<number>(9.81); 
-    const [orificeType, setOrificeType] = useState<"sharp" | "short" | "rounded">("rounded");
-    const [isDynamic, setIsDynamic] = useState<boolean>(false); 
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, rich, formatNumber } = useI18n(MESSAGES);
+    const { H, hOrifice, dOrifice, g, orifice: orificeType, dynamic: isDynamic, seed } = params;
+    const setH = (value: number) => setParams({ H: value });
+    const setHOrifice = (value: number) => setParams({ hOrifice: value });
+    const setDOrifice = (value: number) => setParams({ dOrifice: value });
+    const setG = (value: number) => setParams({ g: value });
+    const setOrificeType = (value: "sharp" | "short" | "rounded") => setParams({ orifice: value });
+    const setIsDynamic = (value: boolean) => setParams({ dynamic: value });
 
     const [isPlaying, setIsPlaying] = useState<boolean>(true);
     const [showStreamlines, setShowStreamlines] = useState<boolean>(true);
@@ -39,14 +73,16 @@ export default function BucketTab() {
     const animationFrameRef = useRef<number | null>(null);
     const lastTimeRef = useRef<number>(0);
     const currentHRef = useRef<number>(H); 
+    const randomRef = useRef<Random>(createRandom(seed));
 
     const coefficients = {
-        sharp: { Cd: 0.61, Cv: 0.97, name: "Borde Afilado" },
-        short: { Cd: 0.82, Cv: 0.82, name: "Boquilla Corta cilindrica" },
-        rounded: { Cd: 0.98, Cv: 0.98, name: "Borde Redondeado (Boquilla ideal)" }
+        sharp: { Cd: 0.61, Cv: 0.97 },
+        short: { Cd: 0.82, Cv: 0.82 },
+        rounded: { Cd: 0.98, Cv: 0.98 }
     };
 
-    const { Cd, Cv, name: orificeName } = coefficients[orificeType];
+    const { Cd, Cv } = coefficients[orificeType];
+    const orificeName = t(`bucket.orifices.${orificeType}.name`);
 
     useEffect(() => {
         if (!isDynamic) {
@@ -59,21 +95,16 @@ export default function BucketTab() {
         if (!isPlaying) renderFrame();
     };
 
+    // La misma semilla reinicia las mismas partículas (y las mismas salpicaduras)
     const initTankParticles = () => {
-        const temp: StreamlineParticle[] = [];
-        for (let i = 0; i < 40; i++) {
-            temp.push({
-                x: 100 + Math.random() * 120,
-                y: 80 + Math.random() * 200,
-                t: Math.random()
-            });
-        }
-        tankParticlesRef.current = temp;
+        randomRef.current = createRandom(seed);
+        tankParticlesRef.current = createTankParticles(randomRef.current);
     };
 
     useEffect(() => {
-        initTankParticles();
-    }, []);
+        randomRef.current = createRandom(seed);
+        tankParticlesRef.current = createTankParticles(randomRef.current);
+    }, [seed]);
 
     const renderFrame = () => {
         const canvas = canvasRef.current;
@@ -184,9 +215,9 @@ export default function BucketTab() {
                 const dy = orificeY - p.y;
                 const dist = Math.sqrt(dx * dx + dy * dy);
 
-                if (p.y < waterTopY || dist < 6 || Math.random() < 0.005) {
-                    p.x = tankLeftX + Math.random() * tankWidth;
-                    p.y = waterTopY + Math.random() * 20;
+                if (p.y < waterTopY || dist < 6 || randomRef.current() < 0.005) {
+                    p.x = tankLeftX + randomRef.current() * tankWidth;
+                    p.y = waterTopY + randomRef.current() * 20;
                 } else {
                     const speed = (vActual * 0.22) * Math.max(0.1, 15 / (dist + 5));
                     p.x += (dx / dist) * speed * dt * 40;
@@ -243,16 +274,16 @@ export default function BucketTab() {
                 ctx.ellipse(lastPt.x, groundY, 12, 3, 0, 0, Math.PI * 2);
                 ctx.fill();
 
-                if (isPlaying && dt > 0 && Math.random() < 0.8) {
+                if (isPlaying && dt > 0 && randomRef.current() < 0.8) {
                     for (let s = 0; s < 4; s++) {
                         splashParticlesRef.current.push({
                             x: lastPt.x,
                             y: groundY - 2,
-                            vx: (Math.random() - 0.3) * 3,
-                            vy: -(Math.random() * 4 + 2),
+                            vx: (randomRef.current() - 0.3) * 3,
+                            vy: -(randomRef.current() * 4 + 2),
                             age: 0,
-                            size: Math.random() * 2 + 1,
-                            color: Math.random() < 0.5 ? "#22d3ee" : "#0284c7"
+                            size: randomRef.current() * 2 + 1,
+                            color: randomRef.current() < 0.5 ? "#22d3ee" : "#0284c7"
                         });
                     }
                 }
@@ -274,7 +305,7 @@ export default function BucketTab() {
 
                 ctx.fillStyle = "#10b981";
                 ctx.font = "bold 10px ui-monospace, monospace";
-                ctx.fillText(`H = ${currentHRef.current.toFixed(2)} m`, tankLeftX - 85, (waterTopY + orificeY) / 2 + 4);
+                ctx.fillText(`H = ${formatNumber(currentHRef.current, 2)} m`, tankLeftX - 85, (waterTopY + orificeY) / 2 + 4);
 
                 ctx.beginPath();
                 ctx.moveTo(tankLeftX - 15, orificeY);
@@ -283,7 +314,7 @@ export default function BucketTab() {
                 ctx.moveTo(tankLeftX - 25, groundY); ctx.lineTo(tankLeftX - 5, groundY);
                 ctx.stroke();
 
-                ctx.fillText(`h_o = ${hOrifice.toFixed(2)} m`, tankLeftX - 85, (orificeY + groundY) / 2 + 4);
+                ctx.fillText(`h_o = ${formatNumber(hOrifice, 2)} m`, tankLeftX - 85, (orificeY + groundY) / 2 + 4);
                 
                 ctx.setLineDash([]);
 
@@ -301,7 +332,7 @@ export default function BucketTab() {
                 ctx.stroke();
 
                 ctx.fillStyle = "#f59e0b";
-                ctx.fillText(`Alcance X_max = ${theoreticalRange.toFixed(2)} m`, (tankRightX + rangeX)/2 - 60, groundY + 28);
+                ctx.fillText(t("bucket.rangeLabel", { range: formatNumber(theoreticalRange, 2) }), (tankRightX + rangeX)/2 - 60, groundY + 28);
             }
         }
 
@@ -350,7 +381,7 @@ export default function BucketTab() {
         return () => {
             if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
         };
-    }, [H, hOrifice, dOrifice, g, orificeType, isDynamic, isPlaying, showStreamlines, showHeatmap]);
+    }, [H, hOrifice, dOrifice, g, orificeType, isDynamic, isPlaying, showStreamlines, showHeatmap, t, formatNumber]);
 
     const hVal = Math.max(0.01, currentHRef.current);
     const vTheoretical = Math.sqrt(2 * g * hVal);
@@ -358,6 +389,16 @@ export default function BucketTab() {
     const areaOrifice = Math.PI * Math.pow(dOrifice / 1000, 2) / 4;
     const Q = Cd * areaOrifice * vTheoretical;
     const QLps = Q * 1000;
+    // The level drains between renders, so it is read when asked for
+    useAppControls({
+        playing: isPlaying,
+        setPlaying: setIsPlaying,
+        measure: () => {
+            const level = Math.max(0.01, currentHRef.current);
+            const v = Math.sqrt(2 * g * level);
+            return { h: level, v: Cv * v, QLps: Cd * areaOrifice * v * 1000 };
+        },
+    });
 
     return (
         <div className="flex h-full w-full flex-col lg:flex-row bg-[#080b11] text-slate-100 relative overflow-hidden">
@@ -366,9 +407,9 @@ export default function BucketTab() {
                     <div className="flex justify-between items-start mb-6">
                         <div>
                             <h2 className="text-lg font-bold text-white flex items-center gap-2">
-                                Descarga de Depósito
+                                {t("bucket.title")}
                             </h2>
-                            <p className="text-xs text-slate-400 mt-1">Configura las propiedades físicas</p>
+                            <p className="text-xs text-slate-400 mt-1">{t("panel.controlsHint")}</p>
                         </div>
                         <button 
                             onClick={() => setIsPanelOpen(false)}
@@ -381,9 +422,9 @@ export default function BucketTab() {
                     <div className="space-y-6 flex-1">
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Altura Agua (<MathRender inline math="H" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("bucket.waterHeight", { symbol: <MathRender inline math="H" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
-                                    {H.toFixed(2)} m
+                                    {formatNumber(H, 2)} m
                                 </span>
                             </div>
                             <input type="range" min="0.3" max="3.0" step="0.05" value={H} disabled={isDynamic} onChange={(e) => setH(parseFloat(e.target.value))} className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400 disabled:opacity-40" />
@@ -391,9 +432,9 @@ export default function BucketTab() {
 
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Altura Orificio (<MathRender inline math="h_o" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("bucket.orificeHeight", { symbol: <MathRender inline math="h_o" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
-                                    {hOrifice.toFixed(2)} m
+                                    {formatNumber(hOrifice, 2)} m
                                 </span>
                             </div>
                             <input type="range" min="0.2" max="2.5" step="0.05" value={hOrifice} onChange={(e) => setHOrifice(parseFloat(e.target.value))} className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400" />
@@ -401,7 +442,7 @@ export default function BucketTab() {
 
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Diámetro (<MathRender inline math="d" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("bucket.diameter", { symbol: <MathRender inline math="d" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
                                     {dOrifice} mm
                                 </span>
@@ -411,9 +452,9 @@ export default function BucketTab() {
 
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Gravedad (<MathRender inline math="g" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("bucket.gravity", { symbol: <MathRender inline math="g" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
-                                    {g.toFixed(2)} m/s²
+                                    {formatNumber(g, 2)} m/s²
                                 </span>
                             </div>
                             <input type="range" min="1.6" max="25.0" step="0.1" value={g} onChange={(e) => setG(parseFloat(e.target.value))} className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400" />
@@ -421,18 +462,20 @@ export default function BucketTab() {
 
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-300 uppercase tracking-wider">
-                                Geometría del Orificio
+                                {t("bucket.orificeGeometry")}
                             </label>
                             <select value={orificeType} onChange={(e) => setOrificeType(e.target.value as any)} className="w-full bg-slate-900 border border-white/10 rounded-lg py-2 px-3 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-cyan-500">
-                                <option value="sharp">Borde Afilado (Cd = 0.61)</option>
-                                <option value="short">Boquilla Corta (Cd = 0.82)</option>
-                                <option value="rounded">Borde Redondeado (Cd = 0.98)</option>
+                                {(["sharp", "short", "rounded"] as const).map((type) => (
+                                    <option key={type} value={type}>
+                                        {t(`bucket.orifices.${type}.option`, { cd: formatNumber(coefficients[type].Cd, 2) })}
+                                    </option>
+                                ))}
                             </select>
                         </div>
 
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider">
-                                Renderizado Visual
+                                {t("panel.rendering")}
                             </label>
                             
                             <button
@@ -441,7 +484,7 @@ export default function BucketTab() {
                             >
                                 <span className="flex items-center gap-2 text-sm font-bold">
                                     <ThermometerSun size={16} className={showHeatmap ? "text-indigo-400" : ""} />
-                                    Presión Hidrostática
+                                    {t("bucket.hydrostaticPressure")}
                                 </span>
                                 <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${showHeatmap ? 'bg-indigo-500' : 'bg-slate-700'}`}>
                                     <div className={`w-3 h-3 rounded-full bg-white transition-transform ${showHeatmap ? 'translate-x-4' : 'translate-x-0'}`} />
@@ -451,25 +494,27 @@ export default function BucketTab() {
                             <div className="space-y-2 mt-4">
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
                                     <input type="checkbox" checked={isDynamic} onChange={() => setIsDynamic(!isDynamic)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" />
-                                    Vaciar tanque (Dinámico)
+                                    {t("bucket.drain")}
                                 </label>
                                 {isDynamic && (
                                     <button onClick={handleRefill} className="w-full bg-cyan-500 text-slate-950 font-bold py-1.5 px-3 rounded text-[11px] hover:bg-cyan-400 mt-2 transition-colors">
-                                        Rellenar Tanque
+                                        {t("bucket.refill")}
                                     </button>
                                 )}
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300 mt-2">
                                     <input type="checkbox" checked={showStreamlines} onChange={() => setShowStreamlines(!showStreamlines)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" />
-                                    Mostrar cotas e indicadores
+                                    {t("bucket.dimensions")}
                                 </label>
                             </div>
                         </div>
                     </div>
 
+                    <SeedControl seed={seed} onChange={value => setParams({ seed: value })} className="mt-6" />
+
                     <div className="mt-8 pt-5 border-t border-white/5 flex gap-2">
                         <button onClick={() => setIsPlaying(!isPlaying)} className={`flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-xs font-bold transition-all ${isPlaying ? "bg-amber-500/10 text-amber-300 border border-amber-500/20" : "bg-cyan-500 text-slate-950 hover:bg-cyan-400"}`}>
                             {isPlaying ? <Pause size={14} /> : <Play size={14} />}
-                            {isPlaying ? "Pausar" : "Simular"}
+                            {isPlaying ? t("common.pause") : t("panel.simulate")}
                         </button>
                         <button onClick={() => { setH(1.8); setHOrifice(1.2); setDOrifice(20); setG(9.81); setOrificeType("rounded"); setIsDynamic(false); currentHRef.current = 1.8; initTankParticles(); }} className="p-2 border border-white/10 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors">
                             <RotateCcw size={15} />
@@ -485,7 +530,7 @@ export default function BucketTab() {
                         
                         <div className="absolute top-4 left-4 pointer-events-none">
                             <span className="text-[10px] uppercase font-bold tracking-widest bg-slate-900/90 text-cyan-400 px-2 py-1 rounded border border-white/10 backdrop-blur-sm">
-                                Física de Descarga Libre (Torricelli)
+                                {t("bucket.badge")}
                             </span>
                         </div>
 
@@ -501,11 +546,11 @@ export default function BucketTab() {
                         {showHeatmap && (
                             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-80 bg-slate-900/80 backdrop-blur border border-white/10 rounded-lg p-3 flex items-center gap-3 shadow-xl pointer-events-none">
                                 <span className="text-[10px] text-slate-400 font-mono text-right shrink-0">
-                                    101325 Pa<br/>(Superficie)
+                                    {formatNumber(101325, 0)} Pa<br/>({t("bucket.surface")})
                                 </span>
                                 <div className="flex-1 h-3 rounded-full border border-white/5 shadow-inner" style={{ background: "linear-gradient(to right, #440154, #3b528b, #21918c, #5ec962, #fde725)" }} />
                                 <span className="text-[10px] text-slate-400 font-mono shrink-0">
-                                    Alta Presión<br/>(Fondo)
+                                    {t("bucket.highPressure")}<br/>({t("bucket.bottom")})
                                 </span>
                             </div>
                         )}
@@ -514,7 +559,7 @@ export default function BucketTab() {
                             onClick={() => setIsBottomOpen(!isBottomOpen)}
                             className="absolute bottom-4 right-4 z-20 bg-slate-900/80 border border-white/10 text-slate-400 hover:text-white px-3 py-1.5 rounded-lg backdrop-blur shadow-xl transition-all hover:scale-105 flex items-center gap-2 text-xs font-bold"
                         >
-                            {isBottomOpen ? "Ocultar Datos" : "Mostrar Datos"}
+                            {isBottomOpen ? t("panel.hideData") : t("panel.showData")}
                             {isBottomOpen ? <ChevronDown size={14}/> : <ChevronUp size={14}/>}
                         </button>
                     </div>
@@ -525,28 +570,28 @@ export default function BucketTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4 flex flex-col justify-between">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <Info size={16} className="text-cyan-400" />
-                                Datos de la Descarga
+                                {t("bucket.dischargeData")}
                             </h3>
                             <div className="space-y-2 text-xs text-slate-300 font-mono">
                                 <div className="flex justify-between items-center">
-                                    <span>Orificio seleccionado:</span>
+                                    <span>{t("bucket.selectedOrifice")}</span>
                                     <span className="text-white font-bold">{orificeName}</span>
                                 </div>
                                 <div className="flex justify-between items-center py-1 border-b border-slate-800/50">
-                                    <span>Velocidad teórica (<MathRender inline math="v_t" />):</span>
-                                    <span className="font-mono font-bold text-slate-200">{vTheoretical.toFixed(2)} m/s</span>
+                                    <span>{rich("bucket.theoreticalVelocity", { symbol: <MathRender inline math="v_t" /> })}</span>
+                                    <span className="font-mono font-bold text-slate-200">{formatNumber(vTheoretical, 2)} m/s</span>
                                 </div>
                                 <div className="flex justify-between items-center py-1 border-b border-slate-800/50">
-                                    <span>Velocidad real de salida (<MathRender inline math="v_s" />):</span>
-                                    <span className="font-mono font-bold text-cyan-400">{vActual.toFixed(2)} m/s</span>
+                                    <span>{rich("bucket.actualVelocity", { symbol: <MathRender inline math="v_s" /> })}</span>
+                                    <span className="font-mono font-bold text-cyan-400">{formatNumber(vActual, 2)} m/s</span>
                                 </div>
                                 <div className="flex justify-between items-center py-1 mt-2">
-                                    <span>Caudal de salida (<MathRender inline math="Q" />):</span>
-                                    <span className="font-mono font-bold text-emerald-400">{QLps.toFixed(3)} L/s</span>
+                                    <span>{rich("bucket.flowRate", { symbol: <MathRender inline math="Q" /> })}</span>
+                                    <span className="font-mono font-bold text-emerald-400">{formatNumber(QLps, 3)} L/s</span>
                                 </div>
                                 <div className="flex justify-between items-center py-1">
-                                    <span>Área del orificio (<MathRender inline math="A" />):</span>
-                                    <span className="font-mono text-slate-300">{(areaOrifice * 10000).toFixed(2)} cm²</span>
+                                    <span>{rich("bucket.orificeArea", { symbol: <MathRender inline math="A" /> })}</span>
+                                    <span className="font-mono text-slate-300">{formatNumber(areaOrifice * 10000, 2)} cm²</span>
                                 </div>
                             </div>
                         </div>
@@ -554,19 +599,27 @@ export default function BucketTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <Settings size={16} className="text-emerald-400" />
-                                Formulación de Torricelli
+                                {t("bucket.formulation")}
                             </h3>
                             <div className="space-y-3 text-xs leading-relaxed text-slate-300">
                                 <p>
-                                    1. **Teorema de Torricelli:** Derivado de Bernoulli asumiendo presiones atmosféricas en el chorro y la superficie:
+                                    {rich("bucket.torricelli", { title: <strong>{t("bucket.torricelliTitle")}</strong> })}
                                 </p>
                                 <MathRender math="v_t = \sqrt{2gH}" className="text-cyan-300 text-center block my-1" />
                                 <p>
-                                    2. **Caudal Real:** Se reduce por la fricción (<MathRender inline math="C_v" />) y la contracción (<MathRender inline math="C_c" />), englobados en el coeficiente <MathRender inline math="C_d" />:
+                                    {rich("bucket.realFlow", {
+                                        title: <strong>{t("bucket.realFlowTitle")}</strong>,
+                                        cv: <MathRender inline math="C_v" />,
+                                        cc: <MathRender inline math="C_c" />,
+                                        cd: <MathRender inline math="C_d" />,
+                                    })}
                                 </p>
                                 <MathRender math="Q_{\text{real}} = C_d \cdot A \cdot \sqrt{2gH}" className="text-emerald-400 text-center block my-1" />
                                 <p className="text-[11px] text-slate-400">
-                                    3. **Trayectoria:** El agua describe una parábola gobernada por caída libre. El alcance es <MathRender inline math="X = 2\sqrt{H \cdot h_o}" />.
+                                    {rich("bucket.trajectory", {
+                                        title: <strong>{t("bucket.trajectoryTitle")}</strong>,
+                                        range: <MathRender inline math="X = 2\sqrt{H \cdot h_o}" />,
+                                    })}
                                 </p>
                             </div>
                         </div>
@@ -1,10 +1,71 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { Circle, Square, Triangle, Brush, Eraser, Layers, Activity, Minus, Trash2, ChevronDown, ChevronUp, Wind, Droplet } from "lucide-react";
 import { cn } from "../../../lib/utils";
+import { useI18n } from "../../../i18n/useI18n";
+import { MESSAGES } from "../messages";
+import { ExportToolbar } from "../../../components/ExportToolbar";
+import { captureCanvas } from "../../../lib/export";
+import { SeedControl } from "../../../components/SeedControl";
+import { SessionControls } from "../../../components/SessionControls";
+import { useSessionRecorder } from "../../../hooks/useSessionRecorder";
+import { useUrlState } from "../../../hooks/useUrlState";
+import { booleanParam, enumParam, numberParam, seedParam } from "../../../lib/urlParams";
+import { createRandom } from "../../../lib/random";
+import type { Random } from "../../../lib/random";
+import type { Session } from "../../../lib/session";
 
 const COLS = 200;
 const ROWS = 80;
 const ITER = 40;
+const CANVAS_W = 1000;
+const CANVAS_H = 400;
+
+const DENSITIES = ['poco', 'normal', 'mucho'] as const;
+type Density = (typeof DENSITIES)[number];
+const HEATMAPS = ['none', 'pressure', 'magnitude', 'vorticity'] as const;
+
+// Parámetros compartibles por URL (?tab=sandbox&U0=...&heatmap=...&seed=...)
+const URL_PARAMS = {
+    U0: numberParam(1.0, { min: 0, max: 3 }),
+    heatmap: enumParam<SandboxUi['heatmap']>('none', HEATMAPS),
+    streamlines: booleanParam(true),
+    particles: booleanParam(true),
+    smoke: enumParam<Density>('normal', DENSITIES),
+    mass: enumParam<Density>('normal', DENSITIES),
+    contrast: numberParam(1.0, { min: 0.2, max: 3.0 }),
+    seed: seedParam(),
+};
+
+interface SandboxUi {
+    heatmap: (typeof HEATMAPS)[number];
+    showStreamlines: boolean;
+    showParticles: boolean;
+    U0: number;
+    smokeDensity: Density;
+    massDensity: Density;
+    contrast: number;
+}
+
+// Pointer input in grid cells, with the tool it was drawn with
+interface StrokeInput {
+    kind: 'down' | 'move' | 'up';
+    tool: string;
+    x: number;
+    y: number;
+}
+
+// Everything a recorded session replays: strokes, the buttons and panel changes
+type SessionInput =
+    | StrokeInput
+    | { kind: 'clearAll' }
+    | { kind: 'clearSolids' }
+    | { kind: 'resetFluid'; U0: number }
+    | { kind: 'ui'; ui: SandboxUi };
+
+interface SandboxSetup {
+    solid: number[]; // encodeMask
+    ui: SandboxUi;
+}
 
 // ---- PHYSICS ENGINE ----
 class FluidGrid {
@@ -275,6 +336,30 @@ function drawLine(grid: FluidGrid, x0: number, y0: number, x1: number, y1: numbe
     }
 }
 
+// Solid mask as run lengths, alternating empty and solid cells (empty first);
+// keeps session files small
+function encodeMask(mask: Uint8Array): number[] {
+    const runs: number[] = [];
+    let value = 0;
+    let length = 0;
+    for (const cell of mask) {
+        if (cell === value) { length++; continue; }
+        runs.push(length);
+        value = cell;
+        length = 1;
+    }
+    runs.push(length);
+    return runs;
+}
+
+function decodeMask(runs: number[], target: Uint8Array) {
+    let i = 0;
+    runs.forEach((length, run) => {
+        target.fill(run % 2, i, i + length);
+        i += length;
+    });
+}
+
 // ---- COLOR MAPPERS ----
 function getColorVorticity(v: number, contrast: number) {
     v = v * contrast;
@@ -307,31 +392,42 @@ export default function EulerSandbox() {
     const masterSolidRef = useRef<Uint8Array | null>(null);
     const smokeLinesRef = useRef<{x: number, y: number}[][]>([]);
     const mParticlesRef = useRef<{x: number, y: number}[]>([]);
+    const exportScaleRef = useRef(1);
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const randomRef = useRef<Random>(createRandom(params.seed));
     
     if (!fluidRef.current) {
         fluidRef.current = new FluidGrid(COLS, ROWS);
         masterSolidRef.current = new Uint8Array(COLS * ROWS);
     }
     
+    const { t: tr, formatNumber } = useI18n(MESSAGES);
     const [tool, setTool] = useState('circle');
-    const [heatmap, setHeatmap] = useState<'none'|'pressure'|'magnitude'|'vorticity'>('none');
-    const [showStreamlines, setShowStreamlines] = useState(true);
-    const [showParticles, setShowParticles] = useState(true);
-    const [smokeDensity, setSmokeDensity] = useState<'poco'|'normal'|'mucho'>('normal');
-    const [massDensity, setMassDensity] = useState<'poco'|'normal'|'mucho'>('normal');
-    const [U0, setU0] = useState(1.0);
-    const [contrast, setContrast] = useState(1.0);
+    const { heatmap, streamlines: showStreamlines, particles: showParticles, smoke: smokeDensity, mass: massDensity, U0, contrast } = params;
     const [isMenuOpen, setIsMenuOpen] = useState(true);
     
     const isDraggingRef = useRef(false);
     const startPosRef = useRef({x:0, y:0});
     const lastPosRef = useRef({x:0, y:0});
     
-    const uiStateRef = useRef({ heatmap, showStreamlines, showParticles, U0, smokeDensity, massDensity, contrast });
+    const uiStateRef = useRef<SandboxUi>({ heatmap, showStreamlines, showParticles, U0, smokeDensity, massDensity, contrast });
     useEffect(() => {
         uiStateRef.current = { heatmap, showStreamlines, showParticles, U0, smokeDensity, massDensity, contrast };
     }, [heatmap, showStreamlines, showParticles, U0, smokeDensity, massDensity, contrast]);
 
+    // Session record/replay: the panel state the render loop last recorded, and
+    // the one a replay dictates (the React state lags a render behind)
+    const session = useSessionRecorder<SessionInput, SandboxSetup>('tablero-flujo-euler');
+    const { tick: sessionTick, record: recordInput, isReplaying } = session;
+    const recordedUiRef = useRef<SandboxUi | null>(null);
+    const replayUiRef = useRef<SandboxUi | null>(null);
+
+    // A new seed restarts the particles it places
+    useEffect(() => {
+        randomRef.current = createRandom(params.seed);
+        mParticlesRef.current = [];
+    }, [params.seed]);
+
     const getGridPos = (e: React.PointerEvent) => {
         const rect = canvasRef.current!.getBoundingClientRect();
         const scaleX = COLS / rect.width;
@@ -342,46 +438,121 @@ export default function EulerSandbox() {
         };
     };
 
-    const onPointerDown = (e: React.PointerEvent) => {
-        isDraggingRef.current = true;
-        const pos = getGridPos(e);
-        startPosRef.current = { ...pos };
-        lastPosRef.current = { ...pos };
-        
-        if (tool === 'brush') {
-            drawLine(fluidRef.current!, Math.round(pos.x), Math.round(pos.y), Math.round(pos.x), Math.round(pos.y), 2, true);
-            masterSolidRef.current!.set(fluidRef.current!.isSolid);
-        } else if (tool === 'eraser') {
-            drawLine(fluidRef.current!, Math.round(pos.x), Math.round(pos.y), Math.round(pos.x), Math.round(pos.y), 4, false);
-            masterSolidRef.current!.set(fluidRef.current!.isSolid);
+    // Live pointer input and replays go through the same drawing code
+    const applyStroke = useCallback(({ kind, tool, x, y }: StrokeInput) => {
+        const fluid = fluidRef.current!;
+        const master = masterSolidRef.current!;
+        const pos = { x, y };
+
+        if (kind === 'down') {
+            isDraggingRef.current = true;
+            startPosRef.current = { ...pos };
+            lastPosRef.current = { ...pos };
+            if (tool === 'brush') {
+                drawLine(fluid, Math.round(pos.x), Math.round(pos.y), Math.round(pos.x), Math.round(pos.y), 2, true);
+                master.set(fluid.isSolid);
+            } else if (tool === 'eraser') {
+                drawLine(fluid, Math.round(pos.x), Math.round(pos.y), Math.round(pos.x), Math.round(pos.y), 4, false);
+                master.set(fluid.isSolid);
+            }
+        } else if (kind === 'move') {
+            if (tool === 'brush') {
+                drawLine(fluid, Math.round(lastPosRef.current.x), Math.round(lastPosRef.current.y), Math.round(pos.x), Math.round(pos.y), 2, true);
+                master.set(fluid.isSolid);
+            } else if (tool === 'eraser') {
+                drawLine(fluid, Math.round(lastPosRef.current.x), Math.round(lastPosRef.current.y), Math.round(pos.x), Math.round(pos.y), 4, false);
+                master.set(fluid.isSolid);
+            } else {
+                fluid.isSolid.set(master); 
+                const r = Math.max(2, Math.hypot(pos.x - startPosRef.current.x, pos.y - startPosRef.current.y));
+                drawShape(fluid, tool, startPosRef.current.x, startPosRef.current.y, r, true);
+            }
+            lastPosRef.current = { ...pos };
+        } else {
+            isDraggingRef.current = false;
+            master.set(fluid.isSolid);
         }
+    }, []);
+
+    const resetFluid = useCallback((u0: number) => {
+        const grid = fluidRef.current;
+        if (grid) {
+            grid.u.fill(u0); grid.v.fill(0); grid.p.fill(0); grid.div.fill(0);
+        }
+        mParticlesRef.current = [];
+        smokeLinesRef.current = Array.from({ length: Math.floor(ROWS/4) }, () => []);
+    }, []);
+
+    const clearAll = useCallback(() => {
+        fluidRef.current!.isSolid.fill(0);
+        masterSolidRef.current!.fill(0);
+    }, []);
+
+    const clearSolids = useCallback(() => {
+        if (fluidRef.current) fluidRef.current.isSolid.fill(0);
+    }, []);
+
+    const applyInput = useCallback((input: SessionInput) => {
+        switch (input.kind) {
+            case 'down': case 'move': case 'up': applyStroke(input); break;
+            case 'clearAll': clearAll(); break;
+            case 'clearSolids': clearSolids(); break;
+            case 'resetFluid': resetFluid(input.U0); break;
+            case 'ui': {
+                const { ui } = input;
+                replayUiRef.current = ui;
+                setParams({
+                    heatmap: ui.heatmap, streamlines: ui.showStreamlines, particles: ui.showParticles,
+                    U0: ui.U0, smoke: ui.smokeDensity, mass: ui.massDensity, contrast: ui.contrast,
+                });
+                break;
+            }
+        }
+    }, [applyStroke, clearAll, clearSolids, resetFluid, setParams]);
+
+    // Runs a live input and records it; ignored while a replay is driving the grid
+    const input = (value: SessionInput) => {
+        if (isReplaying()) return;
+        applyInput(value);
+        recordInput(value);
+    };
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        input({ kind: 'down', tool, ...getGridPos(e) });
     };
 
     const onPointerMove = (e: React.PointerEvent) => {
         if (!isDraggingRef.current) return;
-        const pos = getGridPos(e);
-        const fluid = fluidRef.current!;
-        const master = masterSolidRef.current!;
-        
-        if (tool === 'brush') {
-            drawLine(fluid, Math.round(lastPosRef.current.x), Math.round(lastPosRef.current.y), Math.round(pos.x), Math.round(pos.y), 2, true);
-            master.set(fluid.isSolid);
-        } else if (tool === 'eraser') {
-            drawLine(fluid, Math.round(lastPosRef.current.x), Math.round(lastPosRef.current.y), Math.round(pos.x), Math.round(pos.y), 4, false);
-            master.set(fluid.isSolid);
-        } else {
-            fluid.isSolid.set(master); 
-            const r = Math.max(2, Math.hypot(pos.x - startPosRef.current.x, pos.y - startPosRef.current.y));
-            drawShape(fluid, tool, startPosRef.current.x, startPosRef.current.y, r, true);
-        }
-        lastPosRef.current = { ...pos };
+        input({ kind: 'move', tool, ...getGridPos(e) });
     };
 
     const onPointerUp = () => {
-        if (isDraggingRef.current) {
-            isDraggingRef.current = false;
-            masterSolidRef.current!.set(fluidRef.current!.isSolid);
-        }
+        if (isDraggingRef.current) input({ kind: 'up', tool, x: 0, y: 0 });
+    };
+
+    // Recording and replaying start from the same state: the drawn solids, a
+    // fluid at rest in the free stream and freshly seeded particles
+    const restart = (setup: SandboxSetup, seed: number) => {
+        decodeMask(setup.solid, masterSolidRef.current!);
+        fluidRef.current!.isSolid.set(masterSolidRef.current!);
+        isDraggingRef.current = false;
+        resetFluid(setup.ui.U0);
+        randomRef.current = createRandom(seed);
+        recordedUiRef.current = setup.ui;
+        replayUiRef.current = setup.ui;
+    };
+
+    const recordSession = () => {
+        const setup = { solid: encodeMask(masterSolidRef.current!), ui: uiStateRef.current };
+        restart(setup, params.seed);
+        session.startRecording(params.seed, setup);
+    };
+
+    const replaySession = (recorded: Session<SessionInput, SandboxSetup>) => {
+        setParams({ seed: recorded.seed });
+        restart(recorded.setup, recorded.seed);
+        applyInput({ kind: 'ui', ui: recorded.setup.ui });
+        session.startReplay(recorded);
     };
 
     useEffect(() => {
@@ -393,7 +564,14 @@ export default function EulerSandbox() {
         let reqId: number;
         
         const render = () => {
-            const ui = uiStateRef.current;
+            // Panel changes are recorded before the step they first affect, so
+            // the replay applies them to that same step
+            if (uiStateRef.current !== recordedUiRef.current) {
+                recordedUiRef.current = uiStateRef.current;
+                recordInput({ kind: 'ui', ui: uiStateRef.current });
+            }
+            for (const due of sessionTick()) applyInput(due);
+            const ui = (isReplaying() && replayUiRef.current) || uiStateRef.current;
             const fluid = fluidRef.current!;
             fluid.step(0.1, ui.U0);
             
@@ -407,7 +585,7 @@ export default function EulerSandbox() {
             if (mParticlesRef.current.length !== targetMassCount) {
                 if (mParticlesRef.current.length < targetMassCount) {
                     while(mParticlesRef.current.length < targetMassCount) {
-                        mParticlesRef.current.push({x: Math.random()*COLS, y: Math.random()*ROWS});
+                        mParticlesRef.current.push({x: randomRef.current()*COLS, y: randomRef.current()*ROWS});
                     }
                 } else {
                     mParticlesRef.current.length = targetMassCount;
@@ -415,10 +593,17 @@ export default function EulerSandbox() {
             }
             
             ctx.fillStyle = "#05070d";
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            // Drawing stays in CANVAS_W × CANVAS_H units; exports enlarge the backing store
+            const ratio = exportScaleRef.current;
+            if (canvas.width !== CANVAS_W * ratio) {
+                canvas.width = CANVAS_W * ratio;
+                canvas.height = CANVAS_H * ratio;
+            }
+            ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+            ctx.fillRect(0, 0, CANVAS_W, CANVAS_H);
             
-            const sX = canvas.width / COLS;
-            const sY = canvas.height / ROWS;
+            const sX = CANVAS_W / COLS;
+            const sY = CANVAS_H / ROWS;
 
             if (ui.heatmap !== 'none') {
                 for (let y = 0; y < ROWS; y++) {
@@ -506,7 +691,7 @@ export default function EulerSandbox() {
                     let vel = fluid.getVelocityAt(p.x, p.y);
                     p.x += vel.u * 0.5; p.y += vel.v * 0.5; 
                     if (p.x<0 || p.x>COLS || p.y<0 || p.y>ROWS || fluid.isSolid[fluid.IX(p.x|0, p.y|0)]) {
-                        p.x = Math.random() * 2; p.y = Math.random() * ROWS; 
+                        p.x = randomRef.current() * 2; p.y = randomRef.current() * ROWS; 
                     } else {
                         ctx.moveTo(p.x * sX, p.y * sY);
                         ctx.arc(p.x * sX, p.y * sY, 2.0, 0, Math.PI*2);
@@ -519,16 +704,29 @@ export default function EulerSandbox() {
         };
         reqId = requestAnimationFrame(render);
         return () => cancelAnimationFrame(reqId);
-    }, []);
+    }, [sessionTick, recordInput, isReplaying, applyInput]);
+
+    // Current state of every cell of the grid (solid cells included, flagged)
+    const gridTable = () => {
+        const fluid = fluidRef.current!;
+        const rows: number[][] = [];
+        for (let y = 0; y < ROWS; y++) {
+            for (let x = 0; x < COLS; x++) {
+                const i = fluid.IX(x, y);
+                rows.push([x, y, fluid.u[i], fluid.v[i], fluid.p[i], fluid.isSolid[i]]);
+            }
+        }
+        return { columns: ["col", "row", "u", "v", "p", "solid"], rows };
+    };
 
     const toolsConfig = [
-        { id: 'circle', icon: Circle, tooltip: 'Círculo' },
-        { id: 'square', icon: Square, tooltip: 'Cuadrado' },
-        { id: 'triangle', icon: Triangle, tooltip: 'Triángulo' },
-        { id: 'airfoil', icon: Activity, tooltip: 'Perfil Alar' },
-        { id: 'bar', icon: Minus, tooltip: 'Muro' },
-        { id: 'brush', icon: Brush, tooltip: 'Pincel Libre' },
-        { id: 'eraser', icon: Eraser, tooltip: 'Borrador' }
+        { id: 'circle', icon: Circle },
+        { id: 'square', icon: Square },
+        { id: 'triangle', icon: Triangle },
+        { id: 'airfoil', icon: Activity },
+        { id: 'bar', icon: Minus },
+        { id: 'brush', icon: Brush },
+        { id: 'eraser', icon: Eraser }
     ];
 
     return (
@@ -540,8 +738,8 @@ export default function EulerSandbox() {
             )}>
                 <canvas 
                     ref={canvasRef} 
-                    width={1000} 
-                    height={400} 
+                    width={CANVAS_W} 
+                    height={CANVAS_H} 
                     className="w-full h-full object-contain cursor-crosshair rounded-xl shadow-2xl bg-[#0a0f1a] border border-white/5"
                     onPointerDown={onPointerDown}
                     onPointerMove={onPointerMove}
@@ -551,6 +749,14 @@ export default function EulerSandbox() {
                 />
             </div>
 
+            <ExportToolbar
+                fileName="sandbox-euler"
+                png={() => captureCanvas(canvasRef.current!, exportScaleRef)}
+                table={gridTable}
+                json={() => ({ U0, cols: COLS, rows: ROWS, grid: gridTable() })}
+                className="absolute right-6 top-6 z-10"
+            />
+
             <div className="absolute left-6 top-6 flex flex-col gap-2 bg-slate-950/80 backdrop-blur-md p-2 rounded-xl border border-white/10 shadow-xl z-10">
                 {toolsConfig.map(t => (
                     <button 
@@ -560,19 +766,16 @@ export default function EulerSandbox() {
                             "p-2.5 rounded-lg transition-all",
                             tool === t.id ? "bg-cyan-500 text-slate-950" : "text-slate-400 hover:bg-slate-800 hover:text-slate-200"
                         )}
-                        title={t.tooltip}
+                        title={tr(`sandbox.tools.${t.id}`)}
                     >
                         <t.icon size={20} />
                     </button>
                 ))}
                 <div className="h-px bg-white/10 my-1" />
                 <button 
-                    onClick={() => {
-                        fluidRef.current!.isSolid.fill(0);
-                        masterSolidRef.current!.fill(0);
-                    }}
+                    onClick={() => input({ kind: 'clearAll' })}
                     className="p-2.5 rounded-lg text-rose-400 hover:bg-rose-500/20 transition-all"
-                    title="Limpiar Todo"
+                    title={tr("sandbox.clearAll")}
                 >
                     <Trash2 size={20} />
                 </button>
@@ -581,7 +784,7 @@ export default function EulerSandbox() {
             {heatmap !== 'none' && (
                 <div className="absolute top-6 right-6 bg-slate-950/80 backdrop-blur-md p-3 rounded-xl border border-white/10 w-52 shadow-xl z-10 flex flex-col gap-2">
                     <div className="text-[10px] font-bold text-slate-300 text-center uppercase tracking-wider">
-                        {heatmap === 'magnitude' ? 'Magnitud Vel. (|V|)' : heatmap === 'vorticity' ? 'Vorticidad (ω)' : 'Presión Relativa (P)'}
+                        {tr(`sandbox.legends.${heatmap}`)}
                     </div>
                     <div className="h-2 w-full rounded-full" style={{ 
                         background: heatmap === 'magnitude' 
@@ -591,20 +794,20 @@ export default function EulerSandbox() {
                                 : 'linear-gradient(to right, rgb(0,0,255), rgb(255,255,255), rgb(255,0,0))'
                     }} />
                     <div className="flex justify-between text-[10px] font-mono text-slate-400">
-                        <span>{heatmap === 'magnitude' ? '0.0' : heatmap === 'vorticity' ? (-1.0 / contrast).toFixed(1) : (-0.5 / contrast).toFixed(2)}</span>
-                        <span>{heatmap === 'magnitude' ? (3.0 / contrast).toFixed(1) : heatmap === 'vorticity' ? (1.0 / contrast).toFixed(1) : (0.5 / contrast).toFixed(2)}</span>
+                        <span>{heatmap === 'magnitude' ? formatNumber(0, 1) : heatmap === 'vorticity' ? formatNumber(-1.0 / contrast, 1) : formatNumber(-0.5 / contrast, 2)}</span>
+                        <span>{heatmap === 'magnitude' ? formatNumber(3.0 / contrast, 1) : heatmap === 'vorticity' ? formatNumber(1.0 / contrast, 1) : formatNumber(0.5 / contrast, 2)}</span>
                     </div>
                     
                     <div className="border-t border-white/10 mt-1 pt-2">
                         <div className="flex justify-between items-center text-[9px] font-bold text-slate-500 uppercase mb-2">
-                            <span>Sensibilidad (Contraste)</span>
-                            <span className="text-cyan-400">{contrast.toFixed(1)}x</span>
+                            <span>{tr("sandbox.contrast")}</span>
+                            <span className="text-cyan-400">{formatNumber(contrast, 1)}x</span>
                         </div>
                         <input
                             type="range"
                             min={0.2} max={3.0} step={0.1}
                             value={contrast}
-                            onChange={(e) => setContrast(Number(e.target.value))}
+                            onChange={(e) => setParams({ contrast: Number(e.target.value) })}
                             className="h-1.5 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
                         />
                     </div>
@@ -621,7 +824,7 @@ export default function EulerSandbox() {
                 >
                     <div className="flex items-center gap-2 text-sm font-semibold text-slate-200">
                         <Layers size={16} className="text-cyan-400" />
-                        Opciones del Sandbox
+                        {tr("sandbox.options")}
                     </div>
                     {isMenuOpen ? <ChevronDown size={18} className="text-slate-400" /> : <ChevronUp size={18} className="text-slate-400" />}
                 </button>
@@ -630,88 +833,83 @@ export default function EulerSandbox() {
                     <div className="space-y-4">
                         <label className="block rounded-xl border border-white/10 bg-slate-900/50 p-4">
                             <div className="mb-3 flex items-center justify-between text-xs">
-                                <span className="font-semibold text-slate-300">Corriente Libre (U0)</span>
-                                <span className="font-mono text-cyan-300 bg-cyan-500/10 px-2 py-0.5 rounded">{U0.toFixed(1)}</span>
+                                <span className="font-semibold text-slate-300">{tr("sandbox.freeStream")}</span>
+                                <span className="font-mono text-cyan-300 bg-cyan-500/10 px-2 py-0.5 rounded">{formatNumber(U0, 1)}</span>
                             </div>
                             <input
                                 type="range"
                                 min={0} max={3} step={0.1}
                                 value={U0}
-                                onChange={(e) => setU0(Number(e.target.value))}
+                                onChange={(e) => setParams({ U0: Number(e.target.value) })}
                                 className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400"
                             />
                         </label>
                         <div className="grid grid-cols-2 gap-2">
                             <button 
-                                onClick={() => { 
-                                    let grid = fluidRef.current;
-                                    if (grid) {
-                                        grid.u.fill(U0); grid.v.fill(0); grid.p.fill(0); grid.div.fill(0);
-                                    }
-                                    mParticlesRef.current = [];
-                                    smokeLinesRef.current = Array.from({ length: Math.floor(ROWS/4) }, () => []);
-                                }}
+                                onClick={() => input({ kind: 'resetFluid', U0 })}
                                 className={`py-2 bg-slate-800 hover:bg-slate-700 text-indigo-400 rounded-xl text-xs font-bold transition-all flex flex-col items-center gap-1 border border-indigo-500/20`}
                             >
-                                <Activity size={16} /> Reset Fluido
+                                <Activity size={16} /> {tr("sandbox.resetFluid")}
                             </button>
                             <button 
-                                onClick={() => { if (fluidRef.current) fluidRef.current.isSolid.fill(0); }}
+                                onClick={() => input({ kind: 'clearSolids' })}
                                 className={`py-2 bg-slate-800 hover:bg-slate-700 text-red-400 rounded-xl text-xs font-bold transition-all flex flex-col items-center gap-1 border border-red-500/20`}
                             >
-                                <Trash2 size={16} /> Borrar Sólidos
+                                <Trash2 size={16} /> {tr("sandbox.clearSolids")}
                             </button>
                         </div>
+                        <SeedControl seed={params.seed} onChange={seed => setParams({ seed })} disabled={session.mode === 'replaying'} />
+                        <SessionControls session={session} onRecord={recordSession} onReplay={replaySession} />
                     </div>
 
                     <div className="space-y-2">
-                        <div className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-3">Mapas de Calor (Fondos)</div>
+                        <div className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-3">{tr("sandbox.heatmaps")}</div>
                         <div className="grid grid-cols-2 gap-2">
-                            {(['none', 'pressure', 'magnitude', 'vorticity'] as const).map(m => (
+                            {HEATMAPS.map(m => (
                                 <button
                                     key={m}
-                                    onClick={() => setHeatmap(m)}
+                                    onClick={() => setParams({ heatmap: m })}
                                     className={cn(
                                         "p-2.5 text-xs font-semibold rounded-xl border transition-all text-center",
                                         heatmap === m ? "bg-cyan-500/20 border-cyan-400/50 text-cyan-100 shadow-[0_0_15px_rgba(34,211,238,0.15)]" : "bg-slate-900/50 border-white/5 text-slate-400 hover:bg-slate-800 hover:border-white/10"
                                     )}
                                 >
-                                    {m === 'none' ? 'Ninguno' : m === 'pressure' ? 'Presión' : m === 'magnitude' ? 'Magnitud' : 'Vorticidad'}
+                                    {tr(`sandbox.maps.${m}`)}
                                 </button>
                             ))}
                         </div>
                     </div>
 
                     <div className="space-y-2">
-                        <div className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-3">Trazadores Físicos</div>
+                        <div className="text-[11px] font-bold text-slate-500 uppercase tracking-wider mb-3">{tr("sandbox.tracers")}</div>
                         
                         <div className="grid grid-cols-2 gap-2 mb-2">
                             <button
-                                onClick={() => setShowStreamlines(!showStreamlines)}
+                                onClick={() => setParams({ streamlines: !showStreamlines })}
                                 className={cn(
                                     "flex items-center justify-center gap-2 p-2.5 text-xs font-semibold rounded-xl border transition-all",
                                     showStreamlines ? "bg-cyan-500/20 border-cyan-400/50 text-cyan-100 shadow-[0_0_15px_rgba(34,211,238,0.15)]" : "bg-slate-900/50 border-white/5 text-slate-400 hover:bg-slate-800 hover:border-white/10"
                                 )}
                             >
-                                <Wind size={14} /> Humo
+                                <Wind size={14} /> {tr("sandbox.smoke")}
                             </button>
                             <button
-                                onClick={() => setShowParticles(!showParticles)}
+                                onClick={() => setParams({ particles: !showParticles })}
                                 className={cn(
                                     "flex items-center justify-center gap-2 p-2.5 text-xs font-semibold rounded-xl border transition-all",
                                     showParticles ? "bg-cyan-500/20 border-cyan-400/50 text-cyan-100 shadow-[0_0_15px_rgba(34,211,238,0.15)]" : "bg-slate-900/50 border-white/5 text-slate-400 hover:bg-slate-800 hover:border-white/10"
                                 )}
                             >
-                                <Droplet size={14} /> Masa
+                                <Droplet size={14} /> {tr("sandbox.mass")}
                             </button>
                         </div>
                         
                         <div className="grid grid-cols-2 gap-2">
                             <div className="flex bg-slate-900/60 rounded-lg p-1 border border-white/5">
-                                {(['poco', 'normal', 'mucho'] as const).map(d => (
+                                {DENSITIES.map(d => (
                                     <button
                                         key={d}
-                                        onClick={() => setSmokeDensity(d)}
+                                        onClick={() => setParams({ smoke: d })}
                                         disabled={!showStreamlines}
                                         className={cn(
                                             "flex-1 text-[9px] font-bold uppercase py-1 rounded transition-all",
@@ -719,15 +917,15 @@ export default function EulerSandbox() {
                                             !showStreamlines && "opacity-50 cursor-not-allowed"
                                         )}
                                     >
-                                        {d}
+                                        {tr(`sandbox.densities.${d}`)}
                                     </button>
                                 ))}
                             </div>
                             <div className="flex bg-slate-900/60 rounded-lg p-1 border border-white/5">
-                                {(['poco', 'normal', 'mucho'] as const).map(d => (
+                                {DENSITIES.map(d => (
                                     <button
                                         key={d}
-                                        onClick={() => setMassDensity(d)}
+                                        onClick={() => setParams({ mass: d })}
                                         disabled={!showParticles}
                                         className={cn(
                                             "flex-1 text-[9px] font-bold uppercase py-1 rounded transition-all",
@@ -735,7 +933,7 @@ export default function EulerSandbox() {
                                             !showParticles && "opacity-50 cursor-not-allowed"
                                         )}
                                     >
-                                        {d}
+                                        {tr(`sandbox.densities.${d}`)}
                                     </button>
                                 ))}
                             </div>
@@ -2,6 +2,11 @@ import { useEffect, useRef, useState } from "react";
 import { Play, Pause, RotateCcw, Info, Settings, PanelRightClose, PanelRightOpen, ThermometerSun, ChevronDown, ChevronUp } from "lucide-react";
 import { MathRender } from "../../../lib/MathRender";
 import { pressureToViridisCSS } from "../../../lib/colormap";
+import { useUrlState } from "../../../hooks/useUrlState";
+import { useAppControls } from "../../../hooks/useAppControls";
+import { enumParam, numberParam } from "../../../lib/urlParams";
+import { useI18n } from "../../../i18n/useI18n";
+import { MESSAGES } from "../messages";
 
 interface Particle {
     x: number;
@@ -12,10 +17,20 @@ interface Particle {
     streamlineIndex: number;
 }
 
+// Parámetros compartibles por URL (?tab=pitot&v0=...)
+const URL_PARAMS = {
+    v0: numberParam(2.0, { min: 0.2, max: 5.0 }),
+    fluid: enumParam<"water" | "air">("water", ["water", "air"]),
+    manometer: enumParam<"mercury" | "oil" | "water">("mercury", ["mercury", "oil", "water"]),
+};
+
 export default function PitotTab() {
-    const [v0, setV0] = useState<number>(2.0); 
-    const [workingFluid, setWorkingFluid] = useState<"water" | "air">("water");
-    const [manometerFluid, setManometerFluid] = useState<"mercury" | "oil" | "water">("mercury");
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, rich, formatNumber } = useI18n(MESSAGES);
+    const { v0, fluid: workingFluid, manometer: manometerFluid } = params;
+    const setV0 = (value: number) => setParams({ v0: value });
+    const setWorkingFluid = (value: "water" | "air") => setParams({ fluid: value });
+    const setManometerFluid = (value: "mercury" | "oil" | "water") => setParams({ manometer: value });
     
     const [isPlaying, setIsPlaying] = useState<boolean>(true);
     const [showStreamlines, setShowStreamlines] = useState<boolean>(true);
@@ -49,6 +64,7 @@ export default function PitotTab() {
     const rhoDiff = rhoManometer - rhoWorking;
     const h = rhoDiff > 0 ? deltaP / (rhoDiff * g) : 0; 
     const hMm = h * 1000; 
+    useAppControls({ playing: isPlaying, setPlaying: setIsPlaying, measure: () => ({ deltaP, hMm }) });
 
     const numStreamlines = 9;
     const initParticles = () => {
@@ -413,7 +429,7 @@ export default function PitotTab() {
                         
                         <div className="absolute top-4 left-4 pointer-events-none flex gap-2">
                             <span className="text-[10px] uppercase font-bold tracking-widest bg-slate-900/90 text-cyan-400 px-2 py-1 rounded border border-white/10 backdrop-blur-sm">
-                                Física Activa: Flujo Potencial + Pitot
+                                {t("pitot.badge")}
                             </span>
                         </div>
 
@@ -429,11 +445,11 @@ export default function PitotTab() {
                         {showHeatmap && (
                             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-80 bg-slate-900/80 backdrop-blur border border-white/10 rounded-lg p-3 flex items-center gap-3 shadow-xl pointer-events-none">
                                 <span className="text-[10px] text-slate-400 font-mono text-right shrink-0">
-                                    101325 Pa<br/>(Estática)
+                                    {formatNumber(101325, 0)} Pa<br/>({t("pitot.static")})
                                 </span>
                                 <div className="flex-1 h-3 rounded-full border border-white/5 shadow-inner" style={{ background: "linear-gradient(to right, #440154, #3b528b, #21918c, #5ec962, #fde725)" }} />
                                 <span className="text-[10px] text-slate-400 font-mono shrink-0">
-                                    {(101325 + deltaP).toFixed(1)} Pa<br/>(Total)
+                                    {formatNumber(101325 + deltaP, 1)} Pa<br/>({t("pitot.total")})
                                 </span>
                             </div>
                         )}
@@ -443,7 +459,7 @@ export default function PitotTab() {
                             onClick={() => setIsBottomOpen(!isBottomOpen)}
                             className="absolute bottom-4 right-4 z-20 bg-slate-900/80 border border-white/10 text-slate-400 hover:text-white px-3 py-1.5 text-xs font-bold rounded-lg backdrop-blur shadow-xl transition-all hover:scale-105 flex items-center gap-2"
                         >
-                            {isBottomOpen ? "Ocultar Datos" : "Mostrar Datos"}
+                            {isBottomOpen ? t("panel.hideData") : t("panel.showData")}
                             {isBottomOpen ? <ChevronDown size={14}/> : <ChevronUp size={14}/>}
                         </button>
                     </div>
@@ -456,29 +472,29 @@ export default function PitotTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4 flex flex-col justify-between">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <Info size={16} className="text-cyan-400" />
-                                Variables e Indicadores
+                                {t("panel.readouts")}
                             </h3>
                             <div className="space-y-2.5 text-xs text-slate-300 font-mono">
                                 <div className="flex justify-between items-center">
-                                    <span>Densidad de corriente (<MathRender inline math="\rho_f" />):</span>
-                                    <span className="text-white font-bold">{rhoWorking.toFixed(1)} kg/m³</span>
+                                    <span>{rich("pitot.streamDensity", { symbol: <MathRender inline math="\rho_f" /> })}</span>
+                                    <span className="text-white font-bold">{formatNumber(rhoWorking, 1)} kg/m³</span>
                                 </div>
                                 <div className="flex justify-between items-center">
-                                    <span>Densidad manométrica (<MathRender inline math="\rho_m" />):</span>
-                                    <span className="text-white font-bold">{rhoManometer.toFixed(0)} kg/m³</span>
+                                    <span>{rich("pitot.manometerDensity", { symbol: <MathRender inline math="\rho_m" /> })}</span>
+                                    <span className="text-white font-bold">{formatNumber(rhoManometer, 0)} kg/m³</span>
                                 </div>
                                 <div className="flex justify-between items-center border-t border-white/5 pt-2">
-                                    <span>Presión Estática local (<MathRender inline math="p_s" />):</span>
-                                    <span className="text-slate-400">101325.0 Pa (1 atm)</span>
+                                    <span>{rich("pitot.staticPressure", { symbol: <MathRender inline math="p_s" /> })}</span>
+                                    <span className="text-slate-400">{formatNumber(101325, 1)} Pa (1 atm)</span>
                                 </div>
                                 <div className="flex justify-between items-center">
-                                    <span>Presión Estancamiento (<MathRender inline math="p_t" />):</span>
-                                    <span className="text-cyan-300 font-bold">{(101325 + deltaP).toFixed(1)} Pa</span>
+                                    <span>{rich("pitot.stagnationPressure", { symbol: <MathRender inline math="p_t" /> })}</span>
+                                    <span className="text-cyan-300 font-bold">{formatNumber(101325 + deltaP, 1)} Pa</span>
                                 </div>
                                 <div className="flex justify-between items-center border-t border-white/5 pt-2">
-                                    <span>Desnivel medido (<MathRender inline math="h" />):</span>
+                                    <span>{rich("pitot.measuredHead", { symbol: <MathRender inline math="h" /> })}</span>
                                     <span className="text-emerald-400 font-bold font-sans text-sm">
-                                        {hMm.toFixed(2)} mm
+                                        {formatNumber(hMm, 2)} mm
                                     </span>
                                 </div>
                             </div>
@@ -488,20 +504,20 @@ export default function PitotTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <Settings size={16} className="text-emerald-400" />
-                                Deducción Analítica
+                                {t("panel.derivation")}
                             </h3>
                             <div className="space-y-3 text-xs leading-relaxed text-slate-300">
                                 <p>
-                                    1. La ecuación de Bernoulli en la línea de corriente que choca con la punta:
+                                    {t("pitot.step1")}
                                 </p>
                                 <MathRender math="p_s + \frac{1}{2}\rho_f v_0^2 = p_t" className="text-cyan-300 text-center block my-1" />
                                 <p>
-                                    2. Al estancarse, la presión se eleva en <MathRender inline math="\Delta p = p_t - p_s" />:
+                                    {rich("pitot.step2", { rise: <MathRender inline math="\Delta p = p_t - p_s" /> })}
                                 </p>
                                 <MathRender math={`\\Delta p = \\frac{1}{2}(${rhoWorking.toFixed(1)})(${v0.toFixed(2)})^2 = ${deltaP.toFixed(1)}\\text{ Pa}`} className="text-cyan-300 text-center block my-1" />
                                 
                                 <div className="bg-slate-900/40 p-2.5 rounded-lg border border-emerald-500/10 text-emerald-200 mt-3 font-mono">
-                                    <span>Despejando <MathRender inline math="v_0" /> desde la altura <MathRender inline math="h" /> del manómetro:</span>
+                                    <span>{rich("pitot.solveFor", { v0: <MathRender inline math="v_0" />, h: <MathRender inline math="h" /> })}</span>
                                     <MathRender math={`v_0 = \\sqrt{ \\frac{2gh(\\rho_m - \\rho_f)}{\\rho_f} } = ${v0.toFixed(2)}\\text{ m/s}`} className="text-center mt-2 text-sm font-bold" />
                                 </div>
                             </div>
@@ -516,9 +532,9 @@ export default function PitotTab() {
                     <div className="flex justify-between items-start mb-6">
                         <div>
                             <h2 className="text-lg font-bold text-white flex items-center gap-2">
-                                Controles
+                                {t("panel.controls")}
                             </h2>
-                            <p className="text-xs text-slate-400 mt-1">Configura las propiedades físicas</p>
+                            <p className="text-xs text-slate-400 mt-1">{t("panel.controlsHint")}</p>
                         </div>
                         <button 
                             onClick={() => setIsPanelOpen(false)}
@@ -531,47 +547,47 @@ export default function PitotTab() {
                     <div className="space-y-6 flex-1">
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-300 uppercase tracking-wider">
-                                Fluido de la Corriente (<MathRender inline math="\rho_f" />)
+                                {rich("pitot.workingFluid", { symbol: <MathRender inline math="\rho_f" /> })}
                             </label>
                             <div className="grid grid-cols-2 gap-2 bg-slate-900/60 p-1.5 rounded-lg border border-white/5">
-                                <button onClick={() => setWorkingFluid("water")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${workingFluid === "water" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>Agua</button>
-                                <button onClick={() => setWorkingFluid("air")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${workingFluid === "air" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>Aire</button>
+                                <button onClick={() => setWorkingFluid("water")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${workingFluid === "water" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>{t("fluids.water")}</button>
+                                <button onClick={() => setWorkingFluid("air")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${workingFluid === "air" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>{t("fluids.air")}</button>
                             </div>
                         </div>
 
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Velocidad (<MathRender inline math="v_0" />)</span>
-                                <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">{v0.toFixed(1)} m/s</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("pitot.velocity", { symbol: <MathRender inline math="v_0" /> })}</span>
+                                <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">{formatNumber(v0, 1)} m/s</span>
                             </div>
                             <input type="range" min="0.2" max="5.0" step="0.05" value={v0} onChange={(e) => setV0(parseFloat(e.target.value))} className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-800 accent-cyan-400" />
                         </div>
 
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-300 uppercase tracking-wider">
-                                Líquido Manométrico (<MathRender inline math="\rho_m" />)
+                                {rich("pitot.manometerFluid", { symbol: <MathRender inline math="\rho_m" /> })}
                             </label>
                             {workingFluid === "water" ? (
                                 <div className="text-xs bg-slate-900/60 text-slate-300 border border-white/5 rounded-lg p-3 leading-relaxed">
-                                    <span className="font-bold text-slate-100 block mb-1">Mercurio (Hg) fijado</span>
-                                    Al medir agua se requiere Mercurio para no desbordar el tubo en U a altas velocidades.
+                                    <span className="font-bold text-slate-100 block mb-1">{t("pitot.mercuryFixed")}</span>
+                                    {t("pitot.mercuryReason")}
                                 </div>
                             ) : (
                                 <div className="grid grid-cols-2 gap-2 bg-slate-900/60 p-1.5 rounded-lg border border-white/5">
-                                    <button onClick={() => setManometerFluid("water")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${manometerFluid === "water" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>Agua</button>
-                                    <button onClick={() => setManometerFluid("oil")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${manometerFluid === "oil" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>Aceite</button>
+                                    <button onClick={() => setManometerFluid("water")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${manometerFluid === "water" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>{t("fluids.water")}</button>
+                                    <button onClick={() => setManometerFluid("oil")} className={`py-1.5 rounded-md text-xs font-bold transition-all ${manometerFluid === "oil" ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}>{t("fluids.oil")}</button>
                                 </div>
                             )}
                         </div>
 
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider">
-                                Renderizado Visual
+                                {t("panel.rendering")}
                             </label>
                             <button onClick={() => setShowHeatmap(!showHeatmap)} className={`w-full flex items-center justify-between p-3 rounded-lg border transition-all ${showHeatmap ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-200' : 'bg-slate-900/50 border-white/5 text-slate-400 hover:bg-slate-800'}`}>
                                 <span className="flex items-center gap-2 text-sm font-bold">
                                     <ThermometerSun size={16} className={showHeatmap ? "text-indigo-400" : ""} />
-                                    Mapa de Calor (Presión)
+                                    {t("panel.heatmap")}
                                 </span>
                                 <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${showHeatmap ? 'bg-indigo-500' : 'bg-slate-700'}`}>
                                     <div className={`w-3 h-3 rounded-full bg-white transition-transform ${showHeatmap ? 'translate-x-4' : 'translate-x-0'}`} />
@@ -580,10 +596,10 @@ export default function PitotTab() {
 
                             <div className="space-y-2 mt-4">
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
-                                    <input type="checkbox" checked={showStreamlines} onChange={() => setShowStreamlines(!showStreamlines)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" /> Líneas de corriente
+                                    <input type="checkbox" checked={showStreamlines} onChange={() => setShowStreamlines(!showStreamlines)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" /> {t("panel.streamlines")}
                                 </label>
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
-                                    <input type="checkbox" checked={showParticles} onChange={() => setShowParticles(!showParticles)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" /> Partículas de masa
+                                    <input type="checkbox" checked={showParticles} onChange={() => setShowParticles(!showParticles)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" /> {t("panel.particles")}
                                 </label>
                             </div>
                         </div>
@@ -591,7 +607,7 @@ export default function PitotTab() {
 
                     <div className="mt-6 pt-5 border-t border-white/5 flex gap-2">
                         <button onClick={() => setIsPlaying(!isPlaying)} className={`flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-xs font-bold transition-all ${isPlaying ? "bg-amber-500/10 text-amber-300 border border-amber-500/20" : "bg-cyan-500 text-slate-950 hover:bg-cyan-400"}`}>
-                            {isPlaying ? <Pause size={14} /> : <Play size={14} />} {isPlaying ? "Pausar" : "Animar"}
+                            {isPlaying ? <Pause size={14} /> : <Play size={14} />} {isPlaying ? t("common.pause") : t("panel.animate")}
                         </button>
                         <button onClick={() => { setV0(2.0); initParticles(); }} className="p-2 border border-white/10 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-white transition-colors"><RotateCcw size={15} /></button>
                     </div>
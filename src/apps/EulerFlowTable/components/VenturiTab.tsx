@@ -2,6 +2,13 @@ import { useEffect, useRef, useState } from "react";
 import { Play, Pause, RotateCcw, Info, TrendingUp, PanelLeftClose, PanelLeftOpen, ThermometerSun, ChevronDown, ChevronUp } from "lucide-react";
 import { MathRender } from "../../../lib/MathRender";
 import { pressureToViridisCSS } from "../../../lib/colormap";
+import { useUrlState } from "../../../hooks/useUrlState";
+import { useAppControls } from "../../../hooks/useAppControls";
+import { booleanParam, numberParam, seedParam } from "../../../lib/urlParams";
+import { createRandom } from "../../../lib/random";
+import { SeedControl } from "../../../components/SeedControl";
+import { useI18n } from "../../../i18n/useI18n";
+import { MESSAGES } from "../messages";
 
 interface Particle {
     x: number;
@@ -9,11 +16,38 @@ interface Particle {
     history: { x: number; y: number }[];
 }
 
+// Parámetros compartibles por URL (?tab=venturi&Q=...&dThroat=...&seed=...)
+const URL_PARAMS = {
+    Q: numberParam(3.5, { min: 1.0, max: 6.0 }),
+    dThroat: numberParam(30, { min: 20, max: 45, integer: true }),
+    rho: numberParam(1000, { min: 800, max: 1000 }),
+    losses: booleanParam(true),
+    seed: seedParam(),
+};
+
+// Mismas partículas iniciales para la misma semilla
+function createParticles(seed: number): Particle[] {
+    const random = createRandom(seed);
+    const temp: Particle[] = [];
+    const numParticles = 120;
+    for (let i = 0; i < numParticles; i++) {
+        temp.push({
+            x: random() * 800,
+            yOffsetFraction: (random() * 2 - 1) * 0.85, 
+            history: []
+        });
+    }
+    return temp;
+}
+
 export default function VenturiTab() {
-    const [Q, setQ] = useState<number>(3.5); 
-    const [dThroat, setDThroat] = useState<number>(30); 
-    const [rho, setRho] = useState<number>(1000); 
-    const [useLosses, setUseLosses] = useState<boolean>(true); 
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, rich, formatNumber } = useI18n(MESSAGES);
+    const { Q, dThroat, rho, losses: useLosses, seed } = params;
+    const setQ = (value: number) => setParams({ Q: value });
+    const setDThroat = (value: number) => setParams({ dThroat: value });
+    const setRho = (value: number) => setParams({ rho: value });
+    const setUseLosses = (value: boolean) => setParams({ losses: value });
 
     const [isPlaying, setIsPlaying] = useState<boolean>(true);
     const [showVelGraph, setShowVelGraph] = useState<boolean>(true);
@@ -31,16 +65,7 @@ export default function VenturiTab() {
     const dInlet = 60; 
 
     const initParticles = () => {
-        const temp: Particle[] = [];
-        const numParticles = 120;
-        for (let i = 0; i < numParticles; i++) {
-            temp.push({
-                x: Math.random() * 800,
-                yOffsetFraction: (Math.random() * 2 - 1) * 0.85, 
-                history: []
-            });
-        }
-        particlesRef.current = temp;
+        particlesRef.current = createParticles(seed);
     };
 
     const getDiameterAt = (x: number): number => {
@@ -58,10 +83,11 @@ export default function VenturiTab() {
     const deltaPPa = 0.5 * rho * (v2*v2 - v1*v1);
     const hLoss12 = useLosses ? 0.04 * (v2 * v2) / (2 * g) : 0;
     const hLoss23 = useLosses ? 0.18 * (v2 * v2) / (2 * g) : 0;
+    useAppControls({ playing: isPlaying, setPlaying: setIsPlaying, measure: () => ({ v1, v2, deltaP: deltaPPa }) });
 
     useEffect(() => {
-        initParticles();
-    }, [Q, dThroat]);
+        particlesRef.current = createParticles(seed);
+    }, [Q, dThroat, seed]);
 
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -203,9 +229,9 @@ export default function VenturiTab() {
             const waterHeight3Px = baseWaterHeightPx - ((v3*v3)/(2*g)) * visualScale - ((hLoss12 + hLoss23) * visualScale);
 
             const levels = [
-                { x: x1, hPx: waterHeight1Px, title: "Entrada (1)" },
-                { x: x2, hPx: Math.max(5, waterHeight2Px), title: "Garganta (2)" },
-                { x: x3, hPx: Math.max(5, waterHeight3Px), title: "Salida (3)" }
+                { x: x1, hPx: waterHeight1Px, title: t("venturi.inlet") },
+                { x: x2, hPx: Math.max(5, waterHeight2Px), title: t("venturi.throat") },
+                { x: x3, hPx: Math.max(5, waterHeight3Px), title: t("venturi.outlet") }
             ];
 
             levels.forEach((lvl) => {
@@ -261,7 +287,7 @@ export default function VenturiTab() {
                 ctx.fillText(lvl.title, lvl.x - 30, colTopY - 10);
                 
                 ctx.fillStyle = "#06b6d4";
-                ctx.fillText(`${(lvl.hPx).toFixed(1)} px`, lvl.x - 15, colTopY + 15);
+                ctx.fillText(`${formatNumber(lvl.hPx, 1)} px`, lvl.x - 15, colTopY + 15);
             });
 
             ctx.strokeStyle = "rgba(239, 68, 68, 0.5)"; 
@@ -280,7 +306,7 @@ export default function VenturiTab() {
             ctx.fillStyle = "#ef4444";
             ctx.font = "bold 10px ui-sans-serif, system-ui";
             const lastLvl = levels[levels.length - 1];
-            ctx.fillText("Línea Piezométrica (h = p/γ)", lastLvl.x + 20, centerY - (getDiameterAt(lastLvl.x) / 2) * pxScaleY - lastLvl.hPx);
+            ctx.fillText(t("venturi.hydraulicGradeLine"), lastLvl.x + 20, centerY - (getDiameterAt(lastLvl.x) / 2) * pxScaleY - lastLvl.hPx);
 
             // 4. Gráfico inferior de velocidad vs presión
             if (showVelGraph && !showHeatmap) {
@@ -314,10 +340,10 @@ export default function VenturiTab() {
 
                 ctx.fillStyle = "#10b981";
                 ctx.font = "bold 9px ui-sans-serif, system-ui";
-                ctx.fillText(`Velocidad v(x) [Max: ${v2.toFixed(1)} m/s]`, graphX + 10, graphY - graphH + 15);
+                ctx.fillText(t("venturi.velocityCurve", { max: formatNumber(v2, 1) }), graphX + 10, graphY - graphH + 15);
 
                 ctx.fillStyle = "#3b82f6";
-                ctx.fillText(`Presión h(x)`, graphX + 10, graphY + graphH - 10);
+                ctx.fillText(t("venturi.pressureCurve"), graphX + 10, graphY + graphH - 10);
             }
 
             if (isPlaying) {
@@ -334,7 +360,7 @@ export default function VenturiTab() {
         return () => {
             if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
         };
-    }, [Q, dThroat, rho, useLosses, isPlaying, showVelGraph, showParticles, showHeatmap]);
+    }, [Q, dThroat, rho, useLosses, isPlaying, showVelGraph, showParticles, showHeatmap, t, formatNumber]);
 
     return (
         <div className="flex h-full w-full bg-[#080b11] text-slate-100 overflow-hidden relative">
@@ -345,9 +371,9 @@ export default function VenturiTab() {
                     <div className="flex justify-between items-start mb-6">
                         <div>
                             <h2 className="text-lg font-bold text-white flex items-center gap-2">
-                                Tubo de Venturi
+                                {t("tabs.venturi.label")}
                             </h2>
-                            <p className="text-xs text-slate-400 mt-1">Configura las propiedades físicas</p>
+                            <p className="text-xs text-slate-400 mt-1">{t("panel.controlsHint")}</p>
                         </div>
                         <button 
                             onClick={() => setIsPanelOpen(false)}
@@ -361,9 +387,9 @@ export default function VenturiTab() {
                         {/* Caudal Q */}
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Caudal (<MathRender inline math="Q" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("venturi.flowRate", { symbol: <MathRender inline math="Q" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
-                                    {Q.toFixed(1)} L/s
+                                    {formatNumber(Q, 1)} L/s
                                 </span>
                             </div>
                             <input
@@ -376,7 +402,7 @@ export default function VenturiTab() {
                         {/* Diámetro d2 */}
                         <div className="space-y-3">
                             <div className="flex justify-between items-center text-xs">
-                                <span className="font-semibold text-slate-300 uppercase tracking-wider">Garganta (<MathRender inline math="d_2" />)</span>
+                                <span className="font-semibold text-slate-300 uppercase tracking-wider">{rich("venturi.throatDiameter", { symbol: <MathRender inline math="d_2" /> })}</span>
                                 <span className="font-mono text-cyan-300 font-bold bg-slate-900 px-2 py-0.5 rounded border border-white/5">
                                     {dThroat} mm
                                 </span>
@@ -391,20 +417,20 @@ export default function VenturiTab() {
                         {/* Tipo de Fluido */}
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-300 uppercase tracking-wider">
-                                Fluido de Trabajo (<MathRender inline math="\rho" />)
+                                {rich("venturi.workingFluid", { symbol: <MathRender inline math="\rho" /> })}
                             </label>
                             <div className="grid grid-cols-2 gap-2 bg-slate-900/60 p-1.5 rounded-lg border border-white/5">
                                 <button
                                     onClick={() => setRho(1000)}
                                     className={`py-1.5 rounded-md text-xs font-bold transition-all ${rho === 1000 ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}
                                 >
-                                    Agua
+                                    {t("fluids.water")}
                                 </button>
                                 <button
                                     onClick={() => setRho(800)}
                                     className={`py-1.5 rounded-md text-xs font-bold transition-all ${rho === 800 ? "bg-cyan-500 text-slate-950 shadow-md" : "text-slate-400 hover:text-white"}`}
                                 >
-                                    Queroseno
+                                    {t("fluids.kerosene")}
                                 </button>
                             </div>
                         </div>
@@ -412,7 +438,7 @@ export default function VenturiTab() {
                         {/* Renderizado Visual */}
                         <div className="space-y-3">
                             <label className="block text-xs font-semibold text-slate-400 uppercase tracking-wider">
-                                Renderizado Visual
+                                {t("panel.rendering")}
                             </label>
                             
                             <button
@@ -421,7 +447,7 @@ export default function VenturiTab() {
                             >
                                 <span className="flex items-center gap-2 text-sm font-bold">
                                     <ThermometerSun size={16} className={showHeatmap ? "text-indigo-400" : ""} />
-                                    Mapa de Calor (Presión)
+                                    {t("panel.heatmap")}
                                 </span>
                                 <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${showHeatmap ? 'bg-indigo-500' : 'bg-slate-700'}`}>
                                     <div className={`w-3 h-3 rounded-full bg-white transition-transform ${showHeatmap ? 'translate-x-4' : 'translate-x-0'}`} />
@@ -431,29 +457,31 @@ export default function VenturiTab() {
                             <div className="space-y-2 mt-4">
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
                                     <input type="checkbox" checked={useLosses} onChange={() => setUseLosses(!useLosses)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" />
-                                    Activar fricción (Fluido Real)
+                                    {t("venturi.friction")}
                                 </label>
                                 <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
                                     <input type="checkbox" checked={showParticles} onChange={() => setShowParticles(!showParticles)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" />
-                                    Partículas en movimiento
+                                    {t("venturi.movingParticles")}
                                 </label>
                                 {!showHeatmap && (
                                     <label className="flex items-center gap-3 cursor-pointer text-xs text-slate-300">
                                         <input type="checkbox" checked={showVelGraph} onChange={() => setShowVelGraph(!showVelGraph)} className="rounded border-slate-700 bg-slate-900 text-cyan-500" />
-                                        Mostrar gráfico de perfiles
+                                        {t("venturi.profileChart")}
                                     </label>
                                 )}
                             </div>
                         </div>
                     </div>
 
+                    <SeedControl seed={seed} onChange={value => setParams({ seed: value })} className="mt-6" />
+
                     <div className="mt-8 pt-5 border-t border-white/5 flex gap-2">
                         <button
                             onClick={() => setIsPlaying(!isPlaying)}
                             className={`flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-lg text-xs font-bold transition-all ${isPlaying ? "bg-amber-500/10 text-amber-300 border border-amber-500/20" : "bg-cyan-500 text-slate-950 hover:bg-cyan-400"}`}
                         >
                             {isPlaying ? <Pause size={14} /> : <Play size={14} />}
-                            {isPlaying ? "Pausar" : "Simular"}
+                            {isPlaying ? t("common.pause") : t("panel.simulate")}
                         </button>
                         <button
                             onClick={() => { setQ(3.5); setDThroat(30); setUseLosses(true); initParticles(); }}
@@ -473,7 +501,7 @@ export default function VenturiTab() {
                         
                         <div className="absolute top-4 left-4 pointer-events-none">
                             <span className="text-[10px] uppercase font-bold tracking-widest bg-slate-900/90 text-cyan-400 px-2 py-1 rounded border border-white/10 backdrop-blur-sm">
-                                Continuidad + Bernoulli 1D
+                                {t("venturi.badge")}
                             </span>
                         </div>
 
@@ -489,11 +517,11 @@ export default function VenturiTab() {
                         {showHeatmap && (
                             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-80 bg-slate-900/80 backdrop-blur border border-white/10 rounded-lg p-3 flex items-center gap-3 shadow-xl pointer-events-none">
                                 <span className="text-[10px] text-slate-400 font-mono text-right shrink-0">
-                                    Baja Presión<br/>(Garganta)
+                                    {t("venturi.lowPressure")}<br/>({t("venturi.throatShort")})
                                 </span>
                                 <div className="flex-1 h-3 rounded-full border border-white/5 shadow-inner" style={{ background: "linear-gradient(to right, #440154, #3b528b, #21918c, #5ec962, #fde725)" }} />
                                 <span className="text-[10px] text-slate-400 font-mono shrink-0">
-                                    Alta Presión<br/>(Entrada)
+                                    {t("venturi.highPressure")}<br/>({t("venturi.inletShort")})
                                 </span>
                             </div>
                         )}
@@ -502,7 +530,7 @@ export default function VenturiTab() {
                             onClick={() => setIsBottomOpen(!isBottomOpen)}
                             className="absolute bottom-4 right-4 z-20 bg-slate-900/80 border border-white/10 text-slate-400 hover:text-white px-3 py-1.5 rounded-lg backdrop-blur shadow-xl transition-all hover:scale-105 flex items-center gap-2 text-xs font-bold"
                         >
-                            {isBottomOpen ? "Ocultar Datos" : "Mostrar Datos"}
+                            {isBottomOpen ? t("panel.hideData") : t("panel.showData")}
                             {isBottomOpen ? <ChevronDown size={14}/> : <ChevronUp size={14}/>}
                         </button>
                     </div>
@@ -513,29 +541,29 @@ export default function VenturiTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4 flex flex-col justify-between">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <Info size={16} className="text-cyan-400" />
-                                Variables del Sistema
+                                {t("panel.systemVariables")}
                             </h3>
                             <div className="space-y-2 text-xs text-slate-300 font-mono">
                                 <div className="flex justify-between items-center">
-                                    <span>Velocidad de Entrada (<MathRender inline math="v_1" />):</span>
-                                    <span className="text-white font-bold">{v1.toFixed(2)} m/s</span>
+                                    <span>{rich("venturi.inletVelocity", { symbol: <MathRender inline math="v_1" /> })}</span>
+                                    <span className="text-white font-bold">{formatNumber(v1, 2)} m/s</span>
                                 </div>
                                 <div className="flex justify-between items-center">
-                                    <span>Velocidad en Garganta (<MathRender inline math="v_2" />):</span>
-                                    <span className="text-cyan-300 font-bold">{v2.toFixed(2)} m/s</span>
+                                    <span>{rich("venturi.throatVelocity", { symbol: <MathRender inline math="v_2" /> })}</span>
+                                    <span className="text-cyan-300 font-bold">{formatNumber(v2, 2)} m/s</span>
                                 </div>
                                 <div className="flex justify-between items-center">
-                                    <span>Relación (<MathRender inline math="v_2/v_1" />):</span>
-                                    <span className="text-cyan-300">{(v2/v1).toFixed(2)}x</span>
+                                    <span>{rich("venturi.ratio", { symbol: <MathRender inline math="v_2/v_1" /> })}</span>
+                                    <span className="text-cyan-300">{formatNumber(v2/v1, 2)}x</span>
                                 </div>
                                 <div className="flex justify-between items-center border-t border-white/5 pt-2">
-                                    <span>Caída de presión ideal (<MathRender inline math="\Delta p_{12}" />):</span>
-                                    <span className="text-rose-400 font-bold">{deltaPPa.toFixed(1)} Pa</span>
+                                    <span>{rich("venturi.idealDrop", { symbol: <MathRender inline math="\Delta p_{12}" /> })}</span>
+                                    <span className="text-rose-400 font-bold">{formatNumber(deltaPPa, 1)} Pa</span>
                                 </div>
                                 <div className="flex justify-between items-center">
-                                    <span>Pérdidas totales por fricción:</span>
+                                    <span>{t("venturi.frictionLosses")}</span>
                                     <span className="text-amber-400 font-bold">
-                                        {useLosses ? `${((hLoss12 + hLoss23)*100).toFixed(1)} cm` : "0.0 cm"}
+                                        {formatNumber(useLosses ? (hLoss12 + hLoss23) * 100 : 0, 1)} cm
                                     </span>
                                 </div>
                             </div>
@@ -544,19 +572,19 @@ export default function VenturiTab() {
                         <div className="bg-slate-950/60 border border-white/10 rounded-xl p-4">
                             <h3 className="text-sm font-bold text-slate-200 border-b border-white/5 pb-2 mb-3 flex items-center gap-2">
                                 <TrendingUp size={16} className="text-emerald-400" />
-                                Principios Físicos Ilustrados
+                                {t("venturi.principles")}
                             </h3>
                             <div className="space-y-3 text-xs leading-relaxed text-slate-300">
                                 <p>
-                                    1. **Ecuación de Continuidad:** El flujo es incompresible, al reducir el área la velocidad aumenta:
+                                    {rich("venturi.continuity", { title: <strong>{t("venturi.continuityTitle")}</strong> })}
                                 </p>
                                 <MathRender math="Q = A_1 v_1 = A_2 v_2" className="text-cyan-300 text-center block my-1" />
                                 <p>
-                                    2. **Ecuación de Bernoulli:** Un aumento de velocidad implica una caída de la presión estática:
+                                    {rich("venturi.bernoulli", { title: <strong>{t("venturi.bernoulliTitle")}</strong> })}
                                 </p>
                                 <MathRender math="\frac{p_1}{\gamma} + \frac{v_1^2}{2g} = \frac{p_2}{\gamma} + \frac{v_2^2}{2g} + h_{\text{loss}}" className="text-cyan-300 text-center block my-1" />
                                 <p className="text-[11px] text-slate-400">
-                                    3. **Efecto Venturi:** Esta diferencia de presiones se visualiza por la diferencia de nivel en los piezómetros (Línea Piezométrica roja).
+                                    {rich("venturi.venturiEffect", { title: <strong>{t("venturi.venturiEffectTitle")}</strong> })}
                                 </p>
                             </div>
                         </div>
@@ -0,0 +1,45 @@
+import { Gauge, Activity, Droplet, Layers } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+export type TabId = "pitot" | "venturi" | "bucket" | "sandbox";
+
+export interface TabDefinition {
+    id: TabId; // Nombre y descripción en locales/*.json bajo `tabs.<id>`
+    icon: LucideIcon;
+    equations: string[]; // Ecuaciones principales que muestra la pestaña
+}
+
+// Metadatos de las pestañas, separados de sus componentes para que la paleta de
+// comandos pueda buscarlas sin cargar las simulaciones.
+export const TABS: TabDefinition[] = [
+    {
+        id: "pitot",
+        icon: Gauge,
+        equations: [
+            "p_s + \\frac{1}{2}\\rho_f v_0^2 = p_t",
+            "v_0 = \\sqrt{ \\frac{2gh(\\rho_m - \\rho_f)}{\\rho_f} }",
+        ],
+    },
+    {
+        id: "venturi",
+        icon: Activity,
+        equations: [
+            "Q = A_1 v_1 = A_2 v_2",
+            "\\frac{p_1}{\\gamma} + \\frac{v_1^2}{2g} = \\frac{p_2}{\\gamma} + \\frac{v_2^2}{2g} + h_{\\text{loss}}",
+        ],
+    },
+    {
+        id: "bucket",
+        icon: Droplet,
+        equations: [
+            "v_t = \\sqrt{2gH}",
+            "Q_{\\text{real}} = C_d \\cdot A \\cdot \\sqrt{2gH}",
+            "X = 2\\sqrt{H \\cdot h_o}",
+        ],
+    },
+    {
+        id: "sandbox",
+        icon: Layers,
+        equations: [],
+    },
+];
@@ -1,29 +1,17 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
 import { Play, Pause, RotateCcw, MousePointer2, Activity, Settings, X } from 'lucide-react';
 import { useIsPortrait } from '../../hooks/useIsPortrait';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useAppControls } from '../../hooks/useAppControls';
+import { booleanParam, enumParam, listParam, numberParam } from '../../lib/urlParams';
+import { FLOWS } from './flows';
+import type { FlowParams, FlowType } from './flows';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
 
 // --- Types ---
-type FlowType = 'Uniforme' | 'Rotación Sólida' | 'Cizalladura' | 'Estancamiento' | 'Vórtice Puntual' | 'Expansión Radial' | 'Espiral' | 'Onda de Compresión' | 'Oscilante';
-
-interface Parameter {
-    val: number;
-    min: number;
-    max: number;
-    step: number;
-    name?: string;
-}
-
-interface FlowDefinition {
-    vx: (x: number, y: number, t: number, p: any) => number;
-    vy: (x: number, y: number, t: number, p: any) => number;
-    div: (x: number, y: number, t: number, p: any) => number;
-    params: { [key: string]: Parameter };
-    equation: string;
-    divEquation: string;
-}
-
 interface Particle {
     x: number;
     y: number;
@@ -35,92 +23,44 @@ interface Particle {
     isFollowed?: boolean;
 }
 
-// --- Constants ---
-const FLOWS: { [key in FlowType]: FlowDefinition } = {
-    'Uniforme': { 
-        vx: (_x, _y, _t, p) => p.U, 
-        vy: (_x, _y, _t, _p) => 0, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { U: { val: 1, min: -5, max: 5, step: 0.1 } }, 
-        equation: '\\vec{v} = (U, 0)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
-    },
-    'Rotación Sólida': { 
-        vx: (_x, y, _t, p) => -p.Omega * y, 
-        vy: (x, _y, _t, p) => p.Omega * x, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { Omega: { val: 1, min: -3, max: 3, step: 0.1, name: 'Ω' } }, 
-        equation: '\\vec{v} = (-\\Omega y, \\Omega x)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
-    },
-    'Cizalladura': { 
-        vx: (_x, y, _t, p) => p.k * y, 
-        vy: (_x, _y, _t, _p) => 0, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { k: { val: 1, min: -3, max: 3, step: 0.1 } }, 
-        equation: '\\vec{v} = (ky, 0)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
-    },
-    'Estancamiento': { 
-        vx: (x, _y, _t, p) => p.a * x, 
-        vy: (_x, y, _t, p) => -p.a * y, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { a: { val: 1, min: -3, max: 3, step: 0.1 } }, 
-        equation: '\\vec{v} = (ax, -ay)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
-    },
-    'Vórtice Puntual': { 
-        vx: (x, y, _t, p) => { const r2 = x*x+y*y; return r2 < 1e-4 ? 0 : -p.Gamma*y/(2*Math.PI*r2); }, 
-        vy: (x, y, _t, p) => { const r2 = x*x+y*y; return r2 < 1e-4 ? 0 : p.Gamma*x/(2*Math.PI*r2); }, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { Gamma: { val: 5, min: -10, max: 10, step: 0.5, name: 'Γ' } }, 
-        equation: '\\vec{v} = \\frac{\\Gamma}{2\\pi r^2}(-y, x)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0 \\quad (r \\neq 0)' 
-    },
-    'Expansión Radial': { 
-        vx: (x, _y, _t, p) => p.k * x, 
-        vy: (_x, y, _t, p) => p.k * y, 
-        div: (_x, _y, _t, p) => 2 * p.k, 
-        params: { k: { val: 0.5, min: -2, max: 2, step: 0.1 } }, 
-        equation: '\\vec{v} = (kx, ky)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 2k' 
-    },
-    'Espiral': { 
-        vx: (x, y, _t, p) => p.a * x - p.b * y, 
-        vy: (x, y, _t, p) => p.b * x + p.a * y, 
-        div: (_x, _y, _t, p) => 2 * p.a, 
-        params: { a: { val: 0.2, min: -1, max: 1, step: 0.05 }, b: { val: 1, min: -3, max: 3, step: 0.1 } }, 
-        equation: '\\vec{v} = (ax-by, bx+ay)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 2a' 
-    },
-    'Onda de Compresión': { 
-        vx: (x, _y, _t, p) => p.A * Math.sin(p.k * x), 
-        vy: (_x, _y, _t, _p) => 0, 
-        div: (x, _y, _t, p) => p.A * p.k * Math.cos(p.k * x), 
-        params: { A: { val: 1, min: -2, max: 2, step: 0.1 }, k: { val: 1, min: 0.1, max: 5, step: 0.1 } }, 
-        equation: '\\vec{v} = (A \\sin(kx), 0)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = Ak \\cos(kx)' 
-    },
-    'Oscilante': { 
-        vx: (_x, _y, t, p) => p.A * Math.sin(p.omega * t), 
-        vy: (_x, _y, _t, _p) => 0, 
-        div: (_x, _y, _t, _p) => 0, 
-        params: { A: { val: 2, min: 0, max: 5, step: 0.1 }, omega: { val: 2, min: 0.1, max: 10, step: 0.1, name: 'ω' } }, 
-        equation: '\\vec{v} = (A \\sin(\\omega t), 0)', 
-        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
-    },
+const METRICS = ['none', 'density', 'magnitude'] as const;
+type Metric = (typeof METRICS)[number];
+
+// Un valor por parámetro del flujo, en el orden de FLOWS[flow].params; cada
+// uno se recorta luego al rango de su parámetro
+const flowValue = numberParam(0, { min: -10, max: 10 });
+
+// Estado compartible por URL (?flow=...&p=...)
+const URL_PARAMS = {
+    flow: enumParam<FlowType>('Uniforme', Object.keys(FLOWS) as FlowType[]),
+    p: listParam<number>([], flowValue, { maxItems: 4 }),
+    metric: enumParam<Metric>('none', METRICS),
+    quiver: booleanParam(true),
+    tracers: booleanParam(true),
+    particles: numberParam(200, { min: 50, max: 1000, integer: true }),
 };
 
 const EulerLagrange = () => {
     // --- State ---
-    const [flowType, setFlowType] = useState<FlowType>('Uniforme');
-    const [params, setParams] = useState<any>({});
+    const [urlParams, setUrlParams] = useUrlState(URL_PARAMS);
+    const { t: tr, formatNumber } = useI18n(MESSAGES);
+    const flowType = urlParams.flow;
+    // Los valores del flujo anterior no sirven para el nuevo
+    const setFlowType = (flow: FlowType) => setUrlParams({ flow, p: [] });
+    const params = useMemo(() => {
+        const values: FlowParams = {};
+        Object.entries(FLOWS[flowType].params).forEach(([key, p], i) => {
+            values[key] = Math.min(p.max, Math.max(p.min, urlParams.p[i] ?? p.val));
+        });
+        return values;
+    }, [flowType, urlParams.p]);
+    const setParam = (key: string, value: number) => {
+        setUrlParams({ p: Object.keys(FLOWS[flowType].params).map(k => (k === key ? value : params[k])) });
+    };
     const [isPlaying, setIsPlaying] = useState(false);
     const [time, setTime] = useState(0);
-    const [metric, setMetric] = useState<'none' | 'density' | 'magnitude'>('none');
-    const [showQuiver, setShowQuiver] = useState(true);
-    const [showTracers, setShowTracers] = useState(true);
-    const [particleDensity, setParticleDensity] = useState(200);
+    useAppControls({ playing: isPlaying, setPlaying: setIsPlaying, measure: () => ({ t: time }) });
+    const { metric, quiver: showQuiver, tracers: showTracers, particles: particleDensity } = urlParams;
     const [followMode, setFollowMode] = useState<'none' | 'awaiting' | 'following'>('none');
     const [configOpen, setConfigOpen] = useState(false);
     const isPortrait = useIsPortrait();
@@ -131,7 +71,10 @@ const EulerLagrange = () => {
     const requestRef = useRef<number | null>(null);
     const particlesRef = useRef<Particle[]>([]);
     const followedParticleRef = useRef<Particle | null>(null);
-    const paramsRef = useRef<any>({}); // Ref for loop access
+    const paramsRef = useRef<FlowParams>(params); // Ref for loop access
+    useEffect(() => {
+        paramsRef.current = params;
+    }, [params]);
 
     // DOM Refs for KaTeX
     const eqVxRef = useRef<HTMLParagraphElement>(null);
@@ -162,14 +105,6 @@ const EulerLagrange = () => {
 
     // --- Initialization & Updates ---
     useEffect(() => {
-        // Init Params for Flow Type
-        const defaultParams: any = {};
-        Object.entries(FLOWS[flowType].params).forEach(([key, p]) => {
-            defaultParams[key] = p.val;
-        });
-        setParams(defaultParams);
-        paramsRef.current = defaultParams;
-        
         // Reset Time & Particles
         setTime(0);
         particlesRef.current = [];
@@ -462,7 +397,7 @@ const EulerLagrange = () => {
             {isPortrait && (
                 <button
                     onClick={() => setConfigOpen(!configOpen)}
-                    aria-label={configOpen ? 'Cerrar panel de configuración' : 'Abrir panel de configuración'}
+                    aria-label={configOpen ? tr('common.closeSettings') : tr('common.openSettings')}
                     className="fixed right-4 z-50 p-3 bg-blue-600 hover:bg-blue-500 text-white rounded-full shadow-lg shadow-blue-900/40 transition-all"
                     style={{ bottom: 'max(1rem, env(safe-area-inset-bottom))' }}
                 >
@@ -486,13 +421,13 @@ const EulerLagrange = () => {
                     {/* Top Controls */}
                     <div className="shrink-0 bg-slate-900 p-3 rounded-xl border border-slate-800 flex flex-wrap gap-3 items-center justify-between">
                          <div className="flex items-center gap-3">
-                            <label className="font-bold text-slate-400 text-sm">Flujo:</label>
+                            <label className="font-bold text-slate-400 text-sm">{tr('flow')}</label>
                             <select 
                                 value={flowType} 
                                 onChange={e => setFlowType(e.target.value as FlowType)}
                                 className="bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:border-blue-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70"
                             >
-                                {Object.keys(FLOWS).map(k => <option key={k} value={k}>{k}</option>)}
+                                {Object.keys(FLOWS).map(k => <option key={k} value={k}>{tr(`flows.${k}`)}</option>)}
                             </select>
                          </div>
                          
@@ -503,18 +438,11 @@ const EulerLagrange = () => {
                                     <input 
                                         type="range" 
                                         min={pDefinition.min} max={pDefinition.max} step={pDefinition.step}
-                                        value={params[key] || pDefinition.val}
-                                        onChange={e => {
-                                            const v = parseFloat(e.target.value);
-                                            setParams((prev:any) => {
-                                                const next = {...prev, [key]: v};
-                                                paramsRef.current = next;
-                                                return next;
-                                            });
-                                        }}
+                                        value={params[key]}
+                                        onChange={e => setParam(key, parseFloat(e.target.value))}
                                         className="w-24 accent-blue-500 h-2 bg-slate-700 rounded-lg appearance-none"
                                     />
-                                    <span className="font-mono text-xs w-8 text-right">{params[key]?.toFixed(1)}</span>
+                                    <span className="font-mono text-xs w-8 text-right">{formatNumber(params[key], 1)}</span>
                                 </div>
                             ))}
                          </div>
@@ -530,11 +458,11 @@ const EulerLagrange = () => {
                         {/* Legend Overlay if Metric active */}
                         {metric !== 'none' && (
                             <div className="absolute bottom-4 left-4 bg-slate-900/80 backdrop-blur p-2 rounded border border-slate-700 text-xs flex flex-col items-center gap-1">
-                                <span>{metric==='density' ? 'Baja' : 'Alta'}</span>
+                                <span>{metric==='density' ? tr('low') : tr('high')}</span>
                                 <div className="w-4 h-20 bg-gradient-to-t from-blue-600 via-white to-red-600 border border-slate-500" 
                                      style={{background: metric==='density' ? 'linear-gradient(to top, blue, #111827, red)' : 'linear-gradient(to top, #111827, blue, cyan, white)'}} // Approx
                                 />
-                                <span>{metric==='density' ? 'Alta' : 'Baja'}</span>
+                                <span>{metric==='density' ? tr('high') : tr('low')}</span>
                             </div>
                         )}
                         
@@ -542,7 +470,7 @@ const EulerLagrange = () => {
                         {followMode === 'awaiting' && (
                             <div className="absolute inset-0 flex items-center justify-center bg-black/20 pointer-events-none">
                                 <div className="bg-blue-600 px-4 py-2 rounded-full text-white text-sm font-bold shadow-lg animate-pulse">
-                                    Haz clic para soltar partícula
+                                    {tr('clickToDrop')}
                                 </div>
                             </div>
                         )}
@@ -566,7 +494,7 @@ const EulerLagrange = () => {
                                 }}
                                 className="flex-1 accent-slate-500 h-2 bg-slate-800 rounded-lg appearance-none"
                             />
-                            <span className="font-mono text-sm text-slate-300 w-12">{time.toFixed(1)}s</span>
+                            <span className="font-mono text-sm text-slate-300 w-12">{formatNumber(time, 1)}s</span>
                         </div>
                         
                         <button onClick={() => {
@@ -574,7 +502,7 @@ const EulerLagrange = () => {
                             particlesRef.current = [];
                             followedParticleRef.current = null;
                             setFollowMode('none');
-                        }} className="p-3 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70" aria-label="Reiniciar simulación">
+                        }} className="p-3 bg-slate-800 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70" aria-label={tr('resetSimulation')}>
                             <RotateCcw size={20}/>
                         </button>
                     </div>
@@ -590,27 +518,27 @@ const EulerLagrange = () => {
                     {/* Info */}
                     <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 space-y-3">
                         <div className="border-b border-slate-800 pb-2 mb-2">
-                            <h3 className="font-bold text-sm text-slate-200">Ecuaciones del Flujo</h3>
+                            <h3 className="font-bold text-sm text-slate-200">{tr('equationsTitle')}</h3>
                         </div>
                         
                         <div>
-                            <div className="text-xs text-slate-500 mb-1">Campo de Velocidad</div>
+                            <div className="text-xs text-slate-500 mb-1">{tr('velocityField')}</div>
                             <p ref={eqVxRef} className="text-lg text-cyan-400 min-h-[2.5rem] flex items-center"></p>
                         </div>
                         
                         <div>
-                            <div className="text-xs text-slate-500 mb-1">Divergencia (Compresibilidad)</div>
+                            <div className="text-xs text-slate-500 mb-1">{tr('divergence')}</div>
                             <p ref={eqDivRef} className="text-lg text-rose-400 min-h-[2.5rem] flex items-center"></p>
                         </div>
                         
                         <div className="bg-slate-800/50 p-3 rounded text-xs text-slate-400 leading-relaxed">
-                            <span className="font-bold text-slate-300">Nota:</span> La divergencia indica si el fluido se expande o comprime. (div v = 0) significa flujo incompresible.
+                            <span className="font-bold text-slate-300">{tr('noteLabel')}</span> {tr('note')}
                         </div>
                     </div>
 
                     {/* Vis Settings */}
                     <div className="bg-slate-900 p-4 rounded-xl border border-slate-800 space-y-3">
-                         <h3 className="font-bold text-sm text-slate-200 border-b border-slate-800 pb-2">Visualización</h3>
+                         <h3 className="font-bold text-sm text-slate-200 border-b border-slate-800 pb-2">{tr('visualization')}</h3>
                          
                          {/* Follow Button */}
                          <button 
@@ -630,38 +558,38 @@ const EulerLagrange = () => {
                                 'bg-slate-800 hover:bg-slate-700 text-slate-300'
                             }`}
                          >
-                            {followMode === 'following' ? <><Activity size={18}/> Vista Global</> : 
-                             followMode === 'awaiting' ? <><MousePointer2 size={18}/> Clic en Mapa...</> : 
-                             <><MousePointer2 size={18}/> Seguir Partícula</>}
+                            {followMode === 'following' ? <><Activity size={18}/> {tr('globalView')}</> : 
+                             followMode === 'awaiting' ? <><MousePointer2 size={18}/> {tr('clickOnMap')}</> : 
+                             <><MousePointer2 size={18}/> {tr('followParticle')}</>}
                          </button>
                          
                          <div className="space-y-3">
                              <label className="flex items-center justify-between cursor-pointer">
-                                 <span className="text-sm text-slate-300">Vectores (Quiver)</span>
+                                 <span className="text-sm text-slate-300">{tr('quiver')}</span>
                                  <div className={`w-10 h-6 rounded-full p-1 transition-colors ${showQuiver ? 'bg-blue-600' : 'bg-slate-700'}`}
-                                      onClick={() => setShowQuiver(!showQuiver)}>
+                                      onClick={() => setUrlParams({ quiver: !showQuiver })}>
                                      <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${showQuiver ? 'translate-x-4' : ''}`}/>
                                  </div>
                              </label>
                              
                              <label className="flex items-center justify-between cursor-pointer">
-                                 <span className="text-sm text-slate-300">Trayectorias</span>
+                                 <span className="text-sm text-slate-300">{tr('tracers')}</span>
                                  <div className={`w-10 h-6 rounded-full p-1 transition-colors ${showTracers ? 'bg-blue-600' : 'bg-slate-700'}`}
-                                      onClick={() => setShowTracers(!showTracers)}>
+                                      onClick={() => setUrlParams({ tracers: !showTracers })}>
                                      <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${showTracers ? 'translate-x-4' : ''}`}/>
                                  </div>
                              </label>
 
                              <div>
-                                 <div className="text-xs text-slate-500 mb-2">Métrica de Fondo</div>
+                                 <div className="text-xs text-slate-500 mb-2">{tr('backgroundMetric')}</div>
                                  <div className="flex bg-slate-800 rounded-lg p-1">
-                                     {['none', 'density', 'magnitude'].map(opt => (
+                                     {METRICS.map(opt => (
                                          <button 
                                             key={opt}
-                                            onClick={() => setMetric(opt as any)}
+                                            onClick={() => setUrlParams({ metric: opt })}
                                             className={`flex-1 py-1 text-xs rounded font-medium transition-colors ${metric === opt ? 'bg-slate-700 text-white shadow' : 'text-slate-500 hover:text-slate-300'}`}
                                          >
-                                             {opt === 'none' ? 'Ninguna' : opt === 'density' ? 'Densidad' : 'Magnitud'}
+                                             {tr(`metrics.${opt}`)}
                                          </button>
                                      ))}
                                  </div>
@@ -669,13 +597,13 @@ const EulerLagrange = () => {
 
                              <div>
                                  <div className="flex justify-between text-xs text-slate-500 mb-1">
-                                     <span>Partículas</span>
+                                     <span>{tr('particles')}</span>
                                      <span>{particleDensity}</span>
                                  </div>
                                  <input 
                                     type="range" min="50" max="1000" step="50"
                                     value={particleDensity}
-                                    onChange={e => setParticleDensity(parseInt(e.target.value))}
+                                    onChange={e => setUrlParams({ particles: parseInt(e.target.value) })}
                                     className="w-full accent-slate-500 h-2 bg-slate-800 rounded-lg appearance-none"
                                  />
                              </div>
@@ -0,0 +1,101 @@
+// Flujos canónicos de la comparación Euler/Lagrange. Separados del componente
+// para que la paleta de comandos pueda buscarlos sin cargar la simulación.
+
+// --- Types ---
+export type FlowType = 'Uniforme' | 'Rotación Sólida' | 'Cizalladura' | 'Estancamiento' | 'Vórtice Puntual' | 'Expansión Radial' | 'Espiral' | 'Onda de Compresión' | 'Oscilante';
+
+export interface Parameter {
+    val: number;
+    min: number;
+    max: number;
+    step: number;
+    name?: string;
+}
+
+// Valores de los parámetros del flujo, por clave de `params`
+export type FlowParams = Record<string, number>;
+
+export interface FlowDefinition {
+    vx: (x: number, y: number, t: number, p: FlowParams) => number;
+    vy: (x: number, y: number, t: number, p: FlowParams) => number;
+    div: (x: number, y: number, t: number, p: FlowParams) => number;
+    params: { [key: string]: Parameter };
+    equation: string;
+    divEquation: string;
+}
+
+// --- Constants ---
+export const FLOWS: { [key in FlowType]: FlowDefinition } = {
+    'Uniforme': { 
+        vx: (_x, _y, _t, p) => p.U, 
+        vy: (_x, _y, _t, _p) => 0, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { U: { val: 1, min: -5, max: 5, step: 0.1 } }, 
+        equation: '\\vec{v} = (U, 0)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
+    },
+    'Rotación Sólida': { 
+        vx: (_x, y, _t, p) => -p.Omega * y, 
+        vy: (x, _y, _t, p) => p.Omega * x, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { Omega: { val: 1, min: -3, max: 3, step: 0.1, name: 'Ω' } }, 
+        equation: '\\vec{v} = (-\\Omega y, \\Omega x)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
+    },
+    'Cizalladura': { 
+        vx: (_x, y, _t, p) => p.k * y, 
+        vy: (_x, _y, _t, _p) => 0, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { k: { val: 1, min: -3, max: 3, step: 0.1 } }, 
+        equation: '\\vec{v} = (ky, 0)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
+    },
+    'Estancamiento': { 
+        vx: (x, _y, _t, p) => p.a * x, 
+        vy: (_x, y, _t, p) => -p.a * y, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { a: { val: 1, min: -3, max: 3, step: 0.1 } }, 
+        equation: '\\vec{v} = (ax, -ay)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
+    },
+    'Vórtice Puntual': { 
+        vx: (x, y, _t, p) => { const r2 = x*x+y*y; return r2 < 1e-4 ? 0 : -p.Gamma*y/(2*Math.PI*r2); }, 
+        vy: (x, y, _t, p) => { const r2 = x*x+y*y; return r2 < 1e-4 ? 0 : p.Gamma*x/(2*Math.PI*r2); }, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { Gamma: { val: 5, min: -10, max: 10, step: 0.5, name: 'Γ' } }, 
+        equation: '\\vec{v} = \\frac{\\Gamma}{2\\pi r^2}(-y, x)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0 \\quad (r \\neq 0)' 
+    },
+    'Expansión Radial': { 
+        vx: (x, _y, _t, p) => p.k * x, 
+        vy: (_x, y, _t, p) => p.k * y, 
+        div: (_x, _y, _t, p) => 2 * p.k, 
+        params: { k: { val: 0.5, min: -2, max: 2, step: 0.1 } }, 
+        equation: '\\vec{v} = (kx, ky)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 2k' 
+    },
+    'Espiral': { 
+        vx: (x, y, _t, p) => p.a * x - p.b * y, 
+        vy: (x, y, _t, p) => p.b * x + p.a * y, 
+        div: (_x, _y, _t, p) => 2 * p.a, 
+        params: { a: { val: 0.2, min: -1, max: 1, step: 0.05 }, b: { val: 1, min: -3, max: 3, step: 0.1 } }, 
+        equation: '\\vec{v} = (ax-by, bx+ay)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 2a' 
+    },
+    'Onda de Compresión': { 
+        vx: (x, _y, _t, p) => p.A * Math.sin(p.k * x), 
+        vy: (_x, _y, _t, _p) => 0, 
+        div: (x, _y, _t, p) => p.A * p.k * Math.cos(p.k * x), 
+        params: { A: { val: 1, min: -2, max: 2, step: 0.1 }, k: { val: 1, min: 0.1, max: 5, step: 0.1 } }, 
+        equation: '\\vec{v} = (A \\sin(kx), 0)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = Ak \\cos(kx)' 
+    },
+    'Oscilante': { 
+        vx: (_x, _y, t, p) => p.A * Math.sin(p.omega * t), 
+        vy: (_x, _y, _t, _p) => 0, 
+        div: (_x, _y, _t, _p) => 0, 
+        params: { A: { val: 2, min: 0, max: 5, step: 0.1 }, omega: { val: 2, min: 0.1, max: 10, step: 0.1, name: 'ω' } }, 
+        equation: '\\vec{v} = (A \\sin(\\omega t), 0)', 
+        divEquation: '\\nabla \\cdot \\vec{v} = 0' 
+    },
+};
@@ -14,6 +14,12 @@ import {
     RotateCcw,
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { useUrlState } from '../../hooks/useUrlState';
+import { booleanParam, enumParam, numberParam } from '../../lib/urlParams';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { captureCanvas } from '../../lib/export';
 
 // --- Constants ---
 const GRID_COLS = 30;
@@ -33,11 +39,23 @@ const MAX_ANGULAR_SPEED = 2.3;
 const MAX_PIVOT_ANGLE = Math.PI * 0.98;
 const FORCE_VECTOR_SCALE_KPA = 60;
 
+const TOOL_MODES = ['draw', 'erase', 'addWater', 'removeWater', 'pivot'] as const;
+type ToolMode = (typeof TOOL_MODES)[number];
+
+// Estado compartible por URL (?g=...&tool=...&field=1)
+const URL_PARAMS = {
+    g: numberParam(9.81, { min: GRAVITY_MIN, max: GRAVITY_MAX }),
+    open: booleanParam(true),
+    tool: enumParam<ToolMode>('draw', TOOL_MODES),
+    field: booleanParam(false),
+    forces: booleanParam(true),
+};
+
 const GRAVITY_REFS = [
-    { name: 'Luna', g: 1.62 },
-    { name: 'Marte', g: 3.72 },
-    { name: 'Tierra', g: 9.81 },
-    { name: 'Júpiter', g: 24.79 },
+    { id: 'moon', g: 1.62 },
+    { id: 'mars', g: 3.72 },
+    { id: 'earth', g: 9.81 },
+    { id: 'jupiter', g: 24.79 },
 ];
 
 const NEIGHBORS: Array<[number, number]> = [
@@ -47,8 +65,21 @@ const NEIGHBORS: Array<[number, number]> = [
     [0, 1],
 ];
 
-type ToolMode = 'draw' | 'erase' | 'addWater' | 'removeWater' | 'pivot';
 type LineAxis = 'horizontal' | 'vertical';
+// Mensajes del creador de pivotes; el texto está en locales/*.json bajo `pivot.status`
+type PivotStatus =
+    | 'idle'
+    | 'created'
+    | 'removed'
+    | 'reset'
+    | 'pivotOutside'
+    | 'alreadyExists'
+    | 'startOnWall'
+    | 'dragLine'
+    | 'axisOnly'
+    | 'tooShort'
+    | 'choosePivot'
+    | 'restored';
 
 interface Cell {
     r: number;
@@ -456,20 +487,22 @@ export default function HydrostaticPressure() {
     const previewCellsRef = useRef<Cell[]>([]);
     const lastFrameTimeRef = useRef<number | null>(null);
 
-    const [gravity, setGravity] = useState(9.81);
-    const [isOpenAtmosphere, setIsOpenAtmosphere] = useState(true);
-    const [toolMode, setToolMode] = useState<ToolMode>('draw');
-    const [showPressureField, setShowPressureField] = useState(false);
-    const [showWallForces, setShowWallForces] = useState(true);
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, formatNumber } = useI18n(MESSAGES);
+    const gravity = params.g;
+    const setGravity = (value: number) => setParams({ g: value });
+    const { open: isOpenAtmosphere, tool: toolMode, field: showPressureField, forces: showWallForces } = params;
+    const setToolMode = useCallback((tool: ToolMode) => setParams({ tool }), [setParams]);
     const [isSidebarOpen, setIsSidebarOpen] = useState(true);
     const [isSimulationPlaying, setIsSimulationPlaying] = useState(true);
     const [pivotCandidate, setPivotCandidate] = useState<PivotCandidate | null>(null);
     const [pivotPreviewCells, setPivotPreviewCells] = useState<Cell[]>([]);
-    const [pivotStatus, setPivotStatus] = useState('Selecciona una línea recta de muro para convertirla en compuerta.');
+    const [pivotStatus, setPivotStatus] = useState<PivotStatus>('idle');
     const [pivotTelemetry, setPivotTelemetry] = useState({ exists: false, angle: 0, angularVelocity: 0, torque: 0, pressureDelta: 0 });
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const exportScaleRef = useRef(1);
     const isDrawingRef = useRef(false);
     const lastCellRef = useRef<Cell | null>(null);
 
@@ -507,7 +540,7 @@ export default function HydrostaticPressure() {
         return composeWallGrid(baseWalls, computePivotOccupiedCells(pivotWall));
     }, []);
 
-    const clearPivotConstruction = useCallback((nextStatus?: string) => {
+    const clearPivotConstruction = useCallback((nextStatus?: PivotStatus) => {
         pivotDragStartRef.current = null;
         isDrawingRef.current = false;
         lastCellRef.current = null;
@@ -543,8 +576,8 @@ export default function HydrostaticPressure() {
         setPivotTelemetry({ exists: true, angle: 0, angularVelocity: 0, torque: 0, pressureDelta: 0 });
         setIsSimulationPlaying(false);
         setToolMode('pivot');
-        clearPivotConstruction('Pivote creado. Pulsa play para liberar la compuerta.');
-    }, [clearPivotConstruction]);
+        clearPivotConstruction('created');
+    }, [clearPivotConstruction, setToolMode]);
 
     const removePivotWall = useCallback(() => {
         const pivotWall = pivotWallRef.current;
@@ -563,7 +596,7 @@ export default function HydrostaticPressure() {
         pivotWallRef.current = null;
         setPivotTelemetry({ exists: false, angle: 0, angularVelocity: 0, torque: 0, pressureDelta: 0 });
         setIsSimulationPlaying(true);
-        clearPivotConstruction('Pivote retirado. El muro volvió a quedar bloqueado.');
+        clearPivotConstruction('removed');
     }, [clearPivotConstruction]);
 
     const resetPivotWall = useCallback(() => {
@@ -575,7 +608,7 @@ export default function HydrostaticPressure() {
         pivotWall.lastTorque = 0;
         pivotWall.lastPressureDelta = 0;
         setPivotTelemetry((prev) => ({ ...prev, angle: 0, angularVelocity: 0, torque: 0, pressureDelta: 0, exists: true }));
-        setPivotStatus('Compuerta reiniciada a su orientación original.');
+        setPivotStatus('reset');
     }, []);
 
     const applyTool = useCallback((r: number, c: number) => {
@@ -638,7 +671,7 @@ export default function HydrostaticPressure() {
 
         const pivotCell = pivotCandidate.cells.find((cell) => cell.r === r && cell.c === c);
         if (!pivotCell) {
-            setPivotStatus('El pivote debe colocarse sobre uno de los bloques resaltados.');
+            setPivotStatus('pivotOutside');
             return;
         }
 
@@ -656,20 +689,20 @@ export default function HydrostaticPressure() {
             }
 
             if (pivotWallRef.current) {
-                setPivotStatus('Ya existe una compuerta con pivote. Retírala antes de crear otra.');
+                setPivotStatus('alreadyExists');
                 return;
             }
 
             const walls = getEffectiveWallGrid(simState.wallGrid);
             if (!walls[r][c]) {
-                setPivotStatus('Empieza la selección sobre una línea de muro.');
+                setPivotStatus('startOnWall');
                 return;
             }
 
             pivotDragStartRef.current = { r, c };
             isDrawingRef.current = true;
             setPivotPreviewCells([{ r, c }]);
-            setPivotStatus('Arrastra en horizontal o vertical para definir la compuerta.');
+            setPivotStatus('dragLine');
             try {
                 (e.target as HTMLElement).setPointerCapture(e.pointerId);
             } catch {
@@ -696,7 +729,7 @@ export default function HydrostaticPressure() {
 
             if (start.r !== r && start.c !== c) {
                 setPivotPreviewCells([]);
-                setPivotStatus('La selección del pivote solo admite líneas horizontales o verticales.');
+                setPivotStatus('axisOnly');
                 return;
             }
 
@@ -734,13 +767,13 @@ export default function HydrostaticPressure() {
             const candidate = createPivotCandidate(start, { r, c }, getEffectiveWallGrid(simState.wallGrid));
             if (!candidate) {
                 setPivotPreviewCells([]);
-                setPivotStatus('La compuerta debe ser una línea continua de al menos 2 bloques.');
+                setPivotStatus('tooShort');
                 return;
             }
 
             setPivotCandidate(candidate);
             setPivotPreviewCells(candidate.cells);
-            setPivotStatus('Ahora haz clic sobre uno de los bloques seleccionados para fijar el pivote.');
+            setPivotStatus('choosePivot');
             return;
         }
 
@@ -862,7 +895,7 @@ export default function HydrostaticPressure() {
             }
 
             const rect = container.getBoundingClientRect();
-            const dpr = window.devicePixelRatio || 1;
+            const dpr = (window.devicePixelRatio || 1) * exportScaleRef.current;
             if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
                 canvas.width = rect.width * dpr;
                 canvas.height = rect.height * dpr;
@@ -1056,6 +1089,25 @@ export default function HydrostaticPressure() {
         return () => cancelAnimationFrame(animationId);
     }, []);
 
+    // Hydrostatic pressure at the center of every cell that holds water
+    const pressureSamples = () => {
+        const { wallGrid, gravity: g, isOpenAtmosphere: isOpen } = stateRef.current;
+        const pivotWall = pivotWallRef.current;
+        const walls = composeWallGrid(wallGrid, pivotWall ? computePivotOccupiedCells(pivotWall) : []);
+        const grid = waterGridRef.current;
+        const surfaceMap = surfaceMapRef.current;
+        const rows: number[][] = [];
+        for (let r = 0; r < GRID_ROWS; r++) {
+            for (let c = 0; c < GRID_COLS; c++) {
+                if (walls[r][c] || grid[r][c] <= 0.01) continue;
+                const depth = surfaceMap[r][c] === -1 ? 0 : Math.max(0, (r + 0.5 - surfaceMap[r][c]) * METERS_PER_CELL);
+                const p = getPressureKPa(c + 0.5, r + 0.5, grid, walls, g, isOpen, surfaceMap);
+                rows.push([c, r, (c + 0.5) * METERS_PER_CELL, depth, grid[r][c], p]);
+            }
+        }
+        return { columns: ['col', 'row', 'x_m', 'depth_m', 'water_fraction', 'p_kPa'], rows };
+    };
+
     const pivotExists = Boolean(pivotWallRef.current);
     const pivotModeActive = toolMode === 'pivot';
 
@@ -1076,10 +1128,23 @@ export default function HydrostaticPressure() {
                     <canvas ref={canvasRef} className="block w-full h-full" />
                 </div>
 
+                <ExportToolbar
+                    fileName="presion-hidrostatica"
+                    png={() => captureCanvas(canvasRef.current!, exportScaleRef)}
+                    table={pressureSamples}
+                    json={() => ({
+                        gravity,
+                        openAtmosphere: isOpenAtmosphere,
+                        metersPerCell: METERS_PER_CELL,
+                        samples: pressureSamples(),
+                    })}
+                    className="absolute top-4 left-4 z-40"
+                />
+
                 <button
                     onClick={() => setIsSidebarOpen(!isSidebarOpen)}
                     className="absolute top-4 right-4 z-50 bg-slate-900/80 border border-white/10 p-2.5 rounded-lg text-slate-300 hover:text-white backdrop-blur shadow-lg transition-transform active:scale-95 flex items-center justify-center"
-                    title="Alternar Centro de Control"
+                    title={t('controlCenter.toggle')}
                 >
                     {isSidebarOpen ? <X size={20} /> : <Menu size={20} />}
                 </button>
@@ -1090,38 +1155,38 @@ export default function HydrostaticPressure() {
                     <div className="p-4 border-b border-white/5 top-0 sticky bg-slate-900 z-10 flex items-center justify-between gap-2">
                         <div className="flex items-center gap-2">
                             <Layers className="w-5 h-5 text-cyan-400" />
-                            <h3 className="font-bold uppercase tracking-wider text-white">Centro de Control</h3>
+                            <h3 className="font-bold uppercase tracking-wider text-white">{t('controlCenter.title')}</h3>
                         </div>
                     </div>
 
                     <div className="p-4 flex flex-col gap-6 flex-1">
                         <div>
-                            <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-3">Física y Visualización</h4>
+                            <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold mb-3">{t('controlCenter.physics')}</h4>
                             <div className="flex flex-col gap-2">
                                 <div className="flex flex-col gap-2">
-                                    <button onClick={() => setShowPressureField((v) => !v)} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all w-full', showPressureField ? 'bg-purple-500/20 border-purple-500/50 text-purple-300' : 'bg-slate-950 border-white/5 text-slate-400 hover:bg-slate-800')}>
-                                        <span className="text-[11px] uppercase font-bold tracking-widest flex items-center gap-2"><Layers size={14} /> Campo de Presiones</span>
+                                    <button onClick={() => setParams({ field: !showPressureField })} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all w-full', showPressureField ? 'bg-purple-500/20 border-purple-500/50 text-purple-300' : 'bg-slate-950 border-white/5 text-slate-400 hover:bg-slate-800')}>
+                                        <span className="text-[11px] uppercase font-bold tracking-widest flex items-center gap-2"><Layers size={14} /> {t('controlCenter.pressureField')}</span>
                                         <div className={cn('w-2 h-2 rounded-full', showPressureField ? 'bg-purple-400 shadow-[0_0_8px_rgba(192,132,252,0.8)]' : 'bg-slate-600')} />
                                     </button>
 
                                     {showPressureField && (
                                         <div className="px-1 text-[9px] uppercase font-bold text-slate-400 mb-1">
                                             <div className="flex justify-between mb-1.5 opacity-80">
-                                                <span>Menor Presión</span>
-                                                <span>Mayor Presión</span>
+                                                <span>{t('controlCenter.lowerPressure')}</span>
+                                                <span>{t('controlCenter.higherPressure')}</span>
                                             </div>
                                             <div className="w-full h-2 rounded-full border border-white/10" style={{ background: 'linear-gradient(to right, hsl(240, 100%, 50%), hsl(120, 100%, 50%), hsl(0, 100%, 50%))' }}></div>
                                         </div>
                                     )}
                                 </div>
 
-                                <button onClick={() => setShowWallForces((v) => !v)} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all w-full', showWallForces ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'bg-slate-950 border-white/5 text-slate-400 hover:bg-slate-800')}>
-                                    <span className="text-[11px] uppercase font-bold tracking-widest flex items-center gap-2"><Target size={14} /> Fuerzas en Muros</span>
+                                <button onClick={() => setParams({ forces: !showWallForces })} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all w-full', showWallForces ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'bg-slate-950 border-white/5 text-slate-400 hover:bg-slate-800')}>
+                                    <span className="text-[11px] uppercase font-bold tracking-widest flex items-center gap-2"><Target size={14} /> {t('controlCenter.wallForces')}</span>
                                     <div className={cn('w-2 h-2 rounded-full', showWallForces ? 'bg-amber-400 shadow-[0_0_8px_rgba(251,191,36,0.8)]' : 'bg-slate-600')} />
                                 </button>
 
-                                <button onClick={() => setIsOpenAtmosphere((v) => !v)} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all mt-1.5', isOpenAtmosphere ? 'bg-sky-500/10 border-sky-500/30 text-sky-400' : 'bg-slate-950/80 border-rose-500/30 text-rose-400')}>
-                                    <span className="text-[11px] uppercase font-bold tracking-widest">{isOpenAtmosphere ? 'Atmósfera Abierta' : 'Tanque Sellado (0 ATM)'}</span>
+                                <button onClick={() => setParams({ open: !isOpenAtmosphere })} className={cn('p-3 rounded-lg border flex items-center justify-between transition-all mt-1.5', isOpenAtmosphere ? 'bg-sky-500/10 border-sky-500/30 text-sky-400' : 'bg-slate-950/80 border-rose-500/30 text-rose-400')}>
+                                    <span className="text-[11px] uppercase font-bold tracking-widest">{isOpenAtmosphere ? t('controlCenter.openAtmosphere') : t('controlCenter.sealedTank')}</span>
                                     {isOpenAtmosphere ? <Download size={14} className="animate-pulse" /> : <X size={14} />}
                                 </button>
                             </div>
@@ -1129,14 +1194,14 @@ export default function HydrostaticPressure() {
 
                         <div>
                             <div className="flex justify-between items-center mb-3">
-                                <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Gravedad (Planetas)</h4>
-                                <span className="font-mono text-cyan-400 text-[11px] px-2 py-0.5 bg-slate-950 rounded border border-cyan-500/30 font-bold">{gravity.toFixed(2)} m/s²</span>
+                                <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">{t('gravity.title')}</h4>
+                                <span className="font-mono text-cyan-400 text-[11px] px-2 py-0.5 bg-slate-950 rounded border border-cyan-500/30 font-bold">{formatNumber(gravity, 2)} m/s²</span>
                             </div>
                             <input type="range" min={GRAVITY_MIN} max={GRAVITY_MAX} step={0.01} value={gravity} onChange={(e) => setGravity(Number(e.target.value))} className="w-full accent-cyan-500 mb-3" />
                             <div className="grid grid-cols-4 gap-1.5">
                                 {GRAVITY_REFS.map((ref) => (
-                                    <button key={ref.name} onClick={() => setGravity(ref.g)} className={cn('py-2 rounded text-[10px] uppercase font-bold border transition-colors', Math.abs(gravity - ref.g) < 0.1 ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300 shadow-[0_0_10px_rgba(6,182,212,0.2)]' : 'bg-slate-950 border-white/10 text-slate-500 hover:text-white hover:border-white/20')}>
-                                        {ref.name}
+                                    <button key={ref.id} onClick={() => setGravity(ref.g)} className={cn('py-2 rounded text-[10px] uppercase font-bold border transition-colors', Math.abs(gravity - ref.g) < 0.1 ? 'bg-cyan-500/20 border-cyan-500 text-cyan-300 shadow-[0_0_10px_rgba(6,182,212,0.2)]' : 'bg-slate-950 border-white/10 text-slate-500 hover:text-white hover:border-white/20')}>
+                                        {t(`gravity.bodies.${ref.id}`)}
                                     </button>
                                 ))}
                             </div>
@@ -1144,35 +1209,35 @@ export default function HydrostaticPressure() {
 
                         <div>
                             <div className="flex items-center justify-between mb-3 gap-3">
-                                <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Constructor Físico</h4>
-                                <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">{pivotModeActive ? 'Modo pivote' : 'Edición libre'}</span>
+                                <h4 className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">{t('builder.title')}</h4>
+                                <span className="text-[10px] uppercase tracking-widest font-bold text-slate-500">{pivotModeActive ? t('builder.pivotMode') : t('builder.freeEdit')}</span>
                             </div>
                             <div className="grid grid-cols-3 gap-2">
                                 <button onClick={() => setToolMode('draw')} className={cn('p-2.5 rounded-lg border flex flex-col items-center gap-2 transition-all', toolMode === 'draw' ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'bg-slate-950/50 border-white/5 text-slate-400 hover:bg-white/5 hover:text-white')}>
-                                    <PenTool size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">Muro</span>
+                                    <PenTool size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">{t('builder.tools.draw')}</span>
                                 </button>
                                 <button onClick={() => setToolMode('erase')} className={cn('p-2.5 rounded-lg border flex flex-col items-center gap-2 transition-all', toolMode === 'erase' ? 'bg-rose-500/20 border-rose-500/50 text-rose-300' : 'bg-slate-950/50 border-white/5 text-slate-400 hover:bg-white/5 hover:text-white')}>
-                                    <Eraser size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">Borrar</span>
+                                    <Eraser size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">{t('builder.tools.erase')}</span>
                                 </button>
                                 <button onClick={() => setToolMode('pivot')} className={cn('p-2.5 rounded-lg border flex flex-col items-center gap-2 transition-all', toolMode === 'pivot' ? 'bg-fuchsia-500/20 border-fuchsia-500/50 text-fuchsia-200' : 'bg-slate-950/50 border-white/5 text-slate-400 hover:bg-white/5 hover:text-white')}>
-                                    <Target size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">Pivote</span>
+                                    <Target size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">{t('builder.tools.pivot')}</span>
                                 </button>
                                 <button onClick={() => setToolMode('addWater')} className={cn('p-2.5 rounded-lg border flex flex-col items-center gap-2 transition-all', toolMode === 'addWater' ? 'bg-blue-500/20 border-blue-500/50 text-blue-300' : 'bg-slate-950/50 border-white/5 text-slate-400 hover:bg-white/5 hover:text-white')}>
-                                    <Droplets size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">Inyectar</span>
+                                    <Droplets size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">{t('builder.tools.addWater')}</span>
                                 </button>
                                 <button onClick={() => setToolMode('removeWater')} className={cn('p-2.5 rounded-lg border flex flex-col items-center gap-2 transition-all', toolMode === 'removeWater' ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'bg-slate-950/50 border-white/5 text-slate-400 hover:bg-white/5 hover:text-white')}>
-                                    <X size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">Drenar</span>
+                                    <X size={18} /><span className="text-[10px] uppercase font-bold tracking-widest">{t('builder.tools.removeWater')}</span>
                                 </button>
                             </div>
 
                             <div className="mt-3 rounded-xl border border-fuchsia-500/20 bg-fuchsia-500/5 p-3">
                                 <div className="flex items-center justify-between gap-3 mb-2">
-                                    <span className="text-[10px] uppercase tracking-[0.24em] font-bold text-fuchsia-200">Creador de pivotes</span>
+                                    <span className="text-[10px] uppercase tracking-[0.24em] font-bold text-fuchsia-200">{t('pivot.title')}</span>
                                     <span className={cn('text-[10px] uppercase font-bold', pivotExists ? 'text-cyan-300' : pivotCandidate ? 'text-fuchsia-200' : 'text-slate-500')}>
-                                        {pivotExists ? 'Compuerta activa' : pivotCandidate ? 'Esperando pivote' : 'Sin pivote'}
+                                        {pivotExists ? t('pivot.active') : pivotCandidate ? t('pivot.waiting') : t('pivot.none')}
                                     </span>
                                 </div>
-                                <p className="text-[11px] leading-relaxed text-slate-300">{pivotStatus}</p>
+                                <p className="text-[11px] leading-relaxed text-slate-300">{t(`pivot.status.${pivotStatus}`)}</p>
                                 <div className="mt-3 grid grid-cols-3 gap-2">
                                     <button
                                         onClick={() => setIsSimulationPlaying((prev) => !prev)}
@@ -1180,31 +1245,31 @@ export default function HydrostaticPressure() {
                                         className={cn('py-2 rounded-lg border text-[10px] uppercase font-bold tracking-widest flex items-center justify-center gap-1.5 transition-colors', pivotExists ? 'border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/10' : 'border-white/10 text-slate-600 cursor-not-allowed')}
                                     >
                                         {isSimulationPlaying ? <Pause size={14} /> : <Play size={14} />}
-                                        {isSimulationPlaying ? 'Pausa' : 'Play'}
+                                        {isSimulationPlaying ? t('common.pause') : t('common.play')}
                                     </button>
                                     <button
                                         onClick={resetPivotWall}
                                         disabled={!pivotExists}
                                         className={cn('py-2 rounded-lg border text-[10px] uppercase font-bold tracking-widest flex items-center justify-center gap-1.5 transition-colors', pivotExists ? 'border-sky-500/40 text-sky-300 hover:bg-sky-500/10' : 'border-white/10 text-slate-600 cursor-not-allowed')}
                                     >
-                                        <RotateCcw size={14} /> Reiniciar
+                                        <RotateCcw size={14} /> {t('common.reset')}
                                     </button>
                                     <button
                                         onClick={removePivotWall}
                                         disabled={!pivotExists}
                                         className={cn('py-2 rounded-lg border text-[10px] uppercase font-bold tracking-widest flex items-center justify-center gap-1.5 transition-colors', pivotExists ? 'border-rose-500/40 text-rose-300 hover:bg-rose-500/10' : 'border-white/10 text-slate-600 cursor-not-allowed')}
                                     >
-                                        <X size={14} /> Quitar
+                                        <X size={14} /> {t('pivot.remove')}
                                     </button>
                                 </div>
                                 <div className="mt-3 grid grid-cols-2 gap-2 text-[10px] uppercase font-bold">
                                     <div className="rounded-lg border border-white/10 bg-slate-950/70 p-2.5">
-                                        <div className="text-slate-500 mb-1">Torque</div>
-                                        <div className="font-mono text-amber-300">{pivotTelemetry.exists ? `${(pivotTelemetry.torque / 1000).toFixed(2)} kN·m` : '—'}</div>
+                                        <div className="text-slate-500 mb-1">{t('pivot.torque')}</div>
+                                        <div className="font-mono text-amber-300">{pivotTelemetry.exists ? `${formatNumber(pivotTelemetry.torque / 1000, 2)} kN·m` : '—'}</div>
                                     </div>
                                     <div className="rounded-lg border border-white/10 bg-slate-950/70 p-2.5">
-                                        <div className="text-slate-500 mb-1">Desequilibrio</div>
-                                        <div className="font-mono text-emerald-300">{pivotTelemetry.exists ? `${pivotTelemetry.pressureDelta.toFixed(2)} kPa` : '—'}</div>
+                                        <div className="text-slate-500 mb-1">{t('pivot.imbalance')}</div>
+                                        <div className="font-mono text-emerald-300">{pivotTelemetry.exists ? `${formatNumber(pivotTelemetry.pressureDelta, 2)} kPa` : '—'}</div>
                                     </div>
                                 </div>
                             </div>
@@ -1218,11 +1283,11 @@ export default function HydrostaticPressure() {
                                     setIsSimulationPlaying(true);
                                     setSimState({ wallGrid: createInitialWallGrid() });
                                     setPivotTelemetry({ exists: false, angle: 0, angularVelocity: 0, torque: 0, pressureDelta: 0 });
-                                    clearPivotConstruction('Entorno restaurado. Puedes volver a construir el tanque.');
+                                    clearPivotConstruction('restored');
                                 }}
                                 className="w-full py-3 rounded-lg text-[11px] font-bold uppercase tracking-widest border border-rose-500/20 text-rose-400 hover:bg-rose-500/10 transition-colors flex justify-center items-center gap-2"
                             >
-                                <Trash2 size={16} /> Purgar Entorno
+                                <Trash2 size={16} /> {t('purge')}
                             </button>
                         </div>
                     </div>
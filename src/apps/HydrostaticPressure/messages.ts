@@ -0,0 +1,5 @@
+import es from "./locales/es.json";
+import en from "./locales/en.json";
+import type { Messages } from "../../i18n/translate";
+
+export const MESSAGES: Messages = { es, en };
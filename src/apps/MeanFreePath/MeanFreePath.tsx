@@ -1,5 +1,15 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Play, RotateCcw, ArrowRight } from 'lucide-react';
+import { useUrlState } from '../../hooks/useUrlState';
+import { booleanParam, numberParam, seedParam } from '../../lib/urlParams';
+import { createRandom } from '../../lib/random';
+import type { Session } from '../../lib/session';
+import { useSessionRecorder } from '../../hooks/useSessionRecorder';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { SeedControl } from '../../components/SeedControl';
+import { SessionControls } from '../../components/SessionControls';
 
 // --- Types ---
 interface Particle {
@@ -21,6 +31,18 @@ interface GameConfig {
     playerBoost: boolean;
 }
 
+// A game is replayed on the field size it was played on
+interface GameSetup extends GameConfig {
+    width: number;
+    height: number;
+}
+
+// Direction the player pushes in (each axis -1, 0 or 1); recorded when it changes
+interface PushInput {
+    fx: number;
+    fy: number;
+}
+
 interface GameResults {
     collisions: number;
     distance: number;
@@ -34,16 +56,42 @@ const GOAL_SIZE = 40;
 const FRICTION = 0.97;
 const PLAYER_FORCE_BASE = 0.4;
 
+const MOVE_KEYS = {
+    up: ['ArrowUp', 'w', 'W'],
+    down: ['ArrowDown', 's', 'S'],
+    left: ['ArrowLeft', 'a', 'A'],
+    right: ['ArrowRight', 'd', 'D'],
+};
+
+type TouchDirection = keyof typeof MOVE_KEYS;
+
+// Estado compartible por URL (?obstacles=...&speed=...&boost=1&seed=...)
+const URL_PARAMS = {
+    obstacles: numberParam(100, { min: 10, max: 500, integer: true }),
+    speed: numberParam(1.5, { min: 0.5, max: 5 }),
+    boost: booleanParam(false),
+    seed: seedParam(),
+};
+
 const MeanFreePath = () => {
     // --- State ---
     const [gameState, setGameState] = useState<GameState>('setup');
-    const [config, setConfig] = useState<GameConfig>({
-        obstacleCount: 100,
-        obstacleSpeed: 1.5,
-        playerBoost: false
-    });
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, rich, formatNumber } = useI18n(MESSAGES);
+    const config = useMemo<GameConfig>(() => ({
+        obstacleCount: params.obstacles,
+        obstacleSpeed: params.speed,
+        playerBoost: params.boost
+    }), [params.obstacles, params.speed, params.boost]);
+    const setConfig = (update: (c: GameConfig) => GameConfig) => {
+        const next = update(config);
+        setParams({ obstacles: next.obstacleCount, speed: next.obstacleSpeed, boost: next.playerBoost });
+    };
     const [results, setResults] = useState<GameResults>({ collisions: 0, distance: 0, mfp: 0 });
     const [liveCollisions, setLiveCollisions] = useState(0);
+    // Every game is recorded; the last one can be replayed or saved
+    const session = useSessionRecorder<PushInput, GameSetup>('camino-libre');
+    const { tick: sessionTick, record: recordInput, isReplaying, stop: stopSession } = session;
 
     // --- Refs ---
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -56,6 +104,8 @@ const MeanFreePath = () => {
     // Input
     const keysRef = useRef<{[key: string]: boolean}>({});
     const touchInputRef = useRef({ up: false, down: false, left: false, right: false });
+    const pushRef = useRef<PushInput>({ fx: 0, fy: 0 });
+    const gameSetupRef = useRef<GameSetup | null>(null);
     const collisionsRef = useRef(0);
 
     // --- Helpers ---
@@ -72,22 +122,31 @@ const MeanFreePath = () => {
         const width = canvas.width;
         const height = canvas.height;
         const particles: Particle[] = [];
+        const random = createRandom(params.seed);
 
         for(let i=0; i<config.obstacleCount; i++) {
-            const x = Math.random() * (width - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
-            const y = Math.random() * (height - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
-            const angle = Math.random() * Math.PI * 2;
-            const speed = config.obstacleSpeed * (0.8 + Math.random() * 0.4);
+            const x = random() * (width - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
+            const y = random() * (height - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
+            const angle = random() * Math.PI * 2;
+            const speed = config.obstacleSpeed * (0.8 + random() * 0.4);
             particles.push(createParticle(x, y, Math.cos(angle)*speed, Math.sin(angle)*speed, OBSTACLE_RADIUS, '#60a5fa'));
         }
         particlesRef.current = particles;
         playerRef.current = null;
-    }, [config.obstacleCount, config.obstacleSpeed]);
+    }, [config.obstacleCount, config.obstacleSpeed, params.seed]);
 
-    const startGame = () => {
+    // Same setup and seed, same obstacles: that is what makes replays exact
+    const startGame = (setup: GameSetup, seed: number) => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
+        canvas.width = setup.width;
+        canvas.height = setup.height;
+        gameSetupRef.current = setup;
+        keysRef.current = {};
+        pushRef.current = { fx: 0, fy: 0 };
+        const random = createRandom(seed);
+
         // Init Player
         const startX = PLAYER_RADIUS + 20;
         const startY = PLAYER_RADIUS + 20;
@@ -95,8 +154,8 @@ const MeanFreePath = () => {
 
         // Init Obstacles (avoid player start)
         const particles: Particle[] = [];
-        const width = canvas.width;
-        const height = canvas.height;
+        const width = setup.width;
+        const height = setup.height;
         
         // Add player to particles list for collision loop convenience? 
         // Or keep separate. Separate is often cleaner for "One player vs Many" logic.
@@ -105,10 +164,10 @@ const MeanFreePath = () => {
         // Original code: "for(let j=1; j < particles.length; j++)" checks overlap but not collision physics between obstacles.
         
         let attempts = 0;
-        while(particles.length < config.obstacleCount && attempts < 10000) {
+        while(particles.length < setup.obstacleCount && attempts < 10000) {
             attempts++;
-            const x = Math.random() * (width - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
-            const y = Math.random() * (height - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
+            const x = random() * (width - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
+            const y = random() * (height - 2 * OBSTACLE_RADIUS) + OBSTACLE_RADIUS;
             
             // Check distance to player
             const dx = x - playerRef.current.x;
@@ -118,8 +177,8 @@ const MeanFreePath = () => {
             // Check distance to others (optional, for clean start)
             // Skipping strictly for perf, but "overlap check" was in original.
 
-            const angle = Math.random() * Math.PI * 2;
-            const speed = config.obstacleSpeed * (0.8 + Math.random() * 0.4);
+            const angle = random() * Math.PI * 2;
+            const speed = setup.obstacleSpeed * (0.8 + random() * 0.4);
             particles.push(createParticle(x, y, Math.cos(angle)*speed, Math.sin(angle)*speed, OBSTACLE_RADIUS, '#60a5fa'));
         }
         particlesRef.current = particles;
@@ -129,6 +188,26 @@ const MeanFreePath = () => {
         setGameState('playing');
     };
 
+    const playGame = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const setup: GameSetup = { ...config, width: canvas.width, height: canvas.height };
+        startGame(setup, params.seed);
+        session.startRecording(params.seed, setup);
+    };
+
+    const replayGame = (recorded: Session<PushInput, GameSetup>) => {
+        const { setup, seed } = recorded;
+        setParams({ obstacles: setup.obstacleCount, speed: setup.obstacleSpeed, boost: setup.playerBoost, seed });
+        startGame(setup, seed);
+        session.startReplay(recorded);
+    };
+
+    const exitGame = () => {
+        stopSession();
+        setGameState('setup');
+    };
+
     const endGame = () => {
         const canvas = canvasRef.current;
         if (!canvas || !playerRef.current) return;
@@ -169,8 +248,10 @@ const MeanFreePath = () => {
         ctx.fillRect(0, 0, width, height);
 
         if (gameState === 'setup') {
-            // Preview Mode
+            // Preview Mode. A game may already be set up while this frame still
+            // belongs to the setup screen; its obstacles must not move yet.
             particlesRef.current.forEach(p => {
+                if (playerRef.current) return;
                 p.x += p.vx;
                 p.y += p.vy;
                 // Bounce
@@ -188,21 +269,14 @@ const MeanFreePath = () => {
             if (!player) return;
 
             if (gameState === 'playing') {
-                // 1. Player Input & Physics
-                let fx = 0, fy = 0;
-                if (keysRef.current['ArrowUp'] || keysRef.current['w'] || keysRef.current['W']) fy -= 1;
-                if (keysRef.current['ArrowDown'] || keysRef.current['s'] || keysRef.current['S']) fy += 1;
-                if (keysRef.current['ArrowLeft'] || keysRef.current['a'] || keysRef.current['A']) fx -= 1;
-                if (keysRef.current['ArrowRight'] || keysRef.current['d'] || keysRef.current['D']) fx += 1;
-                if (touchInputRef.current.up) fy -= 1;
-                if (touchInputRef.current.down) fy += 1;
-                if (touchInputRef.current.left) fx -= 1;
-                if (touchInputRef.current.right) fx += 1;
+                // 1. Player Input & Physics (live input arrives through pushRef; a replay feeds it here)
+                for (const input of sessionTick()) pushRef.current = input;
+                let { fx, fy } = pushRef.current;
 
                 const len = Math.sqrt(fx*fx + fy*fy);
                 if (len > 0) { fx /= len; fy /= len; }
                 
-                const forceMag = PLAYER_FORCE_BASE * (config.playerBoost ? 2 : 1);
+                const forceMag = PLAYER_FORCE_BASE * (gameSetupRef.current?.playerBoost ? 2 : 1);
                 player.vx += (fx / player.mass) * forceMag;
                 player.vy += (fy / player.mass) * forceMag;
                 
@@ -305,18 +379,38 @@ const MeanFreePath = () => {
         }
 
         requestRef.current = requestAnimationFrame(update);
-    }, [gameState, config]);
+    }, [gameState, sessionTick]);
 
     // --- Inputs ---
+    // Keys and touch buttons combine into one push direction, recorded when it changes
+    const updatePush = useCallback(() => {
+        if (isReplaying()) return;
+        const held = (dir: TouchDirection) => touchInputRef.current[dir] || MOVE_KEYS[dir].some(key => keysRef.current[key]);
+        const fx = (held('right') ? 1 : 0) - (held('left') ? 1 : 0);
+        const fy = (held('down') ? 1 : 0) - (held('up') ? 1 : 0);
+        if (fx === pushRef.current.fx && fy === pushRef.current.fy) return;
+        pushRef.current = { fx, fy };
+        recordInput(pushRef.current);
+    }, [isReplaying, recordInput]);
+
+    const setTouch = (dir: TouchDirection, pressed: boolean) => {
+        touchInputRef.current[dir] = pressed;
+        updatePush();
+    };
+
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (gameState === 'playing' && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'w', 'a', 's', 'd', 'W', 'A', 'S', 'D'].includes(e.key)) {
+            if (gameState === 'playing' && Object.values(MOVE_KEYS).some(keys => keys.includes(e.key))) {
                 e.preventDefault();
                 keysRef.current[e.key] = true;
+                updatePush();
             }
         };
         const handleKeyUp = (e: KeyboardEvent) => {
-            if (gameState === 'playing') keysRef.current[e.key] = false;
+            if (gameState === 'playing') {
+                keysRef.current[e.key] = false;
+                updatePush();
+            }
         };
         window.addEventListener('keydown', handleKeyDown);
         window.addEventListener('keyup', handleKeyUp);
@@ -324,7 +418,7 @@ const MeanFreePath = () => {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [gameState]);
+    }, [gameState, updatePush]);
 
     // --- Lifecycle ---
     useEffect(() => {
@@ -340,6 +434,11 @@ const MeanFreePath = () => {
         }
     }, [gameState]);
 
+    // Reaching the goal ends the recording (or the replay)
+    useEffect(() => {
+        if (gameState === 'ended') stopSession();
+    }, [gameState, stopSession]);
+
     useEffect(() => {
         if (gameState === 'setup') initPreview();
     }, [gameState, initPreview]);
@@ -347,11 +446,13 @@ const MeanFreePath = () => {
     // Resize
     useEffect(() => {
         const resize = () => {
+            // A game keeps the field it started on (CSS scales the canvas); sessions depend on it
+            if (gameState !== 'setup') return;
             if (canvasRef.current && canvasRef.current.parentElement) {
                 const w = canvasRef.current.parentElement.clientWidth;
                 canvasRef.current.width = w;
                 canvasRef.current.height = canvasRef.current.parentElement.clientHeight;
-                if (gameState === 'setup') initPreview();
+                initPreview();
             }
         };
         resize();
@@ -363,11 +464,12 @@ const MeanFreePath = () => {
         <div className="w-full flex-1 flex flex-col min-h-0 text-slate-200 p-2 md:p-4 font-sans items-center relative">
              <div className="shrink-0 w-full max-w-4xl flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2 bg-slate-900/50 p-3 rounded-xl border border-slate-800">
                 <h1 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-green-400 to-blue-500 bg-clip-text text-transparent flex items-center gap-2">
-                    <ArrowRight className="text-green-400"/> Camino Libre Medio
+                    <ArrowRight className="text-green-400"/> {t('title')}
                 </h1>
                 {gameState === 'playing' && (
-                    <div className="flex gap-4 text-sm font-mono">
-                         <span className="bg-slate-800 px-3 py-1 rounded-lg text-rose-400 border border-slate-700">Explosiones: {liveCollisions}</span>
+                    <div className="flex items-center gap-4 text-sm font-mono">
+                         <SessionControls session={session} onReplay={replayGame} />
+                         <span className="bg-slate-800 px-3 py-1 rounded-lg text-rose-400 border border-slate-700">{t('liveCollisions', { count: liveCollisions })}</span>
                     </div>
                 )}
             </div>
@@ -379,12 +481,12 @@ const MeanFreePath = () => {
                 {gameState === 'setup' && (
                     <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-4 md:p-6">
                         <div className="bg-slate-800 p-5 md:p-8 rounded-2xl border border-slate-700 shadow-2xl max-w-sm w-full space-y-6">
-                            <h2 className="text-xl md:text-2xl font-bold text-center text-white mb-2">Configurar Viaje</h2>
+                            <h2 className="text-xl md:text-2xl font-bold text-center text-white mb-2">{t('setup.title')}</h2>
                             
                             <div className="space-y-4">
                                 <div>
                                     <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                        <span>Obstáculos</span>
+                                        <span>{t('setup.obstacles')}</span>
                                         <span>{config.obstacleCount}</span>
                                     </div>
                                     <input type="range" min="10" max="500" value={config.obstacleCount} 
@@ -394,8 +496,8 @@ const MeanFreePath = () => {
                                 
                                 <div>
                                     <div className="flex justify-between text-xs text-slate-400 mb-1">
-                                        <span>Velocidad</span>
-                                        <span>{config.obstacleSpeed.toFixed(1)}</span>
+                                        <span>{t('setup.speed')}</span>
+                                        <span>{formatNumber(config.obstacleSpeed, 1)}</span>
                                     </div>
                                     <input type="range" min="0.5" max="5" step="0.1" value={config.obstacleSpeed}
                                          onChange={e => setConfig(c => ({...c, obstacleSpeed: parseFloat(e.target.value)}))}
@@ -406,17 +508,21 @@ const MeanFreePath = () => {
                                     <input type="checkbox" checked={config.playerBoost} 
                                         onChange={e => setConfig(c => ({...c, playerBoost: e.target.checked}))}
                                         className="w-5 h-5 rounded accent-green-500 cursor-pointer"/>
-                                    <span className="text-sm font-medium text-slate-300">Impulso Doble (x2)</span>
+                                    <span className="text-sm font-medium text-slate-300">{t('setup.boost')}</span>
                                 </label>
+
+                                <SeedControl seed={params.seed} onChange={seed => setParams({ seed })} />
                             </div>
 
-                            <button onClick={startGame} className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-xl shadow-lg transition-all transform hover:scale-[1.02] flex justify-center items-center gap-2">
-                                <Play size={20} fill="currentColor"/> Empezar Viaje
+                            <button onClick={playGame} className="w-full py-3 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-xl shadow-lg transition-all transform hover:scale-[1.02] flex justify-center items-center gap-2">
+                                <Play size={20} fill="currentColor"/> {t('setup.start')}
                             </button>
                             
                             <p className="text-xs text-center text-slate-500">
-                                Usa <span className="text-slate-300 font-mono">flechas</span> en PC o controles táctiles en móvil.
+                                {rich('setup.controlsHint', { arrows: <span className="text-slate-300 font-mono">{t('setup.arrows')}</span> })}
                             </p>
+
+                            <SessionControls session={session} onReplay={replayGame} className="items-center" />
                         </div>
                     </div>
                 )}
@@ -425,27 +531,39 @@ const MeanFreePath = () => {
                 {gameState === 'ended' && (
                     <div className="absolute inset-0 bg-slate-900/90 backdrop-blur-md flex items-center justify-center p-6 animate-in fade-in zoom-in-95 duration-300">
                         <div className="bg-slate-800 p-8 rounded-2xl border border-green-500/30 shadow-2xl max-w-sm w-full text-center space-y-6">
-                            <h2 className="text-3xl font-bold text-green-400 mb-2">¡Meta Alcanzada!</h2>
+                            <h2 className="text-3xl font-bold text-green-400 mb-2">{t('results.title')}</h2>
                             
                             <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700 space-y-3">
                                 <div className="flex justify-between items-center border-b border-slate-800 pb-2">
-                                    <span className="text-slate-400 text-sm">Colisiones</span>
+                                    <span className="text-slate-400 text-sm">{t('results.collisions')}</span>
                                     <span className="text-xl font-mono text-rose-400 font-bold">{results.collisions}</span>
                                 </div>
                                 <div className="flex justify-between items-center border-b border-slate-800 pb-2">
-                                    <span className="text-slate-400 text-sm">Distancia</span>
-                                    <span className="text-xl font-mono text-blue-400 font-bold">{results.distance} px</span>
+                                    <span className="text-slate-400 text-sm">{t('results.distance')}</span>
+                                    <span className="text-xl font-mono text-blue-400 font-bold">{formatNumber(results.distance, 1)} px</span>
                                 </div>
                                 <div className="pt-2">
-                                    <div className="text-xs text-slate-500 mb-1">Camino Libre Medio (Empírico)</div>
+                                    <div className="text-xs text-slate-500 mb-1">{t('results.mfp')}</div>
                                     <div className="text-2xl font-mono text-yellow-400 font-bold">
-                                        {results.mfp === -1 ? "∞" : results.mfp} <span className="text-xs text-yellow-600 font-sans">px/col</span>
+                                        {results.mfp === -1 ? "∞" : formatNumber(results.mfp, 2)} <span className="text-xs text-yellow-600 font-sans">px/col</span>
                                     </div>
                                 </div>
                             </div>
 
+                            <ExportToolbar
+                                fileName="camino-libre-medio"
+                                table={() => ({
+                                    columns: ['obstacles', 'obstacle_speed', 'boost', 'collisions', 'distance_px', 'mfp_px'],
+                                    rows: [[config.obstacleCount, config.obstacleSpeed, config.playerBoost ? 1 : 0, results.collisions, results.distance, results.mfp === -1 ? 'inf' : results.mfp]],
+                                })}
+                                json={() => ({ config, seed: params.seed, ...results, mfp: results.mfp === -1 ? null : results.mfp })}
+                                className="justify-center"
+                            />
+
+                            <SessionControls session={session} onReplay={replayGame} className="items-center" />
+
                             <button onClick={() => setGameState('setup')} className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded-xl shadow-lg transition-all flex justify-center items-center gap-2">
-                                <RotateCcw size={20}/> Jugar de Nuevo
+                                <RotateCcw size={20}/> {t('results.playAgain')}
                             </button>
                         </div>
                     </div>
@@ -458,11 +576,11 @@ const MeanFreePath = () => {
                         <div />
                         <button
                             type="button"
-                            aria-label="Mover arriba"
-                            onPointerDown={() => { touchInputRef.current.up = true; }}
-                            onPointerUp={() => { touchInputRef.current.up = false; }}
-                            onPointerLeave={() => { touchInputRef.current.up = false; }}
-                            onPointerCancel={() => { touchInputRef.current.up = false; }}
+                            aria-label={t('touch.up')}
+                            onPointerDown={() => setTouch('up', true)}
+                            onPointerUp={() => setTouch('up', false)}
+                            onPointerLeave={() => setTouch('up', false)}
+                            onPointerCancel={() => setTouch('up', false)}
                             className="h-12 w-12 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 active:bg-slate-700"
                         >
                             ↑
@@ -471,11 +589,11 @@ const MeanFreePath = () => {
 
                         <button
                             type="button"
-                            aria-label="Mover izquierda"
-                            onPointerDown={() => { touchInputRef.current.left = true; }}
-                            onPointerUp={() => { touchInputRef.current.left = false; }}
-                            onPointerLeave={() => { touchInputRef.current.left = false; }}
-                            onPointerCancel={() => { touchInputRef.current.left = false; }}
+                            aria-label={t('touch.left')}
+                            onPointerDown={() => setTouch('left', true)}
+                            onPointerUp={() => setTouch('left', false)}
+                            onPointerLeave={() => setTouch('left', false)}
+                            onPointerCancel={() => setTouch('left', false)}
                             className="h-12 w-12 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 active:bg-slate-700"
                         >
                             ←
@@ -485,11 +603,11 @@ const MeanFreePath = () => {
                         </div>
                         <button
                             type="button"
-                            aria-label="Mover derecha"
-                            onPointerDown={() => { touchInputRef.current.right = true; }}
-                            onPointerUp={() => { touchInputRef.current.right = false; }}
-                            onPointerLeave={() => { touchInputRef.current.right = false; }}
-                            onPointerCancel={() => { touchInputRef.current.right = false; }}
+                            aria-label={t('touch.right')}
+                            onPointerDown={() => setTouch('right', true)}
+                            onPointerUp={() => setTouch('right', false)}
+                            onPointerLeave={() => setTouch('right', false)}
+                            onPointerCancel={() => setTouch('right', false)}
                             className="h-12 w-12 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 active:bg-slate-700"
                         >
                             →
@@ -498,11 +616,11 @@ const MeanFreePath = () => {
                         <div />
                         <button
                             type="button"
-                            aria-label="Mover abajo"
-                            onPointerDown={() => { touchInputRef.current.down = true; }}
-                            onPointerUp={() => { touchInputRef.current.down = false; }}
-                            onPointerLeave={() => { touchInputRef.current.down = false; }}
-                            onPointerCancel={() => { touchInputRef.current.down = false; }}
+                            aria-label={t('touch.down')}
+                            onPointerDown={() => setTouch('down', true)}
+                            onPointerUp={() => setTouch('down', false)}
+                            onPointerLeave={() => setTouch('down', false)}
+                            onPointerCancel={() => setTouch('down', false)}
                             className="h-12 w-12 rounded-lg bg-slate-800 border border-slate-700 text-slate-200 active:bg-slate-700"
                         >
                             ↓
@@ -513,8 +631,8 @@ const MeanFreePath = () => {
             )}
             
             {gameState !== 'setup' && (
-                 <button onClick={() => setGameState('setup')} className="shrink-0 mt-4 text-slate-500 hover:text-slate-300 text-sm flex items-center gap-2 transition-colors">
-                    <RotateCcw size={14}/> Salir al Menú
+                 <button onClick={exitGame} className="shrink-0 mt-4 text-slate-500 hover:text-slate-300 text-sm flex items-center gap-2 transition-colors">
+                    <RotateCcw size={14}/> {t('exit')}
                  </button>
             )}
         </div>
@@ -1,20 +1,24 @@
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
 import { Plus, Trash2, Mountain, Wind, Thermometer, Droplets, ChevronDown, ChevronUp, Layers } from 'lucide-react';
 import { cn } from '../../lib/utils';
+import { useUrlState } from '../../hooks/useUrlState';
+import { booleanParam, enumParam, listParam, numberParam } from '../../lib/urlParams';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
 
 type PlanetId = 'earth' | 'mars' | 'venus' | 'jupiter';
 type FieldId = 'temperature' | 'pressure' | 'density';
 type CurveModel = 'lapse_rate' | 'isothermal' | 'incompressible' | 'homentropic';
 
+// Nombre y subtítulo de cada planeta en locales/*.json bajo `planets.<id>`
 interface PlanetConfig {
   id: PlanetId;
-  name: string;
   gravity: number;
   p0: number; // Pa
   t0: number; // K
   molarMass: number; // kg/mol
-  subtitle: string;
 }
 
 const GAS_R = 8.31446261815324;
@@ -22,17 +26,18 @@ const SAMPLE_COUNT = 200;
 const Z_MAX_KM = 80;
 
 const PLANETS: PlanetConfig[] = [
-  { id: 'earth', name: 'Tierra', gravity: 9.81, p0: 101325, t0: 288.15, molarMass: 0.02897, subtitle: '1 g • 1 atm • N₂/O₂' },
-  { id: 'mars', name: 'Marte', gravity: 3.72, p0: 610, t0: 210, molarMass: 0.04334, subtitle: '0.38 g • 0.006 atm • CO₂' },
-  { id: 'venus', name: 'Venus', gravity: 8.87, p0: 9.2e6, t0: 737, molarMass: 0.04345, subtitle: '0.9 g • 92 atm • Efecto invernadero' },
-  { id: 'jupiter', name: 'Júpiter', gravity: 24.79, p0: 100000, t0: 165, molarMass: 0.0023, subtitle: '2.5 g • Gigante gaseoso' },
+  { id: 'earth', gravity: 9.81, p0: 101325, t0: 288.15, molarMass: 0.02897 },
+  { id: 'mars', gravity: 3.72, p0: 610, t0: 210, molarMass: 0.04334 },
+  { id: 'venus', gravity: 8.87, p0: 9.2e6, t0: 737, molarMass: 0.04345 },
+  { id: 'jupiter', gravity: 24.79, p0: 100000, t0: 165, molarMass: 0.0023 },
 ];
 
-const MODEL_META: Record<CurveModel, { color: string; bgClass: string; borderClass: string; textClass: string; name: string }> = {
-  lapse_rate: { color: '#fbbf24', bgClass: 'bg-amber-500/10 border-amber-500/30', borderClass: 'border-amber-500', textClass: 'text-amber-400', name: 'Gradiente Constante (dT/dz)' },
-  isothermal: { color: '#38bdf8', bgClass: 'bg-sky-500/10 border-sky-500/30', borderClass: 'border-sky-500', textClass: 'text-sky-400', name: 'Isotérmico (T cte)' },
-  incompressible: { color: '#94a3b8', bgClass: 'bg-slate-500/10 border-slate-500/30', borderClass: 'border-slate-500', textClass: 'text-slate-400', name: 'Incompresible (ρ cte)' },
-  homentropic: { color: '#f472b6', bgClass: 'bg-pink-500/10 border-pink-500/30', borderClass: 'border-pink-500', textClass: 'text-pink-400', name: 'Adiabático / Homentrópico' },
+// Nombre de cada modelo en locales/*.json bajo `models.<id>`
+const MODEL_META: Record<CurveModel, { color: string; bgClass: string; borderClass: string; textClass: string }> = {
+  lapse_rate: { color: '#fbbf24', bgClass: 'bg-amber-500/10 border-amber-500/30', borderClass: 'border-amber-500', textClass: 'text-amber-400' },
+  isothermal: { color: '#38bdf8', bgClass: 'bg-sky-500/10 border-sky-500/30', borderClass: 'border-sky-500', textClass: 'text-sky-400' },
+  incompressible: { color: '#94a3b8', bgClass: 'bg-slate-500/10 border-slate-500/30', borderClass: 'border-slate-500', textClass: 'text-slate-400' },
+  homentropic: { color: '#f472b6', bgClass: 'bg-pink-500/10 border-pink-500/30', borderClass: 'border-pink-500', textClass: 'text-pink-400' },
 };
 
 interface SegmentData {
@@ -43,6 +48,33 @@ interface SegmentData {
   gamma: number;
 }
 
+// Estado compartible por URL. Cada tramo se codifica como modelo~zMax~dT/dz~γ
+const CURVE_MODELS = Object.keys(MODEL_META) as CurveModel[];
+const segZMax = numberParam(10, { min: 0.1, max: 500 });
+const segLapse = numberParam(0, { min: -50, max: 50 });
+const segGamma = numberParam(1.4, { min: 1.01, max: 2 });
+
+const URL_PARAMS = {
+  planet: enumParam<PlanetId>('earth', PLANETS.map((p) => p.id)),
+  field: enumParam<FieldId>('temperature', ['temperature', 'pressure', 'density']),
+  ref: booleanParam(true),
+  t0: numberParam(288.15, { min: 10, max: 2000 }),
+  p0: numberParam(101.325, { min: 0.001, max: 100000 }),
+  seg: listParam<SegmentData>([
+    { id: 's1', model: 'lapse_rate', zMax: 11, lapseRate: -6.5, gamma: 1.4 },
+    { id: 's2', model: 'isothermal', zMax: 20, lapseRate: 0, gamma: 1.4 }
+  ], {
+    parse: (raw, index) => {
+      const [model, zMax, lapseRate, gamma] = raw.split('~');
+      if (!CURVE_MODELS.includes(model as CurveModel)) return undefined;
+      const z = segZMax.parse(zMax ?? ''), l = segLapse.parse(lapseRate ?? ''), g = segGamma.parse(gamma ?? '');
+      if (z === undefined || l === undefined || g === undefined) return undefined;
+      return { id: `s${index + 1}`, model: model as CurveModel, zMax: z, lapseRate: l, gamma: g };
+    },
+    serialize: (seg) => [seg.model, segZMax.serialize(seg.zMax), segLapse.serialize(seg.lapseRate), segGamma.serialize(seg.gamma)].join('~'),
+  }, { maxItems: 12 }),
+};
+
 interface CurvePoint {
   zKm: number;
   pKPa: number;
@@ -343,25 +375,30 @@ function CollapsibleSection({ title, icon, defaultOpen = true, children, extraCo
 }
 
 export default function ParallelAtmospheres() {
-  const [planetId, setPlanetId] = useState<PlanetId>('earth');
-  const [field, setField] = useState<FieldId>('temperature');
-  const [showRef, setShowRef] = useState(true);
+  const [params, setParams] = useUrlState(URL_PARAMS);
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const { planet: planetId, field, ref: showRef, seg: segments } = params;
+  const chartRef = useRef<SVGSVGElement>(null);
 
   const planet = useMemo(() => PLANETS.find((item) => item.id === planetId) ?? PLANETS[0], [planetId]);
 
   // Superficie base custom
-  const [surface, setSurface] = useState({ t0: 288.15, p0: 101.325 });
-  
-  // Tramos consecutivos
-  const [segments, setSegments] = useState<SegmentData[]>([
-    { id: 's1', model: 'lapse_rate', zMax: 11, lapseRate: -6.5, gamma: 1.4 },
-    { id: 's2', model: 'isothermal', zMax: 20, lapseRate: 0, gamma: 1.4 }
-  ]);
+  const surface = useMemo(() => ({ t0: params.t0, p0: params.p0 }), [params.t0, params.p0]);
+
+  // Tramos consecutivos (params.seg)
+  const setSegments = (next: SegmentData[] | ((prev: SegmentData[]) => SegmentData[])) =>
+    setParams((prev) => ({ seg: typeof next === 'function' ? next(prev.seg) : next }));
+  const setField = (next: FieldId) => setParams({ field: next });
+  const setShowRef = (next: boolean) => setParams({ ref: next });
+  // Los campos numéricos pasan por el códec: vacío o no finito se ignora, el resto se recorta
+  const setSurface = (key: 't0' | 'p0', raw: string) => {
+    const value = URL_PARAMS[key].parse(raw);
+    if (value !== undefined) setParams({ [key]: value });
+  };
 
   const handlePlanetChange = (nextPlanetId: PlanetId) => {
     const p = PLANETS.find((item) => item.id === nextPlanetId) ?? PLANETS[0];
-    setPlanetId(p.id);
-    setSurface({ t0: p.t0, p0: p.p0 / 1000 });
+    setParams({ planet: p.id, t0: p.t0, p0: p.p0 / 1000 });
   };
 
   // Referencia
@@ -468,7 +505,7 @@ export default function ParallelAtmospheres() {
     };
   }, [referencePts, customProfileFlat, field, showRef]);
 
-  const xLabel = field === 'temperature' ? 'Temperatura [°C]' : field === 'pressure' ? 'Presión [kPa]' : 'Densidad [kg/m³]';
+  const xLabel = t(`axes.${field}`);
   
   const chartWidth = 900;
   const chartHeight = 600;
@@ -477,10 +514,17 @@ export default function ParallelAtmospheres() {
   const innerW = chartWidth - margins.left - margins.right;
   const innerH = chartHeight - margins.top - margins.bottom;
 
+  // Puntos del perfil ensamblado, tramo por tramo
+  const profileTable = () => ({
+    columns: ['segment', 'model', 'z_km', 'T_C', 'p_kPa', 'rho_kg_m3'],
+    rows: customProfileGroups.flatMap((group, i) =>
+      group.points.map((p) => [i + 1, group.model, p.zKm, p.tC, p.pKPa, p.rho])),
+  });
+
   const mapX = (val: number) => margins.left + innerW * ((val - bounds.xMin) / (bounds.xMax - bounds.xMin || 1));
   const mapY = (val: number) => {
-    const t = (val - bounds.yMin) / (bounds.yMax - bounds.yMin || 1);
-    return margins.top + innerH * (1 - t); // Altitude normal direction (upwards)
+    const frac = (val - bounds.yMin) / (bounds.yMax - bounds.yMin || 1);
+    return margins.top + innerH * (1 - frac); // Altitude normal direction (upwards)
   };
 
   const addSegment = () => {
@@ -492,6 +536,11 @@ export default function ParallelAtmospheres() {
     newSegs[index] = { ...newSegs[index], ...updates };
     setSegments(newSegs);
   };
+  const setSegmentNumber = (index: number, key: 'zMax' | 'lapseRate' | 'gamma', raw: string) => {
+    const codec = key === 'zMax' ? segZMax : key === 'lapseRate' ? segLapse : segGamma;
+    const value = codec.parse(raw);
+    if (value !== undefined) updateSegment(index, { [key]: value });
+  };
   const removeSegment = (index: number) => {
     setSegments(prev => prev.filter((_, i) => i !== index));
   };
@@ -515,15 +564,15 @@ export default function ParallelAtmospheres() {
             >
               <PlanetIcon id={p.id} className={cn("flex-shrink-0 border bg-black/50 transition-all", planetId === p.id ? "w-7 h-7 lg:w-8 lg:h-8" : "w-5 h-5 lg:w-6 lg:h-6")} />
               <div className="text-left flex flex-col justify-center">
-                <div className={cn('text-xs lg:text-sm font-bold leading-tight', planetId === p.id ? 'text-cyan-50' : 'text-slate-300')}>{p.name}</div>
-                {planetId === p.id && <div className="text-[9px] lg:text-[10px] text-slate-400 max-w-[150px] truncate leading-tight animate-in fade-in slide-in-from-left-2">{p.subtitle}</div>}
+                <div className={cn('text-xs lg:text-sm font-bold leading-tight', planetId === p.id ? 'text-cyan-50' : 'text-slate-300')}>{t(`planets.${p.id}.name`)}</div>
+                {planetId === p.id && <div className="text-[9px] lg:text-[10px] text-slate-400 max-w-[150px] truncate leading-tight animate-in fade-in slide-in-from-left-2">{t(`planets.${p.id}.subtitle`)}</div>}
               </div>
             </button>
           ))}
         </div>
         <div className="flex items-center justify-center gap-2 px-3 py-1.5 lg:py-2 bg-black/40 rounded-xl border border-white/5 shrink-0 w-full sm:w-auto shadow-inner">
           <Mountain className="w-3.5 h-3.5 lg:w-4 lg:h-4 text-slate-500" />
-          <span className="text-xs lg:text-sm font-mono text-slate-300 tracking-wider">g = <strong className="text-slate-100">{planet.gravity.toFixed(2)}</strong> <span className="opacity-60">m/s²</span></span>
+          <span className="text-xs lg:text-sm font-mono text-slate-300 tracking-wider">g = <strong className="text-slate-100">{formatNumber(planet.gravity, 2)}</strong> <span className="opacity-60">m/s²</span></span>
         </div>
       </div>
 
@@ -535,40 +584,40 @@ export default function ParallelAtmospheres() {
           <div className="bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-2xl p-4 flex flex-col shadow-lg shrink-0">
              <div className="flex gap-2">
                 <button className={cn("flex-1 flex flex-col items-center justify-center gap-1 rounded-lg py-2 px-1 border transition-colors", field === 'temperature' ? 'border-amber-400/50 bg-amber-500/10 text-amber-300' : 'border-white/10 bg-slate-950/50 text-slate-500 hover:bg-white/5')} onClick={() => setField('temperature')}>
-                  <Thermometer className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">Temp</span>
+                  <Thermometer className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">{t('fields.temperature')}</span>
                 </button>
                 <button className={cn("flex-1 flex flex-col items-center justify-center gap-1 rounded-lg py-2 px-1 border transition-colors", field === 'pressure' ? 'border-cyan-400/50 bg-cyan-500/10 text-cyan-300' : 'border-white/10 bg-slate-950/50 text-slate-500 hover:bg-white/5')} onClick={() => setField('pressure')}>
-                  <Wind className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">Presión</span>
+                  <Wind className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">{t('fields.pressure')}</span>
                 </button>
                 <button className={cn("flex-1 flex flex-col items-center justify-center gap-1 rounded-lg py-2 px-1 border transition-colors", field === 'density' ? 'border-emerald-400/50 bg-emerald-500/10 text-emerald-300' : 'border-white/10 bg-slate-950/50 text-slate-500 hover:bg-white/5')} onClick={() => setField('density')}>
-                  <Droplets className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">Densidad</span>
+                  <Droplets className="w-4 h-4" /><span className="text-[10px] uppercase font-bold">{t('fields.density')}</span>
                 </button>
              </div>
           </div>
 
           <div className="flex-1 bg-slate-900/80 backdrop-blur-md border border-white/10 rounded-2xl flex flex-col min-h-0 overflow-hidden shadow-lg h-[400px] lg:h-auto">
             <div className="flex justify-between items-center py-3 px-4 border-b border-black/40 shadow-sm bg-slate-800/20">
-              <h2 className="text-sm font-semibold text-slate-200 flex items-center gap-2"><Layers className="w-4 h-4 text-indigo-400"/> Constructor de Perfil</h2>
+              <h2 className="text-sm font-semibold text-slate-200 flex items-center gap-2"><Layers className="w-4 h-4 text-indigo-400"/> {t('builder.title')}</h2>
               <button 
                  onClick={addSegment} 
                  className="text-xs font-semibold flex items-center gap-1 bg-indigo-600 border border-indigo-500/50 text-white px-2.5 py-1.5 rounded-lg hover:bg-indigo-500 hover:scale-105 transition-all shadow-[0_0_10px_rgba(79,70,229,0.4)]"
               >
-                <Plus className="w-3.5 h-3.5" /> Tramo
+                <Plus className="w-3.5 h-3.5" /> {t('builder.segment')}
               </button>
             </div>
 
             <div className="p-3 space-y-3 overflow-y-auto min-h-0 flex-1 custom-scrollbar">
               
               {/* Condiciones Iniciales (Superficie) */}
-              <CollapsibleSection title="Superficie (z = 0 km)" defaultOpen={false}>
+              <CollapsibleSection title={t('builder.surface')} defaultOpen={false}>
                 <div className="grid grid-cols-2 gap-2 mt-2">
                   <label className="flex flex-col gap-1">
-                    <span className="text-[10px] text-slate-400">Temperatura T₀ [K]</span>
-                    <input type="number" step="1" value={surface.t0} onChange={e => setSurface(s => ({ ...s, t0: Number(e.target.value)}))} className="w-full text-xs font-mono bg-black/40 border border-white/10 rounded px-2 py-1.5 outline-none focus:border-slate-400 transition-colors" />
+                    <span className="text-[10px] text-slate-400">{t('builder.surfaceTemperature')}</span>
+                    <input type="number" step="1" value={surface.t0} onChange={e => setSurface('t0', e.target.value)} className="w-full text-xs font-mono bg-black/40 border border-white/10 rounded px-2 py-1.5 outline-none focus:border-slate-400 transition-colors" />
                   </label>
                   <label className="flex flex-col gap-1">
-                    <span className="text-[10px] text-slate-400">Presión P₀ [kPa]</span>
-                    <input type="number" step="0.1" value={surface.p0} onChange={e => setSurface(s => ({ ...s, p0: Number(e.target.value)}))} className="w-full text-xs font-mono bg-black/40 border border-white/10 rounded px-2 py-1.5 outline-none focus:border-slate-400 transition-colors" />
+                    <span className="text-[10px] text-slate-400">{t('builder.surfacePressure')}</span>
+                    <input type="number" step="0.1" value={surface.p0} onChange={e => setSurface('p0', e.target.value)} className="w-full text-xs font-mono bg-black/40 border border-white/10 rounded px-2 py-1.5 outline-none focus:border-slate-400 transition-colors" />
                   </label>
                 </div>
               </CollapsibleSection>
@@ -584,7 +633,7 @@ export default function ParallelAtmospheres() {
                     <div className="absolute left-[-4px] bottom-[-4px] w-2.5 h-2.5 rounded-full z-10" style={{ backgroundColor: meta.color }} />
                     
                     <CollapsibleSection 
-                      title={<span className={meta.textClass}>Tramo {i+1}</span>}
+                      title={<span className={meta.textClass}>{t('builder.segmentN', { n: i + 1 })}</span>}
                       defaultOpen={true}
                       sideAction={
                         <button onClick={(e) => { e.stopPropagation(); removeSegment(i); }} className="text-slate-500 hover:text-red-400 transition-colors bg-white/5 hover:bg-white/10 p-1.5 rounded-md">
@@ -594,7 +643,7 @@ export default function ParallelAtmospheres() {
                     >
                       <div className="space-y-3 pb-1">
                         <div className="flex flex-col gap-1">
-                            <span className="text-[10px] uppercase font-bold text-slate-500">Modelo Físico Constante</span>
+                            <span className="text-[10px] uppercase font-bold text-slate-500">{t('builder.model')}</span>
                             <select 
                               value={seg.model}
                               onChange={(e) => updateSegment(i, { model: e.target.value as CurveModel })}
@@ -604,10 +653,10 @@ export default function ParallelAtmospheres() {
                                 "bg-slate-900 border-black/30 hover:border-white/20 shadow-inner"
                               )}
                             >
-                              <option value="lapse_rate" className="bg-slate-900 text-amber-400 font-medium">{MODEL_META.lapse_rate.name}</option>
-                              <option value="isothermal" className="bg-slate-900 text-sky-400 font-medium">{MODEL_META.isothermal.name}</option>
-                              <option value="incompressible" className="bg-slate-900 text-slate-300 font-medium">{MODEL_META.incompressible.name}</option>
-                              <option value="homentropic" className="bg-slate-900 text-pink-400 font-medium">{MODEL_META.homentropic.name}</option>
+                              <option value="lapse_rate" className="bg-slate-900 text-amber-400 font-medium">{t('models.lapse_rate')}</option>
+                              <option value="isothermal" className="bg-slate-900 text-sky-400 font-medium">{t('models.isothermal')}</option>
+                              <option value="incompressible" className="bg-slate-900 text-slate-300 font-medium">{t('models.incompressible')}</option>
+                              <option value="homentropic" className="bg-slate-900 text-pink-400 font-medium">{t('models.homentropic')}</option>
                             </select>
                         </div>
                         
@@ -615,26 +664,26 @@ export default function ParallelAtmospheres() {
                            <div className="flex-1">
                             {seg.model === 'lapse_rate' && (
                                <label className="flex flex-col gap-1">
-                                 <span className="text-[10px] uppercase font-bold text-slate-400">Gradiente dT/dz <span className="normal-case opacity-70">[K/km]</span></span>
-                                 <input type="number" step="0.5" value={seg.lapseRate} onChange={(e) => updateSegment(i, { lapseRate: Number(e.target.value) })} className="w-full text-xs font-mono bg-black/40 border border-black/30 rounded px-2 py-1.5 outline-none focus:border-slate-500" />
+                                 <span className="text-[10px] uppercase font-bold text-slate-400">{t('builder.lapseRate')} <span className="normal-case opacity-70">[K/km]</span></span>
+                                 <input type="number" step="0.5" value={seg.lapseRate} onChange={(e) => setSegmentNumber(i, 'lapseRate', e.target.value)} className="w-full text-xs font-mono bg-black/40 border border-black/30 rounded px-2 py-1.5 outline-none focus:border-slate-500" />
                                </label>
                             )}
                             {seg.model === 'homentropic' && (
                                <label className="flex flex-col gap-1">
-                                 <span className="text-[10px] uppercase font-bold text-slate-400">Coef. Adiabático γ</span>
-                                 <input type="number" step="0.05" min="1.01" value={seg.gamma} onChange={(e) => updateSegment(i, { gamma: Number(e.target.value) })} className="w-full text-xs font-mono bg-black/40 border border-black/30 rounded px-2 py-1.5 outline-none focus:border-slate-500" />
+                                 <span className="text-[10px] uppercase font-bold text-slate-400">{t('builder.gamma')}</span>
+                                 <input type="number" step="0.05" min="1.01" value={seg.gamma} onChange={(e) => setSegmentNumber(i, 'gamma', e.target.value)} className="w-full text-xs font-mono bg-black/40 border border-black/30 rounded px-2 py-1.5 outline-none focus:border-slate-500" />
                                </label>
                             )}
                             {(seg.model === 'isothermal' || seg.model === 'incompressible') && (
                               <div className="text-[10px] text-slate-500 font-mono italic flex h-full items-center bg-black/20 rounded px-2">
-                                Usa T₀ o ρ₀ inicial.
+                                {t('builder.usesInitial')}
                               </div>
                             )}
                            </div>
 
                            <label className="flex flex-col gap-1">
-                             <span className={cn("text-[10px] uppercase font-bold", meta.textClass)}>Hasta <span className="normal-case opacity-70">[Km]</span></span>
-                             <input type="number" step="1" value={seg.zMax} min={zStart + 0.1} onChange={(e) => updateSegment(i, { zMax: Number(e.target.value) })} className={cn("w-full text-xs font-mono font-bold bg-black/50 border rounded px-2 py-1.5 outline-none", meta.borderClass, meta.textClass)} />
+                             <span className={cn("text-[10px] uppercase font-bold", meta.textClass)}>{t('builder.upTo')} <span className="normal-case opacity-70">[Km]</span></span>
+                             <input type="number" step="1" value={seg.zMax} min={zStart + 0.1} onChange={(e) => setSegmentNumber(i, 'zMax', e.target.value)} className={cn("w-full text-xs font-mono font-bold bg-black/50 border rounded px-2 py-1.5 outline-none", meta.borderClass, meta.textClass)} />
                            </label>
                         </div>
                       </div>
@@ -645,7 +694,7 @@ export default function ParallelAtmospheres() {
               
               {segments.length === 0 && (
                 <div className="text-center text-xs text-slate-500/70 italic p-6 border-2 border-dashed border-white/5 rounded-xl m-2">
-                  No hay tramos construidos.<br/>Añade capas basales con "+ Tramo".
+                  {t('builder.empty')}<br/>{t('builder.emptyHint')}
                 </div>
               )}
             </div>
@@ -659,14 +708,21 @@ export default function ParallelAtmospheres() {
 
           {/* Opciones Visibles Sobre la Gráfica */}
           <div className="absolute top-4 right-4 z-20 flex flex-col gap-2 pointer-events-none max-w-[calc(100%-2rem)]">
+            <ExportToolbar
+              fileName={`atmosfera-${planet.id}`}
+              svg={() => chartRef.current}
+              table={profileTable}
+              json={() => ({ planet: planet.id, surface, segments, profile: profileTable(), reference: referencePts })}
+              className="pointer-events-auto self-end"
+            />
             <label className="pointer-events-auto flex items-center justify-between lg:justify-end gap-2 bg-slate-900/80 backdrop-blur border border-white/10 px-2 py-1.5 lg:px-3 lg:py-1.5 rounded-xl shadow-lg cursor-pointer hover:bg-slate-800 transition-colors w-full lg:w-auto" onClick={() => setShowRef(!showRef)}>
-              <span className="text-[10px] lg:text-xs font-semibold text-slate-300 truncate"><span className="hidden sm:inline">Perfil de </span>Referencia {planet.name}</span>
+              <span className="text-[10px] lg:text-xs font-semibold text-slate-300 truncate"><span className="hidden sm:inline">{t('legend.referencePrefix')}</span>{t('legend.reference', { planet: t(`planets.${planet.id}.name`) })}</span>
               <div className={cn("w-7 h-3.5 lg:w-8 lg:h-4 rounded-full p-0.5 transition-colors shrink-0", showRef ? "bg-cyan-500" : "bg-slate-700")}>
                 <div className={cn("w-2.5 h-2.5 lg:w-3 lg:h-3 rounded-full bg-white transition-transform", showRef ? "translate-x-3.5 lg:translate-x-4" : "")} />
               </div>
             </label>
              <div className="pointer-events-auto flex items-center justify-between lg:justify-end gap-2 bg-slate-900/80 backdrop-blur border border-white/10 px-2 py-1.5 lg:px-3 lg:py-1.5 rounded-xl shadow-lg w-full lg:w-auto">
-              <span className="text-[10px] lg:text-xs font-bold text-indigo-400 truncate">Tu Perfil <span className="hidden sm:inline">Ensamblado</span></span>
+              <span className="text-[10px] lg:text-xs font-bold text-indigo-400 truncate">{t('legend.yourProfile')} <span className="hidden sm:inline">{t('legend.assembled')}</span></span>
               <div className="flex items-center gap-[1px] shrink-0">
                   {customProfileGroups.map((g, idx) => (
                     <div key={`dot-${idx}`} className="w-1.5 h-1.5 lg:w-2 lg:h-2 rounded-full" style={{backgroundColor: MODEL_META[g.model].color}} /> 
@@ -677,13 +733,13 @@ export default function ParallelAtmospheres() {
           </div>
 
           {/* Ejes Twin en el SVG */}
-          <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-full absolute inset-0 font-sans z-10" preserveAspectRatio="none">
+          <svg ref={chartRef} viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full h-full absolute inset-0 font-sans z-10" preserveAspectRatio="none">
             {/* Axis Grid y Twin Labels */}
             <g className="grid-lines">
               {/* X-axis grids (vertical lines) & Labels */}
               {Array.from({ length: 9 }).map((_, i) => {
-                const t = i / 8;
-                const val = bounds.xMin + t * (bounds.xMax - bounds.xMin);
+                const frac = i / 8;
+                const val = bounds.xMin + frac * (bounds.xMax - bounds.xMin);
                 const x = mapX(val);
                 return (
                   <g key={`x-${i}`}>
@@ -697,8 +753,8 @@ export default function ParallelAtmospheres() {
               
               {/* Y-axis grids (horizontal lines) -> Map Altitude and get Ref Pressure */}
               {Array.from({ length: 9 }).map((_, i) => {
-                const t = i / 8;
-                const zAlt = bounds.yMin + t * (bounds.yMax - bounds.yMin); // Altitud (km)
+                const frac = i / 8;
+                const zAlt = bounds.yMin + frac * (bounds.yMax - bounds.yMin); // Altitud (km)
                 const y = mapY(zAlt);
                 
                 // Twin Axis: Pressure at this altitude
@@ -731,10 +787,10 @@ export default function ParallelAtmospheres() {
                 {xLabel.toUpperCase()}
               </text>
               <text x={24} y={margins.top + innerH / 2} fill="#f8fafc" fontSize={13} fontWeight="bold" textAnchor="middle" transform={`rotate(-90 24 ${margins.top + innerH / 2})`} letterSpacing={1}>
-                ALTURA Z [km]
+                {t('axes.altitude').toUpperCase()}
               </text>
               <text x={chartWidth - 20} y={margins.top + innerH / 2} fill="#38bdf8" fontSize={12} fontWeight="bold" textAnchor="middle" transform={`rotate(90 ${chartWidth - 20} ${margins.top + innerH / 2})`} letterSpacing={1.5}>
-                PRESIÓN REF. [kPa]
+                {t('axes.referencePressure').toUpperCase()}
               </text>
             </g>
 
@@ -797,7 +853,7 @@ export default function ParallelAtmospheres() {
                   return (
                     <g>
                       <circle cx={cx} cy={cy} r={6} fill="#slate-800" stroke="#fff" strokeWidth={2} />
-                      <text x={cx + 12} y={cy + 4} fill="#fff" fontSize={10} fontWeight={700}>SUP</text>
+                      <text x={cx + 12} y={cy + 4} fill="#fff" fontSize={10} fontWeight={700}>{t('legend.surfaceShort')}</text>
                     </g>
                   )
                 })()}
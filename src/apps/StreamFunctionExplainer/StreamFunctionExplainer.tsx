@@ -1,4 +1,8 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useUrlState } from "../../hooks/useUrlState";
+import { enumParam, numberParam } from "../../lib/urlParams";
+import { useI18n } from "../../i18n/useI18n";
+import { MESSAGES } from "./messages";
 import "katex/dist/katex.min.css";
 import katex from "katex";
 import {
@@ -18,7 +22,7 @@ type LayerKind = "streamlines" | "vectors" | "pressure" | "speed";
 interface DerivationStep {
     title: string;
     idea: string;
-    math: string;
+    formula: string;
     note: string;
 }
 
@@ -40,9 +44,8 @@ const domain = {
     yMax: 2.55,
 };
 
+// Títulos y textos de cada cuerpo en locales/*.json bajo `bodies.<kind>`
 const bodyCopy: Record<BodyKind, {
-    title: string;
-    short: string;
     psi: string;
     vr: string;
     vt: string;
@@ -50,8 +53,6 @@ const bodyCopy: Record<BodyKind, {
     wall: string;
 }> = {
     cylinder: {
-        title: "Cilindro en corriente uniforme",
-        short: "2D: curvas de nivel de psi son lineas de corriente.",
         psi: String.raw`\psi=U r\sin\phi\left(1-\frac{a^2}{r^2}\right)`,
         vr: String.raw`v_r=U\left(1-\frac{a^2}{r^2}\right)\cos\phi`,
         vt: String.raw`v_\phi=-U\left(1+\frac{a^2}{r^2}\right)\sin\phi`,
@@ -59,8 +60,6 @@ const bodyCopy: Record<BodyKind, {
         wall: String.raw`\psi(a,\phi)=0 \Rightarrow v_r(a,\phi)=0`,
     },
     sphere: {
-        title: "Esfera en corriente uniforme",
-        short: "Axisimetrico: la vista muestra un corte meridional.",
         psi: String.raw`\psi=\frac12 U r^2\sin^2\theta\left(1-\frac{a^3}{r^3}\right)`,
         vr: String.raw`v_r=U\left(1-\frac{a^3}{r^3}\right)\cos\theta`,
         vt: String.raw`v_\theta=-U\left(1+\frac{a^3}{2r^3}\right)\sin\theta`,
@@ -72,118 +71,44 @@ const bodyCopy: Record<BodyKind, {
 const lessonSteps = [
     {
         label: "1",
-        title: "Definir psi",
-        text: "Se introduce psi para que la continuidad ya venga incorporada en el campo.",
         math: String.raw`\nabla\cdot\mathbf v=0`,
     },
     {
         label: "2",
-        title: "Elegir familia",
-        text: "Se busca la forma armonica compatible con la simetria del flujo uniforme.",
         math: String.raw`\nabla^2\psi=0`,
     },
     {
         label: "3",
-        title: "Fijar la pared",
-        text: "La constante se determina haciendo que r=a sea una linea de corriente.",
         math: String.raw`\psi(a,\cdot)=0`,
     },
     {
         label: "4",
-        title: "Derivar velocidad",
-        text: "Solo al final se calculan las componentes y se verifica que no hay penetracion.",
         math: String.raw`v_r(a,\cdot)=0`,
     },
 ];
 
-const derivationSteps: Record<BodyKind, DerivationStep[]> = {
+// Fórmulas de cada paso; título, idea y nota están en locales/*.json bajo
+// `derivation.<kind>.<n>`.
+const derivationFormulas: Record<BodyKind, string[]> = {
     cylinder: [
-        {
-            title: "1. Corriente uniforme sin cilindro",
-            idea: "Primero se escribe la funcion de corriente del flujo que se quiere recuperar lejos del obstaculo.",
-            math: String.raw`\psi_U=U r\sin\phi`,
-            note: "Al derivarla se obtiene v_r=U cos phi y v_phi=-U sin phi: una corriente uniforme hacia x.",
-        },
-        {
-            title: "2. La forma admisible no se adivina",
-            idea: "Fuera del cilindro el flujo es ideal e irrotacional, asi que psi debe ser armonica. Con simetria sin phi, la familia separable es unica en esta escala.",
-            math: String.raw`\psi(r,\phi)=\left(A r+\frac{B}{r}\right)\sin\phi`,
-            note: "El termino Ar sin phi es la corriente uniforme; el termino B/r sin phi es la correccion que se apaga cuando r crece.",
-        },
-        {
-            title: "3. Igualar el comportamiento lejano",
-            idea: "Como lejos del cilindro debe quedar psi_U, se fija A=U. La unica libertad que queda es B.",
-            math: String.raw`\psi=\left(U r+\frac{B}{r}\right)\sin\phi`,
-            note: "Esta es la forma mas general que conserva la simetria, respeta Laplace y no altera el flujo lejano.",
-        },
-        {
-            title: "4. Convertir la pared en linea de corriente",
-            idea: "La pared del cilindro es r=a. Si toda esa circunferencia tiene el mismo valor de psi, el flujo no la atraviesa.",
-            math: String.raw`\psi(a,\phi)=\left(Ua+\frac{B}{a}\right)\sin\phi=0`,
-            note: "Para que valga para todo phi se necesita Ua+B/a=0, por tanto B=-Ua^2.",
-        },
-        {
-            title: "5. Resultado construido",
-            idea: "La formula final ya no es una receta: es corriente uniforme mas la unica correccion que vuelve impermeable la frontera.",
-            math: String.raw`\boxed{\psi=Ur\sin\phi\left(1-\frac{a^2}{r^2}\right)}`,
-            note: "Al derivar, v_r=U(1-a^2/r^2)cos phi, luego v_r(a,phi)=0.",
-        },
+        String.raw`\psi_U=U r\sin\phi`,
+        String.raw`\psi(r,\phi)=\left(A r+\frac{B}{r}\right)\sin\phi`,
+        String.raw`\psi=\left(U r+\frac{B}{r}\right)\sin\phi`,
+        String.raw`\psi(a,\phi)=\left(Ua+\frac{B}{a}\right)\sin\phi=0`,
+        String.raw`\boxed{\psi=Ur\sin\phi\left(1-\frac{a^2}{r^2}\right)}`,
     ],
     sphere: [
-        {
-            title: "1. Corriente uniforme axisimetrica",
-            idea: "En una esfera se usa la funcion de Stokes para flujo axisimetrico. Lejos del cuerpo debe representar una corriente uniforme en el eje polar.",
-            math: String.raw`\psi_U=\frac12 U r^2\sin^2\theta`,
-            note: "Con esta convencion, v_r=U cos theta y v_theta=-U sin theta.",
-        },
-        {
-            title: "2. La simetria cambia la familia radial",
-            idea: "La variable angular ya no es sin phi, sino sin^2 theta. La solucion exterior que combina flujo uniforme y perturbacion decreciente toma otra potencia radial.",
-            math: String.raw`\psi=\frac12 U\left(r^2+\frac{B}{r}\right)\sin^2\theta`,
-            note: "El termino r^2 da la corriente uniforme; el termino B/r es la perturbacion dipolar axisimetrica.",
-        },
-        {
-            title: "3. La constante se fija con la pared",
-            idea: "La superficie solida es r=a. Se exige que esa esfera sea una superficie de corriente.",
-            math: String.raw`\psi(a,\theta)=\frac12U\left(a^2+\frac{B}{a}\right)\sin^2\theta=0`,
-            note: "Para todo theta debe cumplirse a^2+B/a=0, de modo que B=-a^3.",
-        },
-        {
-            title: "4. Resultado construido",
-            idea: "La potencia a^3/r^3 aparece por imponer la impermeabilidad de una frontera esferica, no por memoria algebraica.",
-            math: String.raw`\boxed{\psi=\frac12Ur^2\sin^2\theta\left(1-\frac{a^3}{r^3}\right)}`,
-            note: "Al derivar, v_r=U(1-a^3/r^3)cos theta, luego v_r(a,theta)=0.",
-        },
-        {
-            title: "5. Comparacion con el cilindro",
-            idea: "La diferencia entre a^2/r^2 y a^3/r^3 viene de la geometria: 2D polar contra flujo axisimetrico 3D.",
-            math: String.raw`\text{cilindro: } B=-Ua^2,\qquad \text{esfera: } B=-a^3`,
-            note: "La logica pedagogica es la misma: flujo lejano + correccion decreciente + pared como superficie de corriente.",
-        },
+        String.raw`\psi_U=\frac12 U r^2\sin^2\theta`,
+        String.raw`\psi=\frac12 U\left(r^2+\frac{B}{r}\right)\sin^2\theta`,
+        String.raw`\psi(a,\theta)=\frac12U\left(a^2+\frac{B}{a}\right)\sin^2\theta=0`,
+        String.raw`\boxed{\psi=\frac12Ur^2\sin^2\theta\left(1-\frac{a^3}{r^3}\right)}`,
+        String.raw`\text{cilindro: } B=-Ua^2,\qquad \text{esfera: } B=-a^3`,
     ],
 };
 
-const consultationBlocks = [
-    {
-        title: "Pregunta guia",
-        body: "Como se construye un campo de velocidades que rodea una frontera solida sin atravesarla, y que al mismo tiempo se parezca a una corriente uniforme lejos del cuerpo?",
-    },
-    {
-        title: "Idea que debe sobrevivir",
-        body: "La funcion de corriente no es una formula magica: es una forma de codificar continuidad y de convertir una pared impermeable en una linea o superficie de corriente.",
-    },
-    {
-        title: "Chequeo minimo",
-        body: "Al final siempre se debe verificar el limite lejano y la condicion de no penetracion: v_r(a)=0. Sin esos dos chequeos, la deduccion queda incompleta.",
-    },
-];
+const consultationBlocks = ["question", "idea", "check"];
 
-const commonMistakes = [
-    "Creer que Bernoulli produce la funcion de corriente. Bernoulli entra despues de construir el campo.",
-    "Imponer velocidad tangencial cero en un fluido ideal. Aqui se impone no penetracion, no no-deslizamiento.",
-    "Memorizar a^2/r^2 y a^3/r^3 sin ver que salen de la geometria y de la condicion psi(a)=constante.",
-    "Olvidar que cilindro es un problema plano y esfera es axisimetrico: por eso las potencias radiales cambian.",
-];
+const commonMistakes = ["bernoulli", "slip", "memorize", "geometry"];
 
 function clamp(value: number, min: number, max: number) {
     return Math.min(max, Math.max(min, value));
@@ -276,18 +201,32 @@ function colorRamp(value: number, layer: LayerKind) {
     return `rgba(${r}, ${g}, ${b}, 0.42)`;
 }
 
+// Estado compartible por URL (?kind=sphere&U=...&a=...)
+const URL_PARAMS = {
+    kind: enumParam<BodyKind>("cylinder", ["cylinder", "sphere"]),
+    U: numberParam(1.15, { min: 0.45, max: 2.2 }),
+    a: numberParam(0.82, { min: 0.48, max: 1.32 }),
+    layer: enumParam<LayerKind>("streamlines", ["streamlines", "vectors", "pressure", "speed"]),
+};
+
 function StreamFunctionExplainer() {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [kind, setKind] = useState<BodyKind>("cylinder");
-    const [U, setU] = useState(1.15);
-    const [radius, setRadius] = useState(0.82);
-    const [activeLayer, setActiveLayer] = useState<LayerKind>("streamlines");
+    const [params, setParams] = useUrlState(URL_PARAMS);
+    const { t, formatNumber } = useI18n(MESSAGES);
+    const { kind, U, a: radius, layer: activeLayer } = params;
+    const setKind = (value: BodyKind) => setParams({ kind: value });
+    const setU = (value: number) => setParams({ U: value });
+    const setRadius = (value: number) => setParams({ a: value });
+    const setActiveLayer = (value: LayerKind) => setParams({ layer: value });
     const [showVectors, setShowVectors] = useState(true);
     const [showPressure, setShowPressure] = useState(true);
     const [selectedStep, setSelectedStep] = useState(0);
 
     const copy = bodyCopy[kind];
-    const steps = derivationSteps[kind];
+    const steps = useMemo<DerivationStep[]>(() => derivationFormulas[kind].map((formula, index) => {
+        const key = `derivation.${kind}.${index + 1}`;
+        return { title: t(`${key}.title`), idea: t(`${key}.idea`), formula, note: t(`${key}.note`) };
+    }), [kind, t]);
     const currentStep = steps[selectedStep] ?? steps[0];
     const surfaceSpeed = kind === "cylinder" ? 2 * U : 1.5 * U;
     const surfaceCp = 1 - (surfaceSpeed * surfaceSpeed) / (U * U);
@@ -304,12 +243,12 @@ function StreamFunctionExplainer() {
         const top = sampleFlow(kind, 0, radius * 1.002, U, radius);
         const far = sampleFlow(kind, domain.xMax, 0, U, radius);
         return [
-            { label: "Lejos", value: `${far.speed.toFixed(2)} U`, detail: "recupera corriente uniforme" },
-            { label: "Pared", value: `${Math.abs(front.x).toFixed(2)}`, detail: "normal nula en el punto de frente" },
-            { label: "Tangencial", value: `${surfaceSpeed.toFixed(2)}`, detail: `max ideal aprox.; Cp=${surfaceCp.toFixed(2)}` },
-            { label: "Cima", value: `${top.speed.toFixed(2)}`, detail: "la pared no exige no-deslizamiento" },
+            { label: t("stats.far.label"), value: `${formatNumber(far.speed, 2)} U`, detail: t("stats.far.detail") },
+            { label: t("stats.wall.label"), value: formatNumber(Math.abs(front.x), 2), detail: t("stats.wall.detail") },
+            { label: t("stats.tangential.label"), value: formatNumber(surfaceSpeed, 2), detail: t("stats.tangential.detail", { cp: formatNumber(surfaceCp, 2) }) },
+            { label: t("stats.top.label"), value: formatNumber(top.speed, 2), detail: t("stats.top.detail") },
         ];
-    }, [kind, radius, U, surfaceCp, surfaceSpeed]);
+    }, [kind, radius, U, surfaceCp, surfaceSpeed, t, formatNumber]);
 
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -484,8 +423,8 @@ function StreamFunctionExplainer() {
         drawArrow(ctx, arrowStart, arrowEnd, "rgba(34, 211, 238, 0.9)");
         ctx.font = "600 13px Inter, system-ui, sans-serif";
         ctx.fillStyle = "rgba(226, 232, 240, 0.9)";
-        ctx.fillText(`U=${U.toFixed(2)}`, arrowEnd.x + 9, arrowEnd.y + 4);
-        const active = derivationSteps[kind][selectedStep] ?? derivationSteps[kind][0];
+        ctx.fillText(`U=${formatNumber(U, 2)}`, arrowEnd.x + 9, arrowEnd.y + 4);
+        const active = steps[selectedStep] ?? steps[0];
         const boxX = Math.max(16, w - 270);
         ctx.fillStyle = "rgba(2, 6, 23, 0.72)";
         ctx.strokeStyle = "rgba(34, 211, 238, 0.28)";
@@ -496,11 +435,11 @@ function StreamFunctionExplainer() {
         ctx.stroke();
         ctx.font = "700 11px Inter, system-ui, sans-serif";
         ctx.fillStyle = "rgba(103, 232, 249, 0.95)";
-        ctx.fillText(`PASO ${selectedStep + 1}`, boxX + 14, 38);
+        ctx.fillText(t("step", { n: selectedStep + 1 }).toUpperCase(), boxX + 14, 38);
         ctx.font = "600 12px Inter, system-ui, sans-serif";
         ctx.fillStyle = "rgba(226, 232, 240, 0.92)";
         ctx.fillText(active.title.replace(/^[0-9]+\\.\\s*/, "").slice(0, 34), boxX + 14, 62);
-    }, [U, activeLayer, kind, radius, selectedStep, showPressure, showVectors]);
+    }, [U, activeLayer, kind, radius, selectedStep, showPressure, showVectors, steps, t, formatNumber]);
 
     return (
         <article className="h-full overflow-y-auto custom-scrollbar bg-slate-950/30">
@@ -508,15 +447,13 @@ function StreamFunctionExplainer() {
                 <div className="flex flex-col justify-center">
                     <div className="mb-5 flex items-center gap-3 text-cyan-200">
                         <Waves className="h-6 w-6" />
-                        <span className="text-sm font-semibold uppercase tracking-[0.18em]">MCON · taller de flujo ideal</span>
+                        <span className="text-sm font-semibold uppercase tracking-[0.18em]">{t("hero.kicker")}</span>
                     </div>
                     <h1 className="max-w-2xl text-4xl font-black leading-tight tracking-tight text-white md:text-6xl">
-                        Deducir la funcion de corriente alrededor de un cilindro y una esfera
+                        {t("hero.title")}
                     </h1>
                     <p className="mt-5 max-w-2xl text-base leading-8 text-slate-300 md:text-lg">
-                        La clase no empieza memorizando la formula final. Empieza preguntando que forma puede tener
-                        <span className="text-cyan-200"> psi</span>, que condicion impone la pared y por que aparece
-                        exactamente la correccion que cancela la velocidad normal.
+                        {t("hero.intro")}
                     </p>
 
                     <div className="mt-8 grid gap-3 sm:grid-cols-2">
@@ -526,9 +463,9 @@ function StreamFunctionExplainer() {
                                     <span className="grid h-7 w-7 place-items-center rounded-full bg-cyan-400 text-sm font-black text-slate-950">
                                         {step.label}
                                     </span>
-                                    <h2 className="text-sm font-bold text-white">{step.title}</h2>
+                                    <h2 className="text-sm font-bold text-white">{t(`lesson.${step.label}.title`)}</h2>
                                 </div>
-                                <p className="min-h-12 text-sm leading-6 text-slate-300">{step.text}</p>
+                                <p className="min-h-12 text-sm leading-6 text-slate-300">{t(`lesson.${step.label}.text`)}</p>
                                 <div className="mt-3 overflow-x-auto rounded-md bg-slate-950/70 px-3 py-2 text-cyan-100">
                                     <span dangerouslySetInnerHTML={math(step.math)} />
                                 </div>
@@ -540,8 +477,8 @@ function StreamFunctionExplainer() {
                 <div className="min-w-0 rounded-lg border border-white/10 bg-slate-950/70 p-3 shadow-2xl shadow-cyan-950/30">
                     <div className="mb-3 flex flex-wrap items-center justify-between gap-3 px-1">
                         <div>
-                            <h2 className="text-lg font-bold text-white">{copy.title}</h2>
-                            <p className="text-sm text-slate-400">{copy.short}</p>
+                            <h2 className="text-lg font-bold text-white">{t(`bodies.${kind}.title`)}</h2>
+                            <p className="text-sm text-slate-400">{t(`bodies.${kind}.short`)}</p>
                         </div>
                         <button
                             type="button"
@@ -557,17 +494,16 @@ function StreamFunctionExplainer() {
                             className="inline-flex items-center gap-2 rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm font-semibold text-slate-100 transition hover:bg-white/10"
                         >
                             <RefreshCw className="h-4 w-4" />
-                            Reiniciar
+                            {t("common.reset")}
                         </button>
                     </div>
                     <canvas
                         ref={canvasRef}
                         className="h-[410px] w-full rounded-md border border-white/10 bg-slate-950 md:h-[560px]"
-                        aria-label="Visualizacion interactiva de funcion de corriente alrededor de un cuerpo solido"
+                        aria-label={t("canvasLabel")}
                     />
                     <p className="mt-3 text-sm leading-6 text-slate-300">
-                        Esta figura es el chequeo geometrico de la deduccion: despues de fijar la constante, la
-                        frontera amarilla queda como una linea o superficie de corriente y el flujo no la cruza.
+                        {t("canvasCaption")}
                     </p>
                 </div>
             </section>
@@ -576,7 +512,7 @@ function StreamFunctionExplainer() {
                 <aside className="rounded-lg border border-white/10 bg-slate-900/72 p-5">
                     <div className="mb-4 flex items-center gap-3">
                         <SlidersHorizontal className="h-5 w-5 text-cyan-300" />
-                        <h2 className="text-lg font-bold text-white">Controles</h2>
+                        <h2 className="text-lg font-bold text-white">{t("controls.title")}</h2>
                     </div>
 
                     <div className="grid grid-cols-2 gap-2">
@@ -594,14 +530,14 @@ function StreamFunctionExplainer() {
                                         : "border-white/10 bg-white/5 text-slate-200 hover:bg-white/10"
                                 }`}
                             >
-                                {option === "cylinder" ? "Cilindro" : "Esfera"}
+                                {t(`bodies.${option}.name`)}
                             </button>
                         ))}
                     </div>
 
                     <label className="mt-5 block">
                         <span className="flex items-center justify-between text-sm font-semibold text-slate-200">
-                            Velocidad U <span className="text-cyan-200">{U.toFixed(2)}</span>
+                            {t("controls.velocity")} <span className="text-cyan-200">{formatNumber(U, 2)}</span>
                         </span>
                         <input
                             type="range"
@@ -616,7 +552,7 @@ function StreamFunctionExplainer() {
 
                     <label className="mt-5 block">
                         <span className="flex items-center justify-between text-sm font-semibold text-slate-200">
-                            Radio a <span className="text-cyan-200">{radius.toFixed(2)}</span>
+                            {t("controls.radius")} <span className="text-cyan-200">{formatNumber(radius, 2)}</span>
                         </span>
                         <input
                             type="range"
@@ -632,14 +568,10 @@ function StreamFunctionExplainer() {
                     <div className="mt-6">
                         <div className="mb-3 flex items-center gap-2 text-sm font-bold text-slate-200">
                             <Layers className="h-4 w-4 text-cyan-300" />
-                            Lectura visual
+                            {t("controls.layers")}
                         </div>
                         <div className="grid gap-2">
-                            {[
-                                ["streamlines", "psi y lineas"],
-                                ["speed", "rapidez"],
-                                ["pressure", "presion ideal"],
-                            ].map(([id, label]) => (
+                            {(["streamlines", "speed", "pressure"] as LayerKind[]).map((id) => (
                                 <button
                                     key={id}
                                     type="button"
@@ -650,7 +582,7 @@ function StreamFunctionExplainer() {
                                             : "border-white/10 bg-white/5 text-slate-300 hover:bg-white/10"
                                     }`}
                                 >
-                                    {label}
+                                    {t(`layers.${id}`)}
                                 </button>
                             ))}
                         </div>
@@ -658,7 +590,7 @@ function StreamFunctionExplainer() {
 
                     <div className="mt-5 grid gap-2">
                         <label className="flex cursor-pointer items-center justify-between rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-slate-200">
-                            <span>Vectores locales</span>
+                            <span>{t("controls.vectors")}</span>
                             <input
                                 type="checkbox"
                                 checked={showVectors}
@@ -667,7 +599,7 @@ function StreamFunctionExplainer() {
                             />
                         </label>
                         <label className="flex cursor-pointer items-center justify-between rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-slate-200">
-                            <span>Mapa de presion</span>
+                            <span>{t("controls.pressureMap")}</span>
                             <input
                                 type="checkbox"
                                 checked={showPressure}
@@ -678,7 +610,7 @@ function StreamFunctionExplainer() {
                     </div>
 
                     <div className="mt-6">
-                        <div className="mb-3 text-sm font-bold text-slate-200">Pasos criticos</div>
+                        <div className="mb-3 text-sm font-bold text-slate-200">{t("controls.criticalSteps")}</div>
                         <div className="grid gap-2">
                             {steps.map((step, index) => (
                                 <button
@@ -692,7 +624,7 @@ function StreamFunctionExplainer() {
                                     }`}
                                 >
                                     <span className="block text-xs font-black uppercase tracking-[0.14em] text-current">
-                                        Paso {index + 1}
+                                        {t("step", { n: index + 1 })}
                                     </span>
                                     <span className="mt-1 block text-sm font-semibold">
                                         {step.title.replace(/^[0-9]+\. /, "")}
@@ -707,12 +639,10 @@ function StreamFunctionExplainer() {
                     <section className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
                         <div className="mb-4 flex items-center gap-3">
                             <Sigma className="h-5 w-5 text-cyan-300" />
-                            <h2 className="text-xl font-bold text-white">Deduccion paso a paso: {kind === "cylinder" ? "cilindro" : "esfera"}</h2>
+                            <h2 className="text-xl font-bold text-white">{t("derivationTitle", { body: t(`bodies.${kind}.name`).toLowerCase() })}</h2>
                         </div>
                         <p className="max-w-4xl text-sm leading-7 text-slate-300">
-                            Cada paso critico es clicable. La formula activa, el comentario y la capa visual cambian
-                            juntos para que la consulta reproduzca el razonamiento de clase: forma lejana, familia
-                            admisible, condicion de pared y verificacion.
+                            {t("derivationIntro")}
                         </p>
                         <div className="mt-5 grid gap-2 md:grid-cols-5">
                             {steps.map((step, index) => (
@@ -726,7 +656,7 @@ function StreamFunctionExplainer() {
                                             : "border-white/10 bg-slate-950/62 text-slate-300 hover:bg-white/10"
                                     }`}
                                 >
-                                    <span className="block text-xs font-black uppercase tracking-[0.16em]">Paso {index + 1}</span>
+                                    <span className="block text-xs font-black uppercase tracking-[0.16em]">{t("step", { n: index + 1 })}</span>
                                     <span className="mt-2 block text-sm font-bold leading-5">
                                         {step.title.replace(/^[0-9]+\. /, "")}
                                     </span>
@@ -737,35 +667,31 @@ function StreamFunctionExplainer() {
                         <div className="mt-5 grid gap-5 rounded-lg border border-cyan-300/20 bg-slate-950/70 p-5 lg:grid-cols-[0.86fr_1.14fr]">
                             <div>
                                 <p className="text-xs font-black uppercase tracking-[0.18em] text-cyan-200">
-                                    Paso activo {selectedStep + 1}
+                                    {t("activeStep", { n: selectedStep + 1 })}
                                 </p>
                                 <h3 className="mt-2 text-2xl font-black leading-tight text-white">{currentStep.title}</h3>
                                 <p className="mt-4 text-base leading-8 text-slate-300">{currentStep.idea}</p>
                                 <div className="mt-5 rounded-md border border-white/10 bg-white/5 p-4">
-                                    <p className="text-sm font-bold text-amber-200">Que debe mirar el estudiante</p>
+                                    <p className="text-sm font-bold text-amber-200">{t("studentFocus")}</p>
                                     <p className="mt-2 text-sm leading-6 text-slate-300">{currentStep.note}</p>
                                 </div>
                             </div>
                             <div className="rounded-md border border-white/10 bg-slate-950 p-4">
                                 <p className="mb-3 text-sm font-semibold uppercase tracking-[0.16em] text-slate-400">
-                                    Formula que se esta construyendo
+                                    {t("formulaInProgress")}
                                 </p>
-                                <div className="overflow-x-auto text-cyan-50" dangerouslySetInnerHTML={math(currentStep.math, true)} />
+                                <div className="overflow-x-auto text-cyan-50" dangerouslySetInnerHTML={math(currentStep.formula, true)} />
                                 <div className="mt-5 grid gap-3 sm:grid-cols-2">
                                     <div className="rounded-md bg-cyan-950/40 p-3">
-                                        <p className="text-xs font-bold uppercase tracking-[0.14em] text-cyan-200">Control visual</p>
+                                        <p className="text-xs font-bold uppercase tracking-[0.14em] text-cyan-200">{t("visualCheck.title")}</p>
                                         <p className="mt-2 text-sm leading-6 text-slate-300">
-                                            {selectedStep >= 4
-                                                ? "Se activa la lectura de presion para mostrar que Bernoulli viene despues del campo."
-                                                : "Se resaltan las lineas de corriente para mantener visible la geometria de psi."}
+                                            {selectedStep >= 4 ? t("visualCheck.pressure") : t("visualCheck.streamlines")}
                                         </p>
                                     </div>
                                     <div className="rounded-md bg-amber-950/30 p-3">
-                                        <p className="text-xs font-bold uppercase tracking-[0.14em] text-amber-200">Chequeo</p>
+                                        <p className="text-xs font-bold uppercase tracking-[0.14em] text-amber-200">{t("wallCheck.title")}</p>
                                         <p className="mt-2 text-sm leading-6 text-slate-300">
-                                            {selectedStep >= 3
-                                                ? "La pared debe quedar como psi constante y por eso v_r(a)=0."
-                                                : "Aun no se impone la pared; todavia se esta armando la familia posible."}
+                                            {selectedStep >= 3 ? t("wallCheck.imposed") : t("wallCheck.pending")}
                                         </p>
                                     </div>
                                 </div>
@@ -774,7 +700,7 @@ function StreamFunctionExplainer() {
 
                         <details className="mt-5 rounded-lg border border-white/10 bg-slate-950/45 p-4">
                             <summary className="cursor-pointer text-sm font-bold text-slate-200">
-                                Ver relatoria completa de los pasos
+                                {t("fullReport")}
                             </summary>
                             <div className="mt-4 grid gap-3">
                                 {steps.map((step, index) => (
@@ -788,7 +714,7 @@ function StreamFunctionExplainer() {
                                             <span className="block text-sm font-bold text-white">{step.title}</span>
                                             <span className="mt-1 block text-sm leading-6 text-slate-400">{step.idea}</span>
                                         </span>
-                                        <span className="rounded-md bg-slate-950/80 p-3 text-cyan-50" dangerouslySetInnerHTML={math(step.math)} />
+                                        <span className="rounded-md bg-slate-950/80 p-3 text-cyan-50" dangerouslySetInnerHTML={math(step.formula)} />
                                     </button>
                                 ))}
                             </div>
@@ -796,26 +722,26 @@ function StreamFunctionExplainer() {
                     </section>
 
                     <section className="rounded-lg border border-cyan-300/20 bg-cyan-950/30 p-5">
-                        <h2 className="text-xl font-bold text-white">Lo que debe quedar cristalino</h2>
+                        <h2 className="text-xl font-bold text-white">{t("consultationTitle")}</h2>
                         <div className="mt-4 grid gap-4 lg:grid-cols-3">
                             {consultationBlocks.map((block) => (
-                                <div key={block.title} className="rounded-md bg-slate-950/70 p-4">
-                                    <p className="mb-2 text-sm font-bold text-cyan-200">{block.title}</p>
-                                    <p className="text-sm leading-6 text-slate-300">{block.body}</p>
+                                <div key={block} className="rounded-md bg-slate-950/70 p-4">
+                                    <p className="mb-2 text-sm font-bold text-cyan-200">{t(`consultation.${block}.title`)}</p>
+                                    <p className="text-sm leading-6 text-slate-300">{t(`consultation.${block}.body`)}</p>
                                 </div>
                             ))}
                         </div>
                     </section>
 
                     <section className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
-                        <h2 className="text-xl font-bold text-white">Errores que esta relatoria intenta evitar</h2>
+                        <h2 className="text-xl font-bold text-white">{t("mistakesTitle")}</h2>
                         <div className="mt-4 grid gap-3 md:grid-cols-2">
                             {commonMistakes.map((mistake, index) => (
                                 <div key={mistake} className="flex gap-3 rounded-md border border-white/10 bg-slate-950/62 p-4">
                                     <span className="grid h-7 w-7 shrink-0 place-items-center rounded-full bg-amber-300 text-sm font-black text-slate-950">
                                         {index + 1}
                                     </span>
-                                    <p className="text-sm leading-6 text-slate-300">{mistake}</p>
+                                    <p className="text-sm leading-6 text-slate-300">{t(`mistakes.${mistake}`)}</p>
                                 </div>
                             ))}
                         </div>
@@ -834,44 +760,40 @@ function StreamFunctionExplainer() {
                     <section className="grid gap-4 lg:grid-cols-3">
                         <div className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
                             <CircleDot className="mb-3 h-6 w-6 text-amber-300" />
-                            <h3 className="text-lg font-bold text-white">No penetracion</h3>
+                            <h3 className="text-lg font-bold text-white">{t("concepts.noPenetration.title")}</h3>
                             <p className="mt-2 text-sm leading-6 text-slate-300">
-                                En fluido ideal la pared solo bloquea la componente normal. Por eso el flujo puede
-                                resbalar sobre el cuerpo.
+                                {t("concepts.noPenetration.body")}
                             </p>
                         </div>
                         <div className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
                             <Eye className="mb-3 h-6 w-6 text-cyan-300" />
-                            <h3 className="text-lg font-bold text-white">Irrotacional afuera</h3>
+                            <h3 className="text-lg font-bold text-white">{t("concepts.irrotational.title")}</h3>
                             <p className="mt-2 text-sm leading-6 text-slate-300">
-                                La familia usada es armonica en la region exterior. En el problema, eso se verifica
-                                calculando que la vorticidad se anula fuera del cuerpo.
+                                {t("concepts.irrotational.body")}
                             </p>
                         </div>
                         <div className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
                             <Gauge className="mb-3 h-6 w-6 text-rose-300" />
-                            <h3 className="text-lg font-bold text-white">Presion despues</h3>
+                            <h3 className="text-lg font-bold text-white">{t("concepts.pressureLater.title")}</h3>
                             <p className="mt-2 text-sm leading-6 text-slate-300">
-                                Bernoulli no inventa psi. Entra despues: cuando ya existe un campo sin vorticidad,
-                                permite traducir rapidez en presion ideal.
+                                {t("concepts.pressureLater.body")}
                             </p>
                         </div>
                     </section>
 
                     <section className="rounded-lg border border-white/10 bg-slate-900/68 p-5">
-                        <h2 className="text-xl font-bold text-white">Guion de cierre para clase</h2>
+                        <h2 className="text-xl font-bold text-white">{t("closing.title")}</h2>
                         <div className="mt-4 grid gap-4 lg:grid-cols-2">
                             <div className="rounded-md bg-slate-950/70 p-4">
-                                <p className="mb-2 text-sm font-bold text-cyan-200">{kind === "cylinder" ? "Velocidad del cilindro" : "Velocidad de la esfera"}</p>
+                                <p className="mb-2 text-sm font-bold text-cyan-200">{t(`bodies.${kind}.velocity`)}</p>
                                 <div className="overflow-x-auto text-slate-100" dangerouslySetInnerHTML={math(copy.vr, true)} />
                                 <div className="overflow-x-auto text-slate-100" dangerouslySetInnerHTML={math(copy.vt, true)} />
                             </div>
                             <div className="rounded-md bg-slate-950/70 p-4">
-                                <p className="mb-2 text-sm font-bold text-amber-200">Formula final construida</p>
+                                <p className="mb-2 text-sm font-bold text-amber-200">{t("closing.finalFormula")}</p>
                                 <div className="overflow-x-auto text-slate-100" dangerouslySetInnerHTML={math(copy.psi, true)} />
                                 <p className="mt-3 text-sm leading-6 text-slate-300">
-                                    Se lee como corriente uniforme mas correccion que respeta la frontera. Ese es el
-                                    puente aprendible del problema.
+                                    {t("closing.reading")}
                                 </p>
                             </div>
                         </div>
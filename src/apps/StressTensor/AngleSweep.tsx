@@ -0,0 +1,137 @@
+import { useMemo, useRef } from 'react';
+import type { PointerEvent } from 'react';
+import { Play, Square } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { rotateTensor, rotationMatrix } from './rotation';
+import type { Rotation } from './rotation';
+import type { Matrix3 } from './principal';
+
+export type SweepAxis = keyof Rotation;
+
+// σ'(θ) tiene periodo 180°: basta con barrer media vuelta
+const ANGLES = Array.from({ length: 181 }, (_, i) => i);
+const CURVES = [
+  { key: 'sxx', label: "σ'xx", color: '#ef4444', pick: (S: Matrix3) => S[0][0] },
+  { key: 'syy', label: "σ'yy", color: '#0ea5e9', pick: (S: Matrix3) => S[1][1] },
+  { key: 'txy', label: "τ'xy", color: '#eab308', pick: (S: Matrix3) => S[0][1] },
+] as const;
+
+const W = 300, H = 150, PAD = 6;
+
+// Ángulo de la rotación actual llevado a [0, 180)
+const sweepPhase = (angle: number) => ((angle % 180) + 180) % 180;
+
+interface AngleSweepProps {
+  stressMatrix: Matrix3;
+  rotation: Rotation;
+  axis: SweepAxis;
+  sweeping: boolean;
+  onAxisChange: (axis: SweepAxis) => void;
+  onAngleChange: (angle: number) => void;
+  onSweepChange: (sweeping: boolean) => void;
+}
+
+// σ'xx, σ'yy y τ'xy en función del giro alrededor de un eje, con los otros dos ángulos fijos
+export default function AngleSweep({ stressMatrix, rotation, axis, sweeping, onAxisChange, onAngleChange, onSweepChange }: AngleSweepProps) {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { x, y, z } = rotation;
+  const current = sweepPhase(rotation[axis]);
+
+  const samples = useMemo(() => ANGLES.map(angle => {
+    const S = rotateTensor(stressMatrix, rotationMatrix({ x, y, z, [axis]: angle }));
+    return CURVES.map(c => c.pick(S));
+  }), [stressMatrix, axis, x, y, z]);
+
+  // Extremos de σ'xx y σ'yy y ceros de τ'xy (interpolados entre muestras). Con tolerancia:
+  // una curva plana no tiene extremos, y una racha de ceros es un solo marcador
+  const markers = useMemo(() => {
+    const scale = Math.max(...samples.flat().map(Math.abs));
+    const near = (value: number) => Math.abs(value) <= 1e-9 * (1 + scale);
+    const extremes = [0, 1].flatMap(k => {
+      const curve = samples.map(s => s[k]);
+      const high = Math.max(...curve), low = Math.min(...curve);
+      return near(high - low) ? [] : [{ k, i: curve.indexOf(high) }, { k, i: curve.indexOf(low) }];
+    });
+    const txy = samples.map(s => s[2]);
+    const zeros: number[] = [];
+    if (!txy.every(near)) {
+      let run = -1; // Primer ángulo de la racha de ceros en curso
+      for (let i = 0; i < ANGLES.length - 1; i++) {
+        const a = txy[i], b = txy[i + 1];
+        if (near(a)) {
+          if (run < 0) run = i;
+          if (!near(b)) {
+            zeros.push((run + i) / 2);
+            run = -1;
+          }
+        } else if (!near(b) && a * b < 0) {
+          zeros.push(i + a / (a - b));
+        }
+      }
+      if (run >= 0) zeros.push((run + ANGLES.length - 2) / 2);
+    }
+    return { extremes, zeros };
+  }, [samples]);
+
+  const values = samples.flat();
+  const top = Math.max(...values, 0), bottom = Math.min(...values, 0);
+  const span = top - bottom || 1;
+  const px = (angle: number) => PAD + (angle / 180) * (W - 2 * PAD);
+  const py = (value: number) => PAD + ((top - value) / span) * (H - 2 * PAD);
+  // Durante el barrido la traza solo llega hasta el ángulo actual
+  const drawn = sweeping ? Math.floor(current) + 1 : ANGLES.length;
+  const at = samples[Math.round(current) % 180];
+
+  const pickAngle = (event: PointerEvent<SVGSVGElement>) => {
+    const box = event.currentTarget.getBoundingClientRect();
+    const angle = Math.round(((event.clientX - box.left) / box.width * W - PAD) / (W - 2 * PAD) * 180);
+    onAngleChange(Math.max(0, Math.min(180, angle)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-amber-200/80 font-medium">{t('rotation.sweep.title')}</span>
+        <div className="flex items-center gap-1">
+          {(['x', 'y', 'z'] as const).map(a => (
+            <button key={a} onClick={() => onAxisChange(a)} disabled={sweeping} className={`w-6 py-0.5 text-[10px] font-mono uppercase rounded border ${axis === a ? 'bg-amber-500/30 border-amber-400/60 text-amber-100' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>{a}</button>
+          ))}
+          <button onClick={() => onSweepChange(!sweeping)} title={t(sweeping ? 'rotation.sweep.stop' : 'rotation.sweep.start')} className="ml-1 p-1 rounded bg-amber-500/20 text-amber-300 border border-amber-500/30 hover:bg-amber-500/30">
+            {sweeping ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </button>
+          <ExportToolbar
+            fileName={`barrido-${axis}`}
+            svg={() => svgRef.current}
+            table={() => ({ columns: ['angleDeg', ...CURVES.map(c => c.key)], rows: samples.map((s, i) => [ANGLES[i], ...s]) })}
+          />
+        </div>
+      </div>
+      <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full bg-slate-950/80 rounded border border-slate-800 cursor-crosshair touch-none" onPointerDown={sweeping ? undefined : pickAngle}>
+        <line x1={PAD} x2={W - PAD} y1={py(0)} y2={py(0)} stroke="#475569" strokeWidth={0.5} strokeDasharray="3 3" />
+        {[45, 90, 135].map(a => <line key={a} x1={px(a)} x2={px(a)} y1={PAD} y2={H - PAD} stroke="#1e293b" strokeWidth={0.5} />)}
+        {CURVES.map((c, k) => (
+          <polyline key={c.key} fill="none" stroke={c.color} strokeWidth={1.5} points={samples.slice(0, drawn).map((s, i) => `${px(ANGLES[i])},${py(s[k])}`).join(' ')} />
+        ))}
+        {!sweeping && markers.extremes.map(({ k, i }) => (
+          <circle key={`e${k}-${i}`} cx={px(i)} cy={py(samples[i][k])} r={3} fill="none" stroke={CURVES[k].color} strokeWidth={1.2} />
+        ))}
+        {!sweeping && markers.zeros.map(a => (
+          <rect key={`z${a}`} x={px(a) - 2.5} y={py(0) - 2.5} width={5} height={5} fill="#eab308" transform={`rotate(45 ${px(a)} ${py(0)})`} />
+        ))}
+        <line x1={px(current)} x2={px(current)} y1={PAD} y2={H - PAD} stroke="#f59e0b" strokeWidth={1} />
+        <text x={W - PAD} y={H - PAD - 2} textAnchor="end" fontSize={9} fill="#94a3b8">θ = {current.toFixed(0)}°</text>
+      </svg>
+      <div className="grid grid-cols-3 gap-1 text-center font-mono text-[10px]">
+        {CURVES.map((c, k) => (
+          <div key={c.key} className="rounded bg-slate-900/80 border border-slate-800 py-0.5">
+            <span style={{ color: c.color }}>{c.label}</span> {formatNumber(at[k], 1)}
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">{t('rotation.sweep.hint')}</p>
+    </div>
+  );
+}
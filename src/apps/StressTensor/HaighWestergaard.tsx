@@ -0,0 +1,146 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { captureWebGL } from '../../lib/export';
+import type { Vector3 } from './principal';
+
+const HYDROSTATIC_AXIS = new THREE.Vector3(1, 1, 1).normalize();
+
+// Proyecciones de ±e1, ±e2, ±e3 sobre el plano desviador en orden angular:
+// los vértices del hexágono de Tresca, que tocan el cilindro de von Mises.
+const HEXAGON_DIRECTIONS = [[1, 0, 0], [0, 0, -1], [0, 1, 0], [-1, 0, 0], [0, 0, 1], [0, -1, 0]]
+  .map(([x, y, z]) => new THREE.Vector3(x, y, z).projectOnPlane(HYDROSTATIC_AXIS).normalize());
+
+// Superficies de fluencia y punto de esfuerzo en unidades de esfuerzo; el grupo
+// se escala para que la escena tenga siempre el mismo tamaño.
+function buildSpace(principal: Vector3, yieldStrength: number): THREE.Group {
+  const group = new THREE.Group();
+  const radius = Math.sqrt(2 / 3) * yieldStrength;
+  const point = new THREE.Vector3(...principal);
+  const along = point.dot(HYDROSTATIC_AXIS);
+  const foot = HYDROSTATIC_AXIS.clone().multiplyScalar(along);
+  const half = Math.max(2 * radius, Math.abs(along) + radius, point.distanceTo(foot) * 1.2);
+
+  const cylinder = new THREE.Mesh(
+    new THREE.CylinderGeometry(radius, radius, 2 * half, 64, 1, true),
+    new THREE.MeshBasicMaterial({ color: 0x22d3ee, transparent: true, opacity: 0.12, side: THREE.DoubleSide, depthWrite: false })
+  );
+  cylinder.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), HYDROSTATIC_AXIS);
+  group.add(cylinder);
+
+  const ends = [-half, half].map(h => HYDROSTATIC_AXIS.clone().multiplyScalar(h));
+  const rings = ends.map(end => HEXAGON_DIRECTIONS.map(d => end.clone().addScaledVector(d, radius)));
+  const edges: THREE.Vector3[] = [];
+  rings.forEach(ring => ring.forEach((corner, i) => edges.push(corner, ring[(i + 1) % 6])));
+  rings[0].forEach((corner, i) => edges.push(corner, rings[1][i]));
+  group.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(edges), new THREE.LineBasicMaterial({ color: 0xf59e0b })));
+
+  group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(ends), new THREE.LineBasicMaterial({ color: 0x64748b })));
+  group.add(new THREE.AxesHelper(half));
+
+  // Radio desviador: del eje hidrostático al punto (σ1, σ2, σ3)
+  group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints([foot, point]), new THREE.LineBasicMaterial({ color: 0xe2e8f0 })));
+  const yielded = point.distanceTo(foot) > radius * (1 + 1e-9);
+  const marker = new THREE.Mesh(new THREE.SphereGeometry(half * 0.04, 16, 12), new THREE.MeshBasicMaterial({ color: yielded ? 0xf43f5e : 0x10b981 }));
+  marker.position.copy(point);
+  group.add(marker);
+
+  group.scale.setScalar(2 / half);
+  return group;
+}
+
+function disposeGroup(group: THREE.Group) {
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+}
+
+interface HaighWestergaardProps {
+  principal: Vector3;
+  yieldStrength: number;
+}
+
+// Espacio de esfuerzos principales con el cilindro de von Mises y el prisma de Tresca.
+export default function HaighWestergaard({ principal, yieldStrength }: HaighWestergaardProps) {
+  const { t } = useI18n(MESSAGES);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!canvasRef.current || !container) return;
+
+    const scene = new THREE.Scene();
+    sceneRef.current = scene;
+    const camera = new THREE.PerspectiveCamera(40, 1, 0.1, 100);
+    camera.position.set(5, 3.5, 6);
+    cameraRef.current = camera;
+    const renderer = new THREE.WebGLRenderer({ canvas: canvasRef.current, antialias: true, alpha: true });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    rendererRef.current = renderer;
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+
+    let frameId: number;
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+      controls.update();
+      renderer.render(scene, camera);
+    };
+    animate();
+
+    // El panel lateral cambia de ancho sin que cambie la ventana
+    const observer = new ResizeObserver(() => {
+      const w = container.clientWidth, h = container.clientHeight;
+      if (w === 0 || h === 0) return;
+      camera.aspect = w / h;
+      camera.updateProjectionMatrix();
+      renderer.setSize(w, h, false);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frameId);
+      controls.dispose();
+      renderer.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+    const space = buildSpace(principal, yieldStrength);
+    scene.add(space);
+    return () => {
+      scene.remove(space);
+      disposeGroup(space);
+    };
+  }, [principal, yieldStrength]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-semibold text-slate-300">{t('yield.haighTitle')}</span>
+        <ExportToolbar fileName="haigh-westergaard" png={() => captureWebGL(rendererRef.current!, sceneRef.current!, cameraRef.current!)} />
+      </div>
+      <div ref={containerRef} className="w-full aspect-square bg-slate-950/80 rounded-lg border border-slate-700/50 overflow-hidden">
+        <canvas ref={canvasRef} className="w-full h-full block touch-none" />
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-cyan-400/60" /> {t('yield.vonMises')}</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-500" /> {t('yield.tresca')}</span>
+        <span className="font-mono"><span className="text-rose-400">σ₁</span> · <span className="text-emerald-400">σ₂</span> · <span className="text-sky-400">σ₃</span></span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo } from 'react';
+import { Check, AlertTriangle } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { MathRender } from '../../lib/MathRender';
+import { BODY_HALF_SIZE, FIELD_AXES, FIELD_COMPONENTS, FIELD_EXAMPLES, analyzeStressField } from './field';
+import type { FieldExample, StressField, StressFieldAnalysis } from './field';
+import type { Matrix3, Vector3 } from './principal';
+
+interface StressFieldPanelProps {
+  field: StressField;
+  body: [string, string, string];
+  probe: Vector3;
+  onFieldChange: (component: keyof StressField, expr: string) => void;
+  onBodyChange: (body: [string, string, string]) => void;
+  onProbeChange: (probe: Vector3) => void;
+  onExample: (field: StressField, body: [string, string, string]) => void;
+  onStress: (stress: Matrix3) => void;
+}
+
+const fieldLabel = (c: string) => (c[0] === c[1] ? `σ_${c}` : `τ_${c}`);
+// Punto y coma: con coma decimal en español "(0,5, 1)" sería ambiguo
+const point = (p: Vector3, format: (v: number) => string) => `(${p.map(format).join('; ')})`;
+
+// Modo campo: σ(x, y, z) con mathjs, sondeo en un punto del cuerpo y chequeo de ∇·σ + b = 0
+export default function StressFieldPanel({ field, body, probe, onFieldChange, onBodyChange, onProbeChange, onExample, onStress }: StressFieldPanelProps) {
+  const { t, formatNumber } = useI18n(MESSAGES);
+
+  const result = useMemo((): { analysis: StressFieldAnalysis } | { error: string } => {
+    try {
+      return { analysis: analyzeStressField(field, body, probe) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [field, body, probe]);
+
+  // El cubo, Mohr y los demás paneles trabajan con σ en el punto de sondeo;
+  // mientras la expresión no compile se queda el último estado válido
+  useEffect(() => {
+    if ('analysis' in result) onStress(result.analysis.stress);
+  }, [result, onStress]);
+
+  const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-xs font-mono focus:outline-none focus:border-teal-400';
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-teal-950/20 border border-teal-500/30 rounded-lg">
+      <div className="flex justify-between items-center gap-2">
+        <h3 className="text-sm font-semibold text-teal-300">{t('field.title')}</h3>
+        <select value="" onChange={(e) => { const example = FIELD_EXAMPLES[e.target.value as FieldExample]; if (example) onExample(example.field, example.body); }} className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:outline-none">
+          <option value="">{t('field.examples.label')}</option>
+          {(Object.keys(FIELD_EXAMPLES) as FieldExample[]).map(key => <option key={key} value={key}>{t(`field.examples.${key}`)}</option>)}
+        </select>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">{t('field.hint', { size: BODY_HALF_SIZE })}</p>
+
+      <div className="grid grid-cols-2 gap-1">
+        {FIELD_COMPONENTS.map(c => (
+          <label key={c} className="flex items-center gap-1">
+            <span className="text-[10px] text-slate-500 font-mono w-8">{fieldLabel(c)}</span>
+            <input type="text" spellCheck={false} value={field[c]} onChange={(e) => onFieldChange(c, e.target.value)} className={inputClass} />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {FIELD_AXES.map((axis, i) => (
+          <label key={axis} className="flex items-center gap-1">
+            <span className="text-[10px] text-slate-500 font-mono">b_{axis}</span>
+            <input type="text" spellCheck={false} value={body[i]} onChange={(e) => onBodyChange(body.map((b, j) => (j === i ? e.target.value : b)) as [string, string, string])} className={inputClass} />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-slate-400">{t('field.probe')}</span>
+        {FIELD_AXES.map((axis, i) => (
+          <div key={axis} className="flex items-center gap-3">
+            <span className="text-xs font-mono w-4 text-slate-400">{axis}</span>
+            <input type="range" min={-BODY_HALF_SIZE} max={BODY_HALF_SIZE} step={0.05} value={probe[i]} onChange={(e) => onProbeChange(probe.map((c, j) => (j === i ? parseFloat(e.target.value) : c)) as Vector3)} className="flex-1 accent-teal-500" />
+            <span className="text-xs font-mono w-10 text-right">{formatNumber(probe[i], 2)}</span>
+          </div>
+        ))}
+      </div>
+
+      {'error' in result ? (
+        <p className="text-[10px] text-rose-300 flex items-start gap-1"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> {t('field.error', { message: result.error })}</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-slate-400">{t('field.equilibrium')}</span>
+          {result.analysis.equations.map(eq => (
+            <div key={eq.axis} className={`rounded border px-2 py-1 text-[10px] ${eq.satisfied ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-200' : 'border-rose-500/30 bg-rose-500/10 text-rose-200'}`}>
+              <div className="flex items-center gap-1 font-medium">
+                {eq.satisfied ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                {t(eq.satisfied ? 'field.satisfied' : 'field.violated', { axis: eq.axis })}
+              </div>
+              {!eq.satisfied && (
+                <>
+                  <div className="overflow-x-auto text-slate-200">
+                    <MathRender math={`r_${eq.axis} = ${eq.residualTex}`} />
+                  </div>
+                  <div className="font-mono">
+                    {t('field.worst', {
+                      value: formatNumber(eq.worst.value, 2),
+                      point: point(eq.worst.point, v => formatNumber(v, 2)),
+                      probe: formatNumber(eq.atProbe, 2),
+                    })}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
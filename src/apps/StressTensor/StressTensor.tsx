@@ -1,10 +1,37 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, lazy, Suspense } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { RotateCcw, Mountain, Plane, Box, ArrowDown, Activity, Settings, X, LocateFixed } from 'lucide-react';
 import { useIsPortrait } from '../../hooks/useIsPortrait';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useAppControls } from '../../hooks/useAppControls';
+import { booleanParam, enumParam, numberParam, stringParam } from '../../lib/urlParams';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { jacobiEigen, maxShearPlane, principalStresses } from './principal';
+import type { Matrix3, PrincipalStresses, Vector3 } from './principal';
+import { traction, unitNormal } from './traction';
+import type { Traction } from './traction';
+import { rotateTensor, rotationMatrix } from './rotation';
+import { safetyFactor, stressInvariants } from './invariants';
+import type { StressInvariants } from './invariants';
+import { STRESS_LIMIT } from './structural';
+import AngleSweep from './AngleSweep';
+import type { SweepAxis } from './AngleSweep';
+import { MATERIAL_MODELS, MATERIAL_PRESETS, elasticConstants, isAdmissible, strainTensor, volumetricStrain } from './material';
+import type { ElasticConstants, MaterialModel, MaterialPreset } from './material';
+import { MathRender } from '../../lib/MathRender';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { captureWebGL } from '../../lib/export';
 import katex from 'katex';
 import 'katex/dist/katex.min.css';
+import type { StressField } from './field';
+
+// mathjs solo se descarga al pasar al modo campo
+const StressFieldPanel = lazy(() => import('./StressFieldPanel'));
+// El diagrama de Haigh-Westergaard y los problemas estructurales van aparte para no pesar en la primera carga
+const HaighWestergaard = lazy(() => import('./HaighWestergaard'));
+const StructuralPresets = lazy(() => import('./StructuralPresets'));
 
 const InlineMath = ({ tex }: { tex: string }) => (
   <span dangerouslySetInnerHTML={{ __html: katex.renderToString(tex, { throwOnError: false }) }} />
@@ -22,33 +49,372 @@ const DEFAULT_STRESS: StressState = {
   zx: 0, zy: 0, zz: 0
 };
 
-const MohrCircle = ({ prime, cx, R, minX, maxX, minY, maxY, vBoxW, vBoxH }: any) => {
+// Estado compartible por URL: el tensor es simétrico, basta con 6 componentes
+const stressParam = (value: number) => numberParam(value, { min: -STRESS_LIMIT, max: STRESS_LIMIT });
+const angleParam = () => numberParam(0, { min: -180, max: 180 });
+const normalParam = () => numberParam(1, { min: -1, max: 1 });
+const modulusParam = (value: number) => numberParam(value, { min: 0.001, max: 1000 });
+const poissonParam = () => numberParam(0.3, { min: -0.99, max: 0.99 });
+const exprParam = (value: string) => stringParam(value, { maxLength: 200 });
+const probeParam = () => numberParam(0, { min: -1, max: 1 });
+
+const URL_PARAMS = {
+  sxx: stressParam(50), syy: stressParam(0), szz: stressParam(10),
+  sxy: stressParam(30), sxz: stressParam(10), syz: stressParam(10),
+  rx: angleParam(), ry: angleParam(), rz: angleParam(),
+  sw: enumParam<SweepAxis>('z', ['x', 'y', 'z']),
+  def: booleanParam(false),
+  nx: normalParam(), ny: normalParam(), nz: normalParam(),
+  cut: booleanParam(false),
+  sy: numberParam(250, { min: 1, max: 2000 }),
+  hw: booleanParam(false),
+  mat: enumParam<MaterialModel>('isotropic', MATERIAL_MODELS),
+  e1: modulusParam(200), e2: modulusParam(200), e3: modulusParam(200),
+  v12: poissonParam(), v13: poissonParam(), v23: poissonParam(),
+  g12: modulusParam(76.9), g13: modulusParam(76.9), g23: modulusParam(76.9),
+  scale: numberParam(1000, { min: 0.01, max: 100000 }),
+  mode: enumParam<'point' | 'field'>('point', ['point', 'field']),
+  fxx: exprParam('-60*x*y'), fyy: exprParam('0'), fzz: exprParam('0'),
+  fxy: exprParam('30*(y^2 - 1)'), fxz: exprParam('0'), fyz: exprParam('0'),
+  bx: exprParam('0'), by: exprParam('0'), bz: exprParam('0'),
+  px: probeParam(), py: probeParam(), pz: probeParam(),
+};
+
+// Constante elástica → parámetro de la URL
+const CONSTANT_PARAMS = {
+  E1: 'e1', E2: 'e2', E3: 'e3', nu12: 'v12', nu13: 'v13', nu23: 'v23', G12: 'g12', G13: 'g13', G23: 'g23',
+} as const satisfies Record<keyof ElasticConstants, keyof typeof URL_PARAMS>;
+
+const constantParams = (c: ElasticConstants) => Object.fromEntries(
+  (Object.keys(CONSTANT_PARAMS) as (keyof ElasticConstants)[]).map(key => [CONSTANT_PARAMS[key], c[key]])
+) as Record<(typeof CONSTANT_PARAMS)[keyof ElasticConstants], number>;
+
+// Constantes que el usuario puede escribir en cada modelo; las demás se derivan
+const MATERIAL_FIELDS: Record<MaterialModel, { key: keyof ElasticConstants; label: string }[]> = {
+  isotropic: [{ key: 'E1', label: 'E' }, { key: 'nu12', label: 'ν' }],
+  transverse: [
+    { key: 'E1', label: 'Ep' }, { key: 'nu12', label: 'νp' },
+    { key: 'E3', label: 'Ez' }, { key: 'nu13', label: 'νpz' }, { key: 'G13', label: 'Gz' },
+  ],
+  orthotropic: [
+    { key: 'E1', label: 'E₁' }, { key: 'E2', label: 'E₂' }, { key: 'E3', label: 'E₃' },
+    { key: 'nu12', label: 'ν₁₂' }, { key: 'nu13', label: 'ν₁₃' }, { key: 'nu23', label: 'ν₂₃' },
+    { key: 'G12', label: 'G₁₂' }, { key: 'G13', label: 'G₁₃' }, { key: 'G23', label: 'G₂₃' },
+  ],
+};
+
+
+// Duración del barrido animado de 0 a 180°
+const SWEEP_MS = 6000;
+
+// Radio de la esfera sobre la que se arrastra la normal del plano de corte
+const NORMAL_SPHERE_RADIUS = 2.4;
+
+const FACE_COLORS = { x: '#ef4444', y: '#0ea5e9', z: '#10b981' } as const;
+
+// Trayectoria SVG de un círculo completo, para poder restar círculos con evenodd
+const circlePath = (c: number, r: number) => `M ${c - r} 0 A ${r} ${r} 0 1 0 ${c + r} 0 A ${r} ${r} 0 1 0 ${c - r} 0 Z`;
+
+// Diagrama de Mohr 3D: los tres círculos principales, la región admisible de
+// (σn, τ) y el punto de cada cara del cubo rotado. τ crece hacia arriba.
+const MohrDiagram3D = ({ principal, prime }: { principal: PrincipalStresses; prime: StressState }) => {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [s1, s2, s3] = principal.values;
+  const { tauMax, normal } = maxShearPlane(principal);
+  const circles = [
+    { c: (s1 + s3) / 2, r: (s1 - s3) / 2, color: '#3b82f6' },
+    { c: (s1 + s2) / 2, r: (s1 - s2) / 2, color: '#818cf8' },
+    { c: (s2 + s3) / 2, r: (s2 - s3) / 2, color: '#22d3ee' },
+  ];
+  const rows = {
+    x: [prime.xx, prime.xy, prime.xz],
+    y: [prime.yx, prime.yy, prime.yz],
+    z: [prime.zx, prime.zy, prime.zz],
+  };
+  const faces = (['x', 'y', 'z'] as const).map((axis, i) => {
+    const row = rows[axis];
+    return { axis, sigma: row[i], tau: Math.hypot(...row.filter((_, j) => j !== i)) };
+  });
+
+  const span = Math.max(s1 - s3, Math.abs(s1), Math.abs(s3), 10);
+  const pad = span * 0.15;
+  const minX = Math.min(0, s3) - pad;
+  const maxX = Math.max(0, s1) + pad;
+  const maxY = (s1 - s3) / 2 + pad;
+  const vBoxW = maxX - minX;
+  const font = vBoxW * 0.04;
+
   return (
     <div className="flex flex-col gap-2 mt-4">
       <div className="flex justify-between items-center text-slate-300">
         <h3 className="text-sm font-semibold uppercase tracking-wider flex items-center gap-2">
           <div className="w-2 h-2 rounded-full bg-blue-500 border border-blue-400" />
-          Círculo de Mohr (Plano Local XY)
+          {t('mohr.title')}
         </h3>
+        <ExportToolbar fileName="circulo-mohr" svg={() => svgRef.current} />
       </div>
       <div className="w-full aspect-video bg-slate-950/80 rounded-lg border border-slate-700/50 p-2 relative overflow-hidden flex items-center justify-center">
-        <svg width="100%" height="100%" viewBox={`${minX} ${minY} ${vBoxW} ${vBoxH}`} className="drop-shadow-lg">
+        <svg ref={svgRef} width="100%" height="100%" viewBox={`${minX} ${-maxY} ${vBoxW} ${2 * maxY}`} className="drop-shadow-lg">
           <line x1={minX} y1={0} x2={maxX} y2={0} stroke="#475569" strokeWidth={vBoxW*0.005} strokeDasharray={`${vBoxW*0.02} ${vBoxW*0.02}`} />
-          <line x1={0} y1={minY} x2={0} y2={maxY} stroke="#475569" strokeWidth={vBoxW*0.005} strokeDasharray={`${vBoxW*0.02} ${vBoxW*0.02}`} />
-          
-          <circle cx={cx} cy={0} r={R} fill="none" stroke="#3b82f6" strokeWidth={vBoxW * 0.01} className="opacity-70" />
-          
-          <line x1={prime.xx} y1={prime.xy} x2={prime.yy} y2={-prime.xy} stroke="#f59e0b" strokeWidth={vBoxW * 0.008} />
-          <circle cx={cx} cy={0} r={vBoxW * 0.015} fill="#f59e0b" />
-          <circle cx={prime.xx} cy={prime.xy} r={vBoxW * 0.02} fill="#ef4444" />
-          <circle cx={prime.yy} cy={-prime.xy} r={vBoxW * 0.02} fill="#0ea5e9" />
+          <line x1={0} y1={-maxY} x2={0} y2={maxY} stroke="#475569" strokeWidth={vBoxW*0.005} strokeDasharray={`${vBoxW*0.02} ${vBoxW*0.02}`} />
+
+          {/* Región admisible: dentro del círculo mayor y fuera de los dos menores */}
+          <path d={circles.map(({ c, r }) => circlePath(c, r)).join(' ')} fillRule="evenodd" fill="#3b82f6" fillOpacity={0.15} />
+          {circles.map(({ c, r, color }, i) => (
+            <circle key={i} cx={c} cy={0} r={r} fill="none" stroke={color} strokeWidth={vBoxW * 0.008} className="opacity-80" />
+          ))}
+
+          <line x1={circles[0].c} y1={0} x2={circles[0].c} y2={-tauMax} stroke="#f59e0b" strokeWidth={vBoxW * 0.005} strokeDasharray={`${vBoxW*0.015} ${vBoxW*0.01}`} />
+          <circle cx={circles[0].c} cy={-tauMax} r={vBoxW * 0.015} fill="#f59e0b" />
+
+          {principal.values.map((value, i) => (
+            <text key={i} x={value} y={font * 1.3} fontSize={font} fill="#cbd5e1" textAnchor="middle" fontFamily="monospace">σ{'₁₂₃'[i]}</text>
+          ))}
+          {faces.map(face => (
+            <circle key={face.axis} cx={face.sigma} cy={-face.tau} r={vBoxW * 0.018} fill={FACE_COLORS[face.axis]} stroke="#0f172a" strokeWidth={vBoxW * 0.004} />
+          ))}
         </svg>
-        <div className="absolute bottom-2 left-2 flex items-center gap-2 text-[10px] text-slate-400 font-mono">
-          <div className="w-2 h-2 rounded-full bg-rose-500" /> Eje X' 
+        <div className="absolute bottom-2 left-2 flex items-center gap-3 text-[10px] text-slate-400 font-mono">
+          {faces.map(face => (
+            <span key={face.axis} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: FACE_COLORS[face.axis] }} /> {t(`mohr.face.${face.axis}`)}
+            </span>
+          ))}
+        </div>
+        <div className="absolute top-2 right-2 flex items-center gap-1 text-[10px] text-slate-400">
+          <span className="w-2 h-2 rounded-sm bg-blue-500/40" /> {t('mohr.admissible')}
+        </div>
+      </div>
+      <div className="grid grid-cols-4 gap-1 text-center font-mono text-xs">
+        {[...principal.values.map((value, i) => ({ label: `σ${'₁₂₃'[i]}`, value })), { label: 'τmax', value: tauMax }].map(({ label, value }) => (
+          <div key={label} className="rounded bg-slate-950/80 border border-slate-800 px-1 py-1">
+            <div className="text-[10px] text-slate-500">{label}</div>
+            <div className={label === 'τmax' ? 'text-amber-300' : 'text-slate-200'}>{formatNumber(value, 1)}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400 leading-relaxed">
+        {t('mohr.tauMaxPlane', { n: `(${normal.map(c => formatNumber(c, 2)).join('; ')})` })}
+      </p>
+    </div>
+  );
+};
+
+const matrixTex = (rows: number[][], digits: number) =>
+  `\\begin{pmatrix} ${rows.map(row => row.map(v => v.toFixed(digits)).join(' & ')).join(' \\\\ ')} \\end{pmatrix}`;
+
+interface TractionPanelProps {
+  raw: Vector3;
+  n: Vector3;
+  stressMatrix: number[][];
+  result: Traction;
+  visible: boolean;
+  onNormalChange: (raw: Vector3) => void;
+  onVisibleChange: (visible: boolean) => void;
+}
+
+// Plano de corte arbitrario: normal n, tracción t = σ·n y sus partes normal y cortante
+const TractionPanel = ({ raw, n, stressMatrix, result, visible, onNormalChange, onVisibleChange }: TractionPanelProps) => {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const column = (v: Vector3) => v.map(c => [c]);
+  const cauchy = `\\vec t = \\sigma\\,\\hat n: \\quad ${matrixTex(column(result.t), 1)} = ${matrixTex(stressMatrix, 1)} ${matrixTex(column(n), 3)}`;
+  const parts = `\\sigma_n = \\vec t \\cdot \\hat n = ${result.sigmaN.toFixed(1)}, \\qquad \\tau = \\lVert \\vec t - \\sigma_n \\hat n \\rVert = ${result.tau.toFixed(1)}`;
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-slate-800/30 border border-slate-700 rounded-lg">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className="text-sm font-semibold text-violet-300">{t('traction.title')}</span>
+        <input type="checkbox" className="hidden" checked={visible} onChange={(e) => onVisibleChange(e.target.checked)} />
+        <div className={`relative w-10 h-6 transition-colors rounded-full ${visible ? "bg-violet-500" : "bg-slate-700"}`}>
+          <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${visible ? "translate-x-4" : ""}`} />
         </div>
-        <div className="absolute bottom-2 right-2 flex items-center gap-2 text-[10px] text-slate-400 font-mono">
-          Eje Y' <div className="w-2 h-2 rounded-full bg-sky-500" />
+      </label>
+      {visible && (
+        <>
+          <p className="text-[10px] text-slate-500 leading-relaxed">{t('traction.hint')}</p>
+          <div className="grid grid-cols-3 gap-1">
+            {(['x', 'y', 'z'] as const).map((axis, i) => (
+              <label key={axis} className="flex flex-col gap-1 items-center">
+                <span className="text-[10px] text-slate-500 font-mono">n_{axis}</span>
+                <input
+                  type="number" min={-1} max={1} step={0.1} value={raw[i]}
+                  onChange={(e) => onNormalChange(raw.map((c, j) => (j === i ? parseFloat(e.target.value) || 0 : c)) as Vector3)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-center text-sm font-mono focus:outline-none focus:border-violet-400"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="overflow-x-auto text-slate-200 text-xs">
+            <MathRender math={cauchy} />
+            <MathRender math={parts} />
+          </div>
+          <div className="grid grid-cols-3 gap-1 text-center font-mono text-xs">
+            {[
+              { label: '|t|', value: Math.hypot(...result.t), color: 'text-violet-300' },
+              { label: 'σn', value: result.sigmaN, color: result.sigmaN >= 0 ? 'text-rose-400' : 'text-sky-400' },
+              { label: 'τ', value: result.tau, color: 'text-yellow-400' },
+            ].map(({ label, value, color }) => (
+              <div key={label} className="rounded bg-slate-950/80 border border-slate-800 px-1 py-1">
+                <div className="text-[10px] text-slate-500">{label}</div>
+                <div className={color}>{formatNumber(value, 1)}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface YieldPanelProps {
+  invariants: StressInvariants;
+  principal: Vector3;
+  yieldStrength: number;
+  showHaigh: boolean;
+  onYieldChange: (value: number) => void;
+  onShowHaighChange: (visible: boolean) => void;
+}
+
+// Invariantes, tensor desviador y criterios de fluencia frente a σy
+const YieldPanel = ({ invariants, principal, yieldStrength, showHaigh, onYieldChange, onShowHaighChange }: YieldPanelProps) => {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const { I1, I2, I3, mean, deviatoric, vonMises, tresca, octahedralShear } = invariants;
+  const factors = [
+    { label: t('yield.vonMises'), value: safetyFactor(yieldStrength, vonMises) },
+    { label: t('yield.tresca'), value: safetyFactor(yieldStrength, tresca) },
+  ];
+  const cell = (label: string, value: number, color = 'text-slate-200') => (
+    <div key={label} className="rounded bg-slate-950/80 border border-slate-800 px-1 py-1 text-center">
+      <div className="text-[10px] text-slate-500">{label}</div>
+      <div className={`font-mono text-xs ${color}`}>{formatNumber(value, 1)}</div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-slate-800/30 border border-slate-700 rounded-lg">
+      <h3 className="text-sm font-semibold text-emerald-300">{t('yield.title')}</h3>
+      <div className="grid grid-cols-4 gap-1">
+        {cell('I₁', I1)}
+        {cell('I₂', I2)}
+        {cell('I₃', I3)}
+        {cell('σm', mean, 'text-cyan-300')}
+      </div>
+
+      <div>
+        <div className="text-xs text-slate-400 mb-1">{t('yield.deviatoric')}</div>
+        <div className="grid grid-cols-3 gap-1">
+          {deviatoric.flat().map((value, i) => (
+            <div key={i} className={`px-1 py-1 text-center text-xs font-mono rounded bg-slate-900/80 border border-slate-800/80 ${i % 4 === 0 ? 'text-white font-semibold' : 'text-slate-400'}`}>
+              {Math.abs(value) < 0.05 ? '0' : formatNumber(value, 1)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {cell('σvM', vonMises, 'text-cyan-300')}
+        {cell('σ₁ − σ₃', tresca, 'text-amber-300')}
+        {cell('τoct', octahedralShear)}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <span className="font-mono">σy</span>
+        <input type="range" min={1} max={2000} step={1} value={yieldStrength} onChange={(e) => onYieldChange(parseFloat(e.target.value))} className="flex-1 accent-emerald-500" />
+        <input type="number" min={1} max={2000} value={yieldStrength} onChange={(e) => onYieldChange(parseFloat(e.target.value) || 1)} className="w-16 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-center font-mono focus:outline-none focus:border-emerald-400" />
+      </label>
+      <div className="grid grid-cols-2 gap-1">
+        {factors.map(({ label, value }) => (
+          <div key={label} className={`rounded border px-2 py-1 text-xs ${value >= 1 ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-200' : 'border-rose-500/30 bg-rose-500/10 text-rose-200'}`}>
+            <div className="text-[10px] opacity-80">{t('yield.safetyFactor', { criterion: label })}</div>
+            <div className="font-mono font-semibold">{Number.isFinite(value) ? formatNumber(value, 2) : '∞'}</div>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer text-xs text-slate-300">
+        <input type="checkbox" checked={showHaigh} onChange={(e) => onShowHaighChange(e.target.checked)} className="accent-emerald-500" />
+        {t('yield.showHaigh')}
+      </label>
+      {showHaigh && (
+        <Suspense fallback={null}>
+          <HaighWestergaard principal={principal} yieldStrength={yieldStrength} />
+        </Suspense>
+      )}
+    </div>
+  );
+};
+
+interface MaterialPanelProps {
+  model: MaterialModel;
+  constants: ElasticConstants;
+  scale: number;
+  onModelChange: (model: MaterialModel) => void;
+  onConstantChange: (key: keyof ElasticConstants, value: number) => void;
+  onPreset: (preset: MaterialPreset) => void;
+  onScaleChange: (scale: number) => void;
+}
+
+// Modelo elástico del cubo deformado: isótropo con presets, transversalmente isótropo u ortótropo
+const MaterialPanel = ({ model, constants, scale, onModelChange, onConstantChange, onPreset, onScaleChange }: MaterialPanelProps) => {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const activePreset = model === 'isotropic'
+    ? (Object.keys(MATERIAL_PRESETS) as MaterialPreset[]).find(key => MATERIAL_PRESETS[key].E === constants.E1 && MATERIAL_PRESETS[key].nu === constants.nu12)
+    : undefined;
+
+  return (
+    <div className="flex flex-col gap-3 p-3 bg-indigo-950/20 border border-indigo-500/20 rounded-lg">
+      <h3 className="text-sm font-semibold text-indigo-200">{t('material.title')}</h3>
+      <select value={model} onChange={(e) => onModelChange(e.target.value as MaterialModel)} className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:border-indigo-400">
+        {MATERIAL_MODELS.map(m => <option key={m} value={m}>{t(`material.model.${m}`)}</option>)}
+      </select>
+      {model === 'isotropic' && (
+        <div className="grid grid-cols-4 gap-1">
+          {(Object.keys(MATERIAL_PRESETS) as MaterialPreset[]).map(key => (
+            <button key={key} onClick={() => onPreset(key)} className={`p-1 text-[10px] rounded border transition ${activePreset === key ? 'bg-indigo-500/30 border-indigo-400/60 text-indigo-100' : 'bg-slate-800/80 border-slate-700/50 hover:bg-slate-700'}`}>
+              {t(`material.presets.${key}`)}
+            </button>
+          ))}
         </div>
+      )}
+      <div className="grid grid-cols-3 gap-1">
+        {MATERIAL_FIELDS[model].map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 items-center">
+            <span className="text-[10px] text-slate-500 font-mono">{label}</span>
+            <input
+              type="number" step={key.startsWith('nu') ? 0.01 : 1} value={constants[key]}
+              onChange={(e) => { const value = parseFloat(e.target.value); if (Number.isFinite(value)) onConstantChange(key, value); }}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-center text-xs font-mono focus:outline-none focus:border-indigo-400"
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">{t('material.units')}</p>
+      {!isAdmissible(constants) && <p className="text-[10px] text-rose-300">{t('material.inadmissible')}</p>}
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        <span>{t('material.scale')}</span>
+        <input type="range" min={-2} max={5} step={0.1} value={Math.log10(scale)} onChange={(e) => onScaleChange(Number(Math.pow(10, parseFloat(e.target.value)).toPrecision(2)))} className="flex-1 accent-indigo-500" />
+        <span className="font-mono w-14 text-right">×{formatNumber(scale, scale < 1 ? 2 : 0)}</span>
+      </label>
+    </div>
+  );
+};
+
+// Deformación en ejes base, en milésimas, con su traza
+const StrainMatrix = ({ strain }: { strain: Matrix3 }) => {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between items-center text-xs text-slate-400">
+        <span>{t('strain.title')}</span>
+        <span className="font-mono text-indigo-300">εv = {formatNumber(volumetricStrain(strain) * 1000, 3)}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {strain.flat().map((value, i) => (
+          <div key={i} className={`px-1 py-1 text-center text-xs font-mono rounded bg-slate-900/80 border border-slate-800/80 ${i % 4 === 0 ? 'text-indigo-100 font-semibold' : 'text-indigo-200/60'}`}>
+            {formatNumber(value * 1000, 3)}
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -58,9 +424,81 @@ const StressTensor = () => {
   const isPortrait = useIsPortrait();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
-  const [stress, setStress] = useState<StressState>({ ...DEFAULT_STRESS, xx: 50, xy: 30, yx: 30, zz: 10, yz: 10, zy: 10, xz: 10, zx: 10 });
-  const [rotation, setRotation] = useState({ x: 0, y: 0, z: 0 });
-  const [showDeformation, setShowDeformation] = useState(false);
+  const [params, setParams] = useUrlState(URL_PARAMS);
+  const { t, rich, formatNumber } = useI18n(MESSAGES);
+  const { sxx, syy, szz, sxy, sxz, syz, rx, ry, rz, def: showDeformation, nx, ny, nz, cut: showCut, sy: yieldStrength, hw: showHaigh } = params;
+  const { mat: materialModel, e1, e2, e3, v12, v13, v23, g12, g13, g23, scale: deformationScale } = params;
+  const { mode, fxx, fyy, fzz, fxy, fxz, fyz, bx, by, bz, px, py, pz } = params;
+  const fieldMode = mode === 'field';
+  const field = useMemo<StressField>(() => ({ xx: fxx, yy: fyy, zz: fzz, xy: fxy, xz: fxz, yz: fyz }), [fxx, fyy, fzz, fxy, fxz, fyz]);
+  const bodyForce = useMemo<[string, string, string]>(() => [bx, by, bz], [bx, by, bz]);
+  const probe = useMemo<Vector3>(() => [px, py, pz], [px, py, pz]);
+  // σ en el punto de sondeo, lo publica el panel del modo campo
+  const [fieldStress, setFieldStress] = useState<Matrix3 | null>(null);
+  const stress = useMemo<StressState>(() => {
+    if (fieldMode && fieldStress) {
+      const [[xx, xy, xz], [, yy, yz], [, , zz]] = fieldStress;
+      return { xx, xy, xz, yx: xy, yy, yz, zx: xz, zy: yz, zz };
+    }
+    return {
+      xx: sxx, xy: sxy, xz: sxz,
+      yx: sxy, yy: syy, yz: syz,
+      zx: sxz, zy: syz, zz: szz
+    };
+  }, [fieldMode, fieldStress, sxx, syy, szz, sxy, sxz, syz]);
+  const { sw: sweepAxis } = params;
+  // Mientras dura el barrido el ángulo del eje elegido vive aquí y no en la URL
+  const [sweepAngle, setSweepAngle] = useState<number | null>(null);
+  const rotation = useMemo(() => {
+    const r = { x: rx, y: ry, z: rz };
+    if (sweepAngle !== null) r[sweepAxis] = sweepAngle;
+    return r;
+  }, [rx, ry, rz, sweepAxis, sweepAngle]);
+  const stressMatrix = useMemo(() => [
+    [stress.xx, stress.xy, stress.xz],
+    [stress.yx, stress.yy, stress.yz],
+    [stress.zx, stress.zy, stress.zz]
+  ], [stress]);
+  const principal = useMemo(() => principalStresses(stressMatrix), [stressMatrix]);
+  const normal = useMemo(() => unitNormal(nx, ny, nz), [nx, ny, nz]);
+  const cutTraction = useMemo(() => traction(stressMatrix, normal), [stressMatrix, normal]);
+  const invariants = useMemo(() => stressInvariants(stressMatrix, principal.values), [stressMatrix, principal]);
+  const material = useMemo(() => elasticConstants(materialModel, {
+    E1: e1, E2: e2, E3: e3, nu12: v12, nu13: v13, nu23: v23, G12: g12, G13: g13, G23: g23,
+  }), [materialModel, e1, e2, e3, v12, v13, v23, g12, g13, g23]);
+  const strain = useMemo(() => strainTensor(material, stressMatrix), [material, stressMatrix]);
+
+  const setStress = (s: StressState) => setParams({ sxx: s.xx, syy: s.yy, szz: s.zz, sxy: s.xy, sxz: s.xz, syz: s.yz, mode: 'point' });
+  // Al volver al modo punto se conserva el estado del punto sondeado
+  const setMode = (next: 'point' | 'field') => {
+    if (next === 'point') setStress(stress);
+    else setParams({ mode: next });
+  };
+  const setFieldComponent = (component: keyof StressField, expr: string) => setParams({ [`f${component}`]: expr });
+  const setBodyForce = ([x, y, z]: [string, string, string]) => setParams({ bx: x, by: y, bz: z });
+  const setProbe = ([x, y, z]: Vector3) => setParams({ px: x, py: y, pz: z });
+  const applyFieldExample = (f: StressField, [x, y, z]: [string, string, string]) => setParams({ fxx: f.xx, fyy: f.yy, fzz: f.zz, fxy: f.xy, fxz: f.xz, fyz: f.yz, bx: x, by: y, bz: z });
+  const setRotation = (r: { x: number; y: number; z: number }) => setParams({ rx: r.x, ry: r.y, rz: r.z });
+  const sweeping = sweepAngle !== null;
+  // Al detenerse, el ángulo alcanzado pasa a la URL
+  const setSweeping = (on: boolean) => {
+    if (on) setSweepAngle(0);
+    else if (sweepAngle !== null) {
+      setRotation({ ...rotation, [sweepAxis]: Math.round(sweepAngle) });
+      setSweepAngle(null);
+    }
+  };
+  const setShowDeformation = (on: boolean) => setParams({ def: on });
+  const setRawNormal = ([x, y, z]: Vector3) => setParams({ nx: x, ny: y, nz: z });
+  const setShowCut = (on: boolean) => setParams({ cut: on });
+  // Al cambiar de modelo se guardan las constantes derivadas: el material no cambia
+  const setMaterialModel = (model: MaterialModel) => setParams({ mat: model, ...constantParams(material) });
+  const setMaterialConstant = (key: keyof ElasticConstants, value: number) => setParams({ [CONSTANT_PARAMS[key]]: value });
+  const applyMaterialPreset = (preset: MaterialPreset) => {
+    const { E, nu } = MATERIAL_PRESETS[preset];
+    // Misma deformación aparente que el acero a ×1000
+    setParams({ mat: 'isotropic', ...constantParams(elasticConstants('isotropic', { ...material, E1: E, nu12: nu })), scale: 5 * E });
+  };
 
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -72,6 +510,11 @@ const StressTensor = () => {
   const arrowsGroupRef = useRef<THREE.Group | null>(null);
   const baseCubeRef = useRef<THREE.Mesh | null>(null);
   const deformedCubeRef = useRef<THREE.Mesh | null>(null);
+  const cutGroupRef = useRef<THREE.Group | null>(null);
+  const cutArrowsRef = useRef<THREE.Group | null>(null);
+  const cutDiskRef = useRef<THREE.Mesh | null>(null);
+  const normalSphereRef = useRef<THREE.Mesh | null>(null);
+  const normalHandleRef = useRef<THREE.Mesh | null>(null);
 
   const cubeSize = 2;
   const arrowScale = 0.03;
@@ -95,42 +538,7 @@ const StressTensor = () => {
   };
 
   const alignToPrincipal = () => {
-    // Algoritmo de Jacobi para diagonalizar la matriz simétrica 3x3
-    let A = [ [stress.xx, stress.xy, stress.xz], [stress.yx, stress.yy, stress.yz], [stress.zx, stress.zy, stress.zz] ];
-    let V = [ [1,0,0], [0,1,0], [0,0,1] ];
-    
-    for(let iter=0; iter<50; iter++) {
-      let max = 0, p = 0, q = 0;
-      for(let i=0; i<3; i++) {
-        for(let j=i+1; j<3; j++) {
-          if(Math.abs(A[i][j]) > max) { max = Math.abs(A[i][j]); p = i; q = j; }
-        }
-      }
-      if(max < 1e-6) break;
-      
-      let app = A[p][p], aqq = A[q][q], apq = A[p][q];
-      let tau = (aqq - app) / (2 * apq);
-      let t = tau === 0 ? 1 : Math.sign(tau) / (Math.abs(tau) + Math.sqrt(1 + tau * tau));
-      let c = 1 / Math.sqrt(1 + t * t);
-      let s = c * t;
-      
-      for(let i=0; i<3; i++) {
-        if(i!==p && i!==q) {
-          let aip = A[i][p], aiq = A[i][q];
-          A[i][p] = A[p][i] = c * aip - s * aiq;
-          A[i][q] = A[q][i] = c * aiq + s * aip;
-        }
-      }
-      A[p][p] = c*c*app - 2*s*c*apq + s*s*aqq;
-      A[q][q] = s*s*app + 2*s*c*apq + c*c*aqq;
-      A[p][q] = A[q][p] = 0;
-      
-      for(let i=0; i<3; i++) {
-        let vip = V[i][p], viq = V[i][q];
-        V[i][p] = c * vip - s * viq;
-        V[i][q] = c * viq + s * vip;
-      }
-    }
+    const { vectors: V } = jacobiEigen(stressMatrix);
     
     let m = new THREE.Matrix4();
     m.set(
@@ -148,47 +556,17 @@ const StressTensor = () => {
     });
   };
 
+  const axes = useMemo(() => rotationMatrix(rotation), [rotation]);
   const prime = useMemo(() => {
     // Rotar todo el tensor S_prime = R * S * R^T en 3D
-    const R = new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(
-      rotation.x * Math.PI / 180,
-      rotation.y * Math.PI / 180,
-      rotation.z * Math.PI / 180,
-      'XYZ'
-    ));
-    
-    const e = R.elements;
-    const r = [
-      [e[0], e[4], e[8]],
-      [e[1], e[5], e[9]],
-      [e[2], e[6], e[10]]
-    ];
-    
-    const S = [
-      [stress.xx, stress.xy, stress.xz],
-      [stress.yx, stress.yy, stress.yz],
-      [stress.zx, stress.zy, stress.zz]
-    ];
-    
-    const Sp = [[0,0,0], [0,0,0], [0,0,0]];
-    for(let i=0; i<3; i++) {
-      for(let j=0; j<3; j++) {
-        let sum = 0;
-        for(let k=0; k<3; k++) {
-          for(let l=0; l<3; l++) {
-            sum += r[i][k] * S[k][l] * r[j][l];
-          }
-        }
-        Sp[i][j] = sum;
-      }
-    }
-    
+    const Sp = rotateTensor(stressMatrix, axes);
     return {
       xx: Sp[0][0], xy: Sp[0][1], xz: Sp[0][2],
       yx: Sp[1][0], yy: Sp[1][1], yz: Sp[1][2],
       zx: Sp[2][0], zy: Sp[2][1], zz: Sp[2][2]
     };
-  }, [stress, rotation]);
+  }, [stressMatrix, axes]);
+  const strainPrime = useMemo(() => rotateTensor(strain, axes), [strain, axes]);
 
   useEffect(() => {
     if (!canvasRef.current || !containerRef.current) return;
@@ -232,6 +610,34 @@ const StressTensor = () => {
     mainGroup.add(arrowsGroup);
     arrowsGroupRef.current = arrowsGroup;
 
+    // El plano de corte vive en los ejes base: no gira con el cubo
+    const cutGroup = new THREE.Group();
+    cutGroup.visible = false;
+    scene.add(cutGroup);
+    cutGroupRef.current = cutGroup;
+
+    const normalSphere = new THREE.Mesh(
+      new THREE.SphereGeometry(NORMAL_SPHERE_RADIUS, 32, 16),
+      new THREE.MeshBasicMaterial({ color: 0xa78bfa, wireframe: true, transparent: true, opacity: 0.06 })
+    );
+    cutGroup.add(normalSphere);
+    normalSphereRef.current = normalSphere;
+
+    const normalHandle = new THREE.Mesh(new THREE.SphereGeometry(0.14, 16, 12), new THREE.MeshBasicMaterial({ color: 0xf59e0b }));
+    cutGroup.add(normalHandle);
+    normalHandleRef.current = normalHandle;
+
+    const cutDisk = new THREE.Mesh(
+      new THREE.CircleGeometry(1.6, 48),
+      new THREE.MeshBasicMaterial({ color: 0xa78bfa, transparent: true, opacity: 0.25, side: THREE.DoubleSide, depthWrite: false })
+    );
+    cutGroup.add(cutDisk);
+    cutDiskRef.current = cutDisk;
+
+    const cutArrows = new THREE.Group();
+    cutGroup.add(cutArrows);
+    cutArrowsRef.current = cutArrows;
+
     let frameId: number;
     const animate = () => {
       frameId = requestAnimationFrame(animate);
@@ -326,12 +732,14 @@ const StressTensor = () => {
     if (showDeformation) {
       deformedCubeRef.current.visible = true;
       (baseCubeRef.current.material as THREE.Material).opacity = 0.1;
-      const k = 0.005; 
+      // Gradiente de deformación lineal F = I + k ε, en los ejes rotados del cubo
+      const k = deformationScale;
+      const e = strainPrime;
       const m = new THREE.Matrix4();
       m.set(
-        1 + prime.xx*k, prime.xy*k, prime.xz*k, 0,
-        prime.yx*k, 1 + prime.yy*k, prime.yz*k, 0,
-        prime.zx*k, prime.zy*k, 1 + prime.zz*k, 0,
+        1 + e[0][0]*k, e[0][1]*k, e[0][2]*k, 0,
+        e[1][0]*k, 1 + e[1][1]*k, e[1][2]*k, 0,
+        e[2][0]*k, e[2][1]*k, 1 + e[2][2]*k, 0,
         0, 0, 0, 1
       );
       deformedCubeRef.current.matrixAutoUpdate = false;
@@ -340,17 +748,119 @@ const StressTensor = () => {
       deformedCubeRef.current.visible = false;
       (baseCubeRef.current.material as THREE.Material).opacity = 0.3;
     }
-  }, [showDeformation, prime]);
-
-  // Círculo de Mohr en base al plano de los ejes locales X e Y
-  const cx = (prime.xx + prime.yy) / 2;
-  const R = Math.sqrt(Math.pow((prime.xx - prime.yy) / 2, 2) + Math.pow(prime.xy, 2));
-  const minX = Math.min(0, cx - R - 20) || -10;
-  const maxX = Math.max(0, cx + R + 20) || 10;
-  const minY = Math.min(0, -R - 20, -prime.xy - 20, prime.xy - 20) || -10;
-  const maxY = Math.max(0, R + 20, -prime.xy + 20, prime.xy + 20) || 10;
-  const vBoxW = Math.max(maxX - minX, 10);
-  const vBoxH = Math.max(maxY - minY, 10);
+  }, [showDeformation, strainPrime, deformationScale]);
+
+  useEffect(() => {
+    const group = cutGroupRef.current, arrows = cutArrowsRef.current;
+    if (!group || !arrows || !cutDiskRef.current || !normalHandleRef.current) return;
+    group.visible = showCut;
+    while (arrows.children.length > 0) arrows.remove(arrows.children[0]);
+    if (!showCut) return;
+
+    const n = new THREE.Vector3(...normal);
+    normalHandleRef.current.position.copy(n.clone().multiplyScalar(NORMAL_SPHERE_RADIUS));
+    cutDiskRef.current.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), n);
+
+    const origin = new THREE.Vector3();
+    arrows.add(new THREE.ArrowHelper(n, origin, NORMAL_SPHERE_RADIUS, 0xf59e0b, 0.001, 0.001));
+    const addVector = (v: Vector3, color: number) => {
+      const vec = new THREE.Vector3(...v);
+      const length = vec.length() * arrowScale;
+      if (length < 0.05) return;
+      arrows.add(new THREE.ArrowHelper(vec.normalize(), origin, length, color, Math.min(0.25, length * 0.4), 0.12));
+    };
+    addVector(cutTraction.t, 0xa78bfa);
+    addVector(normal.map(c => c * cutTraction.sigmaN) as Vector3, cutTraction.sigmaN >= 0 ? 0xf43f5e : 0x0ea5e9);
+    addVector(cutTraction.shear, 0xeab308);
+  }, [showCut, normal, cutTraction]);
+
+  // Arrastrar el punto ámbar sobre la esfera orienta el plano de corte
+  useEffect(() => {
+    const renderer = rendererRef.current, camera = cameraRef.current, controls = controlsRef.current;
+    const sphere = normalSphereRef.current, handle = normalHandleRef.current;
+    if (!showCut || !renderer || !camera || !controls || !sphere || !handle) return;
+    const canvas = renderer.domElement;
+    const raycaster = new THREE.Raycaster();
+    let dragging = false;
+
+    const castRay = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+    };
+    const onDown = (e: PointerEvent) => {
+      castRay(e);
+      if (raycaster.intersectObject(handle).length === 0) return;
+      dragging = true;
+      controls.enabled = false;
+      canvas.setPointerCapture(e.pointerId);
+    };
+    const onMove = (e: PointerEvent) => {
+      if (!dragging) return;
+      castRay(e);
+      // Fuera de la esfera se toma el punto del rayo más cercano al centro
+      const hit = raycaster.intersectObject(sphere)[0]?.point ?? raycaster.ray.closestPointToPoint(new THREE.Vector3(), new THREE.Vector3());
+      const n = hit.normalize();
+      const round = (c: number) => Math.round(c * 1000) / 1000;
+      setParams({ nx: round(n.x), ny: round(n.y), nz: round(n.z) });
+    };
+    const onUp = (e: PointerEvent) => {
+      if (!dragging) return;
+      dragging = false;
+      controls.enabled = true;
+      canvas.releasePointerCapture(e.pointerId);
+    };
+
+    canvas.addEventListener('pointerdown', onDown);
+    canvas.addEventListener('pointermove', onMove);
+    canvas.addEventListener('pointerup', onUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', onDown);
+      canvas.removeEventListener('pointermove', onMove);
+      canvas.removeEventListener('pointerup', onUp);
+      controls.enabled = true;
+    };
+  }, [showCut, setParams]);
+
+  // Componentes en ejes base y en ejes rotados, para informes
+  const tensorTable = () => ({
+    columns: ['component', 'base', 'rotated'],
+    rows: (Object.keys(stress) as (keyof StressState)[]).map(key => [key, stress[key], prime[key]]),
+  });
+
+  useEffect(() => {
+    if (!sweeping) return;
+    const start = performance.now();
+    let frameId = requestAnimationFrame(function step(now) {
+      const angle = Math.min(180, ((now - start) / SWEEP_MS) * 180);
+      setSweepAngle(angle);
+      if (angle < 180) frameId = requestAnimationFrame(step);
+      else {
+        setParams({ [`r${sweepAxis}`]: 180 });
+        setSweepAngle(null);
+      }
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [sweeping, sweepAxis, setParams]);
+
+  // Esfuerzos principales y cortante máximo, leídos por las páginas que insertan la app;
+  // play/pause del protocolo de inserción controla el barrido angular
+  useAppControls({
+    playing: sweeping,
+    setPlaying: setSweeping,
+    measure: () => {
+      const [sigma1, sigma2, sigma3] = principal.values;
+      return {
+        sxx: prime.xx, syy: prime.yy, szz: prime.zz, sxy: prime.xy, sxz: prime.xz, syz: prime.yz,
+        sigma1, sigma2, sigma3, tauMax: maxShearPlane(principal).tauMax,
+        tx: cutTraction.t[0], ty: cutTraction.t[1], tz: cutTraction.t[2], sigmaN: cutTraction.sigmaN, tauN: cutTraction.tau,
+        I1: invariants.I1, I2: invariants.I2, I3: invariants.I3, vonMises: invariants.vonMises,
+        safetyVonMises: safetyFactor(yieldStrength, invariants.vonMises), safetyTresca: safetyFactor(yieldStrength, invariants.tresca),
+        exx: strain[0][0], eyy: strain[1][1], ezz: strain[2][2], exy: strain[0][1], exz: strain[0][2], eyz: strain[1][2],
+        volumetricStrain: volumetricStrain(strain),
+      };
+    },
+  });
 
   return (
     <div className="flex flex-col md:flex-row w-full h-[calc(100vh-64px)] bg-slate-900 text-slate-200 overflow-hidden font-sans relative">
@@ -360,29 +870,55 @@ const StressTensor = () => {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <div className="p-2 bg-indigo-500/20 text-indigo-400 rounded-lg"><Box className="w-5 h-5" /></div>
-              <h2 className="font-semibold text-white truncate flex items-center gap-2">Tensor de Esfuerzos</h2>
+              <h2 className="font-semibold text-white truncate flex items-center gap-2">{t('title')}</h2>
             </div>
             {isPortrait && (
-              <button onClick={() => setIsMobileMenuOpen(false)} className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white">
+              <button onClick={() => setIsMobileMenuOpen(false)} aria-label={t('common.closeSettings')} className="p-2 bg-slate-800 rounded-full text-slate-400 hover:text-white">
                 <X className="w-5 h-5" />
               </button>
             )}
           </div>
 
+          <div className="grid grid-cols-2 gap-1 p-1 bg-slate-950 rounded-lg border border-slate-800">
+            {(['point', 'field'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)} className={`py-1.5 text-xs rounded-md transition ${mode === m ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+                {t(`mode.${m}`)}
+              </button>
+            ))}
+          </div>
+
+          {fieldMode && (
+            <Suspense fallback={<div className="p-3 text-xs text-slate-500">{t('field.loading')}</div>}>
+              <StressFieldPanel
+                field={field}
+                body={bodyForce}
+                probe={probe}
+                onFieldChange={setFieldComponent}
+                onBodyChange={setBodyForce}
+                onProbeChange={setProbe}
+                onExample={applyFieldExample}
+                onStress={setFieldStress}
+              />
+            </Suspense>
+          )}
+
           <div className="flex flex-col gap-2">
-            <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider mb-1">Casos Físicos</h3>
+            <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider mb-1">{t('presets.title')}</h3>
             <div className="grid grid-cols-2 gap-2">
-              <button onClick={() => applyPreset({ xx: 100 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Activity className="w-4 h-4 text-rose-400" /> Tracción</button>
-              <button onClick={() => applyPreset({ yy: -120 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Mountain className="w-4 h-4 text-emerald-400" /> Compresión</button>
-              <button onClick={() => applyPreset({ xx: -80, yy: -80, zz: -80 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><ArrowDown className="w-4 h-4 text-cyan-400" /> Fluidostática</button>
-              <button onClick={() => applyPreset({ xy: 60, yx: 60 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Plane className="w-4 h-4 text-amber-400" /> Corte Puro</button>
+              <button onClick={() => applyPreset({ xx: 100 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Activity className="w-4 h-4 text-rose-400" /> {t('presets.tension')}</button>
+              <button onClick={() => applyPreset({ yy: -120 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Mountain className="w-4 h-4 text-emerald-400" /> {t('presets.compression')}</button>
+              <button onClick={() => applyPreset({ xx: -80, yy: -80, zz: -80 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><ArrowDown className="w-4 h-4 text-cyan-400" /> {t('presets.hydrostatic')}</button>
+              <button onClick={() => applyPreset({ xy: 60, yx: 60 })} className="p-2 text-xs bg-slate-800/80 hover:bg-slate-700 rounded border border-slate-700/50 flex flex-col items-center gap-1"><Plane className="w-4 h-4 text-amber-400" /> {t('presets.pureShear')}</button>
             </div>
+            <Suspense fallback={null}>
+              <StructuralPresets onApply={applyPreset} />
+            </Suspense>
           </div>
 
           <div className="flex flex-col gap-2">
             <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider mb-1 flex justify-between items-center">
-              <span>Matriz Base</span>
-              <button onClick={() => applyPreset(DEFAULT_STRESS)} className="text-slate-400 hover:text-slate-200"><RotateCcw className="w-4 h-4" /></button>
+              <span>{fieldMode ? t('field.atProbe') : t('baseMatrix')}</span>
+              <button onClick={() => applyPreset(DEFAULT_STRESS)} title={t('common.reset')} className="text-slate-400 hover:text-slate-200"><RotateCcw className="w-4 h-4" /></button>
             </h3>
             <div className="grid grid-cols-3 gap-1 bg-slate-950 p-2 rounded border border-slate-800">
               {['xx', 'xy', 'xz', 'yx', 'yy', 'yz', 'zx', 'zy', 'zz'].map((key) => {
@@ -390,18 +926,19 @@ const StressTensor = () => {
                 return (
                   <div key={key} className="flex flex-col gap-1 items-center">
                     <span className="text-[10px] text-slate-500 font-mono">{isDiag ? "σ_" + key : "τ_" + key}</span>
-                    <input type="number" value={stress[key as keyof StressState]} onChange={(e) => handleMatrixChange(key as keyof StressState, e.target.value)} className="w-full bg-slate-800 border  rounded px-1 py-1 text-center text-sm font-mono focus:outline-none focus:border-cyan-400" />
+                    <input type="number" readOnly={fieldMode} value={fieldMode ? Number(stress[key as keyof StressState].toFixed(3)) : stress[key as keyof StressState]} onChange={(e) => handleMatrixChange(key as keyof StressState, e.target.value)} className="w-full bg-slate-800 border  rounded px-1 py-1 text-center text-sm font-mono focus:outline-none focus:border-cyan-400" />
                   </div>
                 );
               })}
             </div>
+            <StrainMatrix strain={strain} />
           </div>
 
           <div className="flex flex-col gap-3 p-3 bg-slate-800/30 border border-slate-700 rounded-lg">
              <h3 className="text-sm font-semibold text-amber-400 flex items-center justify-between">
-               <span>Rotar Ejes Libres (3D)</span>
+               <span>{t('rotation.title')}</span>
                <button onClick={alignToPrincipal} className="text-[10px] bg-amber-500/20 text-amber-300 px-2 py-1 rounded border border-amber-500/30 flex items-center gap-1 hover:bg-amber-500/30 transition shadow-sm">
-                  <LocateFixed className="w-3 h-3" /> Diagonalizar 3D
+                  <LocateFixed className="w-3 h-3" /> {t('rotation.diagonalize')}
                </button>
              </h3>
              <div className="flex flex-col gap-2">
@@ -416,9 +953,9 @@ const StressTensor = () => {
 
              <div className="mt-2 p-3 bg-amber-950/20 rounded border border-amber-900/30">
                <div className="text-xs text-amber-200/80 mb-2 flex justify-between items-center font-medium">
-                 <span>Matriz Rotada</span>
+                 <span>{t('rotation.rotatedMatrix')}</span>
                  {Math.abs(prime.xy) < 0.1 && Math.abs(prime.xz) < 0.1 && Math.abs(prime.yz) < 0.1 && (
-                   <span className="text-[9px] bg-emerald-500/20 text-emerald-400 px-1.5 py-0.5 rounded border border-emerald-500/30 shadow-[0_0_10px_rgba(52,211,153,0.3)] animate-pulse">¡Autovalores!</span>
+                   <span className="text-[9px] bg-emerald-500/20 text-emerald-400 px-1.5 py-0.5 rounded border border-emerald-500/30 shadow-[0_0_10px_rgba(52,211,153,0.3)] animate-pulse">{t('rotation.eigenvalues')}</span>
                  )}
                </div>
                <div className="grid grid-cols-3 gap-1">
@@ -428,18 +965,50 @@ const StressTensor = () => {
                    const isZero = Math.abs(val) < 0.1;
                     return (
                       <div key={`prime-${key}`} className={`px-1 py-1 text-center text-xs font-mono rounded ${isDiag ? "text-white font-semibold" : "text-amber-100/70"} bg-slate-900/80 border border-slate-800/80`}>
-                        {isZero ? '0' : val.toFixed(1)}
+                        {isZero ? '0' : formatNumber(val, 1)}
                       </div>
                     );
                  })}
                </div>
                <p className="text-[10px] text-slate-500 mt-3 leading-relaxed">
-                 Si rotas en 3D hasta eliminar todos los cortantes (<InlineMath tex="	au'_{ij} pprox 0" />), la diagonal te dará los <strong>Esfuerzos Principales</strong> (Autovalores reales del espacio).
+                 {rich('rotation.hint', {
+                   shear: <InlineMath tex="	au'_{ij} pprox 0" />,
+                   principal: <strong>{t('rotation.principal')}</strong>,
+                 })}
                </p>
              </div>
+
+             <AngleSweep
+               stressMatrix={stressMatrix}
+               rotation={rotation}
+               axis={sweepAxis}
+               sweeping={sweepAngle !== null}
+               onAxisChange={(axis) => setParams({ sw: axis })}
+               onAngleChange={(angle) => setRotation({ ...rotation, [sweepAxis]: angle })}
+               onSweepChange={setSweeping}
+             />
           </div>
 
-          <MohrCircle prime={prime} cx={cx} R={R} minX={minX} maxX={maxX} minY={minY} maxY={maxY} vBoxW={vBoxW} vBoxH={vBoxH} />
+          <TractionPanel
+            raw={[nx, ny, nz]}
+            n={normal}
+            stressMatrix={stressMatrix}
+            result={cutTraction}
+            visible={showCut}
+            onNormalChange={setRawNormal}
+            onVisibleChange={setShowCut}
+          />
+
+          <MohrDiagram3D principal={principal} prime={prime} />
+
+          <YieldPanel
+            invariants={invariants}
+            principal={principal.values}
+            yieldStrength={yieldStrength}
+            showHaigh={showHaigh}
+            onYieldChange={(value) => setParams({ sy: value })}
+            onShowHaighChange={(visible) => setParams({ hw: visible })}
+          />
 
           <div className="flex flex-col gap-2 mt-2">
             <label className="flex items-center gap-3 cursor-pointer p-3 bg-indigo-900/20 border border-indigo-500/30 rounded-lg hover:bg-indigo-900/40 transition-colors mt-4">
@@ -448,27 +1017,44 @@ const StressTensor = () => {
                 <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${showDeformation ? "translate-x-4" : ""}`} />
               </div>
               <div className="flex flex-col">
-                <span className="text-sm font-medium text-indigo-100">Ver Deformación</span>
-                <span className="text-[10px] text-indigo-300/70">Ilustrativo en sistema local</span>
+                <span className="text-sm font-medium text-indigo-100">{t('deformation.title')}</span>
+                <span className="text-[10px] text-indigo-300/70">{t('deformation.hint')}</span>
               </div>
             </label>
+            <MaterialPanel
+              model={materialModel}
+              constants={material}
+              scale={deformationScale}
+              onModelChange={setMaterialModel}
+              onConstantChange={setMaterialConstant}
+              onPreset={applyMaterialPreset}
+              onScaleChange={(scale) => setParams({ scale })}
+            />
           </div>
         </div>
       </div>
 
       <div className="flex-1 relative bg-[#0a0f1c] flex flex-col" ref={containerRef}>
         <canvas ref={canvasRef} className="w-full h-full block touch-none" />
+
+        <ExportToolbar
+          fileName="tensor-esfuerzos"
+          png={() => captureWebGL(rendererRef.current!, sceneRef.current!, cameraRef.current!)}
+          table={tensorTable}
+          json={() => ({ stress, rotationDeg: rotation, rotated: prime, principal: { values: principal.values, directions: principal.directions, ...maxShearPlane(principal) }, invariants, yieldStrength, ...(fieldMode && { field: { components: field, bodyForce, probe } }), material: { model: materialModel, constants: material, strain, volumetricStrain: volumetricStrain(strain) } })}
+          className="absolute top-4 right-4 z-10"
+        />
         
         <div className="absolute top-4 left-4 pointer-events-none select-none">
           <div className="bg-slate-900/60 backdrop-blur rounded p-2 text-xs font-mono text-slate-300 border border-slate-800 flex flex-col gap-1">
-            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-rose-500 inline-block"/> Tracción (+)</div>
-            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-sky-500 inline-block"/> Compresión (-)</div>
-            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-yellow-500 inline-block"/> Corte (τ)</div>
+            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-rose-500 inline-block"/> {t('legend.tension')}</div>
+            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-sky-500 inline-block"/> {t('legend.compression')}</div>
+            <div className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-yellow-500 inline-block"/> {t('legend.shear')}</div>
           </div>
         </div>
 
         {isPortrait && !isMobileMenuOpen && (
-          <button onClick={() => setIsMobileMenuOpen(true)} className="absolute bottom-4 right-4 z-10 bg-indigo-600 text-white p-3 rounded-full shadow-lg border border-indigo-400">
+          <button onClick={() => setIsMobileMenuOpen(true)} aria-label={t('common.openSettings')} className="absolute bottom-4 right-4 z-10 bg-indigo-600 text-white p-3 rounded-full shadow-lg border border-indigo-400">
              <Settings className="w-6 h-6" />
           </button>
         )}
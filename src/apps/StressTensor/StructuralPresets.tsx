@@ -0,0 +1,73 @@
+import { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { MathRender } from '../../lib/MathRender';
+import { STRESS_LIMIT, STRUCTURAL_PROBLEMS, initialValues, solveBounded } from './structural';
+import type { StressComponents, StructuralProblemKey } from './structural';
+
+interface StructuralPresetsProps {
+  onApply: (stress: StressComponents) => void;
+}
+
+// Casos físicos paramétricos: geometría y carga de un problema clásico → σ en un punto
+export default function StructuralPresets({ onApply }: StructuralPresetsProps) {
+  const { t, formatNumber } = useI18n(MESSAGES);
+  const [problemKey, setProblemKey] = useState<StructuralProblemKey>('vessel');
+  const [values, setValues] = useState(() => initialValues(STRUCTURAL_PROBLEMS.vessel));
+  const problem = STRUCTURAL_PROBLEMS[problemKey];
+  // Se acota al resolver y no al escribir, para no saltar mientras se teclea "0.5"
+  const { solution, stress, loadFactor } = useMemo(() => solveBounded(problem, values), [problem, values]);
+
+  const selectProblem = (key: StructuralProblemKey) => {
+    setProblemKey(key);
+    setValues(initialValues(STRUCTURAL_PROBLEMS[key]));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-slate-800/30 border border-slate-700 rounded-lg">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-slate-300">{t('presets.structural.title')}</span>
+        <select value={problemKey} onChange={(e) => selectProblem(e.target.value as StructuralProblemKey)} className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:outline-none">
+          {(Object.keys(STRUCTURAL_PROBLEMS) as StructuralProblemKey[]).map(key => (
+            <option key={key} value={key}>{t(`presets.structural.problems.${key}.title`)}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-[10px] text-slate-500 leading-relaxed">{t(`presets.structural.problems.${problemKey}.point`)}</p>
+
+      <div className="grid grid-cols-3 gap-1">
+        {problem.params.map(param => (
+          <label key={param.key} className="flex flex-col gap-1 items-center">
+            <span className="text-[10px] text-slate-500 flex items-baseline gap-1">
+              <MathRender math={param.tex} inline />
+              {param.unit && <span className="font-mono">{param.unit}</span>}
+            </span>
+            <input
+              type="number" min={param.min} max={param.max} value={values[param.key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setValues({ ...values, [param.key]: value });
+              }}
+              className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-center text-xs font-mono focus:outline-none focus:border-cyan-400"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto text-xs text-slate-200 bg-slate-950/60 rounded border border-slate-800 px-2">
+        {solution.steps.map((step, i) => <MathRender key={i} math={step} />)}
+      </div>
+      {solution.unit !== 'MPa' && <p className="text-[10px] text-amber-300/80">{t('presets.structural.unit', { unit: solution.unit })}</p>}
+      {loadFactor < 1 && (
+        <p className="text-[10px] text-amber-300/80">
+          {t('presets.structural.reduced', { percent: formatNumber(loadFactor * 100, 2), limit: STRESS_LIMIT })}
+        </p>
+      )}
+
+      <button onClick={() => onApply(stress)} className="flex items-center justify-center gap-2 py-1.5 text-xs bg-cyan-500/20 text-cyan-200 rounded border border-cyan-500/30 hover:bg-cyan-500/30 transition">
+        <Download className="w-3 h-3" /> {t('presets.structural.apply')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+// Campo de esfuerzos σ(x, y, z) y su equilibrio ∇·σ + b = 0. Este módulo trae
+// mathjs, así que solo lo importa el panel del modo campo (carga diferida).
+import * as math from 'mathjs';
+import type { Matrix3, Vector3 } from './principal';
+
+export const FIELD_COMPONENTS = ['xx', 'yy', 'zz', 'xy', 'xz', 'yz'] as const;
+export type FieldComponent = (typeof FIELD_COMPONENTS)[number];
+export type StressField = Record<FieldComponent, string>;
+
+export const FIELD_AXES = ['x', 'y', 'z'] as const;
+
+// El cuerpo es el cubo −1 ≤ x, y, z ≤ 1, como en el tensor de deformaciones
+export const BODY_HALF_SIZE = 1;
+const GRID_DIVISIONS = 7;
+
+// Campos de ejemplo para las tareas; los nombres están en locales/ (`field.examples.<clave>`)
+export const FIELD_EXAMPLES = {
+  bending: { field: { xx: '-60*x*y', yy: '0', zz: '0', xy: '30*(y^2 - 1)', xz: '0', yz: '0' }, body: ['0', '0', '0'] },
+  selfWeight: { field: { xx: '0', yy: '0', zz: '25*(z - 1)', xy: '0', xz: '0', yz: '0' }, body: ['0', '0', '-25'] },
+  candidate: { field: { xx: '40*x^2', yy: '-20*y^2', zz: '0', xy: '10*x*y', xz: '0', yz: '0' }, body: ['0', '0', '0'] },
+} satisfies Record<string, { field: StressField; body: [string, string, string] }>;
+export type FieldExample = keyof typeof FIELD_EXAMPLES;
+
+export interface EquilibriumEquation {
+  axis: (typeof FIELD_AXES)[number];
+  residualTex: string; // ∂σix/∂x + ∂σiy/∂y + ∂σiz/∂z + bi, simplificado
+  satisfied: boolean;
+  atProbe: number;
+  worst: { point: Vector3; value: number }; // Mayor |residuo| en la malla del cuerpo
+}
+
+export interface StressFieldAnalysis {
+  stress: Matrix3; // σ en el punto de sondeo
+  equations: EquilibriumEquation[];
+}
+
+const parse = (expr: string) => math.parse(expr.trim() === '' ? '0' : expr);
+
+// Fila i del tensor como expresiones: σix, σiy, σiz
+const rows = (f: StressField): string[][] => [
+  [f.xx, f.xy, f.xz],
+  [f.xy, f.yy, f.yz],
+  [f.xz, f.yz, f.zz],
+];
+
+function evaluate(code: math.EvalFunction, [x, y, z]: Vector3): number {
+  const value = code.evaluate({ x, y, z });
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`valor no real en (${x}, ${y}, ${z})`);
+  }
+  return value;
+}
+
+function gridPoints(): Vector3[] {
+  const points: Vector3[] = [];
+  const step = (2 * BODY_HALF_SIZE) / (GRID_DIVISIONS - 1);
+  for (let i = 0; i < GRID_DIVISIONS; i++) {
+    for (let j = 0; j < GRID_DIVISIONS; j++) {
+      for (let k = 0; k < GRID_DIVISIONS; k++) {
+        points.push([-BODY_HALF_SIZE + i * step, -BODY_HALF_SIZE + j * step, -BODY_HALF_SIZE + k * step]);
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Evalúa σ en el punto de sondeo y comprueba las tres ecuaciones de equilibrio.
+ * La divergencia se deriva simbólicamente; como `simplify` no siempre llega a 0
+ * (p. ej. con identidades trigonométricas), la ecuación se da por cumplida si
+ * el residuo se anula en toda la malla del cuerpo. Lanza con los errores de sintaxis.
+ */
+export function analyzeStressField(field: StressField, body: [string, string, string], probe: Vector3): StressFieldAnalysis {
+  const nodes = rows(field).map(row => row.map(parse));
+  const stress = nodes.map(row => row.map(node => evaluate(node.compile(), probe)));
+  const grid = gridPoints();
+
+  const equations = FIELD_AXES.map((axis, i) => {
+    const divergence = nodes[i].map((node, j) => math.derivative(node, FIELD_AXES[j]).toString());
+    const residual = math.simplify(`${divergence.map(d => `(${d})`).join(' + ')} + (${parse(body[i]).toString()})`);
+    const code = residual.compile();
+    const values = grid.map(point => ({ point, value: evaluate(code, point) }));
+    const worst = values.reduce((a, b) => (Math.abs(b.value) > Math.abs(a.value) ? b : a));
+    const scale = 1 + Math.max(...stress.flat().map(Math.abs));
+    return {
+      axis,
+      residualTex: residual.toTex(),
+      satisfied: Math.abs(worst.value) <= 1e-9 * scale,
+      atProbe: evaluate(code, probe),
+      worst,
+    };
+  });
+
+  return { stress, equations };
+}
@@ -0,0 +1,36 @@
+// Invariantes, parte desviadora y criterios de fluencia de un tensor simétrico.
+import type { Matrix3, Vector3 } from './principal';
+
+export interface StressInvariants {
+  I1: number;
+  I2: number;
+  I3: number;
+  mean: number; // Esfuerzo medio (hidrostático), I1/3
+  deviatoric: Matrix3; // s = σ − σm I
+  J2: number;
+  vonMises: number; // √(3 J2)
+  tresca: number; // σ1 − σ3, esfuerzo equivalente de Tresca
+  octahedralShear: number; // √(2 J2 / 3)
+}
+
+export function stressInvariants(S: Matrix3, principal: Vector3): StressInvariants {
+  const [[xx, xy, xz], [, yy, yz], [, , zz]] = S;
+  const I1 = xx + yy + zz;
+  const I2 = xx * yy + yy * zz + zz * xx - xy * xy - yz * yz - xz * xz;
+  const I3 = xx * (yy * zz - yz * yz) - xy * (xy * zz - yz * xz) + xz * (xy * yz - yy * xz);
+  const mean = I1 / 3;
+  const deviatoric = S.map((row, i) => row.map((value, j) => (i === j ? value - mean : value)));
+  // J2 = I1²/3 − I2; el máximo evita un −0.0000001 por redondeo en estados hidrostáticos
+  const J2 = Math.max(0, (I1 * I1) / 3 - I2);
+  return {
+    I1, I2, I3, mean, deviatoric, J2,
+    vonMises: Math.sqrt(3 * J2),
+    tresca: principal[0] - principal[2],
+    octahedralShear: Math.sqrt((2 * J2) / 3),
+  };
+}
+
+// Factor de seguridad frente a la fluencia; infinito sin esfuerzo equivalente.
+export function safetyFactor(yieldStrength: number, equivalent: number): number {
+  return equivalent < 1e-9 ? Infinity : yieldStrength / equivalent;
+}
@@ -0,0 +1,73 @@
+// Modelos elásticos lineales para pasar de esfuerzo a deformación, ε = C⁻¹:σ.
+// Los ejes del material 1, 2, 3 coinciden con los ejes base x, y, z.
+// Esfuerzos en MPa y módulos en GPa; las deformaciones salen adimensionales.
+import type { Matrix3 } from './principal';
+
+export const MATERIAL_MODELS = ['isotropic', 'transverse', 'orthotropic'] as const;
+export type MaterialModel = (typeof MATERIAL_MODELS)[number];
+
+// Las nueve constantes ortótropas cubren los tres modelos: el isótropo usa E1 y ν12,
+// el transversalmente isótropo (plano de isotropía 1-2, eje 3) usa E1, ν12, E3, ν13 y G13.
+export interface ElasticConstants {
+  E1: number; E2: number; E3: number;
+  nu12: number; nu13: number; nu23: number; // νij = −εj/εi bajo esfuerzo uniaxial en i
+  G12: number; G13: number; G23: number;
+}
+
+export const MATERIAL_PRESETS = {
+  steel: { E: 200, nu: 0.3 },
+  aluminum: { E: 69, nu: 0.33 },
+  rubber: { E: 0.01, nu: 0.49 },
+  concrete: { E: 30, nu: 0.2 },
+} as const;
+export type MaterialPreset = keyof typeof MATERIAL_PRESETS;
+
+const shearModulus = (E: number, nu: number) => E / (2 * (1 + nu));
+
+// Completa las constantes que el modelo deriva de las demás.
+export function elasticConstants(model: MaterialModel, c: ElasticConstants): ElasticConstants {
+  if (model === 'isotropic') {
+    const G = shearModulus(c.E1, c.nu12);
+    return { E1: c.E1, E2: c.E1, E3: c.E1, nu12: c.nu12, nu13: c.nu12, nu23: c.nu12, G12: G, G13: G, G23: G };
+  }
+  if (model === 'transverse') {
+    return { ...c, E2: c.E1, nu23: c.nu13, G12: shearModulus(c.E1, c.nu12), G23: c.G13 };
+  }
+  return c;
+}
+
+// Flexibilidad C⁻¹ en notación de Voigt [11, 22, 33, 23, 13, 12] con γ ingenieril.
+export function complianceMatrix(c: ElasticConstants): number[][] {
+  const { E1, E2, E3, nu12, nu13, nu23, G12, G13, G23 } = c;
+  return [
+    [1 / E1, -nu12 / E1, -nu13 / E1, 0, 0, 0],
+    [-nu12 / E1, 1 / E2, -nu23 / E2, 0, 0, 0],
+    [-nu13 / E1, -nu23 / E2, 1 / E3, 0, 0, 0],
+    [0, 0, 0, 1 / G23, 0, 0],
+    [0, 0, 0, 0, 1 / G13, 0],
+    [0, 0, 0, 0, 0, 1 / G12],
+  ];
+}
+
+// Un material es físicamente admisible si su energía de deformación es positiva:
+// módulos positivos y menores principales del bloque normal positivos.
+export function isAdmissible(c: ElasticConstants): boolean {
+  if ([c.E1, c.E2, c.E3, c.G12, c.G13, c.G23].some(m => !(m > 0))) return false;
+  const [[a, b, d], [, e, f], [, , g]] = complianceMatrix(c);
+  const minor2 = a * e - b * b;
+  const minor3 = a * (e * g - f * f) - b * (b * g - f * d) + d * (b * f - e * d);
+  return minor2 > 0 && minor3 > 0;
+}
+
+export function strainTensor(c: ElasticConstants, S: Matrix3): Matrix3 {
+  const sigma = [S[0][0], S[1][1], S[2][2], S[1][2], S[0][2], S[0][1]];
+  // MPa / GPa → factor 1e-3
+  const [e11, e22, e33, g23, g13, g12] = complianceMatrix(c).map(row => row.reduce((sum, v, k) => sum + v * sigma[k], 0) / 1000);
+  return [
+    [e11, g12 / 2, g13 / 2],
+    [g12 / 2, e22, g23 / 2],
+    [g13 / 2, g23 / 2, e33],
+  ];
+}
+
+export const volumetricStrain = (e: Matrix3) => e[0][0] + e[1][1] + e[2][2];
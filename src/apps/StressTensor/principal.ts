@@ -0,0 +1,71 @@
+// Esfuerzos principales de un tensor simétrico 3x3. Fuera del componente para
+// que los diagramas (Mohr 3D) y los botones compartan el mismo cálculo.
+export type Matrix3 = number[][];
+export type Vector3 = [number, number, number];
+
+export interface PrincipalStresses {
+  values: Vector3; // σ1 ≥ σ2 ≥ σ3
+  directions: [Vector3, Vector3, Vector3]; // Unitarias, en los ejes base
+}
+
+/**
+ * Algoritmo de Jacobi para diagonalizar la matriz simétrica 3x3.
+ * Devuelve los autovalores en la diagonal de A y los autovectores como
+ * columnas de V, una rotación propia (det = +1), sin ordenar.
+ */
+export function jacobiEigen(S: Matrix3): { values: Vector3; vectors: Matrix3 } {
+  const A = S.map(row => [...row]);
+  const V = [ [1,0,0], [0,1,0], [0,0,1] ];
+
+  for(let iter=0; iter<50; iter++) {
+    let max = 0, p = 0, q = 0;
+    for(let i=0; i<3; i++) {
+      for(let j=i+1; j<3; j++) {
+        if(Math.abs(A[i][j]) > max) { max = Math.abs(A[i][j]); p = i; q = j; }
+      }
+    }
+    if(max < 1e-6) break;
+
+    const app = A[p][p], aqq = A[q][q], apq = A[p][q];
+    const tau = (aqq - app) / (2 * apq);
+    const tan = tau === 0 ? 1 : Math.sign(tau) / (Math.abs(tau) + Math.sqrt(1 + tau * tau));
+    const c = 1 / Math.sqrt(1 + tan * tan);
+    const s = c * tan;
+
+    for(let i=0; i<3; i++) {
+      if(i!==p && i!==q) {
+        const aip = A[i][p], aiq = A[i][q];
+        A[i][p] = A[p][i] = c * aip - s * aiq;
+        A[i][q] = A[q][i] = c * aiq + s * aip;
+      }
+    }
+    A[p][p] = c*c*app - 2*s*c*apq + s*s*aqq;
+    A[q][q] = s*s*app + 2*s*c*apq + c*c*aqq;
+    A[p][q] = A[q][p] = 0;
+
+    for(let i=0; i<3; i++) {
+      const vip = V[i][p], viq = V[i][q];
+      V[i][p] = c * vip - s * viq;
+      V[i][q] = c * viq + s * vip;
+    }
+  }
+
+  return { values: [A[0][0], A[1][1], A[2][2]], vectors: V };
+}
+
+export function principalStresses(S: Matrix3): PrincipalStresses {
+  const { values, vectors } = jacobiEigen(S);
+  const order = [0, 1, 2].sort((a, b) => values[b] - values[a]);
+  const column = (k: number): Vector3 => [vectors[0][k], vectors[1][k], vectors[2][k]];
+  return {
+    values: [values[order[0]], values[order[1]], values[order[2]]],
+    directions: [column(order[0]), column(order[1]), column(order[2])],
+  };
+}
+
+// τmax = (σ1 − σ3)/2 actúa en los planos cuya normal biseca las direcciones de σ1 y σ3.
+export function maxShearPlane({ values, directions }: PrincipalStresses): { tauMax: number; normal: Vector3 } {
+  const [d1, , d3] = directions;
+  const normal = d1.map((c, i) => (c + d3[i]) / Math.SQRT2) as Vector3;
+  return { tauMax: (values[0] - values[2]) / 2, normal };
+}
@@ -0,0 +1,37 @@
+// Cambio de base de los ejes libres del cubo.
+import * as THREE from 'three';
+import type { Matrix3 } from './principal';
+
+export type Rotation = { x: number; y: number; z: number };
+
+// Matriz de rotación de los ejes libres (grados, orden XYZ), por filas
+export const rotationMatrix = ({ x, y, z }: Rotation): Matrix3 => {
+  const e = new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(
+    x * Math.PI / 180,
+    y * Math.PI / 180,
+    z * Math.PI / 180,
+    'XYZ'
+  )).elements;
+  return [
+    [e[0], e[4], e[8]],
+    [e[1], e[5], e[9]],
+    [e[2], e[6], e[10]]
+  ];
+};
+
+// T' = R T Rᵀ: el mismo cambio de base para esfuerzos y deformaciones
+export const rotateTensor = (T: Matrix3, r: Matrix3): Matrix3 => {
+  const Tp = [[0,0,0], [0,0,0], [0,0,0]];
+  for(let i=0; i<3; i++) {
+    for(let j=0; j<3; j++) {
+      let sum = 0;
+      for(let k=0; k<3; k++) {
+        for(let l=0; l<3; l++) {
+          sum += r[i][k] * T[k][l] * r[j][l];
+        }
+      }
+      Tp[i][j] = sum;
+    }
+  }
+  return Tp;
+};
@@ -0,0 +1,177 @@
+// Estados de esfuerzo derivados de problemas estructurales clásicos. Cada problema
+// toma su geometría y su carga, y devuelve σ en el punto elegido junto con los
+// pasos de la deducción en LaTeX. Los nombres y la descripción del punto están
+// en locales/ (`structural.problems.<clave>`).
+
+export type StressComponents = Partial<Record<'xx' | 'yy' | 'zz' | 'xy' | 'xz' | 'yz', number>>;
+
+// Mayor |σ| que admite el cubo, en MPa: es también el recorte de sus componentes en la URL
+export const STRESS_LIMIT = 1000;
+
+export interface ProblemParam {
+  key: string;
+  tex: string; // Símbolo en LaTeX
+  unit: string;
+  value: number; // Valor inicial
+  min: number;
+  max: number;
+  load?: boolean; // σ es lineal en las cargas: se pueden reducir juntas
+}
+
+export interface ProblemSolution {
+  stress: StressComponents;
+  steps: string[]; // Una línea de LaTeX por paso
+  unit: 'MPa' | 'kPa';
+}
+
+export interface StructuralProblem {
+  params: ProblemParam[];
+  solve: (v: Record<string, number>) => ProblemSolution;
+}
+
+const TO_MPA: Record<ProblemSolution['unit'], number> = { MPa: 1, kPa: 1e-3 };
+
+// Números en LaTeX con punto decimal, sin depender del idioma
+const num = (value: number, digits = 2) => {
+  const fixed = value.toFixed(digits);
+  return Number(fixed) === 0 ? '0' : fixed;
+};
+
+// Recipiente cilíndrico de pared delgada: x axial, y circunferencial, z radial
+const vessel: StructuralProblem = {
+  params: [
+    { key: 'p', tex: 'p', unit: 'MPa', value: 2, min: 0, max: 100, load: true },
+    { key: 'r', tex: 'r', unit: 'mm', value: 500, min: 1, max: 10000 },
+    { key: 't', tex: 't', unit: 'mm', value: 10, min: 0.1, max: 1000 },
+  ],
+  solve: ({ p, r, t }) => {
+    const axial = (p * r) / (2 * t);
+    const hoop = (p * r) / t;
+    return {
+      stress: { xx: axial, yy: hoop },
+      unit: 'MPa',
+      steps: [
+        `\\frac{r}{t} = \\frac{${num(r, 1)}}{${num(t, 1)}} = ${num(r / t, 1)} ${r / t >= 10 ? '\\geq' : '<'} 10`,
+        `\\sigma_{xx} = \\frac{p\\,r}{2t} = \\frac{${num(p)} \\cdot ${num(r, 1)}}{2 \\cdot ${num(t, 1)}} = ${num(axial)}\\ \\text{MPa}`,
+        `\\sigma_{yy} = \\frac{p\\,r}{t} = \\frac{${num(p)} \\cdot ${num(r, 1)}}{${num(t, 1)}} = ${num(hoop)}\\ \\text{MPa}`,
+        `\\sigma_{zz} \\approx 0 \\quad (\\sigma_r \\ll \\sigma_\\theta)`,
+      ],
+    };
+  },
+};
+
+// Eje macizo con torsión y carga axial, punto en la superficie: x axial, y tangencial
+const shaft: StructuralProblem = {
+  params: [
+    { key: 'T', tex: 'T', unit: 'N·m', value: 2000, min: -1e6, max: 1e6, load: true },
+    { key: 'P', tex: 'P', unit: 'kN', value: 50, min: -1e4, max: 1e4, load: true },
+    { key: 'd', tex: 'd', unit: 'mm', value: 50, min: 1, max: 2000 },
+  ],
+  solve: ({ T, P, d }) => {
+    const area = (Math.PI * d * d) / 4;
+    const axial = (P * 1e3) / area;
+    const tau = (16 * T * 1e3) / (Math.PI * d ** 3);
+    return {
+      stress: { xx: axial, xy: tau },
+      unit: 'MPa',
+      steps: [
+        `A = \\frac{\\pi d^2}{4} = ${num(area, 1)}\\ \\text{mm}^2`,
+        `\\sigma_{xx} = \\frac{P}{A} = \\frac{${num(P * 1e3, 0)}\\ \\text{N}}{${num(area, 1)}\\ \\text{mm}^2} = ${num(axial)}\\ \\text{MPa}`,
+        `\\tau_{xy} = \\frac{T\\,c}{J} = \\frac{16\\,T}{\\pi d^3} = \\frac{16 \\cdot ${num(T * 1e3, 0)}\\ \\text{N·mm}}{\\pi \\cdot ${num(d, 1)}^3\\ \\text{mm}^3} = ${num(tau)}\\ \\text{MPa}`,
+      ],
+    };
+  },
+};
+
+// Viga de sección rectangular con flexión y cortante: x axial, y vertical desde el eje neutro
+const beam: StructuralProblem = {
+  params: [
+    { key: 'M', tex: 'M', unit: 'kN·m', value: 20, min: -1e4, max: 1e4, load: true },
+    { key: 'V', tex: 'V', unit: 'kN', value: 40, min: -1e4, max: 1e4, load: true },
+    { key: 'b', tex: 'b', unit: 'mm', value: 100, min: 1, max: 5000 },
+    { key: 'h', tex: 'h', unit: 'mm', value: 200, min: 1, max: 5000 },
+    { key: 'y', tex: 'y', unit: 'mm', value: 50, min: -2500, max: 2500 },
+  ],
+  solve: ({ M, V, b, h, y: rawY }) => {
+    // El punto tiene que estar dentro de la sección
+    const y = Math.max(-h / 2, Math.min(h / 2, rawY));
+    const inertia = (b * h ** 3) / 12;
+    const sigma = (-M * 1e6 * y) / inertia;
+    const firstMoment = (b / 2) * ((h * h) / 4 - y * y);
+    const tau = (V * 1e3 * firstMoment) / (inertia * b);
+    return {
+      stress: { xx: sigma, xy: tau },
+      unit: 'MPa',
+      steps: [
+        `I = \\frac{b\\,h^3}{12} = ${num(inertia, 0)}\\ \\text{mm}^4`,
+        `\\sigma_{xx} = -\\frac{M\\,y}{I} = -\\frac{${num(M * 1e6, 0)} \\cdot ${num(y, 1)}}{${num(inertia, 0)}} = ${num(sigma)}\\ \\text{MPa}`,
+        `Q = \\frac{b}{2}\\left(\\frac{h^2}{4} - y^2\\right) = ${num(firstMoment, 0)}\\ \\text{mm}^3`,
+        `\\tau_{xy} = \\frac{V\\,Q}{I\\,b} = \\frac{${num(V * 1e3, 0)} \\cdot ${num(firstMoment, 0)}}{${num(inertia, 0)} \\cdot ${num(b, 1)}} = ${num(tau)}\\ \\text{MPa}`,
+      ],
+    };
+  },
+};
+
+// Carga puntual sobre un semiespacio elástico (Boussinesq): x radial, y circunferencial,
+// z hacia abajo. La geotecnia toma la compresión positiva; aquí la tracción es positiva.
+const footing: StructuralProblem = {
+  params: [
+    { key: 'P', tex: 'P', unit: 'kN', value: 500, min: 0, max: 1e5, load: true },
+    { key: 'z', tex: 'z', unit: 'm', value: 2, min: 0.01, max: 100 },
+    { key: 'r', tex: 'r', unit: 'm', value: 1, min: 0, max: 100 },
+    { key: 'nu', tex: '\\nu', unit: '', value: 0.3, min: 0, max: 0.5 },
+  ],
+  solve: ({ P, z, r, nu }) => {
+    const R = Math.hypot(r, z);
+    const k = P / (2 * Math.PI);
+    const sz = (3 * k * z ** 3) / R ** 5;
+    const sr = k * ((3 * r * r * z) / R ** 5 - (1 - 2 * nu) / (R * (R + z)));
+    const st = (1 - 2 * nu) * k * (1 / (R * (R + z)) - z / R ** 3);
+    const trz = (3 * k * r * z * z) / R ** 5;
+    return {
+      stress: { xx: -sr, yy: -st, zz: -sz, xz: -trz },
+      unit: 'kPa',
+      steps: [
+        `R = \\sqrt{r^2 + z^2} = ${num(R, 3)}\\ \\text{m}`,
+        `\\sigma_z = \\frac{3P}{2\\pi}\\frac{z^3}{R^5} = ${num(sz)}\\ \\text{kPa}`,
+        `\\sigma_r = \\frac{P}{2\\pi}\\left(\\frac{3r^2 z}{R^5} - \\frac{1-2\\nu}{R(R+z)}\\right) = ${num(sr)}\\ \\text{kPa}`,
+        `\\sigma_\\theta = \\frac{(1-2\\nu)P}{2\\pi}\\left(\\frac{1}{R(R+z)} - \\frac{z}{R^3}\\right) = ${num(st)}\\ \\text{kPa}`,
+        `\\tau_{rz} = \\frac{3P}{2\\pi}\\frac{r z^2}{R^5} = ${num(trz)}\\ \\text{kPa}`,
+        `\\sigma_{xx} = -\\sigma_r,\\ \\sigma_{yy} = -\\sigma_\\theta,\\ \\sigma_{zz} = -\\sigma_z,\\ \\tau_{xz} = -\\tau_{rz}`,
+      ],
+    };
+  },
+};
+
+export const STRUCTURAL_PROBLEMS = { vessel, shaft, beam, footing };
+export type StructuralProblemKey = keyof typeof STRUCTURAL_PROBLEMS;
+
+export const initialValues = (problem: StructuralProblem) =>
+  Object.fromEntries(problem.params.map(p => [p.key, p.value])) as Record<string, number>;
+
+export interface BoundedSolution {
+  solution: ProblemSolution;
+  stress: StressComponents; // En MPa, lista para el cubo
+  loadFactor: number; // 1 si no hubo que reducir las cargas
+}
+
+/**
+ * Resuelve con cada valor acotado a su rango. Si algún esfuerzo pasaría de
+ * STRESS_LIMIT, las cargas se reducen en la misma proporción y se vuelve a
+ * resolver, así la deducción muestra exactamente el estado que recibe el cubo.
+ */
+export function solveBounded(problem: StructuralProblem, values: Record<string, number>): BoundedSolution {
+  const bounded = Object.fromEntries(
+    problem.params.map(({ key, min, max }) => [key, Math.max(min, Math.min(max, values[key]))])
+  );
+  const first = problem.solve(bounded);
+  const peak = Math.max(0, ...Object.values(first.stress).map(v => Math.abs(v) * TO_MPA[first.unit]));
+  const loadFactor = peak > STRESS_LIMIT ? STRESS_LIMIT / peak : 1;
+  const solution = loadFactor === 1 ? first : problem.solve(Object.fromEntries(
+    problem.params.map(({ key, load }) => [key, load ? bounded[key] * loadFactor : bounded[key]])
+  ));
+  const stress = Object.fromEntries(
+    Object.entries(solution.stress).map(([key, v]) => [key, v * TO_MPA[solution.unit]])
+  ) as StressComponents;
+  return { solution, stress, loadFactor };
+}
@@ -0,0 +1,23 @@
+// Vector de tracción de Cauchy sobre un plano de corte de normal n.
+import type { Matrix3, Vector3 } from './principal';
+
+export interface Traction {
+  t: Vector3; // t = σ·n
+  sigmaN: number; // Componente normal, t·n (positiva en tracción)
+  shear: Vector3; // Parte cortante, t − σn n
+  tau: number; // |t − σn n|
+}
+
+// Normal unitaria a partir de componentes libres; el vector nulo no define plano.
+export function unitNormal(nx: number, ny: number, nz: number): Vector3 {
+  const length = Math.hypot(nx, ny, nz);
+  if (length < 1e-9) return [1, 0, 0];
+  return [nx / length, ny / length, nz / length];
+}
+
+export function traction(S: Matrix3, n: Vector3): Traction {
+  const t = S.map(row => row[0] * n[0] + row[1] * n[1] + row[2] * n[2]) as Vector3;
+  const sigmaN = t[0] * n[0] + t[1] * n[1] + t[2] * n[2];
+  const shear = t.map((c, i) => c - sigmaN * n[i]) as Vector3;
+  return { t, sigmaN, shear, tau: Math.hypot(...shear) };
+}
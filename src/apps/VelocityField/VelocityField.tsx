@@ -1,77 +1,65 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Play, Pause, RefreshCw, HelpCircle, Layers, Settings, Activity, Gauge, ChevronDown, X } from 'lucide-react';
 import { useIsPortrait } from '../../hooks/useIsPortrait';
+import { useUrlState } from '../../hooks/useUrlState';
+import { useAppControls } from '../../hooks/useAppControls';
+import { booleanParam, enumParam, numberParam, seedParam, stringParam } from '../../lib/urlParams';
+import type { ParamCodec } from '../../lib/urlParams';
+import { createRandom } from '../../lib/random';
+import type { Random } from '../../lib/random';
+import { PRESETS } from './presets';
+import { useI18n } from '../../i18n/useI18n';
+import { MESSAGES } from './messages';
+import { ExportToolbar } from '../../components/ExportToolbar';
+import { SeedControl } from '../../components/SeedControl';
+import { captureCanvas } from '../../lib/export';
+import { EXPRESSION_FUNCTIONS, compileExpression } from '../../lib/expression';
+import type { CompileResult } from '../../lib/expression';
+
+// --- Velocity Field ---
+// u and v are compiled once per edit (lib/expression), never run as JavaScript
+const FIELD_VARIABLES = ['x', 'y', 't'] as const;
+
+const compileField = (uEq: string, vEq: string) => {
+  const u = compileExpression(uEq, FIELD_VARIABLES);
+  const v = compileExpression(vEq, FIELD_VARIABLES);
+  const evalU = 'evaluate' in u ? u.evaluate : () => 0;
+  const evalV = 'evaluate' in v ? v.evaluate : () => 0;
+  const scope = [0, 0, 0];
+  // NaN (and a field that does not compile) reads as 0 so the canvas keeps drawing
+  const velocity = (x: number, y: number, t: number): [number, number] => {
+    scope[0] = x; scope[1] = y; scope[2] = t;
+    const uVal = evalU(scope), vVal = evalV(scope);
+    return [isNaN(uVal) ? 0 : uVal, isNaN(vVal) ? 0 : vVal];
+  };
+  return { u, v, velocity };
+};
 
-// --- Math Parser Helper ---
-const evaluateMath = (expression: string, x: number, y: number, t: number) => {
-  try {
-    const sin = Math.sin; const cos = Math.cos; const tan = Math.tan;
-    const abs = Math.abs; const sqrt = Math.sqrt; const pow = Math.pow;
-    const exp = Math.exp; const log = Math.log; const PI = Math.PI;
-    const min = Math.min; const max = Math.max;
-    
-    // Safety clamp to prevent infinity/NaN from crashing canvas
-    // eslint-disable-next-line no-new-func
-    const func = new Function('x', 'y', 't', 'sin', 'cos', 'tan', 'abs', 'sqrt', 'pow', 'exp', 'log', 'PI', 'min', 'max', `return ${expression};`);
-    const val = func(x, y, t, sin, cos, tan, abs, sqrt, pow, exp, log, PI, min, max);
-    return isNaN(val) ? 0 : val;
-  } catch (e) {
-    return 0;
-  }
+// u or v from a link, an embed or a lesson: only expressions that compile are
+// accepted, anything else falls back to the default (typing is not re-parsed)
+const fieldParam = (defaultValue: string): ParamCodec<string> => {
+  const text = stringParam(defaultValue, { maxLength: 200 });
+  return {
+    ...text,
+    parse: (raw) => {
+      const value = text.parse(raw);
+      return value !== undefined && 'evaluate' in compileExpression(value, FIELD_VARIABLES) ? value : undefined;
+    },
+  };
 };
 
-// --- Preset Configurations ---
-const PRESETS = [
-  {
-    id: "rotation",
-    name: "Rotación Cuerpo Rígido",
-    u: "-y",
-    v: "x",
-    desc: "Vorticidad constante. Todo gira junto."
-  },
-  {
-    id: "vortex",
-    name: "Vórtice Libre",
-    u: "-y / (x*x + y*y + 0.1)",
-    v: "x / (x*x + y*y + 0.1)",
-    desc: "Velocidad aumenta al centro. Irrotacional excepto en (0,0)."
-  },
-  {
-    id: "wave",
-    name: "Onda Viajera (Oscilante)",
-    u: "1",
-    v: "cos(x - t*2)",
-    desc: "Onda transversal. Diferencia clara entre Stream/Path/Streak."
-  },
-  {
-    id: "stagnation",
-    name: "Punto de Estancamiento",
-    u: "x",
-    v: "-y",
-    desc: "Flujo impactando contra una pared horizontal."
-  },
-  {
-    id: "shear",
-    name: "Cizalladura (Shear)",
-    u: "y",
-    v: "0",
-    desc: "Capas de fluido deslizándose."
-  },
-  {
-    id: "pulsing",
-    name: "Fuente Pulsante",
-    u: "x * (0.5 + 0.5*sin(t*3))",
-    v: "y * (0.5 + 0.5*sin(t*3))",
-    desc: "Explosión cíclica desde el centro."
-  },
-  {
-    id: "double_vortex",
-    name: "Dipolo de Vórtices",
-    u: "-y/((x-2)**2 + y**2 + 0.1) - y/((x+2)**2 + y**2 + 0.1)",
-    v: "(x-2)/((x-2)**2 + y**2 + 0.1) + (x+2)/((x+2)**2 + y**2 + 0.1)",
-    desc: "Dos vórtices interactuando."
-  }
-];
+// --- Shareable State (query string) ---
+const URL_PARAMS = {
+  preset: enumParam("rotation", PRESETS.map(p => p.id)),
+  u: fieldParam("-y"),
+  v: fieldParam("x"),
+  speed: numberParam(1.0, { min: 0.1, max: 2.0 }),
+  vectors: booleanParam(true),
+  stream: booleanParam(false),
+  paths: booleanParam(true),
+  streaks: booleanParam(false),
+  seed: seedParam(),
+};
 
 interface Particle {
   x: number;
@@ -88,21 +76,21 @@ interface Injector {
 
 const VelocityField = () => {
   // --- State ---
-  const [uEq, setUEq] = useState("-y"); 
-  const [vEq, setVEq] = useState("x");
+  const [params, setParams] = useUrlState(URL_PARAMS);
+  const { t: tr, formatNumber } = useI18n(MESSAGES);
+  const { u: uEq, v: vEq, speed: simSpeed, preset: selectedPresetId, seed } = params;
+  const field = useMemo(() => compileField(uEq, vEq), [uEq, vEq]);
+  const { velocity } = field;
   const [t, setT] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
-  const [simSpeed, setSimSpeed] = useState(1.0); // Speed multiplier
+  // Play/pause and clock for pages embedding the simulation
+  useAppControls({ playing: isPlaying, setPlaying: setIsPlaying, measure: () => ({ t }) });
   
   // Visualization Toggles
-  const [showVectorField, setShowVectorField] = useState(true);
-  const [showStreamlines, setShowStreamlines] = useState(false);
-  const [showPathlines, setShowPathlines] = useState(true);
-  const [showStreaklines, setShowStreaklines] = useState(false);
+  const { vectors: showVectorField, stream: showStreamlines, paths: showPathlines, streaks: showStreaklines } = params;
   
   // UI States
   const [showGuide, setShowGuide] = useState(false);
-  const [selectedPresetId, setSelectedPresetId] = useState("rotation");
   const [configOpen, setConfigOpen] = useState(false);
   const [canvasSize, setCanvasSize] = useState(720);
   const isPortrait = useIsPortrait();
@@ -114,20 +102,25 @@ const VelocityField = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number | null>(null);
+  const exportScaleRef = useRef(1);
   
   // Simulation Data Refs
   const particlesRef = useRef<Particle[]>([]); 
   const streaksRef = useRef<Injector[]>([]);
+  const randomRef = useRef<Random>(createRandom(seed));
   
-  // Initialize Simulation
+  // Initialize Simulation (again whenever the seed changes)
   useEffect(() => {
+    const random = createRandom(seed);
+    randomRef.current = random;
+
     // Pathlines Particles
     const initialParticles: Particle[] = [];
     for(let i=0; i<400; i++) { // Increased count
       initialParticles.push({
-        x: (Math.random() - 0.5) * 10,
-        y: (Math.random() - 0.5) * 10,
-        age: Math.random() * 100,
+        x: (random() - 0.5) * 10,
+        y: (random() - 0.5) * 10,
+        age: random() * 100,
         history: [] 
       });
     }
@@ -145,7 +138,7 @@ const VelocityField = () => {
       }
     }
     streaksRef.current = injectors;
-  }, []);
+  }, [seed]);
 
   // --- Main Animation Loop ---
   const animate = useCallback(() => {
@@ -154,9 +147,15 @@ const VelocityField = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    // Canvas dimensions
-    const width = canvas.width;
-    const height = canvas.height;
+    // Canvas dimensions in CSS pixels; the backing store grows while exporting
+    const width = canvasSize;
+    const height = canvasSize;
+    const ratio = exportScaleRef.current;
+    if (canvas.width !== width * ratio) {
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+    }
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
     ctx.clearRect(0, 0, width, height);
     
     // Coordinate Mapper: World (-5 to 5) -> Screen
@@ -205,8 +204,7 @@ const VelocityField = () => {
       const step = 0.5; 
       for (let x = -5; x <= 5; x += step) {
         for (let y = -5; y <= 5; y += step) {
-          const u = evaluateMath(uEq, x, y, currentT);
-          const v = evaluateMath(vEq, x, y, currentT);
+          const [u, v] = velocity(x, y, currentT);
           const mag = Math.sqrt(u*u + v*v);
           
           if (mag > 0.01) {
@@ -252,8 +250,7 @@ const VelocityField = () => {
         ctx.moveTo(startPos.cx, startPos.cy);
 
         for(let i=0; i<40; i++) {
-          const u = evaluateMath(uEq, currX, currY, currentT);
-          const v = evaluateMath(vEq, currX, currY, currentT);
+          const [u, v] = velocity(currX, currY, currentT);
           const mag = Math.sqrt(u*u + v*v);
           
           if (mag < 0.01 || Math.abs(currX) > 6 || Math.abs(currY) > 6) break;
@@ -277,8 +274,7 @@ const VelocityField = () => {
 
       particlesRef.current.forEach(p => {
         if (isPlaying) {
-          const u = evaluateMath(uEq, p.x, p.y, currentT);
-          const v = evaluateMath(vEq, p.x, p.y, currentT);
+          const [u, v] = velocity(p.x, p.y, currentT);
           
           p.x += u * effectiveDt;
           p.y += v * effectiveDt;
@@ -288,8 +284,8 @@ const VelocityField = () => {
 
           // Reset logic
           if (Math.abs(p.x) > 6 || Math.abs(p.y) > 6) {
-            p.x = (Math.random() - 0.5) * 10;
-            p.y = (Math.random() - 0.5) * 10;
+            p.x = (randomRef.current() - 0.5) * 10;
+            p.y = (randomRef.current() - 0.5) * 10;
             p.history = [];
           }
         }
@@ -321,7 +317,7 @@ const VelocityField = () => {
         // 1. Emit
         // Using a fractional counter or just checking time isn't smooth. 
         // We emit every few frames.
-        if (isPlaying && Math.random() < 0.4 * simSpeed) { // Adjust emission rate by speed
+        if (isPlaying && randomRef.current() < 0.4 * simSpeed) { // Adjust emission rate by speed
            // Higher 'life' for longer trails (Modified to 800 for longer tails)
            injector.emitted.push({x: injector.x, y: injector.y, life: 800}); 
         }
@@ -330,8 +326,7 @@ const VelocityField = () => {
         if (isPlaying) {
           for(let i = injector.emitted.length - 1; i >= 0; i--) {
             const p = injector.emitted[i];
-            const u = evaluateMath(uEq, p.x, p.y, currentT);
-            const v = evaluateMath(vEq, p.x, p.y, currentT);
+            const [u, v] = velocity(p.x, p.y, currentT);
             
             p.x += u * effectiveDt;
             p.y += v * effectiveDt;
@@ -376,7 +371,7 @@ const VelocityField = () => {
     }
 
     requestRef.current = requestAnimationFrame(animate);
-  }, [t, isPlaying, uEq, vEq, showVectorField, showStreamlines, showPathlines, showStreaklines, simSpeed]);
+  }, [t, isPlaying, velocity, showVectorField, showStreamlines, showPathlines, showStreaklines, simSpeed, canvasSize]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
@@ -407,13 +402,34 @@ const VelocityField = () => {
   }, []);
 
   // --- Handlers ---
+  // Field sampled on the visible grid, for lab reports
+  const sampleField = () => {
+    const rows: number[][] = [];
+    for (let y = -5; y <= 5; y += 0.5) {
+      for (let x = -5; x <= 5; x += 0.5) {
+        const [u, v] = velocity(x, y, t);
+        rows.push([x, y, u, v, Math.hypot(u, v)]);
+      }
+    }
+    return { columns: ['x', 'y', 'u', 'v', 'speed'], rows };
+  };
+
+  const expressionError = (result: CompileResult) => 'error' in result
+    ? tr(`expression.${result.error.kind}`, {
+      column: result.error.position + 1,
+      token: result.error.token,
+      variables: FIELD_VARIABLES.join(', '),
+      functions: EXPRESSION_FUNCTIONS.join(', '),
+    })
+    : null;
+  const uError = expressionError(field.u);
+  const vError = expressionError(field.v);
+
   const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const pid = e.target.value;
-    setSelectedPresetId(pid);
     const preset = PRESETS.find(p => p.id === pid);
     if(preset) {
-      setUEq(preset.u);
-      setVEq(preset.v);
+      setParams({ preset: pid, u: preset.u, v: preset.v });
       setT(0);
       particlesRef.current.forEach(p => { p.history = []; });
       streaksRef.current.forEach(s => s.emitted = []);
@@ -427,7 +443,7 @@ const VelocityField = () => {
       {isPortrait && (
         <button
           onClick={() => setConfigOpen(!configOpen)}
-          aria-label={configOpen ? 'Cerrar panel de configuración' : 'Abrir panel de configuración'}
+          aria-label={configOpen ? tr('common.closeSettings') : tr('common.openSettings')}
           className="fixed right-4 z-50 p-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-full shadow-lg shadow-cyan-900/40 transition-all"
           style={{ bottom: 'max(1rem, env(safe-area-inset-bottom))' }}
         >
@@ -444,9 +460,9 @@ const VelocityField = () => {
         <div className="p-3 border-b border-slate-800 bg-slate-900">
           <h1 className="text-lg font-bold bg-gradient-to-r from-cyan-400 to-blue-500 bg-clip-text text-transparent flex items-center gap-2">
             <Activity size={20} className="text-cyan-400" />
-            Continuum Lab
+            {tr('title')}
           </h1>
-          <p className="text-[10px] text-slate-500 mt-0.5 uppercase tracking-wider font-semibold">Visualizador de Fluidos 2D</p>
+          <p className="text-[10px] text-slate-500 mt-0.5 uppercase tracking-wider font-semibold">{tr('subtitle')}</p>
         </div>
 
         <div className="flex-1 p-3 space-y-3 overflow-y-auto custom-scrollbar">
@@ -458,13 +474,13 @@ const VelocityField = () => {
                   onClick={() => setIsPlaying(!isPlaying)}
                   className={`flex-1 py-2 px-4 rounded-md font-semibold transition-all flex items-center justify-center gap-2 ${isPlaying ? 'bg-rose-500/20 text-rose-400 hover:bg-rose-500/30' : 'bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30'}`}
                 >
-                  {isPlaying ? <><Pause size={18}/> Pausar</> : <><Play size={18}/> Simular</>}
+                  {isPlaying ? <><Pause size={18}/> {tr('common.pause')}</> : <><Play size={18}/> {tr('common.play')}</>}
                 </button>
                 <button 
                   onClick={() => { setT(0); streaksRef.current.forEach(s => s.emitted = []); }}
                   className="p-2 bg-slate-800 hover:bg-slate-700 text-slate-400 rounded-md transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
-                  title="Reiniciar t=0"
-                  aria-label="Reiniciar tiempo"
+                  title={tr('resetTime')}
+                  aria-label={tr('resetTimeLabel')}
                 >
                   <RefreshCw size={18} />
                 </button>
@@ -473,26 +489,28 @@ const VelocityField = () => {
              {/* Speed Slider */}
              <div className="bg-slate-800/50 p-2 rounded-md border border-slate-700/50">
                <div className="flex justify-between text-xs text-slate-400 mb-1">
-                 <span className="flex items-center gap-1"><Gauge size={12}/> Velocidad</span>
-                 <span className="font-mono text-cyan-400">{simSpeed.toFixed(1)}x</span>
+                 <span className="flex items-center gap-1"><Gauge size={12}/> {tr('speed')}</span>
+                 <span className="font-mono text-cyan-400">{formatNumber(simSpeed, 1)}x</span>
                </div>
                <input 
                  type="range" 
                  min="0.1" max="2.0" step="0.1"
                  value={simSpeed}
-                 onChange={(e) => setSimSpeed(parseFloat(e.target.value))}
+                 onChange={(e) => setParams({ speed: parseFloat(e.target.value) })}
                  className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                />
                <div className="mt-1 text-right font-mono text-xs text-slate-500">
-                 t = {t.toFixed(2)}s
+                 t = {formatNumber(t, 2)}s
                </div>
              </div>
+
+             <SeedControl seed={seed} onChange={value => setParams({ seed: value })} />
           </div>
 
           {/* Preset Dropdown */}
           <div className="space-y-1">
             <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
-              <Settings size={14} /> Presets de Flujo
+              <Settings size={14} /> {tr('presetsLabel')}
             </label>
             <div className="relative">
               <select 
@@ -501,20 +519,20 @@ const VelocityField = () => {
                 className="w-full bg-slate-800 text-slate-200 text-sm border border-slate-700 rounded-md p-2.5 appearance-none focus:outline-none focus:border-cyan-500 focus-visible:ring-2 focus-visible:ring-cyan-400/70 transition-colors cursor-pointer"
               >
                 {PRESETS.map(p => (
-                  <option key={p.id} value={p.id}>{p.name}</option>
+                  <option key={p.id} value={p.id}>{tr(`presets.${p.id}.name`)}</option>
                 ))}
               </select>
               <ChevronDown size={14} className="absolute right-3 top-3 text-slate-500 pointer-events-none"/>
             </div>
             <p className="text-[11px] text-slate-500 italic px-1 leading-tight">
-              {PRESETS.find(p => p.id === selectedPresetId)?.desc}
+              {tr(`presets.${selectedPresetId}.desc`)}
             </p>
           </div>
 
           {/* Equation Input */}
           <div className="space-y-2 pt-2 border-t border-slate-800">
             <div className="flex items-center justify-between">
-               <label className="text-xs font-bold text-slate-500 uppercase">Definición Matemática</label>
+               <label className="text-xs font-bold text-slate-500 uppercase">{tr('definition')}</label>
             </div>
             
             <div className="space-y-2 font-mono text-sm">
@@ -522,17 +540,21 @@ const VelocityField = () => {
                 <div className="absolute left-3 top-2.5 text-rose-400 font-bold">u =</div>
                 <input 
                   value={uEq}
-                  onChange={(e) => setUEq(e.target.value)}
-                  className="w-full bg-slate-950 border border-slate-800 rounded-md py-2 pl-10 pr-3 text-yellow-400 focus:border-rose-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400/70 transition-colors"
+                  onChange={(e) => setParams({ u: e.target.value })}
+                  aria-invalid={uError !== null}
+                  className={`w-full bg-slate-950 border ${uError ? 'border-rose-500/70' : 'border-slate-800'} rounded-md py-2 pl-10 pr-3 text-yellow-400 focus:border-rose-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rose-400/70 transition-colors`}
                 />
+                {uError && <p className="mt-1 font-sans text-[11px] leading-tight text-rose-400">{uError}</p>}
               </div>
               <div className="group relative">
                 <div className="absolute left-3 top-2.5 text-cyan-400 font-bold">v =</div>
                 <input 
                   value={vEq}
-                  onChange={(e) => setVEq(e.target.value)}
-                  className="w-full bg-slate-950 border border-slate-800 rounded-md py-2 pl-10 pr-3 text-yellow-400 focus:border-cyan-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70 transition-colors"
+                  onChange={(e) => setParams({ v: e.target.value })}
+                  aria-invalid={vError !== null}
+                  className={`w-full bg-slate-950 border ${vError ? 'border-rose-500/70' : 'border-slate-800'} rounded-md py-2 pl-10 pr-3 text-yellow-400 focus:border-cyan-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70 transition-colors`}
                 />
+                {vError && <p className="mt-1 font-sans text-[11px] leading-tight text-rose-400">{vError}</p>}
               </div>
             </div>
           </div>
@@ -541,14 +563,14 @@ const VelocityField = () => {
           <div className="space-y-3 pt-2 border-t border-slate-800">
              <div className="flex items-center justify-between">
                 <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
-                  <Layers size={14} /> Visualización
+                  <Layers size={14} /> {tr('visualization')}
                 </label>
                 
                 {/* Guide Button with Popover Logic */}
                 <div className="relative">
                   <button 
                     onClick={() => setShowGuide(!showGuide)}
-                    aria-label="Mostrar guía de capas"
+                    aria-label={tr('showGuide')}
                     className={`p-1 rounded-full transition-colors ${showGuide ? 'bg-cyan-500 text-white' : 'text-slate-500 hover:text-cyan-400'}`}
                   >
                     <HelpCircle size={16} />
@@ -557,27 +579,27 @@ const VelocityField = () => {
                   {/* Guide Popover */}
                   {showGuide && (
                     <div className="absolute bottom-8 right-0 w-64 bg-slate-800 border border-slate-700 p-4 rounded-lg shadow-2xl z-50 text-xs">
-                      <h4 className="font-bold text-white mb-2">Guía de Capas</h4>
+                      <h4 className="font-bold text-white mb-2">{tr('guide.title')}</h4>
                       <ul className="space-y-2">
                          <li className="flex gap-2">
                            <span className="w-3 h-3 rounded-full bg-amber-400 shrink-0 mt-0.5"></span>
                            <div>
-                             <strong className="text-amber-400 block">Líneas de Corriente</strong>
-                             <span className="text-slate-400">Integral instantánea. Muestra la dirección del flujo AHORA.</span>
+                             <strong className="text-amber-400 block">{tr('layers.streamlines')}</strong>
+                             <span className="text-slate-400">{tr('guide.streamlines')}</span>
                            </div>
                          </li>
                          <li className="flex gap-2">
                            <span className="w-3 h-3 rounded-full bg-cyan-400 shrink-0 mt-0.5"></span>
                            <div>
-                             <strong className="text-cyan-400 block">Trayectorias</strong>
-                             <span className="text-slate-400">Historia real de partículas moviéndose. Lagrangiano.</span>
+                             <strong className="text-cyan-400 block">{tr('layers.pathlines')}</strong>
+                             <span className="text-slate-400">{tr('guide.pathlines')}</span>
                            </div>
                          </li>
                          <li className="flex gap-2">
                            <span className="w-3 h-3 rounded-full bg-rose-500 shrink-0 mt-0.5"></span>
                            <div>
-                             <strong className="text-rose-400 block">Líneas de Traza</strong>
-                             <span className="text-slate-400">Humo/Tinta inyectada continuamente desde puntos fijos.</span>
+                             <strong className="text-rose-400 block">{tr('layers.streaklines')}</strong>
+                             <span className="text-slate-400">{tr('guide.streaklines')}</span>
                            </div>
                          </li>
                       </ul>
@@ -588,10 +610,10 @@ const VelocityField = () => {
 
              <div className="space-y-1 bg-slate-950/50 p-1 rounded-lg">
                 {[
-                  { label: "Campo Vectorial", state: showVectorField, set: setShowVectorField, color: "text-slate-400" },
-                  { label: "Líneas de Corriente", state: showStreamlines, set: setShowStreamlines, color: "text-amber-400" },
-                  { label: "Trayectorias (Partículas)", state: showPathlines, set: setShowPathlines, color: "text-cyan-400" },
-                  { label: "Líneas de Traza (Humo)", state: showStreaklines, set: setShowStreaklines, color: "text-rose-400" },
+                  { label: tr('layers.vectors'), state: showVectorField, set: (on: boolean) => setParams({ vectors: on }), color: "text-slate-400" },
+                  { label: tr('layers.streamlines'), state: showStreamlines, set: (on: boolean) => setParams({ stream: on }), color: "text-amber-400" },
+                  { label: tr('layers.pathlinesLong'), state: showPathlines, set: (on: boolean) => setParams({ paths: on }), color: "text-cyan-400" },
+                  { label: tr('layers.streaklinesLong'), state: showStreaklines, set: (on: boolean) => setParams({ streaks: on }), color: "text-rose-400" },
                 ].map((opt, idx) => (
                   <label key={idx} className={`flex items-center justify-between p-2 rounded cursor-pointer transition-colors ${opt.state ? 'bg-slate-800' : 'hover:bg-slate-800/50'}`}>
                     <span className={`text-sm font-medium ${opt.state ? opt.color : 'text-slate-500'}`}>{opt.label}</span>
@@ -614,12 +636,21 @@ const VelocityField = () => {
           ref={canvasRef}
           width={canvasSize}
           height={canvasSize}
+          style={{ width: canvasSize }}
           className="w-auto h-auto max-w-[95%] max-h-[95%] object-contain rounded shadow-2xl border border-slate-800"
         />
         
+        <ExportToolbar
+          fileName="campo-velocidades"
+          png={() => captureCanvas(canvasRef.current!, exportScaleRef)}
+          table={sampleField}
+          json={() => ({ preset: selectedPresetId, u: uEq, v: vEq, t, samples: sampleField() })}
+          className="absolute top-4 right-4 z-10"
+        />
+
         {/* Simple floating label for context */}
         <div className="absolute bottom-6 left-6 text-slate-600 text-xs font-mono pointer-events-none">
-           Escala: 10x10 Unidades • Render: HTML5 Canvas 2D
+           {tr('footer')}
         </div>
       </div>
     </div>
@@ -0,0 +1,46 @@
+// --- Preset Configurations ---
+// Kept apart from the component so the command palette can list them without
+// loading the simulation. Names and descriptions: `presets.<id>` in locales/.
+export interface VelocityPreset {
+  id: string;
+  u: string;
+  v: string;
+}
+
+export const PRESETS: VelocityPreset[] = [
+  {
+    id: "rotation",
+    u: "-y",
+    v: "x"
+  },
+  {
+    id: "vortex",
+    u: "-y / (x*x + y*y + 0.1)",
+    v: "x / (x*x + y*y + 0.1)"
+  },
+  {
+    id: "wave",
+    u: "1",
+    v: "cos(x - t*2)"
+  },
+  {
+    id: "stagnation",
+    u: "x",
+    v: "-y"
+  },
+  {
+    id: "shear",
+    u: "y",
+    v: "0"
+  },
+  {
+    id: "pulsing",
+    u: "x * (0.5 + 0.5*sin(t*3))",
+    v: "y * (0.5 + 0.5*sin(t*3))"
+  },
+  {
+    id: "double_vortex",
+    u: "-y/((x-2)**2 + y**2 + 0.1) - y/((x+2)**2 + y**2 + 0.1)",
+    v: "(x-2)/((x-2)**2 + y**2 + 0.1) + (x+2)/((x+2)**2 + y**2 + 0.1)"
+  }
+];
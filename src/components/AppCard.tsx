@@ -2,12 +2,14 @@ import { motion } from "framer-motion";
 import { ExternalLink, Lock } from "lucide-react";
 import type { AppDefinition } from "../data/apps";
 import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
 
 interface AppCardProps {
     app: AppDefinition;
 }
 
 export function AppCard({ app }: AppCardProps) {
+    const { t } = useI18n();
     const isPlaceholder = app.isPlaceholder;
 
     return (
@@ -15,6 +17,8 @@ export function AppCard({ app }: AppCardProps) {
             href={!isPlaceholder && app.url ? app.url : undefined}
             target={!isPlaceholder && app.url ? "_blank" : undefined}
             rel={!isPlaceholder && app.url ? "noopener noreferrer" : undefined}
+            onMouseEnter={!isPlaceholder ? app.preload : undefined}
+            onFocus={!isPlaceholder ? app.preload : undefined}
             whileHover={!isPlaceholder ? { y: -5, boxShadow: "0 10px 30px -10px rgba(59, 130, 246, 0.5)" } : {}}
             transition={{ type: "spring", stiffness: 300 }}
             className={cn(
@@ -32,7 +36,7 @@ export function AppCard({ app }: AppCardProps) {
                 </div>
                 {isPlaceholder ? (
                     <span className="flex items-center text-xs font-medium text-slate-500">
-                        <Lock className="mr-1 h-3 w-3" /> Próximamente
+                        <Lock className="mr-1 h-3 w-3" /> {t("catalog.comingSoon")}
                     </span>
                 ) : (
                     <ExternalLink className="h-5 w-5 text-slate-500 opacity-0 transition-opacity group-hover:opacity-100" />
@@ -40,11 +44,11 @@ export function AppCard({ app }: AppCardProps) {
             </div>
 
             <h3 className="mb-2 text-xl font-bold text-slate-100 group-hover:text-primary transition-colors">
-                {app.title}
+                {t(`apps.${app.id}.title`)}
             </h3>
             
             <p className="mb-4 flex-grow text-sm text-slate-400 leading-relaxed">
-                {app.description}
+                {t(`apps.${app.id}.description`)}
             </p>
 
             <div className="mt-auto flex flex-wrap gap-2">
@@ -1,8 +1,12 @@
+import type { ComponentType } from "react";
 import { Link } from "react-router-dom";
 import { categories } from "../data/categories";
+import type { CategoryId } from "../data/categories";
+import { getCategoryApps } from "../data/apps";
 import { ArrowRight } from "lucide-react";
 import { cn } from "../lib/utils";
 import { motion } from "framer-motion";
+import { useI18n } from "../i18n/useI18n";
 
 const FluidosBackground = () => (
     <div className="absolute inset-0 overflow-hidden opacity-40 group-hover:opacity-70 transition-opacity duration-700">
@@ -158,18 +162,21 @@ const HidrodinamicaBackground = () => (
     </div>
 );
 
-const Backgrounds = {
+const Backgrounds: Record<CategoryId, ComponentType> = {
     "fluidos-en-reposo": FluidosBackground,
     "solidos-y-esfuerzos": SolidosBackground,
     "hidrodinamica": HidrodinamicaBackground
 };
 
 export function CategoryCards() {
+    const { t } = useI18n();
+
     return (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 lg:gap-8 px-2 md:px-0">
             {categories.map((category, index) => {
                 const Icon = category.icon;
-                const Background = Backgrounds[category.id as keyof typeof Backgrounds];
+                const Background = Backgrounds[category.id];
+                const appCount = getCategoryApps(category.id).length;
                 
                 return (
                     <motion.div
@@ -280,10 +287,10 @@ export function CategoryCards() {
                                         category.id === "solidos-y-esfuerzos" && "group-hover:text-rose-400",
                                         category.id === "hidrodinamica" && "group-hover:text-orange-400"
                                     )}>
-                                        {category.title}
+                                        {t(`categories.${category.id}.title`)}
                                     </h3>
                                     <p className="text-base text-slate-400 leading-relaxed flex-1 font-medium">
-                                        {category.description}
+                                        {t(`categories.${category.id}.description`)}
                                     </p>
                                     
                                     {/* Footer */}
@@ -295,10 +302,10 @@ export function CategoryCards() {
                                                 category.id === "solidos-y-esfuerzos" && "bg-rose-500/20 text-rose-300",
                                                 category.id === "hidrodinamica" && "bg-orange-500/20 text-orange-300"
                                             )}>
-                                                {category.apps.length}
+                                                {appCount}
                                             </span>
                                             <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">
-                                                {category.apps.length === 1 ? 'Simulación' : 'Simulaciones'}
+                                                {t("catalog.simulations", { count: appCount })}
                                             </span>
                                         </div>
                                         <div className={cn(
@@ -307,7 +314,7 @@ export function CategoryCards() {
                                             category.id === "solidos-y-esfuerzos" && "text-rose-500 group-hover:text-rose-400",
                                             category.id === "hidrodinamica" && "text-orange-500 group-hover:text-orange-400"
                                         )}>
-                                            Explorar 
+                                            {t("catalog.explore")}
                                             <motion.div
                                                 className="inline-block"
                                                 whileHover={{ x: 5 }}
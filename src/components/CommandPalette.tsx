@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { createPortal } from "react-dom";
+import { useNavigate } from "react-router-dom";
+import { CornerDownLeft, Search } from "lucide-react";
+import { searchCatalog } from "../data/search";
+import type { SearchEntry } from "../data/search";
+import { MathRender } from "../lib/MathRender";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+
+interface CommandPaletteProps {
+    onClose: () => void;
+}
+
+export function CommandPalette({ onClose }: CommandPaletteProps) {
+    const navigate = useNavigate();
+    const { t, locale } = useI18n();
+    const [query, setQuery] = useState("");
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLUListElement>(null);
+
+    const results = useMemo(() => searchCatalog(query, locale), [query, locale]);
+
+    useEffect(() => {
+        const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+        item?.scrollIntoView({ block: "nearest" });
+    }, [activeIndex]);
+
+    const choose = (entry: SearchEntry) => {
+        onClose();
+        navigate(entry.to);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === "Enter" && results[activeIndex]) {
+            e.preventDefault();
+            choose(results[activeIndex]);
+        } else if (e.key === "Escape") {
+            onClose();
+        }
+    };
+
+    return createPortal(
+        <div
+            className="fixed inset-0 z-[100] flex items-start justify-center bg-slate-950/70 backdrop-blur-sm px-4 pt-[12vh] animate-fade-in"
+            onMouseDown={onClose}
+        >
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-label={t("nav.searchLabel")}
+                className="w-full max-w-2xl overflow-hidden rounded-2xl border border-slate-700/60 bg-slate-900/95 shadow-2xl shadow-black/50"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-3 border-b border-white/5 px-4">
+                    <Search className="h-5 w-5 shrink-0 text-slate-500" />
+                    <input
+                        autoFocus
+                        value={query}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setActiveIndex(0);
+                        }}
+                        onKeyDown={handleKeyDown}
+                        placeholder={t("palette.placeholder")}
+                        className="h-14 w-full bg-transparent text-sm text-white placeholder:text-slate-500 focus:outline-none"
+                        aria-controls="command-palette-results"
+                    />
+                    <kbd className="hidden sm:block rounded border border-slate-700 px-1.5 py-0.5 text-[10px] font-medium text-slate-500">Esc</kbd>
+                </div>
+
+                {results.length === 0 ? (
+                    <p className="px-4 py-10 text-center text-sm text-slate-500">
+                        {t("palette.noResults", { query })}
+                    </p>
+                ) : (
+                    <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-[60vh] overflow-y-auto p-2">
+                        {results.map((entry, index) => {
+                            const Icon = entry.app.icon;
+                            const isActive = index === activeIndex;
+                            return (
+                                <li
+                                    key={entry.id}
+                                    role="option"
+                                    aria-selected={isActive}
+                                    onMouseMove={() => setActiveIndex(index)}
+                                    onClick={() => choose(entry)}
+                                    className={cn(
+                                        "flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2.5 transition-colors",
+                                        isActive ? "bg-white/10" : "hover:bg-white/5"
+                                    )}
+                                >
+                                    <div className={cn("shrink-0 rounded-lg bg-gradient-to-br p-2", entry.app.color)}>
+                                        <Icon className="h-4 w-4 text-white" />
+                                    </div>
+                                    <div className="min-w-0 flex-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="truncate text-sm font-semibold text-white">{entry.title}</span>
+                                            <span className="shrink-0 rounded-full bg-slate-800 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-slate-400">
+                                                {t(`palette.kinds.${entry.kind}`)}
+                                            </span>
+                                        </div>
+                                        {entry.tex ? (
+                                            <MathRender inline math={entry.tex} className="block truncate text-sm text-cyan-200" />
+                                        ) : (
+                                            <p className="truncate text-xs text-slate-400">{entry.subtitle}</p>
+                                        )}
+                                        {entry.kind !== "app" && (
+                                            <p className="truncate text-[11px] text-slate-500">{entry.appTitle}</p>
+                                        )}
+                                    </div>
+                                    {isActive && <CornerDownLeft className="h-4 w-4 shrink-0 text-slate-500" />}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+import { downloadBlob, exportFileName, svgToBlob, toCsv } from "../lib/export";
+import type { ExportTable } from "../lib/export";
+
+type ExportFormat = "png" | "svg" | "csv" | "json";
+
+interface ExportToolbarProps {
+    fileName: string; // Base name, without date or extension
+    png?: () => Promise<Blob>; // High-resolution capture (captureCanvas / captureWebGL)
+    svg?: () => SVGSVGElement | null;
+    table?: () => ExportTable;
+    json?: () => unknown;
+    className?: string;
+}
+
+// Shared "export" buttons: one per format the app can provide.
+export function ExportToolbar({ fileName, png, svg, table, json, className }: ExportToolbarProps) {
+    const { t } = useI18n();
+    const [busy, setBusy] = useState<ExportFormat | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    const producers: Partial<Record<ExportFormat, () => Promise<Blob | null>>> = {
+        png,
+        svg: svg && (async () => {
+            const element = svg();
+            return element ? svgToBlob(element) : null;
+        }),
+        csv: table && (async () => new Blob([toCsv(table())], { type: "text/csv;charset=utf-8" })),
+        json: json && (async () => new Blob([JSON.stringify(json(), null, 2)], { type: "application/json" })),
+    };
+    const formats = (Object.keys(producers) as ExportFormat[]).filter(format => producers[format]);
+
+    const run = async (format: ExportFormat) => {
+        setBusy(format);
+        setFailed(false);
+        try {
+            const blob = await producers[format]!();
+            if (!blob) throw new Error(`export: nada que exportar en ${format}`);
+            downloadBlob(blob, exportFileName(fileName, format));
+        } catch (error) {
+            console.error(error);
+            setFailed(true);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div
+            role="group"
+            aria-label={t("export.title")}
+            className={cn("flex items-center gap-1 rounded-lg border border-white/10 bg-slate-900/80 p-1 backdrop-blur", className)}
+        >
+            <Download className={cn("mx-1 h-3.5 w-3.5 shrink-0", failed ? "text-rose-400" : "text-slate-400")} />
+            {formats.map(format => (
+                <button
+                    key={format}
+                    onClick={() => run(format)}
+                    disabled={busy !== null}
+                    title={t(`export.formats.${format}`)}
+                    className="rounded-md px-2 py-1 text-[10px] font-bold uppercase tracking-wider text-slate-300 transition-colors hover:bg-white/10 hover:text-white disabled:opacity-50"
+                >
+                    {busy === format ? "…" : format}
+                </button>
+            ))}
+            {failed && <span className="px-1 text-[10px] text-rose-400">{t("export.failed")}</span>}
+        </div>
+    );
+}
@@ -1,12 +1,28 @@
-import type { ReactNode } from "react";
+import { lazy, Suspense } from "react";
+import type { ComponentType, ReactNode } from "react";
 import { useLocation } from "react-router-dom";
 import { Navbar } from "./Navbar";
+import { UpdateBanner } from "./UpdateBanner";
+import { useI18n } from "../i18n/useI18n";
+import { findAppByPath, getAppCategory } from "../data/apps";
+import { LESSON_PARAM } from "../data/lessons";
+import { getCategory } from "../data/categories";
+import type { CategoryTheme } from "../data/categories";
 import { HomeBackground, SolidBackground, HydroBackground, RestFluidBackground } from "./ThemeBackgrounds";
 
+// The lesson player typesets narration with KaTeX; only fetched when a lesson runs.
+const LessonPlayer = lazy(() => import("./LessonPlayer").then(m => ({ default: m.LessonPlayer })));
+
 interface LayoutProps {
     children: ReactNode;
 }
 
+const Backgrounds: Record<CategoryTheme, ComponentType> = {
+    fluidos: RestFluidBackground,
+    solidos: SolidBackground,
+    hidrodinamica: HydroBackground,
+};
+
 function ThemeBackground() {
     const location = useLocation();
     const path = location.pathname;
@@ -15,46 +31,53 @@ function ThemeBackground() {
         return <HomeBackground />;
     }
 
-    if (path.includes("solidos-y-esfuerzos") || path.includes("calc-deformaciones")) {
-        return <SolidBackground />;
-    }
-
-    if (path.includes("hidrodinamica") || path.includes("velocity-field") || path.includes("euler-lagrange") || path.includes("tablero-flujo-ideal-euler") || path.includes("funcion-corriente")) {
-        return <HydroBackground />;
-    }
+    // Category pages and apps take the theme of their category
+    const app = findAppByPath(path);
+    const category = app ? getAppCategory(app) : getCategory(path.replace("/category/", ""));
+    const Background = category ? Backgrounds[category.theme] : RestFluidBackground;
 
-    // Default for Fluidos en reposo and its apps
-    return <RestFluidBackground />;
+    return <Background />;
 }
 
 export function Layout({ children }: LayoutProps) {
     const location = useLocation();
+    const { t } = useI18n();
     const isHome = location.pathname === "/";
     const isCategory = location.pathname.startsWith("/category/");
+    const isPage = isHome || isCategory || location.pathname === "/lessons";
+    const lessonId = new URLSearchParams(location.search).get(LESSON_PARAM);
 
     return (
-        <div className={`font-sans text-slate-200 flex flex-col relative min-h-dvh ${(isHome || isCategory) ? 'overflow-x-hidden' : 'overflow-hidden'}`}>
+        <div className={`font-sans text-slate-200 flex flex-col relative min-h-dvh ${isPage ? 'overflow-x-hidden' : 'overflow-hidden'}`}>
             {/* Interactive Theme Background */}
             <ThemeBackground />
 
             <Navbar />
             
-            <main className={`flex-1 w-full relative z-10 min-h-0 ${(isHome || isCategory) ? 'container mx-auto px-3 sm:px-4 md:px-6 py-6 md:py-8 lg:py-12' : 'overflow-hidden flex flex-col h-[calc(100vh-4rem)]'}`}>
+            <main className={`flex-1 w-full relative z-10 min-h-0 ${isPage ? 'container mx-auto px-3 sm:px-4 md:px-6 py-6 md:py-8 lg:py-12' : 'overflow-hidden flex flex-col h-[calc(100vh-4rem)]'}`}>
                 {children}
             </main>
             
-            {(isHome || isCategory) && (
+            {isPage && (
                 <footer className="border-t border-white/5 py-8 mt-auto backdrop-blur-sm bg-slate-950/30">
                     <div className="container mx-auto px-4 text-center">
                         <p className="text-sm text-slate-500">
-                            &copy; {new Date().getFullYear()} Curso de Medios Continuos &bull; <span className="text-slate-400">Universidad de Antioquia</span>
+                            &copy; {new Date().getFullYear()} {t("footer.course")} &bull; <span className="text-slate-400">{t("footer.university")}</span>
                         </p>
                         <p className="text-xs text-slate-600 mt-2">
-                            Desarrollado para fines educativos e investigación.
+                            {t("footer.purpose")}
                         </p>
                     </div>
                 </footer>
             )}
+
+            {lessonId && (
+                <Suspense fallback={null}>
+                    <LessonPlayer lessonId={lessonId} />
+                </Suspense>
+            )}
+
+            <UpdateBanner />
         </div>
     );
 }
@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { CheckCircle2, ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Circle, GraduationCap, X } from "lucide-react";
+import { LESSON_PARAM, STEP_PARAM, lessonStepApp, lessonStepPath, loadLesson } from "../data/lessons";
+import { conditionMet, localize, splitMath } from "../lib/lessons";
+import type { Lesson } from "../lib/lessons";
+import { controlsVersion, readControl, subscribeControls } from "../lib/controls";
+import { MathRender } from "../lib/MathRender";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+
+interface LessonPlayerProps {
+    lessonId: string;
+}
+
+const BUTTON = "flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Narration with its $…$ formulas typeset.
+function LessonText({ text, className }: { text: string; className?: string }) {
+    const segments = useMemo(() => splitMath(text), [text]);
+    return (
+        <div className={className}>
+            {segments.map((segment, i) =>
+                segment.math ? (
+                    <MathRender key={i} math={segment.text} inline={segment.math === "inline"} className={segment.math === "display" ? "my-2 text-cyan-100" : "text-cyan-100"} />
+                ) : (
+                    <span key={i}>{segment.text}</span>
+                )
+            )}
+        </div>
+    );
+}
+
+/**
+ * Plays the lesson named in `?lesson=`, at the step in `?step=` (1-based).
+ * Entering a step writes its values into the query of its app, which the app
+ * adopts through `useUrlState`; the step's task is checked against the
+ * parameters the app has registered in `lib/controls`.
+ */
+export function LessonPlayer({ lessonId }: LessonPlayerProps) {
+    const location = useLocation();
+    const navigate = useNavigate();
+    const { t, locale } = useI18n();
+    const [loaded, setLoaded] = useState<{ id: string; lesson: Lesson | null } | null>(null);
+    const [collapsed, setCollapsed] = useState(false);
+    // Step whose values are already in the URL, so they are written only once
+    const appliedRef = useRef<string | null>(null);
+    useSyncExternalStore(subscribeControls, controlsVersion);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadLesson(lessonId).then(
+            lesson => {
+                if (!cancelled) setLoaded({ id: lessonId, lesson });
+            },
+            error => {
+                console.error(error);
+                if (!cancelled) setLoaded({ id: lessonId, lesson: null });
+            }
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [lessonId]);
+
+    const lesson = loaded?.id === lessonId ? loaded.lesson : undefined;
+    const search = useMemo(() => new URLSearchParams(location.search), [location.search]);
+    const requested = Math.round(Number(search.get(STEP_PARAM))) - 1;
+    const index = lesson ? Math.min(Math.max(Number.isFinite(requested) ? requested : 0, 0), lesson.steps.length - 1) : 0;
+
+    // Direct links and history navigation land on a step whose values may not be applied yet
+    useEffect(() => {
+        if (!lesson) return;
+        const key = `${lesson.id}:${index}`;
+        if (appliedRef.current === key) return;
+        appliedRef.current = key;
+        navigate(lessonStepPath(lesson, index, location), { replace: true });
+    }, [lesson, index, location, navigate]);
+
+    const close = () => {
+        const query = new URLSearchParams(location.search);
+        query.delete(LESSON_PARAM);
+        query.delete(STEP_PARAM);
+        navigate({ pathname: location.pathname, search: query.toString() }, { replace: true });
+    };
+
+    if (lesson === undefined) return null;
+
+    if (lesson === null) {
+        return (
+            <div role="alert" className="fixed bottom-4 left-4 z-40 flex max-w-sm items-center gap-3 rounded-xl border border-rose-500/30 bg-slate-900/95 px-4 py-3 text-sm text-rose-300 shadow-2xl backdrop-blur">
+                <span className="flex-1">{t("lessons.loadFailed")}</span>
+                <button onClick={close} aria-label={t("lessons.close")} className="rounded-lg p-1 text-slate-400 hover:bg-white/10 hover:text-white">
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+        );
+    }
+
+    const step = lesson.steps[index];
+    const last = index === lesson.steps.length - 1;
+    const onStepApp = location.pathname === lessonStepApp(lesson, index).url;
+    const waiting = step.waitFor !== undefined && step.waitFor.length > 0;
+    const done = !waiting || (onStepApp && conditionMet(step, param => readControl(param, search)));
+
+    const goTo = (target: number) => {
+        appliedRef.current = `${lesson.id}:${target}`;
+        navigate(lessonStepPath(lesson, target, location));
+    };
+
+    return (
+        <section
+            aria-label={t("lessons.player")}
+            className="fixed bottom-4 left-4 z-40 flex w-[calc(100%-2rem)] max-w-sm flex-col rounded-xl border border-cyan-500/30 bg-slate-900/95 shadow-2xl shadow-black/50 backdrop-blur animate-fade-in"
+        >
+            <header className="flex items-center gap-2 border-b border-white/10 px-4 py-2">
+                <GraduationCap className="h-4 w-4 shrink-0 text-cyan-400" />
+                <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs font-semibold text-white">{localize(lesson.title, locale)}</p>
+                    <p className="text-[10px] uppercase tracking-wider text-slate-500">
+                        {t("lessons.step", { current: index + 1, total: lesson.steps.length })}
+                    </p>
+                </div>
+                <button
+                    onClick={() => setCollapsed(c => !c)}
+                    aria-expanded={!collapsed}
+                    aria-label={t(collapsed ? "lessons.expand" : "lessons.collapse")}
+                    title={t(collapsed ? "lessons.expand" : "lessons.collapse")}
+                    className="rounded-lg p-1 text-slate-400 transition-colors hover:bg-white/10 hover:text-white"
+                >
+                    {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+                <button onClick={close} aria-label={t("lessons.close")} title={t("lessons.close")} className="rounded-lg p-1 text-slate-400 transition-colors hover:bg-white/10 hover:text-white">
+                    <X className="h-4 w-4" />
+                </button>
+            </header>
+
+            {!collapsed && (
+                <div className="flex max-h-[50vh] flex-col gap-3 overflow-y-auto px-4 py-3">
+                    {step.title && <h2 className="text-sm font-bold text-cyan-300">{localize(step.title, locale)}</h2>}
+                    <LessonText text={localize(step.narration, locale)} className="text-sm leading-relaxed text-slate-300" />
+                    {step.task && (
+                        <div
+                            role="status"
+                            className={cn(
+                                "flex items-start gap-2 rounded-lg border px-3 py-2 text-xs",
+                                done ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-200" : "border-amber-500/30 bg-amber-500/10 text-amber-100"
+                            )}
+                        >
+                            {done ? <CheckCircle2 className="mt-0.5 h-3.5 w-3.5 shrink-0" /> : <Circle className="mt-0.5 h-3.5 w-3.5 shrink-0" />}
+                            <LessonText text={localize(step.task, locale)} />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <footer className="flex items-center justify-between gap-2 border-t border-white/10 px-4 py-2">
+                <button onClick={() => goTo(index - 1)} disabled={index === 0} className={cn(BUTTON, "text-slate-300 hover:bg-white/10")}>
+                    <ChevronLeft className="h-3.5 w-3.5" /> {t("lessons.prev")}
+                </button>
+                {!done && <span className="text-[10px] text-slate-500">{t("lessons.waiting")}</span>}
+                <button
+                    onClick={() => (last ? close() : goTo(index + 1))}
+                    disabled={!done}
+                    title={done ? undefined : t("lessons.waiting")}
+                    className={cn(BUTTON, "bg-cyan-600 text-white hover:bg-cyan-500")}
+                >
+                    {last ? t("lessons.finish") : t("lessons.next")} {!last && <ChevronRight className="h-3.5 w-3.5" />}
+                </button>
+            </footer>
+        </section>
+    );
+}
@@ -1,18 +1,40 @@
-import { ChevronLeft, Home, Droplets, Cuboid, Waves, Menu, X } from "lucide-react";
+import { ChevronLeft, GraduationCap, Home, Menu, Search, X } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
-import { useState } from "react";
+import { lazy, Suspense, useEffect, useState } from "react";
 import { cn } from "../lib/utils";
+import { categories } from "../data/categories";
+import { useI18n } from "../i18n/useI18n";
+import { LOCALES } from "../i18n/translate";
+
+// The palette brings KaTeX and the preset index, so it is only fetched when opened.
+const loadCommandPalette = () => import("./CommandPalette");
+const CommandPalette = lazy(() => loadCommandPalette().then(m => ({ default: m.CommandPalette })));
 
 export function Navbar() {
     const location = useLocation();
+    const { t, locale, setLocale } = useI18n();
     const isHome = location.pathname === "/";
+    const isLessons = location.pathname === "/lessons";
     const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+    const [paletteOpen, setPaletteOpen] = useState(false);
+
+    // Ctrl+K / Cmd+K toggles the command palette from anywhere
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+                e.preventDefault();
+                setPaletteOpen(open => !open);
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, []);
 
-    const navLinks = [
-        { path: "/category/fluidos-en-reposo", label: "Fluidos", icon: Droplets },
-        { path: "/category/solidos-y-esfuerzos", label: "Sólidos", icon: Cuboid },
-        { path: "/category/hidrodinamica", label: "Hidrodinámica", icon: Waves },
-    ];
+    const navLinks = categories.map(category => ({
+        path: `/category/${category.id}`,
+        label: t(`categories.${category.id}.navLabel`),
+        icon: category.icon,
+    }));
 
     return (
         <nav className="sticky top-0 z-50 w-full border-b border-white/5 bg-slate-950/80 backdrop-blur-xl shadow-lg">
@@ -24,8 +46,8 @@ export function Navbar() {
                         <Link 
                             to="/" 
                             className="p-2 rounded-full hover:bg-white/10 text-slate-400 hover:text-white transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
-                            title="Volver al Inicio"
-                            aria-label="Volver al inicio"
+                            title={t("nav.backHome")}
+                            aria-label={t("nav.backHome")}
                         >
                             <ChevronLeft className="h-5 w-5" />
                         </Link>
@@ -41,7 +63,7 @@ export function Navbar() {
                                 MCon<span className="text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400">Hub</span>
                             </span>
                             <span className="text-[10px] font-medium text-slate-500 uppercase tracking-wider sm:tracking-widest group-hover:text-slate-400 transition-colors">
-                                Interactivo
+                                {t("nav.brandTagline")}
                             </span>
                         </div>
                     </Link>
@@ -72,6 +94,32 @@ export function Navbar() {
 
                 {/* Right: Actions */}
                 <div className="flex items-center gap-3 sm:gap-4">
+                    <button
+                        type="button"
+                        onClick={() => setPaletteOpen(true)}
+                        onMouseEnter={loadCommandPalette}
+                        className="flex items-center gap-2 p-2 sm:px-3 sm:py-1.5 rounded-full border border-white/10 text-slate-400 hover:text-white hover:bg-white/5 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
+                        title={t("nav.searchTitle")}
+                        aria-label={t("nav.searchLabel")}
+                    >
+                        <Search className="h-4 w-4 sm:h-3.5 sm:w-3.5" />
+                        <span className="hidden sm:inline text-xs font-medium">{t("nav.search")}</span>
+                        <kbd className="hidden md:inline rounded border border-slate-700 px-1 text-[10px] text-slate-500">Ctrl K</kbd>
+                    </button>
+
+                    <Link
+                        to="/lessons"
+                        className={cn(
+                            "hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70",
+                            isLessons
+                                ? "bg-blue-500/10 text-blue-400 border border-blue-500/20"
+                                : "text-slate-400 hover:text-white hover:bg-white/5"
+                        )}
+                    >
+                        <GraduationCap className="h-3.5 w-3.5" />
+                        <span>{t("nav.lessons")}</span>
+                    </Link>
+
                     <Link 
                         to="/"
                         className={cn(
@@ -82,9 +130,28 @@ export function Navbar() {
                         )}
                     >
                         <Home className="h-3.5 w-3.5" />
-                        <span>Inicio</span>
+                        <span>{t("nav.home")}</span>
                     </Link>
 
+                    {/* Language switcher (persisted) */}
+                    <div role="group" aria-label={t("common.language")} className="flex items-center rounded-full border border-white/10 p-0.5">
+                        {LOCALES.map((code) => (
+                            <button
+                                key={code}
+                                type="button"
+                                onClick={() => setLocale(code)}
+                                aria-pressed={locale === code}
+                                title={t(`common.languages.${code}`)}
+                                className={cn(
+                                    "px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70",
+                                    locale === code ? "bg-white/10 text-white" : "text-slate-500 hover:text-white"
+                                )}
+                            >
+                                {code}
+                            </button>
+                        ))}
+                    </div>
+
                     <div className="h-4 w-px bg-slate-800 hidden sm:block"></div>
 
                     <a 
@@ -101,7 +168,7 @@ export function Navbar() {
                         className="lg:hidden flex items-center gap-2 px-3 py-2 bg-gradient-to-r from-blue-500/10 to-cyan-500/10 hover:from-blue-500/20 hover:to-cyan-500/20 border border-blue-500/20 text-blue-400 hover:text-white transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70 rounded-full"
                         onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
                     >
-                        <span className="text-xs font-bold uppercase tracking-wider">Secciones</span>
+                        <span className="text-xs font-bold uppercase tracking-wider">{t("nav.sections")}</span>
                         {mobileMenuOpen ? <X size={18} /> : <Menu size={18} />}
                     </button>
                 </div>
@@ -138,11 +205,25 @@ export function Navbar() {
                             className="flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium text-slate-300 hover:bg-slate-800 transition-colors"
                         >
                             <Home className="w-5 h-5" />
-                            Inicio
+                            {t("nav.home")}
+                        </Link>
+                        <Link
+                            to="/lessons"
+                            onClick={() => setMobileMenuOpen(false)}
+                            className="flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium text-slate-300 hover:bg-slate-800 transition-colors"
+                        >
+                            <GraduationCap className="w-5 h-5" />
+                            {t("nav.lessons")}
                         </Link>
                     </div>
                 </div>
             )}
+
+            {paletteOpen && (
+                <Suspense fallback={null}>
+                    <CommandPalette onClose={() => setPaletteOpen(false)} />
+                </Suspense>
+            )}
         </nav>
     );
 }
@@ -0,0 +1,31 @@
+import { useLocation } from "react-router-dom";
+import { findAppByPath, getAppCategory } from "../data/apps";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+
+// Shown while a lazily loaded app chunk is downloading. It takes the colors of
+// the app being opened so the transition feels part of the same page.
+export function RouteFallback() {
+    const location = useLocation();
+    const { t } = useI18n();
+    const app = findAppByPath(location.pathname);
+    const Icon = app?.icon;
+    const color = app ? getAppCategory(app).color : "from-blue-500 to-cyan-500";
+
+    return (
+        <div className="flex flex-1 h-full w-full items-center justify-center animate-fade-in" role="status" aria-live="polite">
+            <div className="flex flex-col items-center gap-5">
+                <div className="relative flex items-center justify-center">
+                    <div className={cn("absolute inset-0 rounded-full bg-gradient-to-br blur-2xl opacity-40 animate-glow", color)} />
+                    <div className={cn("relative p-4 rounded-2xl bg-gradient-to-br shadow-2xl", color)}>
+                        {Icon && <Icon className="w-8 h-8 text-white" />}
+                    </div>
+                </div>
+                <div className="w-6 h-6 border-2 border-white/20 border-t-white rounded-full animate-spin" />
+                <p className="text-sm font-medium text-slate-400">
+                    {app ? t("common.loadingApp", { title: t(`apps.${app.id}.title`) }) : t("common.loading")}
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+import { Dices } from "lucide-react";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+import { MAX_SEED, randomSeed } from "../lib/random";
+
+interface SeedControlProps {
+    seed: number;
+    onChange: (seed: number) => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+// Seed of a simulation's PRNG: typing a classmate's seed reproduces their run.
+export function SeedControl({ seed, onChange, disabled, className }: SeedControlProps) {
+    const { t } = useI18n();
+
+    const commit = (raw: string) => {
+        const value = Math.round(Number(raw));
+        if (Number.isFinite(value) && value >= 1 && value <= MAX_SEED) onChange(value);
+    };
+
+    return (
+        <div className={cn("flex items-center gap-2 text-xs text-slate-400", className)} title={t("seed.hint")}>
+            <span>{t("seed.label")}</span>
+            <input
+                type="number"
+                min={1}
+                max={MAX_SEED}
+                value={seed}
+                disabled={disabled}
+                onChange={e => commit(e.target.value)}
+                className="w-24 min-w-0 flex-1 rounded-md border border-slate-700 bg-slate-950 px-2 py-1 font-mono text-slate-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70 disabled:opacity-50"
+            />
+            <button
+                type="button"
+                onClick={() => onChange(randomSeed())}
+                disabled={disabled}
+                aria-label={t("seed.new")}
+                title={t("seed.new")}
+                className="rounded-md bg-slate-800 p-1.5 text-slate-300 transition-colors hover:bg-slate-700 hover:text-white disabled:opacity-50"
+            >
+                <Dices className="h-4 w-4" />
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { useRef } from "react";
+import { Circle, FolderOpen, Play, Save, Square } from "lucide-react";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+import type { Session } from "../lib/session";
+import type { SessionControl } from "../hooks/useSessionRecorder";
+
+interface SessionControlsProps<E, S> {
+    session: SessionControl<E, S>;
+    onRecord?: () => void; // Restart the run, then call session.startRecording; omit when every run records itself
+    onReplay: (session: Session<E, S>) => void; // Restart from the session, then call session.startReplay
+    className?: string;
+}
+
+const BUTTON = "flex items-center gap-1.5 rounded-md px-2 py-1 text-[11px] font-semibold transition-colors disabled:opacity-40";
+
+// Record / replay / save / load buttons shared by the interactive simulations.
+export function SessionControls<E, S>({ session, onRecord, onReplay, className }: SessionControlsProps<E, S>) {
+    const { t } = useI18n();
+    const fileRef = useRef<HTMLInputElement>(null);
+    const { mode, session: last } = session;
+
+    const openFile = async (file: File | undefined) => {
+        if (!file) return;
+        const loaded = await session.load(file);
+        if (loaded) onReplay(loaded);
+    };
+
+    return (
+        <div className={cn("flex flex-col gap-1", className)}>
+            <div role="group" aria-label={t("session.title")} className="flex flex-wrap items-center gap-1 rounded-lg border border-white/10 bg-slate-900/80 p-1 backdrop-blur">
+                {mode === "idle" ? (
+                    <>
+                        {onRecord && (
+                            <button onClick={onRecord} className={cn(BUTTON, "text-rose-300 hover:bg-rose-500/20")}>
+                                <Circle className="h-3 w-3 fill-current" /> {t("session.record")}
+                            </button>
+                        )}
+                        <button onClick={() => last && onReplay(last)} disabled={!last} className={cn(BUTTON, "text-slate-300 hover:bg-white/10")}>
+                            <Play className="h-3 w-3" /> {t("session.replay")}
+                        </button>
+                        <button onClick={session.save} disabled={!last} title={t("session.saveHint")} className={cn(BUTTON, "text-slate-300 hover:bg-white/10")}>
+                            <Save className="h-3 w-3" /> {t("session.save")}
+                        </button>
+                        <button onClick={() => fileRef.current?.click()} title={t("session.loadHint")} className={cn(BUTTON, "text-slate-300 hover:bg-white/10")}>
+                            <FolderOpen className="h-3 w-3" /> {t("session.load")}
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <span role="status" className={cn("flex items-center gap-1.5 px-2 text-[11px] font-semibold", mode === "recording" ? "text-rose-400" : "text-cyan-300")}>
+                            <span className={cn("h-2 w-2 animate-pulse rounded-full", mode === "recording" ? "bg-rose-500" : "bg-cyan-400")} />
+                            {t(`session.${mode}`)}
+                        </span>
+                        <button onClick={session.stop} className={cn(BUTTON, "text-slate-200 hover:bg-white/10")}>
+                            <Square className="h-3 w-3 fill-current" /> {t("session.stop")}
+                        </button>
+                    </>
+                )}
+            </div>
+            {session.loadFailed && <p className="px-1 text-[10px] text-rose-400">{t("session.loadFailed")}</p>}
+            <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                    openFile(e.target.files?.[0]);
+                    e.target.value = "";
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,35 @@
+import { RefreshCw, X } from "lucide-react";
+import { useServiceWorkerUpdate } from "../hooks/useServiceWorkerUpdate";
+import { useI18n } from "../i18n/useI18n";
+
+// Offers to reload when the service worker has downloaded a new deploy.
+export function UpdateBanner() {
+    const { updateReady, applyUpdate, dismiss } = useServiceWorkerUpdate();
+    const { t } = useI18n();
+
+    if (!updateReady) return null;
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className="fixed bottom-4 left-1/2 z-[90] flex w-[calc(100%-2rem)] max-w-md -translate-x-1/2 items-center gap-3 rounded-xl border border-cyan-500/30 bg-slate-900/95 px-4 py-3 shadow-2xl shadow-black/50 backdrop-blur animate-fade-in"
+        >
+            <RefreshCw className="h-4 w-4 shrink-0 text-cyan-400" />
+            <p className="flex-1 text-sm text-slate-200">{t("pwa.updateReady")}</p>
+            <button
+                onClick={applyUpdate}
+                className="rounded-lg bg-cyan-600 px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-cyan-500"
+            >
+                {t("pwa.reload")}
+            </button>
+            <button
+                onClick={dismiss}
+                aria-label={t("pwa.dismiss")}
+                className="rounded-lg p-1 text-slate-400 transition-colors hover:bg-white/10 hover:text-white"
+            >
+                <X className="h-4 w-4" />
+            </button>
+        </div>
+    );
+}
@@ -1,128 +1,193 @@
-import { 
-    Atom, 
+import { lazy } from "react";
+import type { ComponentType, LazyExoticComponent } from "react";
+import type { LucideIcon } from "lucide-react";
+import {
+    Atom,
     Beaker,
-    Wind, 
-    Waves, 
-    Box, 
+    Wind,
+    Waves,
+    Box,
     Activity,
     Route,
     Gauge,
-    Cloud
+    Cloud,
+    Spline
 } from "lucide-react";
+import { categories } from "./categories";
+import type { CategoryDefinition, CategoryId } from "./categories";
 
+// Single source of truth for the catalog: routes, category pages, category
+// cards and the Navbar are all derived from this list. Display text lives in
+// the i18n catalogs under `apps.<id>`.
 export interface AppDefinition {
-    id: string;
-    title: string;
-    description: string;
-    icon: any; // Lucide icon
+    id: string; // Also the key of its title/description in the i18n catalogs
+    icon: LucideIcon;
     image: string; // Preview image path
-    url?: string; // Internal route
+    url: string; // Internal route
+    component: LazyExoticComponent<ComponentType>;
+    preload: () => void; // Fetches the route chunk ahead of navigation
+    category: CategoryId;
     externalUrl?: string; // For legacy HTML apps if needed
     tags: string[];
+    equations?: string[]; // LaTeX shown by the app, indexed by the command palette
     color: string; // Tailwinc color class equivalent for gradients
     isPlaceholder?: boolean;
 }
 
+// Each app lives in its own chunk so the Dashboard does not pull in three,
+// mathjs or KaTeX. `preload` and the lazy component share the same request.
+function lazyApp(load: () => Promise<{ default: ComponentType }>) {
+    let pending: Promise<{ default: ComponentType }> | undefined;
+    const loadOnce = () => (pending ??= load().catch(error => {
+        // Allow a retry after a network failure instead of caching the rejection
+        pending = undefined;
+        throw error;
+    }));
+    const preload = () => {
+        // A failed prefetch is retried (and reported) when the route renders
+        loadOnce().catch(() => {});
+    };
+    return { component: lazy(loadOnce), preload };
+}
+
+// Apps are listed in the order they appear inside each category page.
 export const apps: AppDefinition[] = [
+    // --- Fluidos en Reposo ---
     {
         id: "discreto-continuo",
-        title: "Discreto vs Continuo",
-        description: "¿A qué escala la materia se comporta como un continuo? Selecciona volúmenes de control y observa cómo la densidad converge al promedio global.",
         icon: Box,
         image: "/previews/discreto_continuo.png",
         url: "/apps/discreto-continuo",
+        ...lazyApp(() => import("../apps/DiscreteContinuous/DiscreteContinuous")),
+        category: "fluidos-en-reposo",
         tags: ["Fundamentos", "Densidad", "Simulación"],
         color: "from-cyan-400 to-blue-500"
     },
     {
         id: "camino-libre",
-        title: "Camino Libre Medio",
-        description: "Navega tu partícula a través de un gas ideal. Experimenta colisiones elásticas y mide empíricamente el camino libre medio λ.",
         icon: Atom,
         image: "/previews/camino_libre.png",
         url: "/apps/camino-libre-medio",
+        ...lazyApp(() => import("../apps/MeanFreePath/MeanFreePath")),
+        category: "fluidos-en-reposo",
         tags: ["Termodinámica", "Estadística", "Gases"],
         color: "from-emerald-400 to-teal-500"
     },
+    {
+        id: "meniscos",
+        icon: Waves,
+        image: "/previews/meniscos.png",
+        url: "/apps/meniscus",
+        ...lazyApp(() => import("../apps/Meniscus/Meniscus")),
+        category: "fluidos-en-reposo",
+        tags: ["Fluidos", "Tensión Superficial"],
+        equations: [
+            String.raw`\kappa = \frac{1}{R}`,
+            String.raw`\rho g z = \alpha \kappa`,
+            String.raw`z_0 = \sqrt{2} R_c \sqrt{1 - \sin\alpha_c}`
+        ],
+        color: "from-blue-400 to-indigo-500"
+    },
     {
         id: "hydrostatic-pressure",
-        title: "Presión Hidrostática",
-        description: "Explora cómo la presión en un fluido depende de la profundidad, la densidad y la gravedad. Dibuja tu propio tanque para comprobar la paradoja hidrostática.",
         icon: Gauge,
         image: "/previews/presion.png",
         url: "/apps/hydrostatic-pressure",
+        ...lazyApp(() => import("../apps/HydrostaticPressure/HydrostaticPressure")),
+        category: "fluidos-en-reposo",
         tags: ["Fluidos", "Presión", "Simulación"],
         color: "from-cyan-400 to-blue-500"
     },
     {
         id: "parallel-atmospheres",
-        title: "Atmósferas Paralelas",
-        description: "Construye perfiles térmicos por capas y compara modelos termodinámicos como la atmósfera ISAtm y modelos adiabáticos o isotérmicos.",
         icon: Cloud,
         image: "/previews/atm-pararel.png",
         url: "/apps/parallel-atmospheres",
+        ...lazyApp(() => import("../apps/ParallelAtmospheres/ParallelAtmospheres")),
+        category: "fluidos-en-reposo",
         tags: ["Termodinámica", "Fluidos", "Gases"],
         color: "from-sky-400 to-indigo-500"
     },
-    {
-        id: "meniscos",
-        title: "Deducción de Menisco",
-        description: "Derivación interactiva paso a paso de la ecuación del menisco capilar, con visualización del perfil y las fuerzas de tensión superficial.",
-        icon: Waves,
-        image: "/previews/meniscos.png",
-        url: "/apps/meniscus",
-        tags: ["Fluidos", "Tensión Superficial"],
-        color: "from-blue-400 to-indigo-500"
-    },
+    // --- Sólidos y Esfuerzos ---
     {
         id: "deformaciones",
-        title: "Tensor de Deformaciones",
-        description: "Define campos de desplazamiento u(x,y,z) y visualiza en 3D la deformación de un cubo. Calcula automáticamente el tensor ε con derivación simbólica.",
         icon: Activity,
         image: "/previews/deformaciones.png",
         url: "/apps/calc-deformaciones",
+        ...lazyApp(() => import("../apps/Deformations/Deformations")),
+        category: "solidos-y-esfuerzos",
         tags: ["Mecánica Sólidos", "Tensores", "3D"],
+        equations: [
+            String.raw`\boldsymbol{\epsilon} = \frac{1}{2} (\nabla \mathbf{u} + (\nabla \mathbf{u})^T)`
+        ],
         color: "from-rose-400 to-pink-500"
     },
+    {
+        id: "esfuerzos",
+        icon: Box,
+        image: "/previews/Tensor_esfuerzos.png",
+        url: "/apps/stress-tensor",
+        ...lazyApp(() => import("../apps/StressTensor/StressTensor")),
+        category: "solidos-y-esfuerzos",
+        tags: ["Mecánica Sólidos", "Tensores", "3D", "Esfuerzos"],
+        color: "from-cyan-400 to-blue-500"
+    },
+    // --- Hidrodinámica ---
     {
         id: "velocidades",
-        title: "Campo de Velocidades",
-        description: "Visualiza líneas de corriente, trayectorias y líneas de traza simultáneamente. Define tu propio campo v(x,y,t) o explora 7 presets clásicos.",
         icon: Wind,
         image: "/previews/velocidades.png",
         url: "/apps/velocity-field",
+        ...lazyApp(() => import("../apps/VelocityField/VelocityField")),
+        category: "hidrodinamica",
         tags: ["Cinemática", "Fluidos", "Vectores"],
         color: "from-amber-400 to-orange-500"
     },
     {
         id: "euler-lagrange",
-        title: "Euler vs Lagrange",
-        description: "Compara lado a lado las perspectivas Euleriana (campo fijo) y Lagrangiana (partícula marcada) con 9 flujos canónicos y visualización de divergencia.",
         icon: Route,
         image: "/previews/euler_lagrange.png",
         url: "/apps/euler-lagrange",
+        ...lazyApp(() => import("../apps/EulerLagrange/EulerLagrange")),
+        category: "hidrodinamica",
         tags: ["Teoría", "Referenciales", "Fluidos"],
         color: "from-purple-400 to-violet-500"
     },
     {
         id: "tablero-flujo-euler",
-        title: "Tablero de Flujo Ideal de Euler",
-        description: "Sandbox de flujo ideal para combinar campos, activar objetos como cilindro, Venturi o depósito, y leer velocidad, vorticidad, presión y Bernoulli.",
         icon: Beaker,
         image: "/previews/tablero_flujo_euler.png",
         url: "/apps/tablero-flujo-ideal-euler",
+        ...lazyApp(() => import("../apps/EulerFlowTable/EulerFlowTable")),
+        category: "hidrodinamica",
         tags: ["Euler", "Bernoulli", "Vorticidad", "Función de corriente"],
         color: "from-cyan-400 to-emerald-500"
     },
     {
-        id: "esfuerzos",
-        title: "Tensor de Esfuerzos 3D",
-        description: "Visualiza el estado de esfuerzos (Cauchy) en un punto con un cubo diferencial en 3D interactivo. Diferencia esfuerzo vs deformación.",
-        icon: Box,
-        image: "/previews/Tensor_esfuerzos.png",
-        url: "/apps/stress-tensor",
-        tags: ["Mecánica Sólidos", "Tensores", "3D", "Esfuerzos"],
-        color: "from-cyan-400 to-blue-500"
+        id: "funcion-corriente",
+        icon: Spline,
+        image: "/previews/funcion_corriente.svg",
+        url: "/apps/funcion-corriente",
+        ...lazyApp(() => import("../apps/StreamFunctionExplainer/StreamFunctionExplainer")),
+        category: "hidrodinamica",
+        tags: ["Función de corriente", "Flujo potencial", "Cilindro", "Esfera"],
+        equations: [
+            String.raw`\psi=U r\sin\phi\left(1-\frac{a^2}{r^2}\right)`,
+            String.raw`\psi=\frac12 U r^2\sin^2\theta\left(1-\frac{a^3}{r^3}\right)`
+        ],
+        color: "from-teal-400 to-cyan-500"
     }
 ];
 
+export function getCategoryApps(categoryId: CategoryId): AppDefinition[] {
+    return apps.filter(app => app.category === categoryId);
+}
+
+export function getAppCategory(app: AppDefinition): CategoryDefinition {
+    // `category` is typed as CategoryId, so this lookup cannot miss.
+    return categories.find(c => c.id === app.category)!;
+}
+
+export function findAppByPath(pathname: string): AppDefinition | undefined {
+    return apps.find(app => app.url === pathname);
+}
@@ -1,31 +1,39 @@
 import { Droplets, Cuboid, Waves } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
 
-export const categories = [
+export type CategoryId = "fluidos-en-reposo" | "solidos-y-esfuerzos" | "hidrodinamica";
+
+export type CategoryTheme = "fluidos" | "solidos" | "hidrodinamica";
+
+export interface CategoryDefinition {
+    id: CategoryId; // Title, Navbar label and description: `categories.<id>` in the i18n catalogs
+    icon: LucideIcon;
+    color: string;
+    theme: CategoryTheme;
+}
+
+// The apps of each category are declared in data/apps.ts (`category` field).
+export const categories: CategoryDefinition[] = [
     {
         id: "fluidos-en-reposo",
-        title: "Fluidos en Reposo",
-        description: "Estudio de los fluidos en equilibrio, presión hidrostática, tensión superficial y el comportamiento de la materia a nivel discreto y continuo.",
         icon: Droplets,
         color: "from-cyan-500 to-blue-600",
-        theme: "fluidos",
-        apps: ["discreto-continuo", "camino-libre", "meniscos", "hydrostatic-pressure", "parallel-atmospheres"]
+        theme: "fluidos"
     },
     {
         id: "solidos-y-esfuerzos",
-        title: "Sólidos y Esfuerzos",
-        description: "Análisis de la deformación de los cuerpos sólidos bajo la acción de fuerzas, tensores de esfuerzos y deformaciones.",
         icon: Cuboid,
         color: "from-rose-500 to-pink-600",
-        theme: "solidos",
-        apps: ["deformaciones", "esfuerzos"]
+        theme: "solidos"
     },
     {
         id: "hidrodinamica",
-        title: "Hidrodinámica",
-        description: "Dinámica de los fluidos en movimiento, campos de velocidades, líneas de corriente y las perspectivas de Euler y Lagrange.",
         icon: Waves,
         color: "from-amber-500 to-orange-600",
-        theme: "hidrodinamica",
-        apps: ["velocidades", "euler-lagrange", "tablero-flujo-euler", "funcion-corriente"]
+        theme: "hidrodinamica"
     }
 ];
+
+export function getCategory(id: string | undefined): CategoryDefinition | undefined {
+    return categories.find(c => c.id === id);
+}
@@ -0,0 +1,76 @@
+import { apps } from "./apps";
+import type { AppDefinition } from "./apps";
+import { parseLesson, stepValues } from "../lib/lessons";
+import { encodeControl } from "../lib/controls";
+import type { Lesson } from "../lib/lessons";
+
+// Every JSON file in `lessons/` is a lesson; its file name is the id used in
+// links (`?lesson=<id>`). Files are fetched on demand, not bundled in the shell.
+const FILES = import.meta.glob<unknown>("./lessons/*.json", { import: "default" });
+
+// A lesson opened from disk on the lessons page, kept for the browser tab.
+export const LOCAL_LESSON_ID = "local";
+const LOCAL_LESSON_KEY = "mecanica-del-continuo/local-lesson";
+
+// Query keys owned by the lesson player; no app uses them.
+export const LESSON_PARAM = "lesson";
+export const STEP_PARAM = "step";
+
+const appIds = apps.map(app => app.id);
+
+function fileId(path: string): string {
+    return path.slice(path.lastIndexOf("/") + 1, -".json".length);
+}
+
+export const lessonIds = Object.keys(FILES).map(fileId).sort();
+
+export async function loadLesson(id: string): Promise<Lesson> {
+    if (id === LOCAL_LESSON_ID) {
+        const stored = sessionStorage.getItem(LOCAL_LESSON_KEY);
+        if (stored === null) throw new Error("lesson: no hay ninguna lección local abierta");
+        return parseLesson(JSON.parse(stored), id, appIds);
+    }
+    const load = FILES[`./lessons/${id}.json`];
+    if (!load) throw new Error(`lesson: no existe la lección "${id}"`);
+    return parseLesson(await load(), id, appIds);
+}
+
+// A broken file is reported in `errors` without hiding the other lessons.
+export async function loadAllLessons(): Promise<{ lessons: Lesson[]; errors: string[] }> {
+    const results = await Promise.allSettled(lessonIds.map(loadLesson));
+    const lessons: Lesson[] = [];
+    const errors: string[] = [];
+    for (const result of results) {
+        if (result.status === "fulfilled") lessons.push(result.value);
+        else errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+    }
+    return { lessons, errors };
+}
+
+// Checks an authored file and keeps it so `?lesson=local` can play it.
+export function openLocalLesson(text: string): Lesson {
+    const data: unknown = JSON.parse(text);
+    const lesson = parseLesson(data, LOCAL_LESSON_ID, appIds);
+    sessionStorage.setItem(LOCAL_LESSON_KEY, JSON.stringify(data));
+    return lesson;
+}
+
+export function lessonStepApp(lesson: Lesson, index: number): AppDefinition {
+    const id = lesson.steps[index].app ?? lesson.app;
+    return apps.find(app => app.id === id)!;
+}
+
+/**
+ * Route of a lesson step: the step's app with its values in the query. Staying
+ * on the same app keeps what the student has set for the other parameters.
+ */
+export function lessonStepPath(lesson: Lesson, index: number, current?: { pathname: string; search: string }): string {
+    const app = lessonStepApp(lesson, index);
+    const query = new URLSearchParams(current?.pathname === app.url ? current.search : "");
+    for (const [key, value] of Object.entries(stepValues(lesson.steps[index]))) {
+        query.set(key, encodeControl(value));
+    }
+    query.set(LESSON_PARAM, lesson.id);
+    query.set(STEP_PARAM, String(index + 1));
+    return `${app.url}?${query}`;
+}
@@ -0,0 +1,158 @@
+import { apps } from "./apps";
+import type { AppDefinition } from "./apps";
+import { PRESETS as VELOCITY_PRESETS } from "../apps/VelocityField/presets";
+import { PRESETS as DEFORMATION_PRESETS, PRESET_BODIES as DEFORMATION_BODIES } from "../apps/Deformations/presets";
+import { FLOWS } from "../apps/EulerLagrange/flows";
+import { TABS as FLOW_TABLE_TABS } from "../apps/EulerFlowTable/tabs";
+import { MESSAGES as VELOCITY_MESSAGES } from "../apps/VelocityField/messages";
+import { MESSAGES as DEFORMATION_MESSAGES } from "../apps/Deformations/messages";
+import { MESSAGES as EULER_LAGRANGE_MESSAGES } from "../apps/EulerLagrange/messages";
+import { MESSAGES as FLOW_TABLE_MESSAGES } from "../apps/EulerFlowTable/messages";
+import { hubMessages } from "../i18n/messages";
+import { createTranslator } from "../i18n/translate";
+import type { Locale, Messages } from "../i18n/translate";
+
+export type SearchEntryKind = "app" | "preset" | "equation";
+
+export interface SearchEntry {
+    id: string;
+    kind: SearchEntryKind;
+    app: AppDefinition;
+    appTitle: string;
+    title: string;
+    subtitle: string;
+    tex?: string;
+    to: string; // Route plus the query string that applies the preset
+}
+
+interface IndexedEntry {
+    entry: SearchEntry;
+    title: string; // Normalized
+    text: string; // Normalized title + subtitle + keywords + tex
+}
+
+// Lowercase, strip accents and LaTeX syntax so "vorticidad", "Vórtice" and
+// "\nabla \cdot" can be typed as plain words.
+export function normalizeSearchText(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .replace(/\\(?=[a-z])/g, " ")
+        .replace(/[\\{}^_$,;:()[\]]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function appById(id: string): AppDefinition {
+    const app = apps.find(a => a.id === id);
+    if (!app) {
+        throw new Error(`search: unknown app id "${id}"`);
+    }
+    return app;
+}
+
+function withQuery(app: AppDefinition, query: Record<string, string>): string {
+    return `${app.url}?${new URLSearchParams(query)}`;
+}
+
+// Titles come from the app's own catalog, with the hub catalog as fallback.
+function translator(locale: Locale, ...messages: Messages[]) {
+    return createTranslator(locale, ...messages, hubMessages);
+}
+
+function buildIndex(locale: Locale): IndexedEntry[] {
+    const t = translator(locale);
+    const entries: { entry: SearchEntry; keywords: string }[] = [];
+    const add = (entry: Omit<SearchEntry, "appTitle">, keywords: string[] = []) => {
+        entries.push({ entry: { ...entry, appTitle: t(`apps.${entry.app.id}.title`) }, keywords: keywords.join(" ") });
+    };
+
+    for (const app of apps) {
+        const title = t(`apps.${app.id}.title`);
+        add({ id: app.id, kind: "app", app, title, subtitle: t(`apps.${app.id}.description`), to: app.url }, app.tags);
+        app.equations?.forEach((tex, i) => {
+            add({ id: `${app.id}:eq${i}`, kind: "equation", app, title, subtitle: t("palette.subtitles.equation"), tex, to: app.url });
+        });
+    }
+
+    const velocity = appById("velocidades");
+    const tVelocity = translator(locale, VELOCITY_MESSAGES);
+    for (const preset of VELOCITY_PRESETS) {
+        const to = withQuery(velocity, { preset: preset.id, u: preset.u, v: preset.v });
+        add({ id: `velocidades:${preset.id}`, kind: "preset", app: velocity, title: tVelocity(`presets.${preset.id}.name`), subtitle: tVelocity(`presets.${preset.id}.desc`), to },
+            [preset.u, preset.v]);
+    }
+
+    const deformations = appById("deformaciones");
+    const tDeformation = translator(locale, DEFORMATION_MESSAGES);
+    for (const [key, preset] of Object.entries(DEFORMATION_PRESETS)) {
+        const body = DEFORMATION_BODIES[key as keyof typeof DEFORMATION_PRESETS];
+        const to = withQuery(deformations, { preset: key, u: preset.u, v: preset.v, w: preset.w, ...(body && { body }) });
+        add({ id: `deformaciones:${key}`, kind: "preset", app: deformations, title: tDeformation(`presets.${key}`), subtitle: `u = (${preset.u}, ${preset.v}, ${preset.w})`, to });
+    }
+
+    const eulerLagrange = appById("euler-lagrange");
+    const tEulerLagrange = translator(locale, EULER_LAGRANGE_MESSAGES);
+    for (const [name, flow] of Object.entries(FLOWS)) {
+        const to = withQuery(eulerLagrange, { flow: name });
+        const title = tEulerLagrange(`flows.${name}`);
+        add({ id: `euler-lagrange:${name}`, kind: "preset", app: eulerLagrange, title, subtitle: t("palette.subtitles.canonicalFlow"), tex: flow.equation, to },
+            [flow.divEquation]);
+        add({ id: `euler-lagrange:${name}:div`, kind: "equation", app: eulerLagrange, title, subtitle: t("palette.subtitles.divergence"), tex: flow.divEquation, to });
+    }
+
+    const flowTable = appById("tablero-flujo-euler");
+    const tFlowTable = translator(locale, FLOW_TABLE_MESSAGES);
+    for (const tab of FLOW_TABLE_TABS) {
+        const to = withQuery(flowTable, { tab: tab.id });
+        const title = tFlowTable(`tabs.${tab.id}.label`);
+        add({ id: `tablero-flujo-euler:${tab.id}`, kind: "preset", app: flowTable, title, subtitle: tFlowTable(`tabs.${tab.id}.description`), to });
+        tab.equations.forEach((tex, i) => {
+            add({ id: `tablero-flujo-euler:${tab.id}:eq${i}`, kind: "equation", app: flowTable, title, subtitle: t("palette.subtitles.equation"), tex, to });
+        });
+    }
+
+    return entries.map(({ entry, keywords }) => ({
+        entry,
+        title: normalizeSearchText(entry.title),
+        text: normalizeSearchText([entry.title, entry.subtitle, entry.appTitle, keywords, entry.tex ?? ""].join(" ")),
+    }));
+}
+
+// Built on first search, once per language
+const INDEXES = new Map<Locale, IndexedEntry[]>();
+
+function getIndex(locale: Locale): IndexedEntry[] {
+    let index = INDEXES.get(locale);
+    if (!index) {
+        index = buildIndex(locale);
+        INDEXES.set(locale, index);
+    }
+    return index;
+}
+
+const KIND_WEIGHT: Record<SearchEntryKind, number> = { app: 2, preset: 1, equation: 0 };
+
+/**
+ * Returns the entries that contain every word of `query`, best matches first.
+ * An empty query lists the apps of the catalog.
+ */
+export function searchCatalog(query: string, locale: Locale, limit = 30): SearchEntry[] {
+    const index = getIndex(locale);
+    const words = normalizeSearchText(query).split(" ").filter(Boolean);
+    if (words.length === 0) {
+        return index.filter(i => i.entry.kind === "app").map(i => i.entry);
+    }
+
+    return index
+        .filter(i => words.every(w => i.text.includes(w)))
+        .map(i => ({
+            entry: i.entry,
+            score: words.reduce((s, w) => s + (i.title.includes(w) ? 3 : 1) + (i.title.startsWith(w) ? 1 : 0), 0)
+                + KIND_WEIGHT[i.entry.kind],
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(r => r.entry);
+}
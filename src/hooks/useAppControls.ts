@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { notifyControls, registerRuntime } from '../lib/controls';
+import type { AppRuntime } from '../lib/controls';
+
+/**
+ * Publishes the live state of an app (play/pause, measured values) in
+ * `lib/controls`, next to the URL parameters `useUrlState` publishes, so an
+ * embedding page can drive and read it. A new object every render is fine:
+ * readers always get the latest one.
+ */
+export function useAppControls(runtime: AppRuntime) {
+    const latestRef = useRef(runtime);
+    useEffect(() => {
+        latestRef.current = runtime;
+    });
+
+    useEffect(() => registerRuntime(() => latestRef.current), []);
+
+    // Readers only re-render on notifications; a pause must reach them.
+    const { playing } = runtime;
+    useEffect(() => {
+        notifyControls();
+    }, [playing]);
+}
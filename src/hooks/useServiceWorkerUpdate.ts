@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// Classroom tabs stay open for hours; look for a new deploy periodically
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker emitted by `plugins/serviceWorker.ts` (production
+ * builds only) and reports when a new deploy has been downloaded.
+ * `applyUpdate` activates it and reloads the page.
+ */
+export function useServiceWorkerUpdate() {
+    const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+    useEffect(() => {
+        if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+        let cancelled = false;
+        let interval: number | undefined;
+        const container = navigator.serviceWorker;
+
+        // Without a controller this is the first install, not an update
+        const offer = (worker: ServiceWorker | null) => {
+            if (!cancelled && worker && container.controller) setWaiting(worker);
+        };
+
+        container.register('/sw.js').then(registration => {
+            if (cancelled) return;
+            offer(registration.waiting);
+            registration.addEventListener('updatefound', () => {
+                const installing = registration.installing;
+                installing?.addEventListener('statechange', () => {
+                    if (installing.state === 'installed') offer(installing);
+                });
+            });
+            interval = window.setInterval(() => {
+                registration.update().catch(() => {});
+            }, UPDATE_CHECK_INTERVAL);
+        }).catch(error => {
+            // The app keeps working online; only offline support is lost
+            console.warn('No se pudo registrar el service worker', error);
+        });
+
+        return () => {
+            cancelled = true;
+            window.clearInterval(interval);
+        };
+    }, []);
+
+    const applyUpdate = useCallback(() => {
+        if (!waiting) return;
+        navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+        waiting.postMessage({ type: 'SKIP_WAITING' });
+    }, [waiting]);
+
+    const dismiss = useCallback(() => setWaiting(null), []);
+
+    return { updateReady: waiting !== null, applyUpdate, dismiss };
+}
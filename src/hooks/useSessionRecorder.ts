@@ -0,0 +1,81 @@
+import { useState, useRef, useCallback } from 'react';
+import { SessionPlayer, SessionRecorder, parseSession, saveSession } from '../lib/session';
+import type { Session } from '../lib/session';
+
+export type SessionMode = 'idle' | 'recording' | 'replaying';
+
+/**
+ * Record/replay state of one simulation (see `lib/session.ts`).
+ * The app restarts its run before `startRecording` / `startReplay`, calls
+ * `tick` at the start of every simulation step (applying the inputs it returns
+ * while replaying) and `record` for each live input. `tick` and `record` only
+ * touch refs, so they are safe inside animation loops.
+ */
+export function useSessionRecorder<E, S>(app: string) {
+    const [mode, setMode] = useState<SessionMode>('idle');
+    // Last finished or loaded session, the one "save" and "replay" use
+    const [session, setSession] = useState<Session<E, S> | null>(null);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const recorderRef = useRef<SessionRecorder<E, S> | null>(null);
+    const playerRef = useRef<SessionPlayer<E, S> | null>(null);
+
+    const startRecording = useCallback((seed: number, setup: S) => {
+        playerRef.current = null;
+        recorderRef.current = new SessionRecorder<E, S>(seed, setup);
+        setMode('recording');
+    }, []);
+
+    const startReplay = useCallback((target: Session<E, S>) => {
+        recorderRef.current = null;
+        playerRef.current = new SessionPlayer(target);
+        setMode('replaying');
+    }, []);
+
+    const stop = useCallback(() => {
+        const recorder = recorderRef.current;
+        if (recorder) setSession(recorder.finish(app));
+        recorderRef.current = null;
+        playerRef.current = null;
+        setMode('idle');
+    }, [app]);
+
+    const tick = useCallback((): E[] => {
+        recorderRef.current?.tick();
+        const player = playerRef.current;
+        if (!player) return [];
+        const due = player.tick();
+        if (player.finished) {
+            // Past the last recorded step the run simply goes on live
+            playerRef.current = null;
+            setMode('idle');
+        }
+        return due;
+    }, []);
+
+    const record = useCallback((input: E) => {
+        recorderRef.current?.record(input);
+    }, []);
+
+    const isReplaying = useCallback(() => playerRef.current !== null, []);
+
+    const save = useCallback(() => {
+        if (session) saveSession(session);
+    }, [session]);
+
+    const load = useCallback(async (file: File): Promise<Session<E, S> | null> => {
+        try {
+            const loaded = parseSession<E, S>(await file.text(), app);
+            setSession(loaded);
+            setLoadFailed(false);
+            return loaded;
+        } catch (error) {
+            console.error(error);
+            setLoadFailed(true);
+            return null;
+        }
+    }, [app]);
+
+    return { mode, session, loadFailed, startRecording, startReplay, stop, tick, record, isReplaying, save, load };
+}
+
+export type SessionControl<E, S> = ReturnType<typeof useSessionRecorder<E, S>>;
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { decodeParams, encodeParams, pickParams } from '../lib/urlParams';
+import { registerControls } from '../lib/controls';
+import type { ParamSchema, ParamValues } from '../lib/urlParams';
+
+export type UrlStatePatch<S extends ParamSchema> =
+    | Partial<ParamValues<S>>
+    | ((prev: ParamValues<S>) => Partial<ParamValues<S>>);
+
+/**
+ * Keeps a simulation's parameters in the query string of the current route.
+ * Values are read (and clamped) from the URL on load, and every update is
+ * written back with `replace` so sliders do not flood the browser history.
+ * The schema must be a module-level constant. While mounted it is published
+ * in `lib/controls` so guided lessons can drive and observe the app.
+ */
+export function useUrlState<S extends ParamSchema>(schema: S): [ParamValues<S>, (patch: UrlStatePatch<S>) => void] {
+    const location = useLocation();
+    const navigate = useNavigate();
+    const search = useMemo(() => new URLSearchParams(location.search), [location.search]);
+    const owned = pickParams(schema, search);
+
+    const [snapshot, setSnapshot] = useState(() => ({ owned, values: decodeParams(schema, search) }));
+
+    // Adopt changes that did not come from `update` (back button, links to the same route).
+    let current = snapshot;
+    if (snapshot.owned !== owned) {
+        current = { owned, values: decodeParams(schema, search) };
+        setSnapshot(current);
+    }
+
+    useEffect(() => registerControls(schema), [schema]);
+
+    // Several updates can run in the same handler; each one must see the previous.
+    const latestRef = useRef(current.values);
+    useEffect(() => {
+        latestRef.current = current.values;
+    }, [current.values]);
+
+    const update = useCallback((patch: UrlStatePatch<S>) => {
+        const prev = latestRef.current;
+        const values = { ...prev, ...(typeof patch === 'function' ? patch(prev) : patch) };
+        latestRef.current = values;
+
+        const next = encodeParams(schema, values, new URLSearchParams(window.location.search));
+        setSnapshot({ owned: pickParams(schema, next), values });
+
+        const query = next.toString();
+        navigate({ search: query ? `?${query}` : '' }, { replace: true });
+    }, [schema, navigate]);
+
+    return [current.values, update];
+}
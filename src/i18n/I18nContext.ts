@@ -0,0 +1,13 @@
+import { createContext } from "react";
+import { DEFAULT_LOCALE } from "./translate";
+import type { Locale } from "./translate";
+
+export interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+    locale: DEFAULT_LOCALE,
+    setLocale: () => {},
+});
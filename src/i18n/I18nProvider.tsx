@@ -0,0 +1,39 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { I18nContext } from "./I18nContext";
+import { DEFAULT_LOCALE, isLocale } from "./translate";
+import type { Locale } from "./translate";
+
+const STORAGE_KEY = "mcon-locale";
+
+function initialLocale(): Locale {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch {
+        // localStorage can be unavailable (private mode, embedded iframes)
+    }
+    return navigator.language.toLowerCase().startsWith("en") ? "en" : DEFAULT_LOCALE;
+}
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+    const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const value = useMemo(() => ({
+        locale,
+        setLocale: (next: Locale) => {
+            setLocaleState(next);
+            try {
+                localStorage.setItem(STORAGE_KEY, next);
+            } catch {
+                // The choice still applies for this visit
+            }
+        },
+    }), [locale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,7 @@
+import es from "./locales/es.json";
+import en from "./locales/en.json";
+import type { Messages } from "./translate";
+
+// Catalogs of the hub (navigation, catalog, shared labels). Each app keeps
+// its own next to its code in `locales/`.
+export const hubMessages: Messages = { es, en };
@@ -0,0 +1,93 @@
+// Pure translation helpers. They do not depend on React so canvas renderers and
+// data modules (e.g. the search index) can use them too.
+
+export type Locale = "es" | "en";
+
+export const LOCALES: Locale[] = ["es", "en"];
+
+// Spanish is the source language: every key exists there first.
+export const DEFAULT_LOCALE: Locale = "es";
+
+export interface Catalog {
+    [key: string]: string | Catalog;
+}
+
+// The catalogs of one module (the hub or a single app), one per locale.
+export type Messages = Record<Locale, Catalog>;
+
+export type TranslationValues = Record<string, string | number>;
+
+export type Translator = (key: string, values?: TranslationValues) => string;
+
+// Intl locale used for numbers; the course is taught in Colombia.
+const NUMBER_LOCALES: Record<Locale, string> = {
+    es: "es-CO",
+    en: "en-US",
+};
+
+export function isLocale(value: unknown): value is Locale {
+    return LOCALES.includes(value as Locale);
+}
+
+export function lookup(catalog: Catalog, key: string): string | Catalog | undefined {
+    let node: string | Catalog | undefined = catalog;
+    for (const part of key.split(".")) {
+        if (node === undefined || typeof node === "string") return undefined;
+        node = node[part];
+    }
+    return node;
+}
+
+export function interpolate(template: string, values?: TranslationValues): string {
+    if (!values) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in values ? String(values[name]) : match
+    );
+}
+
+// A key that points to `{ one, other }` is pluralized with `values.count`.
+function resolve(node: string | Catalog | undefined, locale: Locale, values?: TranslationValues) {
+    if (typeof node === "string" || node === undefined) return node;
+    if (typeof values?.count === "number") {
+        const form = node[new Intl.PluralRules(NUMBER_LOCALES[locale]).select(values.count)] ?? node.other;
+        if (typeof form === "string") return form;
+    }
+    return undefined;
+}
+
+/**
+ * Builds `t(key, values)` for `locale`. Catalogs are searched in order and
+ * missing keys fall back to Spanish, then to the key itself so gaps are visible.
+ */
+export function createTranslator(locale: Locale, ...messages: Messages[]): Translator {
+    return (key, values) => {
+        for (const candidate of locale === DEFAULT_LOCALE ? [locale] : [locale, DEFAULT_LOCALE]) {
+            for (const catalogs of messages) {
+                const text = resolve(lookup(catalogs[candidate], key), candidate, values);
+                if (text !== undefined) return interpolate(text, values);
+            }
+        }
+        return key;
+    };
+}
+
+export type NumberFormatter = (value: number, fractionDigits?: number) => string;
+
+/**
+ * Locale-aware replacement for `value.toFixed(digits)` in readouts
+ * (decimal comma and thousands separators in Spanish).
+ */
+export function createNumberFormatter(locale: Locale): NumberFormatter {
+    const cache = new Map<number, Intl.NumberFormat>();
+    return (value, fractionDigits = 2) => {
+        let format = cache.get(fractionDigits);
+        if (!format) {
+            format = new Intl.NumberFormat(NUMBER_LOCALES[locale], {
+                minimumFractionDigits: fractionDigits,
+                maximumFractionDigits: fractionDigits,
+            });
+            cache.set(fractionDigits, format);
+        }
+        return format.format(value);
+    };
+}
@@ -0,0 +1,31 @@
+import { Fragment, createElement, useContext, useMemo } from "react";
+import type { ReactNode } from "react";
+import { I18nContext } from "./I18nContext";
+import { hubMessages } from "./messages";
+import { createNumberFormatter, createTranslator } from "./translate";
+import type { Messages } from "./translate";
+
+/**
+ * Translation helpers for the current locale. Apps pass their own catalogs
+ * (a module-level constant); keys not found there are looked up in the hub's.
+ */
+export function useI18n(messages?: Messages) {
+    const { locale, setLocale } = useContext(I18nContext);
+
+    const t = useMemo(
+        () => (messages ? createTranslator(locale, messages, hubMessages) : createTranslator(locale, hubMessages)),
+        [locale, messages]
+    );
+
+    // Like `t`, but placeholders can be React nodes (equations, links, <strong>).
+    const rich = useMemo(() => (key: string, values: Record<string, ReactNode>) => {
+        const parts = t(key).split(/\{(\w+)\}/);
+        return createElement(Fragment, null, ...parts.map((part, i) =>
+            createElement(Fragment, { key: i }, i % 2 === 0 ? part : part in values ? values[part] : `{${part}}`)
+        ));
+    }, [t]);
+
+    const formatNumber = useMemo(() => createNumberFormatter(locale), [locale]);
+
+    return { locale, setLocale, t, rich, formatNumber };
+}
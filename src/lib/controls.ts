@@ -0,0 +1,102 @@
+// Parameter schemas of the simulations on screen, published by `useUrlState`.
+// Every app keeps its parameters in the query string, so the query is the
+// control interface shared by all of them: writing it drives an app and
+// decoding it with the app's schema reads what the student has set. State that
+// is not in the URL (play/pause, measured values) is published apart, by
+// `useAppControls`.
+import type { ParamSchema } from "./urlParams";
+
+export type ControlValue = number | boolean | string;
+
+// Live state of the app on screen. Each part is optional: not every app runs
+// in time or measures something.
+export interface AppRuntime {
+    playing?: boolean;
+    setPlaying?: (playing: boolean) => void;
+    measure?: () => Record<string, number>;
+}
+
+const mounted = new Set<ParamSchema>();
+let runtime: (() => AppRuntime) | null = null;
+const listeners = new Set<() => void>();
+let version = 0;
+
+function changed() {
+    version++;
+    listeners.forEach(listener => listener());
+}
+
+// Returns the unregister function, ready to be an effect cleanup.
+export function registerControls(schema: ParamSchema): () => void {
+    mounted.add(schema);
+    changed();
+    return () => {
+        mounted.delete(schema);
+        changed();
+    };
+}
+
+// The getter returns the app's latest state; the last app mounted wins.
+export function registerRuntime(get: () => AppRuntime): () => void {
+    runtime = get;
+    changed();
+    return () => {
+        if (runtime === get) runtime = null;
+        changed();
+    };
+}
+
+export function currentRuntime(): AppRuntime | null {
+    return runtime?.() ?? null;
+}
+
+// For state that changes without a remount, e.g. the app was paused.
+export function notifyControls() {
+    changed();
+}
+
+// useSyncExternalStore pair: re-render when an app mounts or unmounts.
+export function subscribeControls(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function controlsVersion(): number {
+    return version;
+}
+
+/**
+ * Current value of a parameter of the app on screen, decoded (and clamped) by
+ * its own codec; the default when the query does not carry it. Undefined when
+ * no mounted app owns the key, e.g. while its route is still loading.
+ */
+export function readControl(key: string, search: URLSearchParams): unknown {
+    for (const schema of mounted) {
+        const codec = schema[key];
+        if (!codec) continue;
+        const raw = search.get(key);
+        const parsed = raw === null ? undefined : codec.parse(raw);
+        return parsed === undefined ? codec.defaultValue : parsed;
+    }
+    return undefined;
+}
+
+// Keys that no app on screen owns, e.g. a typo in a host's "set".
+export function unknownControls(keys: readonly string[]): string[] {
+    return keys.filter(key => ![...mounted].some(schema => Object.hasOwn(schema, key)));
+}
+
+// Every parameter of the apps on screen, decoded.
+export function readAllControls(search: URLSearchParams): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const schema of mounted) {
+        for (const key of Object.keys(schema)) values[key] = readControl(key, search);
+    }
+    return values;
+}
+
+// Query-string form of a value, as the codecs of lib/urlParams read it.
+export function encodeControl(value: ControlValue): string {
+    if (typeof value === "boolean") return value ? "1" : "0";
+    return String(value);
+}
@@ -0,0 +1,72 @@
+// postMessage protocol of the embed routes (`/embed/<app id>`), for LMS pages,
+// quizzes and slide decks that host a simulation in an iframe. Every message,
+// both ways, is an object tagged with `source: EMBED_SOURCE`; a command may
+// carry an `id`, which the reply echoes.
+//
+// Host → simulation:
+//   { type: "set", params: { g: 3.72 } }   change URL parameters, replies "params";
+//                                          an unknown key rejects the whole command
+//   { type: "get" }                        replies "params"
+//   { type: "play" } / { type: "pause" }   replies "state"
+//   { type: "measure" }                    replies "measurements"
+// Simulation → host:
+//   { type: "ready", app, params, playing }   once the app has mounted
+//   { type: "params", params }                also whenever the student changes one
+//   { type: "state", playing }                also whenever the student pauses or resumes
+//   { type: "measurements", values }
+//   { type: "error", message }                unknown command or parameter, or unsupported by the app
+//
+// Commands are only obeyed when they come from the page that frames the
+// simulation. A build can also restrict which host origins may send them with
+// VITE_EMBED_ORIGINS (comma-separated, e.g. "https://moodle.example.edu");
+// left empty, any host may frame and drive it, since LMS origins vary.
+import type { ControlValue } from "./controls";
+
+export const EMBED_SOURCE = "mecanica-del-continuo";
+
+export type EmbedCommand =
+    | { type: "set"; params: Record<string, ControlValue> }
+    | { type: "get" }
+    | { type: "play" }
+    | { type: "pause" }
+    | { type: "measure" };
+
+export type EmbedEvent =
+    | { type: "ready"; app: string; params: Record<string, unknown>; playing: boolean | null }
+    | { type: "params"; params: Record<string, unknown> }
+    | { type: "state"; playing: boolean | null } // null: the app does not run in time
+    | { type: "measurements"; values: Record<string, number> }
+    | { type: "error"; message: string };
+
+export type EmbedRequest = EmbedCommand & { id?: string | number };
+
+const COMMANDS = ["set", "get", "play", "pause", "measure"];
+
+const HOST_ORIGINS: string[] = String(import.meta.env.VITE_EMBED_ORIGINS ?? "")
+    .split(",")
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+// Only the framing page (and, if configured, only from an allowed origin) can send commands.
+export function isHostMessage(event: MessageEvent): boolean {
+    if (window.parent === window || event.source !== window.parent) return false;
+    return HOST_ORIGINS.length === 0 || HOST_ORIGINS.includes(event.origin);
+}
+
+// Null for messages that are not for us (other widgets on the host page post too).
+export function parseEmbedRequest(data: unknown): EmbedRequest | null {
+    if (typeof data !== "object" || data === null) return null;
+    const message = data as { source?: unknown; type?: unknown; params?: unknown };
+    if (message.source !== EMBED_SOURCE || typeof message.type !== "string") return null;
+    if (!COMMANDS.includes(message.type)) throw new Error(`embed: comando desconocido "${message.type}"`);
+    if (message.type === "set") {
+        const params = message.params;
+        const valid = typeof params === "object" && params !== null && Object.values(params).every(v => ["number", "boolean", "string"].includes(typeof v));
+        if (!valid) throw new Error("embed: \"set\" necesita un objeto params con números, booleanos o textos");
+    }
+    return data as EmbedRequest;
+}
+
+export function embedMessage(event: EmbedEvent, id?: string | number) {
+    return { source: EMBED_SOURCE, ...(id === undefined ? {} : { id }), ...event };
+}
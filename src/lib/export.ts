@@ -0,0 +1,110 @@
+// Figure and data export shared by every simulation (see ExportToolbar).
+import type { Camera, Scene, WebGLRenderer } from "three";
+
+// PNG exports are rendered at this multiple of the on-screen resolution.
+export const EXPORT_SCALE = 3;
+
+// Column names plus rows; becomes a CSV file.
+export interface ExportTable {
+    columns: string[];
+    rows: (string | number)[][];
+}
+
+// "presion-2026-03-14_10-05" keeps several exports of a session apart.
+export function exportFileName(base: string, extension: string): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}`;
+    return `${base}-${stamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoke later: some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function csvCell(value: string | number): string {
+    const text = typeof value === "number" ? String(Number.isFinite(value) ? value : "") : value;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Comma separated with a dot as decimal mark, which spreadsheets and Python read everywhere.
+export function toCsv(table: ExportTable): string {
+    return [table.columns, ...table.rows].map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("export: el canvas no produjo una imagen"))), "image/png");
+    });
+}
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+/**
+ * Captures a 2D canvas whose render loop multiplies its pixel ratio by
+ * `scaleRef.current`: the ratio is raised for a couple of frames, the canvas is
+ * read back at that resolution and then restored.
+ */
+export async function captureCanvas(canvas: HTMLCanvasElement, scaleRef: { current: number }, scale = EXPORT_SCALE): Promise<Blob> {
+    scaleRef.current = scale;
+    try {
+        await nextFrame();
+        await nextFrame();
+        return await canvasToBlob(canvas);
+    } finally {
+        scaleRef.current = 1;
+    }
+}
+
+/**
+ * Re-renders a three.js scene at `scale` times its pixel ratio and reads it
+ * back. Everything runs in one task, so the drawing buffer is still valid
+ * without `preserveDrawingBuffer`.
+ */
+export function captureWebGL(renderer: WebGLRenderer, scene: Scene, camera: Camera, scale = EXPORT_SCALE): Promise<Blob> {
+    const ratio = renderer.getPixelRatio();
+    renderer.setPixelRatio(ratio * scale);
+    renderer.render(scene, camera);
+    const blob = canvasToBlob(renderer.domElement);
+    renderer.setPixelRatio(ratio);
+    renderer.render(scene, camera);
+    return blob;
+}
+
+// Styles that Tailwind classes or CSS may set on SVG content.
+const SVG_STYLE_PROPS = [
+    "fill", "fill-opacity", "stroke", "stroke-opacity", "stroke-width", "stroke-dasharray",
+    "opacity", "font-family", "font-size", "font-weight", "letter-spacing",
+];
+
+/**
+ * Serializes an on-screen SVG as a standalone file. Computed styles are
+ * inlined because the stylesheet (Tailwind classes) does not travel with it.
+ */
+export function svgToBlob(svg: SVGSVGElement): Blob {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    const source = [svg, ...svg.querySelectorAll("*")];
+    const target = [clone, ...clone.querySelectorAll("*")];
+    source.forEach((node, i) => {
+        const computed = getComputedStyle(node);
+        const style = (target[i] as SVGElement).style;
+        for (const prop of SVG_STYLE_PROPS) {
+            style.setProperty(prop, computed.getPropertyValue(prop));
+        }
+    });
+
+    const { width, height } = svg.getBoundingClientRect();
+    clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+    clone.setAttribute("width", String(Math.round(width)));
+    clone.setAttribute("height", String(Math.round(height)));
+    clone.removeAttribute("class");
+
+    const xml = new XMLSerializer().serializeToString(clone);
+    return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`], { type: "image/svg+xml" });
+}
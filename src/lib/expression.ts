@@ -0,0 +1,233 @@
+// Math expressions typed by students (and received through shared links). The
+// source is parsed once into closures: nothing is handed to `eval` or
+// `new Function`, and only the whitelisted functions, constants and the
+// caller's variables can be named, so a link cannot run arbitrary code.
+//
+// Syntax: numbers (1, 0.5, 2e-3), + - * / %, powers with ^ or ** (right
+// associative, above unary minus: -x^2 = -(x^2)) and parentheses.
+
+export type ExpressionErrorKind = "empty" | "incomplete" | "unexpected" | "unclosed" | "unknownName" | "unknownFunction" | "arity";
+
+export interface ExpressionError {
+    kind: ExpressionErrorKind;
+    position: number; // 0-based index into the source
+    token: string; // Offending text; empty at the end of the input
+}
+
+// Values of the variables, in the order given to compileExpression
+export type Evaluator = (values: ArrayLike<number>) => number;
+
+export type CompileResult = { evaluate: Evaluator } | { error: ExpressionError };
+
+// [minimum, maximum] number of arguments
+const FUNCTIONS: Record<string, { fn: (...args: number[]) => number; arity: [number, number] }> = {
+    sin: { fn: Math.sin, arity: [1, 1] },
+    cos: { fn: Math.cos, arity: [1, 1] },
+    tan: { fn: Math.tan, arity: [1, 1] },
+    asin: { fn: Math.asin, arity: [1, 1] },
+    acos: { fn: Math.acos, arity: [1, 1] },
+    atan: { fn: Math.atan, arity: [1, 1] },
+    atan2: { fn: Math.atan2, arity: [2, 2] },
+    sinh: { fn: Math.sinh, arity: [1, 1] },
+    cosh: { fn: Math.cosh, arity: [1, 1] },
+    tanh: { fn: Math.tanh, arity: [1, 1] },
+    exp: { fn: Math.exp, arity: [1, 1] },
+    log: { fn: Math.log, arity: [1, 1] },
+    log10: { fn: Math.log10, arity: [1, 1] },
+    sqrt: { fn: Math.sqrt, arity: [1, 1] },
+    abs: { fn: Math.abs, arity: [1, 1] },
+    sign: { fn: Math.sign, arity: [1, 1] },
+    floor: { fn: Math.floor, arity: [1, 1] },
+    ceil: { fn: Math.ceil, arity: [1, 1] },
+    round: { fn: Math.round, arity: [1, 1] },
+    pow: { fn: Math.pow, arity: [2, 2] },
+    hypot: { fn: Math.hypot, arity: [1, Infinity] },
+    min: { fn: Math.min, arity: [1, Infinity] },
+    max: { fn: Math.max, arity: [1, Infinity] },
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, PI: Math.PI, e: Math.E, E: Math.E };
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+interface Token {
+    text: string;
+    position: number;
+    kind: "number" | "name" | "operator";
+}
+
+const TOKEN = /\s*(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_]\w*)|(\*\*|[-+*/%^(),]))/y;
+
+function tokenize(source: string): Token[] | ExpressionError {
+    const tokens: Token[] = [];
+    TOKEN.lastIndex = 0;
+    while (source.slice(TOKEN.lastIndex).trim() !== "") {
+        const start = TOKEN.lastIndex;
+        const match = TOKEN.exec(source);
+        if (!match) {
+            const position = start + (source.slice(start).length - source.slice(start).trimStart().length);
+            return { kind: "unexpected", position, token: source[position] };
+        }
+        const text = match[1] ?? match[2] ?? match[3];
+        tokens.push({ text, position: TOKEN.lastIndex - text.length, kind: match[1] ? "number" : match[2] ? "name" : "operator" });
+    }
+    return tokens;
+}
+
+// Compiled node; `constant` marks subtrees without variables, folded on the spot
+interface Compiled {
+    fn: Evaluator;
+    constant: boolean;
+}
+
+const constant = (value: number): Compiled => ({ fn: () => value, constant: true });
+
+const BINARY: Record<string, (a: number, b: number) => number> = {
+    "+": (a, b) => a + b,
+    "-": (a, b) => a - b,
+    "*": (a, b) => a * b,
+    "/": (a, b) => a / b,
+    "%": (a, b) => a % b,
+    "^": (a, b) => a ** b,
+};
+
+function binary(operator: string, left: Compiled, right: Compiled): Compiled {
+    const op = BINARY[operator === "**" ? "^" : operator];
+    if (left.constant && right.constant) return constant(op(left.fn([]), right.fn([])));
+    const l = left.fn, r = right.fn;
+    // One closure per operator keeps the hot loop free of a switch
+    switch (operator) {
+        case "+": return { fn: v => l(v) + r(v), constant: false };
+        case "-": return { fn: v => l(v) - r(v), constant: false };
+        case "*": return { fn: v => l(v) * r(v), constant: false };
+        case "/": return { fn: v => l(v) / r(v), constant: false };
+        default: return { fn: v => op(l(v), r(v)), constant: false };
+    }
+}
+
+const own = <T>(table: Record<string, T>, name: string) => (Object.hasOwn(table, name) ? table[name] : undefined);
+
+// Thrown inside the recursive descent only; compileExpression turns it into a result
+const FAILED = Symbol("expression-error");
+
+/**
+ * Parses `source` once and returns a fast evaluator over `variables`, or the
+ * first syntax error with its position. Variables shadow the constants.
+ */
+export function compileExpression(source: string, variables: readonly string[]): CompileResult {
+    const tokens = tokenize(source);
+    if (!Array.isArray(tokens)) return { error: tokens };
+    if (tokens.length === 0) return { error: { kind: "empty", position: 0, token: "" } };
+
+    let index = 0;
+    let failure: ExpressionError | null = null;
+    const peek = () => tokens[index] as Token | undefined;
+    const fail = (kind: ExpressionErrorKind, token = peek()): never => {
+        failure = token
+            ? { kind, position: token.position, token: token.text }
+            : { kind: kind === "unexpected" ? "incomplete" : kind, position: source.length, token: "" };
+        throw FAILED;
+    };
+    const accept = (text: string) => {
+        if (peek()?.kind === "operator" && peek()!.text === text) {
+            index++;
+            return true;
+        }
+        return false;
+    };
+
+    const additive = (): Compiled => {
+        let left = multiplicative();
+        for (let op = peek()?.text; op === "+" || op === "-"; op = peek()?.text) {
+            index++;
+            left = binary(op, left, multiplicative());
+        }
+        return left;
+    };
+
+    const multiplicative = (): Compiled => {
+        let left = unary();
+        for (let op = peek()?.text; op === "*" || op === "/" || op === "%"; op = peek()?.text) {
+            index++;
+            left = binary(op, left, unary());
+        }
+        return left;
+    };
+
+    const unary = (): Compiled => {
+        if (accept("-")) {
+            const operand = unary();
+            if (operand.constant) return constant(-operand.fn([]));
+            const f = operand.fn;
+            return { fn: v => -f(v), constant: false };
+        }
+        if (accept("+")) return unary();
+        return power();
+    };
+
+    const power = (): Compiled => {
+        const base = primary();
+        const op = peek()?.text;
+        if (op === "^" || op === "**") {
+            index++;
+            return binary(op, base, unary());
+        }
+        return base;
+    };
+
+    const primary = (): Compiled => {
+        const token = peek();
+        if (!token) return fail("unexpected");
+        index++;
+        if (token.kind === "number") return constant(Number(token.text));
+        if (token.kind === "name") {
+            if (peek()?.text === "(") return call(token);
+            const slot = variables.indexOf(token.text);
+            if (slot >= 0) return { fn: v => v[slot], constant: false };
+            const value = own(CONSTANTS, token.text);
+            if (value !== undefined) return constant(value);
+            return fail(own(FUNCTIONS, token.text) ? "arity" : "unknownName", token);
+        }
+        if (token.text === "(") {
+            const inner = additive();
+            if (!accept(")")) fail(peek() ? "unexpected" : "unclosed", peek() ?? token);
+            return inner;
+        }
+        return fail("unexpected", token);
+    };
+
+    const call = (name: Token): Compiled => {
+        const entry = own(FUNCTIONS, name.text);
+        if (!entry) return fail("unknownFunction", name);
+        const open = peek()!;
+        index++;
+        const args: Compiled[] = [];
+        if (!accept(")")) {
+            do args.push(additive()); while (accept(","));
+            if (!accept(")")) fail(peek() ? "unexpected" : "unclosed", peek() ?? open);
+        }
+        const [min, max] = entry.arity;
+        if (args.length < min || args.length > max) fail("arity", name);
+        const { fn } = entry;
+        if (args.every(arg => arg.constant)) return constant(fn(...args.map(arg => arg.fn([]))));
+        const fns = args.map(arg => arg.fn);
+        if (fns.length === 1) {
+            const [a] = fns;
+            return { fn: v => fn(a(v)), constant: false };
+        }
+        if (fns.length === 2) {
+            const [a, b] = fns;
+            return { fn: v => fn(a(v), b(v)), constant: false };
+        }
+        return { fn: v => fn(...fns.map(f => f(v))), constant: false };
+    };
+
+    try {
+        const root = additive();
+        if (peek()) fail("unexpected");
+        return { evaluate: root.fn };
+    } catch (err) {
+        if (err === FAILED && failure) return { error: failure };
+        throw err;
+    }
+}
@@ -0,0 +1,136 @@
+// Guided lessons: scripted walkthroughs that drive the simulations through the
+// query string (see lib/controls) while narrating each step. A lesson is plain
+// JSON, so instructors can write new ones without touching React.
+import { DEFAULT_LOCALE } from "../i18n/translate";
+import type { Locale } from "../i18n/translate";
+import type { ControlValue } from "./controls";
+
+// Either one text for every language or one per locale ({ "es": …, "en": … }).
+export type LocalizedText = string | Partial<Record<Locale, string>>;
+
+// What the student must do before "Next" unlocks. All given checks must hold.
+export interface LessonCondition {
+    param: string;
+    equals?: ControlValue;
+    min?: number;
+    max?: number;
+    changed?: boolean; // Differs from the value this step set
+}
+
+export interface LessonStep {
+    app?: string; // Defaults to the lesson's app
+    title?: LocalizedText;
+    narration: LocalizedText; // Inline $…$ and display $$…$$ LaTeX allowed
+    params?: Record<string, ControlValue>;
+    layers?: Record<string, boolean>; // Overlays to show or hide; boolean params of the app
+    task?: LocalizedText;
+    waitFor?: LessonCondition[];
+}
+
+export interface Lesson {
+    id: string;
+    title: LocalizedText;
+    description?: LocalizedText;
+    app: string;
+    steps: LessonStep[];
+}
+
+export interface MathSegment {
+    text: string;
+    math?: "inline" | "display";
+}
+
+export function localize(text: LocalizedText | undefined, locale: Locale): string {
+    if (text === undefined) return "";
+    if (typeof text === "string") return text;
+    return text[locale] ?? text[DEFAULT_LOCALE] ?? Object.values(text)[0] ?? "";
+}
+
+// Values a step writes to the query: its parameters plus its layers.
+export function stepValues(step: LessonStep): Record<string, ControlValue> {
+    return { ...step.params, ...step.layers };
+}
+
+function sameValue(a: unknown, b: ControlValue): boolean {
+    if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(b));
+    return a === b;
+}
+
+/**
+ * Whether the student has done what the step asks. `read` returns the decoded
+ * value of a parameter of the app on screen, or undefined while it loads.
+ */
+export function conditionMet(step: LessonStep, read: (param: string) => unknown): boolean {
+    const set = stepValues(step);
+    return (step.waitFor ?? []).every(condition => {
+        const value = read(condition.param);
+        if (value === undefined) return false;
+        if (condition.equals !== undefined && !sameValue(value, condition.equals)) return false;
+        if (condition.min !== undefined && !(typeof value === "number" && value >= condition.min)) return false;
+        if (condition.max !== undefined && !(typeof value === "number" && value <= condition.max)) return false;
+        if (condition.changed !== undefined && sameValue(value, set[condition.param]) === condition.changed) return false;
+        return true;
+    });
+}
+
+// Splits narration into plain text and $…$ / $$…$$ formulas.
+export function splitMath(text: string): MathSegment[] {
+    const segments: MathSegment[] = [];
+    const pattern = /\$\$([^$]+)\$\$|\$([^$]+)\$/g;
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+        if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+        segments.push(match[1] !== undefined ? { text: match[1], math: "display" } : { text: match[2], math: "inline" });
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+}
+
+function isLocalizedText(value: unknown): value is LocalizedText {
+    if (typeof value === "string") return true;
+    return typeof value === "object" && value !== null && Object.values(value).every(v => typeof v === "string");
+}
+
+function isValueMap(value: unknown, check: (v: unknown) => boolean): boolean {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && Object.values(value).every(check);
+}
+
+const isParamValue = (value: unknown) => ["number", "boolean", "string"].includes(typeof value);
+
+/**
+ * Checks a lesson read from JSON and returns it typed. Apps are checked against
+ * `appIds`; parameter names are not, since the schemas live inside the apps
+ * (an unknown name is simply ignored by the app).
+ */
+export function parseLesson(data: unknown, id: string, appIds: readonly string[]): Lesson {
+    const fail = (message: string): never => {
+        throw new Error(`lesson "${id}": ${message}`);
+    };
+    if (typeof data !== "object" || data === null) fail("no es un objeto JSON");
+    const lesson = data as Partial<Lesson>;
+    if (!isLocalizedText(lesson.title)) fail("falta el título");
+    if (lesson.description !== undefined && !isLocalizedText(lesson.description)) fail("descripción inválida");
+    if (typeof lesson.app !== "string" || !appIds.includes(lesson.app)) fail(`app desconocida "${lesson.app}"`);
+    if (!Array.isArray(lesson.steps) || lesson.steps.length === 0) fail("la lección no tiene pasos");
+
+    lesson.steps!.forEach((step: Partial<LessonStep>, i) => {
+        const where = `paso ${i + 1}`;
+        if (step.app !== undefined && !appIds.includes(step.app)) fail(`${where}: app desconocida "${step.app}"`);
+        if (!isLocalizedText(step.narration)) fail(`${where}: falta la narración`);
+        if (step.title !== undefined && !isLocalizedText(step.title)) fail(`${where}: título inválido`);
+        if (step.task !== undefined && !isLocalizedText(step.task)) fail(`${where}: tarea inválida`);
+        if (step.params !== undefined && !isValueMap(step.params, isParamValue)) fail(`${where}: parámetros inválidos`);
+        if (step.layers !== undefined && !isValueMap(step.layers, v => typeof v === "boolean")) fail(`${where}: capas inválidas`);
+        if (step.waitFor !== undefined) {
+            if (!Array.isArray(step.waitFor)) fail(`${where}: waitFor debe ser una lista`);
+            for (const condition of step.waitFor!) {
+                if (typeof condition?.param !== "string") fail(`${where}: condición sin parámetro`);
+                if (condition.changed !== undefined && !(condition.param in stepValues(step as LessonStep))) {
+                    fail(`${where}: "changed" necesita que el paso fije "${condition.param}"`);
+                }
+            }
+        }
+    });
+    return { ...lesson, id } as Lesson;
+}
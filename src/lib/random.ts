@@ -0,0 +1,29 @@
+// Seedable pseudo-random numbers for the simulations. Two runs started from the
+// same seed place (and respawn) their particles identically, which is what
+// shared links and recorded sessions rely on.
+
+export type Random = () => number;
+
+// Seeds travel in the URL, where numbers keep 6 significant digits.
+export const MAX_SEED = 999_999;
+export const DEFAULT_SEED = 1;
+
+/**
+ * mulberry32: a 32-bit generator, tiny and fast, plenty for placing particles.
+ * Returns numbers in [0, 1) like `Math.random`.
+ */
+export function createRandom(seed: number): Random {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let z = state;
+        z = Math.imul(z ^ (z >>> 15), z | 1);
+        z ^= z + Math.imul(z ^ (z >>> 7), z | 61);
+        return ((z ^ (z >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// A fresh seed for the "new run" buttons; the only place allowed to use Math.random.
+export function randomSeed(): number {
+    return 1 + Math.floor(Math.random() * MAX_SEED);
+}
@@ -0,0 +1,115 @@
+// Deterministic record/replay of simulation sessions. A session stores the seed
+// and setup a run started from plus every user input, stamped with the
+// simulation step it arrived at. Replaying restarts from the same setup and
+// feeds each input back at the same step, so with the seeded PRNG (lib/random)
+// the run repeats exactly, whatever the frame rate of the machine.
+import { downloadBlob, exportFileName } from "./export";
+
+const SESSION_FORMAT = "mecanica-del-continuo/session";
+const SESSION_VERSION = 1;
+
+export interface SessionEvent<E> {
+    step: number; // Simulation steps completed when the input arrived
+    time: number; // Milliseconds since recording started; informative only
+    input: E;
+}
+
+export interface Session<E, S> {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    app: string;
+    recordedAt: string;
+    seed: number;
+    setup: S;
+    steps: number;
+    events: SessionEvent<E>[];
+}
+
+/**
+ * Collects inputs while a run is live. The app calls `tick` at the start of
+ * every simulation step and `record` whenever an input changes the run.
+ */
+export class SessionRecorder<E, S> {
+    private readonly seed: number;
+    private readonly setup: S;
+    private readonly startedAt = performance.now();
+    private readonly events: SessionEvent<E>[] = [];
+    private step = 0;
+
+    constructor(seed: number, setup: S) {
+        this.seed = seed;
+        this.setup = setup;
+    }
+
+    tick() {
+        this.step++;
+    }
+
+    record(input: E) {
+        this.events.push({ step: this.step, time: Math.round(performance.now() - this.startedAt), input });
+    }
+
+    finish(app: string): Session<E, S> {
+        return {
+            format: SESSION_FORMAT,
+            version: SESSION_VERSION,
+            app,
+            recordedAt: new Date().toISOString(),
+            seed: this.seed,
+            setup: this.setup,
+            steps: this.step,
+            events: this.events,
+        };
+    }
+}
+
+// Hands a recorded session's inputs back, step by step.
+export class SessionPlayer<E, S> {
+    private readonly session: Session<E, S>;
+    private step = 0;
+    private next = 0;
+
+    constructor(session: Session<E, S>) {
+        this.session = session;
+    }
+
+    // Inputs that arrived before the step now starting
+    tick(): E[] {
+        const { events } = this.session;
+        const due: E[] = [];
+        while (this.next < events.length && events[this.next].step <= this.step) {
+            due.push(events[this.next++].input);
+        }
+        this.step++;
+        return due;
+    }
+
+    get finished(): boolean {
+        return this.step > this.session.steps;
+    }
+}
+
+export function saveSession(session: Session<unknown, unknown>) {
+    const blob = new Blob([JSON.stringify(session)], { type: "application/json" });
+    downloadBlob(blob, exportFileName(`sesion-${session.app}`, "json"));
+}
+
+/**
+ * Reads a session file. Only the envelope is checked (format, version, app,
+ * ordered steps); the inputs and setup are trusted to match the app.
+ */
+export function parseSession<E, S>(text: string, app: string): Session<E, S> {
+    const data = JSON.parse(text) as Partial<Session<E, S>> | null;
+    if (!data || data.format !== SESSION_FORMAT) throw new Error("session: el archivo no es una sesión grabada");
+    if (data.version !== SESSION_VERSION) throw new Error(`session: versión ${data.version} no soportada`);
+    if (data.app !== app) throw new Error(`session: la sesión es de "${data.app}", no de "${app}"`);
+    if (typeof data.seed !== "number" || typeof data.steps !== "number" || !Array.isArray(data.events)) {
+        throw new Error("session: archivo incompleto");
+    }
+    let last = 0;
+    for (const event of data.events) {
+        if (typeof event?.step !== "number" || event.step < last) throw new Error("session: eventos desordenados");
+        last = event.step;
+    }
+    return data as Session<E, S>;
+}
@@ -0,0 +1,131 @@
+// Typed codecs for the query-string state of each simulation.
+// Every codec knows its default, how to parse a raw query value (clamping or
+// rejecting bad input) and how to write it back.
+import { DEFAULT_SEED, MAX_SEED } from "./random";
+
+export interface ParamCodec<T> {
+    defaultValue: T;
+    // Returns undefined when the raw value cannot be used; the default applies.
+    parse(raw: string): T | undefined;
+    serialize(value: T): string;
+}
+
+export type ParamSchema = Record<string, ParamCodec<unknown>>;
+
+export type ParamValues<S extends ParamSchema> = {
+    [K in keyof S]: S[K] extends ParamCodec<infer T> ? T : never;
+};
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+// Keeps links short: 6 significant digits is far below slider resolution.
+function formatNumber(value: number): string {
+    return String(Number(value.toPrecision(6)));
+}
+
+export function numberParam(defaultValue: number, options: { min: number; max: number; integer?: boolean }): ParamCodec<number> {
+    return {
+        defaultValue,
+        parse: (raw) => {
+            if (raw.trim() === "") return undefined;
+            const num = Number(raw);
+            if (!Number.isFinite(num)) return undefined;
+            const value = options.integer ? Math.round(num) : num;
+            return clamp(value, options.min, options.max);
+        },
+        serialize: formatNumber,
+    };
+}
+
+// Seed of the simulation's PRNG (see lib/random): same seed, same particles.
+export function seedParam(): ParamCodec<number> {
+    return numberParam(DEFAULT_SEED, { min: 1, max: MAX_SEED, integer: true });
+}
+
+export function booleanParam(defaultValue: boolean): ParamCodec<boolean> {
+    return {
+        defaultValue,
+        parse: (raw) => {
+            if (raw === "1" || raw === "true") return true;
+            if (raw === "0" || raw === "false") return false;
+            return undefined;
+        },
+        serialize: (value) => (value ? "1" : "0"),
+    };
+}
+
+export function stringParam(defaultValue: string, options: { maxLength: number }): ParamCodec<string> {
+    return {
+        defaultValue,
+        parse: (raw) => (raw.length <= options.maxLength ? raw : undefined),
+        serialize: (value) => value,
+    };
+}
+
+export function enumParam<T extends string>(defaultValue: T, values: readonly T[]): ParamCodec<T> {
+    return {
+        defaultValue,
+        parse: (raw) => (values as readonly string[]).includes(raw) ? raw as T : undefined,
+        serialize: (value) => value,
+    };
+}
+
+// Lists are comma separated; each item codec must avoid commas in its own output.
+export function listParam<T>(
+    defaultValue: T[],
+    item: { parse: (raw: string, index: number) => T | undefined; serialize: (value: T) => string },
+    options: { maxItems: number }
+): ParamCodec<T[]> {
+    return {
+        defaultValue,
+        parse: (raw) => {
+            if (raw === "") return [];
+            const parts = raw.split(",");
+            if (parts.length > options.maxItems) return undefined;
+            const items: T[] = [];
+            for (let i = 0; i < parts.length; i++) {
+                const parsed = item.parse(parts[i], i);
+                if (parsed === undefined) return undefined;
+                items.push(parsed);
+            }
+            return items;
+        },
+        serialize: (value) => value.map(item.serialize).join(","),
+    };
+}
+
+export function decodeParams<S extends ParamSchema>(schema: S, search: URLSearchParams): ParamValues<S> {
+    const values: Record<string, unknown> = {};
+    for (const key of Object.keys(schema)) {
+        const codec = schema[key];
+        const raw = search.get(key);
+        const parsed = raw === null ? undefined : codec.parse(raw);
+        values[key] = parsed === undefined ? codec.defaultValue : parsed;
+    }
+    return values as ParamValues<S>;
+}
+
+// Writes the schema's keys into `search`, leaving foreign keys untouched.
+// Values equal to their default are dropped so links only carry what changed.
+export function encodeParams<S extends ParamSchema>(schema: S, values: ParamValues<S>, search: URLSearchParams): URLSearchParams {
+    const next = new URLSearchParams(search);
+    for (const key of Object.keys(schema)) {
+        const codec = schema[key];
+        const serialized = codec.serialize(values[key]);
+        if (serialized === codec.serialize(codec.defaultValue)) {
+            next.delete(key);
+        } else {
+            next.set(key, serialized);
+        }
+    }
+    return next;
+}
+
+// The raw query values owned by a schema, used to detect external URL changes.
+export function pickParams(schema: ParamSchema, search: URLSearchParams): string {
+    return Object.keys(schema)
+        .map((key) => `${key}=${search.get(key) ?? ""}`)
+        .join("&");
+}
@@ -1,25 +1,27 @@
 import { useParams, Link, Navigate } from "react-router-dom";
-import { categories } from "../data/categories";
-import { apps } from "../data/apps";
+import { getCategory } from "../data/categories";
+import { getCategoryApps } from "../data/apps";
 import { ArrowLeft, ArrowRight } from "lucide-react";
 import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
 
 export function CategoryPage() {
     const { categoryId } = useParams();
-    const category = categories.find(c => c.id === categoryId);
+    const { t } = useI18n();
+    const category = getCategory(categoryId);
 
     if (!category) {
         return <Navigate to="/" replace />;
     }
 
-    const categoryApps = category.apps.map(appId => apps.find(a => a.id === appId)).filter(Boolean);
+    const categoryApps = getCategoryApps(category.id);
 
     return (
         <div className="min-h-screen relative">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 md:py-20">
                 <Link to="/" className="inline-flex items-center text-slate-400 hover:text-white mb-8 transition-colors group">
                     <ArrowLeft className="w-5 h-5 mr-2 transition-transform group-hover:-translate-x-1" />
-                    Volver al inicio
+                    {t("catalog.backHome")}
                 </Link>
 
                 <div className="mb-12 md:mb-16 animate-[fadeIn_0.8s_ease-out]">
@@ -28,22 +30,24 @@ export function CategoryPage() {
                             <category.icon className="w-8 h-8 text-white" />
                         </div>
                         <h1 className="text-4xl md:text-6xl font-extrabold text-white tracking-tight">
-                            {category.title}
+                            {t(`categories.${category.id}.title`)}
                         </h1>
                     </div>
                     <p className="text-lg md:text-xl text-slate-300 max-w-3xl leading-relaxed">
-                        {category.description}
+                        {t(`categories.${category.id}.description`)}
                     </p>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
                     {categoryApps.map((app, index) => {
-                        if (!app) return null;
-                        
+                        const title = t(`apps.${app.id}.title`);
                         return (
                             <Link 
                                 key={app.id} 
-                                to={app.url || "#"}
+                                to={app.url}
+                                onMouseEnter={app.preload}
+                                onFocus={app.preload}
+                                onTouchStart={app.preload}
                                 className="group relative block focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70 rounded-2xl"
                                 style={{ animationDelay: `${index * 100}ms` }}
                             >
@@ -56,7 +60,7 @@ export function CategoryPage() {
                                     <div className="relative h-48 sm:h-56 w-full overflow-hidden border-b border-white/5 bg-slate-950">
                                         <img 
                                             src={app.image} 
-                                            alt={`Captura de ${app.title}`} 
+                                            alt={t("catalog.previewAlt", { title })} 
                                             className="w-full h-full object-cover opacity-80 group-hover:opacity-100 group-hover:scale-105 transition-all duration-700"
                                             onError={(e) => {
                                                 // Fallback if image is missing
@@ -69,15 +73,15 @@ export function CategoryPage() {
                                     {/* Content */}
                                     <div className="flex-1 p-6 relative z-10 flex flex-col">
                                         <h3 className="text-xl font-bold text-white mb-2 group-hover:text-blue-300 transition-colors">
-                                            {app.title}
+                                            {title}
                                         </h3>
                                         <p className="text-sm text-slate-300 leading-relaxed flex-1">
-                                            {app.description}
+                                            {t(`apps.${app.id}.description`)}
                                         </p>
                                         
                                         <div className="pt-6 flex justify-end items-center mt-auto border-t border-white/5">
                                             <div className="flex items-center gap-2 text-sm font-medium text-blue-400 group-hover:text-blue-300 transition-colors">
-                                                Abrir Simulación <ArrowRight className="w-4 h-4 transition-transform group-hover:translate-x-1" />
+                                                {t("catalog.openApp")} <ArrowRight className="w-4 h-4 transition-transform group-hover:translate-x-1" />
                                             </div>
                                         </div>
                                     </div>
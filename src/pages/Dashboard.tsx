@@ -1,6 +1,9 @@
 import { CategoryCards } from "../components/CategoryCards";
+import { useI18n } from "../i18n/useI18n";
 
 export function Dashboard() {
+    const { t } = useI18n();
+
     return (
         <div className="space-y-10 md:space-y-12">
             
@@ -11,10 +14,10 @@ export function Dashboard() {
                 </div>
                 <h1 className="text-4xl sm:text-5xl md:text-7xl font-extrabold tracking-tight text-white drop-shadow-2xl">
                     MCon<span className="text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-cyan-400">Hub</span>
-                    <span className="block text-2xl sm:text-3xl md:text-5xl mt-2 text-slate-300 font-light">Interactivo</span>
+                    <span className="block text-2xl sm:text-3xl md:text-5xl mt-2 text-slate-300 font-light">{t("dashboard.subtitle")}</span>
                 </h1>
                 <p className="max-w-2xl mx-auto text-base md:text-lg text-slate-400 leading-relaxed px-2">
-                    Explore conceptos fundamentales de la mecánica del medio continuo a través de visualizaciones dinámicas y herramientas computacionales avanzadas.
+                    {t("dashboard.intro")}
                 </p>
             </div>
 
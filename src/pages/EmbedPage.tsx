@@ -0,0 +1,110 @@
+import { Suspense, useEffect, useRef, useSyncExternalStore } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { apps } from "../data/apps";
+import { RouteFallback } from "../components/RouteFallback";
+import { controlsVersion, currentRuntime, encodeControl, readAllControls, subscribeControls, unknownControls } from "../lib/controls";
+import { embedMessage, isHostMessage, parseEmbedRequest } from "../lib/embed";
+import type { EmbedEvent } from "../lib/embed";
+import { useI18n } from "../i18n/useI18n";
+
+// Messages without a request go to the host page; the data is not sensitive
+// and the LMS origin is not known in advance.
+function post(event: EmbedEvent, id?: string | number, target: MessageEventSource | null = window.parent) {
+    if (!target || target === window) return;
+    (target as Window).postMessage(embedMessage(event, id), "*");
+}
+
+function playingState(): boolean | null {
+    return currentRuntime()?.playing ?? null;
+}
+
+/**
+ * One simulation without the hub around it (no navbar, backgrounds or footer),
+ * for iframes. Initial parameters come in the query string as in any shared
+ * link; the host drives it afterwards with the protocol of `lib/embed`.
+ */
+export function EmbedPage() {
+    const { appId } = useParams();
+    const { t } = useI18n();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const app = apps.find(a => a.id === appId);
+    const version = useSyncExternalStore(subscribeControls, controlsVersion);
+    const readyRef = useRef(false);
+    const lastStateRef = useRef<boolean | null>(null);
+    const lastParamsRef = useRef("");
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (!isHostMessage(event)) return;
+            const reply = (message: EmbedEvent) => post(message, (event.data as { id?: string | number }).id, event.source);
+            try {
+                const request = parseEmbedRequest(event.data);
+                if (!request) return;
+                const runtime = currentRuntime();
+                switch (request.type) {
+                    case "set": {
+                        // All or nothing: a typo must not land in the URL next to the valid keys
+                        const unknown = unknownControls(Object.keys(request.params));
+                        if (unknown.length > 0) throw new Error(`embed: "${appId}" no tiene los parámetros ${unknown.join(", ")}`);
+                        const query = new URLSearchParams(window.location.search);
+                        for (const [key, value] of Object.entries(request.params)) query.set(key, encodeControl(value));
+                        navigate({ search: `?${query}` }, { replace: true });
+                        reply({ type: "params", params: readAllControls(query) });
+                        break;
+                    }
+                    case "get":
+                        reply({ type: "params", params: readAllControls(new URLSearchParams(window.location.search)) });
+                        break;
+                    case "play":
+                    case "pause":
+                        if (!runtime?.setPlaying) throw new Error(`embed: "${appId}" no tiene reproducción`);
+                        runtime.setPlaying(request.type === "play");
+                        reply({ type: "state", playing: request.type === "play" });
+                        break;
+                    case "measure":
+                        if (!runtime?.measure) throw new Error(`embed: "${appId}" no publica mediciones`);
+                        reply({ type: "measurements", values: runtime.measure() });
+                        break;
+                }
+            } catch (error) {
+                reply({ type: "error", message: error instanceof Error ? error.message : String(error) });
+            }
+        };
+        window.addEventListener("message", handleMessage);
+        return () => window.removeEventListener("message", handleMessage);
+    }, [appId, navigate]);
+
+    // Tell the host when the app is up and whenever the student changes something
+    useEffect(() => {
+        if (!app || version === 0) return;
+        const params = readAllControls(new URLSearchParams(location.search));
+        const serialized = JSON.stringify(params);
+        const playing = playingState();
+        if (!readyRef.current) {
+            readyRef.current = true;
+            post({ type: "ready", app: app.id, params, playing });
+        } else {
+            if (serialized !== lastParamsRef.current) post({ type: "params", params });
+            if (playing !== lastStateRef.current) post({ type: "state", playing });
+        }
+        lastParamsRef.current = serialized;
+        lastStateRef.current = playing;
+    }, [app, version, location.search]);
+
+    if (!app) {
+        return (
+            <div className="flex h-dvh items-center justify-center bg-slate-950 p-6 text-center font-sans text-sm text-slate-400">
+                {t("embed.notFound", { id: appId ?? "" })}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-dvh flex-col overflow-hidden bg-slate-950 font-sans text-slate-200">
+            <Suspense fallback={<RouteFallback />}>
+                <app.component />
+            </Suspense>
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, ArrowRight, FolderOpen, GraduationCap } from "lucide-react";
+import { lessonStepApp, lessonStepPath, loadAllLessons, openLocalLesson } from "../data/lessons";
+import { getAppCategory } from "../data/apps";
+import { localize } from "../lib/lessons";
+import type { Lesson } from "../lib/lessons";
+import { cn } from "../lib/utils";
+import { useI18n } from "../i18n/useI18n";
+
+// Catalog of guided lessons, plus opening a lesson file written by an instructor.
+export function LessonsPage() {
+    const { t, locale } = useI18n();
+    const navigate = useNavigate();
+    const fileRef = useRef<HTMLInputElement>(null);
+    const [lessons, setLessons] = useState<Lesson[] | null>(null);
+    const [loadErrors, setLoadErrors] = useState<string[]>([]);
+    const [openError, setOpenError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadAllLessons().then(({ lessons, errors }) => {
+            if (cancelled) return;
+            setLessons(lessons);
+            setLoadErrors(errors);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const openFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const lesson = openLocalLesson(await file.text());
+            setOpenError(null);
+            navigate(lessonStepPath(lesson, 0));
+        } catch (error) {
+            console.error(error);
+            setOpenError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 md:py-12">
+            <Link to="/" className="inline-flex items-center text-slate-400 hover:text-white mb-8 transition-colors group">
+                <ArrowLeft className="w-5 h-5 mr-2 transition-transform group-hover:-translate-x-1" />
+                {t("catalog.backHome")}
+            </Link>
+
+            <div className="mb-10 md:mb-14 animate-[fadeIn_0.8s_ease-out]">
+                <div className="flex items-center gap-4 mb-4">
+                    <div className="p-3 rounded-2xl bg-gradient-to-br from-blue-500 to-cyan-500">
+                        <GraduationCap className="w-8 h-8 text-white" />
+                    </div>
+                    <h1 className="text-4xl md:text-6xl font-extrabold text-white tracking-tight">{t("lessons.title")}</h1>
+                </div>
+                <p className="text-lg md:text-xl text-slate-300 max-w-3xl leading-relaxed">{t("lessons.intro")}</p>
+            </div>
+
+            {loadErrors.length > 0 && (
+                <div role="alert" className="mb-6 rounded-xl border border-rose-500/30 bg-rose-500/10 p-4 text-sm text-rose-300 space-y-1">
+                    {loadErrors.map(error => <p key={error}>{t("lessons.brokenFile", { error })}</p>)}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {lessons?.map(lesson => {
+                    const app = lessonStepApp(lesson, 0);
+                    const Icon = app.icon;
+                    return (
+                        <Link
+                            key={lesson.id}
+                            to={lessonStepPath(lesson, 0)}
+                            onMouseEnter={app.preload}
+                            onFocus={app.preload}
+                            onTouchStart={app.preload}
+                            className="group flex flex-col gap-4 rounded-2xl border border-slate-700/50 bg-slate-900/60 p-6 backdrop-blur-sm transition-all duration-300 hover:-translate-y-1 hover:border-cyan-500/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-400/70"
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={cn("p-2 rounded-xl bg-gradient-to-br", getAppCategory(app).color)}>
+                                    <Icon className="w-5 h-5 text-white" />
+                                </div>
+                                <span className="text-xs font-medium uppercase tracking-wider text-slate-400">{t(`apps.${app.id}.title`)}</span>
+                            </div>
+                            <h2 className="text-xl font-bold text-white group-hover:text-cyan-300 transition-colors">{localize(lesson.title, locale)}</h2>
+                            {lesson.description && <p className="flex-1 text-sm text-slate-400 leading-relaxed">{localize(lesson.description, locale)}</p>}
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-slate-500">{t("lessons.steps", { count: lesson.steps.length })}</span>
+                                <span className="flex items-center gap-1 font-semibold text-cyan-400">
+                                    {t("lessons.start")}
+                                    <ArrowRight className="w-4 h-4 transition-transform group-hover:translate-x-1" />
+                                </span>
+                            </div>
+                        </Link>
+                    );
+                })}
+
+                <div className="flex flex-col gap-4 rounded-2xl border border-dashed border-slate-700 p-6">
+                    <h2 className="text-xl font-bold text-white">{t("lessons.ownTitle")}</h2>
+                    <p className="flex-1 text-sm text-slate-400 leading-relaxed">{t("lessons.ownHint")}</p>
+                    <button
+                        onClick={() => fileRef.current?.click()}
+                        className="flex items-center justify-center gap-2 rounded-lg bg-slate-800 px-4 py-2 text-sm font-semibold text-slate-200 transition-colors hover:bg-slate-700"
+                    >
+                        <FolderOpen className="w-4 h-4" /> {t("lessons.open")}
+                    </button>
+                    {openError && <p role="alert" className="text-xs text-rose-400">{t("lessons.openFailed", { error: openError })}</p>}
+                    <input
+                        ref={fileRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={e => {
+                            openFile(e.target.files?.[0]);
+                            e.target.value = "";
+                        }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,7 +1,21 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { bundleBudget } from './plugins/bundleBudget'
+import { serviceWorker } from './plugins/serviceWorker'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // three.js (+ mathjs in Deformations) justifies the larger 3D budgets;
+    // EulerFlowTable carries KaTeX plus four tabs and the fluid sandbox.
+    // Going over a budget fails the build, so keep some room above the current size
+    bundleBudget({
+      entry: 150,
+      route: 100,
+      overrides: { Deformations: 430, StressTensor: 240, EulerFlowTable: 110 },
+    }),
+    // Offline support for classrooms with unreliable connectivity
+    serviceWorker(),
+  ],
 })